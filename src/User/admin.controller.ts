@@ -1,8 +1,32 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, HttpException, HttpStatus, UseGuards, UseInterceptors, UploadedFile } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  HttpException,
+  HttpStatus,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  Query,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
 import { UserService } from './user.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
-import { ApiBearerAuth, ApiBody, ApiConsumes, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
 import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
 import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
 import { FileInterceptor } from '@nestjs/platform-express';
@@ -10,32 +34,53 @@ import { diskStorage } from 'multer';
 import path from 'path';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { RolesGuard } from '../auth/guards/roles.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Permission } from './enums/permission.enum';
+import { OrganizationRequestStatus } from './enums/organization-request-status.enum';
+import { ReviewOrganizationRequestDto } from './dto/review-organization-request.dto';
+import { OffreModerationService } from '../offre/offre-moderation.service';
+import { ModerationStatus } from '../offre/schemas/offre.schema';
+import { ModerateOffreDto } from '../offre/dto/offre-moderation.dto';
+import type { UserDocument } from './schemas/user.schema';
 
 @ApiTags('admins')
 @Controller('admin')
 @Roles('admin')
 export class AdminController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly offreModerationService: OffreModerationService,
+  ) {}
 
   @Post('register')
+  @ApiBearerAuth()
   @ApiConsumes('multipart/form-data')
-  @ApiOperation({ summary: 'Register new user', description: 'Create a new user account with optional profile image' })
+  @ApiOperation({
+    summary: 'Register new user',
+    description:
+      'Create a user account with optional profile image. Public sign-up goes through auth/register',
+  })
   @ApiBody({
     description: 'User registration form with optional profile image',
-    type: CreateUserDto
+    type: CreateUserDto,
   })
   @ApiResponse({ status: 201, description: 'User successfully registered' })
   @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
   @ApiResponse({ status: 500, description: 'Problem niv serveur' })
-  @UseInterceptors(FileInterceptor('image', {
-    storage: diskStorage({
-      destination: './uploads',
-      filename: (req, file, cb) => {
-        const uniqueName = `${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(file.originalname)}`;
-        cb(null, uniqueName);
-      }
-    })
-  }))
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.USER_MANAGE)
+  @UseInterceptors(
+    FileInterceptor('image', {
+      storage: diskStorage({
+        destination: './uploads',
+        filename: (req, file, cb) => {
+          const uniqueName = `${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(file.originalname)}`;
+          cb(null, uniqueName);
+        },
+      }),
+    }),
+  )
   async create(
     @Body() createUserDto: CreateUserDto,
     @UploadedFile() image?: Express.Multer.File,
@@ -46,29 +91,36 @@ export class AdminController {
       if (error.name === 'ValidationError' || error.name === 'CastError') {
         throw new HttpException('Invalid input', HttpStatus.BAD_REQUEST);
       }
-      throw new HttpException('Problem au niveau serveur', HttpStatus.INTERNAL_SERVER_ERROR);
+      throw new HttpException(
+        'Problem au niveau serveur',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
     }
   }
 
   @Get('email-exists/:email')
   @ApiOperation({ summary: 'Check if email exists in system' })
-  @ApiResponse({ status: 200, description: 'Email existence check completed', schema: {
-  properties: {
-    exists: { type: 'boolean', example: true }
-  }
-  }})
+  @ApiResponse({
+    status: 200,
+    description: 'Email existence check completed',
+    schema: {
+      properties: {
+        exists: { type: 'boolean', example: true },
+      },
+    },
+  })
   async emailExists(@Param('email') email: string) {
-  const exists = await this.userService.checkEmailExists(email);
-  return { exists };
+    const exists = await this.userService.checkEmailExists(email);
+    return { exists };
   }
-  
+
   @Get('Get_All_Users')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get All users profile' })
   @ApiResponse({ status: 200, description: 'Get All users profile' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Admin Only' })
-  @UseGuards(JwtAuthGuard,RolesGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
   async findAll() {
     return this.userService.findAll();
   }
@@ -79,7 +131,7 @@ export class AdminController {
   @ApiResponse({ status: 200, description: 'delete All user profile' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Admin Only' })
-  @UseGuards(JwtAuthGuard,RolesGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
   Empty() {
     return this.userService.empty();
   }
@@ -90,7 +142,7 @@ export class AdminController {
   @ApiOperation({ summary: 'Update Any users profile' })
   @ApiResponse({ status: 200, description: 'update any user profile' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @UseGuards(JwtAuthGuard,RolesGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
   update(@Param('id') id: string, @Body() updateUserDto: UpdateUserDto) {
     return this.userService.update(id, updateUserDto);
   }
@@ -101,7 +153,7 @@ export class AdminController {
   @ApiResponse({ status: 200, description: 'delete any user profile' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Admin Only' })
-  @UseGuards(JwtAuthGuard,RolesGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
   remove(@Param('id') id: string) {
     return this.userService.remove(id);
   }
@@ -115,20 +167,23 @@ export class AdminController {
   @ApiResponse({ status: 403, description: 'Admin Only' })
   @UseGuards(JwtAuthGuard, RolesGuard)
   async findByEmail(@Param('email') email: string) {
-  const user = await this.userService.findByEmail(email);
+    const user = await this.userService.findByEmail(email);
 
-  if (!user) {
-    throw new HttpException('User not found', HttpStatus.NOT_FOUND);
-  }
+    if (!user) {
+      throw new HttpException('User not found', HttpStatus.NOT_FOUND);
+    }
 
-  return user;
+    return user;
   }
 
   @Patch(':id/archive/toggle')
   @ApiBearerAuth()
   @ApiConsumes('multipart/form-data')
   @ApiOperation({ summary: 'Toggle archive state for any user' })
-  @ApiResponse({ status: 200, description: 'Archive state toggled successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Archive state toggled successfully',
+  })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Admin Only' })
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -164,11 +219,212 @@ export class AdminController {
   @ApiBearerAuth()
   @ApiConsumes('multipart/form-data')
   @ApiOperation({ summary: 'Toggle organization status for any user' })
-  @ApiResponse({ status: 200, description: 'Organization status toggled successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Organization status toggled successfully',
+  })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Admin Only' })
   @UseGuards(JwtAuthGuard, RolesGuard)
   async toggleOrganization(@Param('id') id: string) {
     return this.userService.toggleOrganization(id);
   }
-}
\ No newline at end of file
+
+  @Get('organization-requests')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List organization requests' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: OrganizationRequestStatus,
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Users with an organization request in the given status (pending by default)',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.ORGANIZATION_REVIEW)
+  async findOrganizationRequests(
+    @Query('status') status?: OrganizationRequestStatus,
+  ) {
+    return this.userService.findOrganizationRequests(status);
+  }
+
+  @Patch('organization-requests/:userId/approve')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Approve an organization request, the user becomes an employer',
+  })
+  @ApiResponse({ status: 200, description: 'Request approved' })
+  @ApiResponse({ status: 400, description: 'No pending request' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.ORGANIZATION_REVIEW)
+  async approveOrganizationRequest(
+    @Param('userId') userId: string,
+    @Body() reviewDto: ReviewOrganizationRequestDto,
+    @CurrentUser() admin: UserDocument,
+  ) {
+    const adminId = admin._id.toString();
+    return this.userService.reviewOrganizationRequest(
+      userId,
+      adminId,
+      true,
+      reviewDto.note,
+    );
+  }
+
+  @Patch('organization-requests/:userId/reject')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reject an organization request' })
+  @ApiResponse({ status: 200, description: 'Request rejected' })
+  @ApiResponse({ status: 400, description: 'No pending request' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.ORGANIZATION_REVIEW)
+  async rejectOrganizationRequest(
+    @Param('userId') userId: string,
+    @Body() reviewDto: ReviewOrganizationRequestDto,
+    @CurrentUser() admin: UserDocument,
+  ) {
+    const adminId = admin._id.toString();
+    return this.userService.reviewOrganizationRequest(
+      userId,
+      adminId,
+      false,
+      reviewDto.note,
+    );
+  }
+
+  @Get('offres/moderation')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Offer moderation queue',
+    description: 'Most reported offers first, then the oldest waiting',
+  })
+  @ApiQuery({ name: 'status', required: false, enum: ModerationStatus })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Offers in the given moderation status (pending by default)',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Moderators Only' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'moderator')
+  @RequirePermissions(Permission.OFFER_MODERATE)
+  async findModerationQueue(
+    @Query('status') status?: ModerationStatus,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page = 1,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit = 20,
+  ) {
+    return this.offreModerationService.findQueue(
+      status,
+      Math.max(page, 1),
+      Math.min(Math.max(limit, 1), 50),
+    );
+  }
+
+  @Get('offres/:id/reports')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reports filed against an offer' })
+  @ApiResponse({ status: 200, description: 'Reports, newest first' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Moderators Only' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'moderator')
+  @RequirePermissions(Permission.OFFER_MODERATE)
+  async findOffreReports(@Param('id') id: string) {
+    return this.offreModerationService.findReports(id);
+  }
+
+  @Patch('offres/:id/approve')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Approve an offer, it goes live and its open reports are dismissed',
+  })
+  @ApiResponse({ status: 200, description: 'Offer approved' })
+  @ApiResponse({
+    status: 400,
+    description: 'Offer cannot be approved from its current status',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Moderators Only' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'moderator')
+  @RequirePermissions(Permission.OFFER_MODERATE)
+  async approveOffre(
+    @Param('id') id: string,
+    @Body() moderateDto: ModerateOffreDto,
+    @CurrentUser() moderator: UserDocument,
+  ) {
+    const moderatorId = moderator._id.toString();
+    return this.offreModerationService.review(
+      id,
+      moderatorId,
+      ModerationStatus.APPROVED,
+      moderateDto.note,
+    );
+  }
+
+  @Patch('offres/:id/reject')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reject a pending offer' })
+  @ApiResponse({ status: 200, description: 'Offer rejected' })
+  @ApiResponse({ status: 400, description: 'Offer is not pending' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Moderators Only' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'moderator')
+  @RequirePermissions(Permission.OFFER_MODERATE)
+  async rejectOffre(
+    @Param('id') id: string,
+    @Body() moderateDto: ModerateOffreDto,
+    @CurrentUser() moderator: UserDocument,
+  ) {
+    const moderatorId = moderator._id.toString();
+    return this.offreModerationService.review(
+      id,
+      moderatorId,
+      ModerationStatus.REJECTED,
+      moderateDto.note,
+    );
+  }
+
+  @Patch('offres/:id/take-down')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Take down an offer, it disappears and its open reports are upheld',
+  })
+  @ApiResponse({ status: 200, description: 'Offer taken down' })
+  @ApiResponse({
+    status: 400,
+    description: 'Offer cannot be taken down from its current status',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Moderators Only' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'moderator')
+  @RequirePermissions(Permission.OFFER_MODERATE)
+  async takeDownOffre(
+    @Param('id') id: string,
+    @Body() moderateDto: ModerateOffreDto,
+    @CurrentUser() moderator: UserDocument,
+  ) {
+    const moderatorId = moderator._id.toString();
+    return this.offreModerationService.review(
+      id,
+      moderatorId,
+      ModerationStatus.TAKEN_DOWN,
+      moderateDto.note,
+    );
+  }
+}
@@ -1,4 +1,15 @@
-import { IsArray, IsBoolean, IsEmail, IsEnum, IsNotEmpty, IsNumber, IsOptional, IsString, Min, MinLength } from 'class-validator';
+import {
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  MinLength,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Role } from '../enums/role.enum';
 import { Transform } from 'class-transformer';
@@ -9,33 +20,57 @@ export class CreateUserDto {
   @IsString()
   nom: string;
 
-  @ApiProperty({ description: 'Email du producteur', example: 'user@example.com' })
+  @ApiProperty({
+    description: 'Email du producteur',
+    example: 'user@example.com',
+  })
   @IsNotEmpty()
   @IsEmail()
   email: string;
 
-  @ApiProperty({ description: 'User password', example: 'StrongP@assw0rd', minLength: 6 })
+  @ApiProperty({
+    description: 'User password',
+    example: 'StrongP@assw0rd',
+    minLength: 6,
+  })
   @IsNotEmpty()
   @IsString()
   @MinLength(6)
   password: string;
 
-  @ApiProperty({ description: 'User role (admin or user)', enum: Role, default: Role.USER, required: false })
+  @ApiProperty({
+    description: 'User role',
+    enum: Role,
+    default: Role.STUDENT,
+    required: false,
+  })
   @IsOptional()
   @IsEnum(Role)
   role?: Role;
 
-  @ApiProperty({ description: 'Contact du producteur', example: '+216 21 000 000' })
+  @ApiProperty({
+    description: 'Contact du producteur',
+    example: '+216 21 000 000',
+  })
   @IsNotEmpty()
   @IsString()
   contact: string;
 
-  @ApiProperty({ description: 'Profile image file', type: 'string', format: 'binary', required: false })
+  @ApiProperty({
+    description: 'Profile image file',
+    type: 'string',
+    format: 'binary',
+    required: false,
+  })
   @IsOptional()
   @IsString()
   image?: string;
 
-  @ApiProperty({ description: 'Mode examens activé ou non', example: false, required: false })
+  @ApiProperty({
+    description: 'Mode examens activé ou non',
+    example: false,
+    required: false,
+  })
   @IsOptional()
   @IsBoolean()
   @Transform(({ value }) => {
@@ -45,7 +80,11 @@ export class CreateUserDto {
   })
   modeExamens?: boolean;
 
-  @ApiProperty({ description: 'Archived status', example: false, required: false })
+  @ApiProperty({
+    description: 'Archived status',
+    example: false,
+    required: false,
+  })
   @IsOptional()
   @IsBoolean()
   @Transform(({ value }) => {
@@ -55,7 +94,11 @@ export class CreateUserDto {
   })
   is_archive?: boolean;
 
-  @ApiProperty({ description: 'Trust experience points', example: 0, required: false })
+  @ApiProperty({
+    description: 'Trust experience points',
+    example: 0,
+    required: false,
+  })
   @IsOptional()
   @IsNumber()
   @Transform(({ value }) => {
@@ -64,7 +107,11 @@ export class CreateUserDto {
   })
   TrustXP?: number;
 
-  @ApiProperty({ description: 'Organization status', example: false, required: false })
+  @ApiProperty({
+    description: 'Organization status',
+    example: false,
+    required: false,
+  })
   @IsOptional()
   @IsBoolean()
   @Transform(({ value }) => {
@@ -74,8 +121,11 @@ export class CreateUserDto {
   })
   is_Organization?: boolean;
 
-
-  @ApiProperty({ description: 'Array of liked offer IDs', example: [], required: false })
+  @ApiProperty({
+    description: 'Array of liked offer IDs',
+    example: [],
+    required: false,
+  })
   @IsOptional()
   @IsArray()
   @Transform(({ value }) => {
@@ -98,7 +148,11 @@ export class CreateUserDto {
   })
   likedOffres?: string[];
 
-  @ApiProperty({ description: 'Array of chat IDs', example: ['507f1f77bcf86cd799439011'], required: false })
+  @ApiProperty({
+    description: 'Array of chat IDs',
+    example: ['507f1f77bcf86cd799439011'],
+    required: false,
+  })
   @IsOptional()
   @IsArray()
   @Transform(({ value }) => {
@@ -119,7 +173,11 @@ export class CreateUserDto {
   })
   chats?: string[];
 
-  @ApiProperty({ description: 'Array of blocked user IDs', example: ['507f1f77bcf86cd799439011'], required: false })
+  @ApiProperty({
+    description: 'Array of blocked user IDs',
+    example: ['507f1f77bcf86cd799439011'],
+    required: false,
+  })
   @IsOptional()
   @IsArray()
   @Transform(({ value }) => {
@@ -140,7 +198,11 @@ export class CreateUserDto {
   })
   blockedUsers?: string[];
 
-  @ApiProperty({ description: 'Is user online', example: false, required: false })
+  @ApiProperty({
+    description: 'Is user online',
+    example: false,
+    required: false,
+  })
   @IsOptional()
   @IsBoolean()
   @Transform(({ value }) => {
@@ -150,8 +212,15 @@ export class CreateUserDto {
   })
   isOnline?: boolean;
 
-  @ApiProperty({ description: 'Current status', enum: ['active', 'inactive', 'busy'], example: 'active', required: false })
+  @ApiProperty({
+    description: 'Current status',
+    enum: ['active', 'inactive', 'busy'],
+    example: 'active',
+    required: false,
+  })
   @IsOptional()
-  @IsEnum(['active', 'inactive', 'busy'], { message: 'Status must be active, inactive, or busy' })
+  @IsEnum(['active', 'inactive', 'busy'], {
+    message: 'Status must be active, inactive, or busy',
+  })
   Currentstatus?: string;
-}
\ No newline at end of file
+}
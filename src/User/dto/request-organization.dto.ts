@@ -0,0 +1,23 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RequestOrganizationDto {
+  @ApiProperty({
+    description: 'Name of the organization',
+    example: 'Café des Arts',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  companyName: string;
+
+  @ApiProperty({
+    description: 'Why the account should be allowed to publish offers',
+    example: 'We hire students for weekend shifts',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  message?: string;
+}
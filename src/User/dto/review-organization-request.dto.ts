@@ -0,0 +1,14 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReviewOrganizationRequestDto {
+  @ApiProperty({
+    description: 'Note sent to the requester',
+    example: 'Please provide your tax registration number',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
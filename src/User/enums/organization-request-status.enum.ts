@@ -0,0 +1,5 @@
+export enum OrganizationRequestStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
@@ -0,0 +1,8 @@
+export enum Permission {
+  OFFER_MANAGE = 'offer:manage',
+  OFFER_MODERATE = 'offer:moderate',
+  RECLAMATION_MANAGE = 'reclamation:manage',
+  ORGANIZATION_REVIEW = 'organization:review',
+  COMPANY_VERIFY = 'company:verify',
+  USER_MANAGE = 'user:manage',
+}
@@ -1,4 +1,8 @@
 export enum Role {
-  USER = 'user',
+  STUDENT = 'student',
+  EMPLOYER = 'employer',
+  MODERATOR = 'moderator',
   ADMIN = 'admin',
-}
\ No newline at end of file
+  /** @deprecated accounts created before roles were split, treated as students */
+  USER = 'user',
+}
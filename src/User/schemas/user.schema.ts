@@ -2,9 +2,13 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import { Role } from '../enums/role.enum';
+import { OrganizationRequestStatus } from '../enums/organization-request-status.enum';
 
 export type UserDocument = HydratedDocument<User>;
 
+// How often open sockets refresh lastSeen, well under PRESENCE_STALE_MINUTES
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000;
+
 @Schema({
   timestamps: {
     createdAt: 'createdAt',
@@ -37,11 +41,17 @@ export class User {
     unique: true,
     lowercase: true,
     trim: true,
-    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email'],
+    match: [
+      /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/,
+      'Please enter a valid email',
+    ],
   })
   email: string;
 
-  @ApiProperty({ description: 'User password (hashed)', example: 'hashedPassword123' })
+  @ApiProperty({
+    description: 'User password (hashed)',
+    example: 'hashedPassword123',
+  })
   @Prop({
     required: [true, 'Password is required'],
     select: false,
@@ -49,11 +59,40 @@ export class User {
   })
   password: string;
 
-  @ApiProperty({ description: 'User role', enum: Role, example: Role.USER })
+  @ApiProperty({
+    description: 'Email address confirmed by the user',
+    example: false,
+  })
+  @Prop({
+    type: Boolean,
+    default: false,
+  })
+  emailVerified: boolean;
+
+  @ApiProperty({
+    description: 'Email confirmation timestamp',
+    example: '2023-10-05T14:48:00.000Z',
+    required: false,
+  })
+  @Prop({ type: Date })
+  emailVerifiedAt?: Date;
+
+  // One-time password reset token (sha256), cleared once used
+  @Prop({ type: String, select: false })
+  passwordResetTokenHash?: string;
+
+  @Prop({ type: Date, select: false })
+  passwordResetExpiresAt?: Date;
+
+  // Private iCalendar feed token (sha256), replaced when the user rotates it
+  @Prop({ type: String, select: false })
+  calendarFeedTokenHash?: string;
+
+  @ApiProperty({ description: 'User role', enum: Role, example: Role.STUDENT })
   @Prop({
     type: String,
     enum: Object.values(Role),
-    default: Role.USER,
+    default: Role.STUDENT,
     validate: {
       validator: function (value: Role) {
         return Object.values(Role).includes(value);
@@ -63,7 +102,10 @@ export class User {
   })
   role: Role;
 
-  @ApiProperty({ description: 'User contact information', example: '+216 21 000 000' })
+  @ApiProperty({
+    description: 'User contact information',
+    example: '+216 21 000 000',
+  })
   @Prop({
     required: [true, 'Contact is required'],
     trim: true,
@@ -96,6 +138,17 @@ export class User {
   })
   is_archive: boolean;
 
+  @ApiProperty({
+    description:
+      'Student open to work: employers can find them without an application',
+    example: false,
+  })
+  @Prop({
+    type: Boolean,
+    default: false,
+  })
+  openToWork: boolean;
+
   @ApiProperty({ description: 'Trust experience points', example: 0 })
   @Prop({
     type: Number,
@@ -129,7 +182,10 @@ export class User {
   ])
   likedOffres: Types.ObjectId[];
 
-  @ApiProperty({ description: 'Array of chat IDs', example: ['507f1f77bcf86cd799439011'] })
+  @ApiProperty({
+    description: 'Array of chat IDs',
+    example: ['507f1f77bcf86cd799439011'],
+  })
   @Prop([
     {
       type: Types.ObjectId,
@@ -160,7 +216,10 @@ export class User {
   })
   isOnline: boolean;
 
-  @ApiProperty({ description: 'Last seen timestamp', example: '2023-10-05T14:48:00.000Z' })
+  @ApiProperty({
+    description: 'Last seen timestamp',
+    example: '2023-10-05T14:48:00.000Z',
+  })
   @Prop({
     type: Date,
     default: Date.now,
@@ -181,10 +240,16 @@ export class User {
   })
   Currentstatus: string;
 
-  @ApiProperty({ description: 'Creation timestamp', example: '2023-10-05T14:48:00.000Z' })
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2023-10-05T14:48:00.000Z',
+  })
   createdAt: Date;
 
-  @ApiProperty({ description: 'Last update timestamp', example: '2023-10-05T14:48:00.000Z' })
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2023-10-05T14:48:00.000Z',
+  })
   updatedAt: Date;
 
   // ---------- Profil CV depuis IA ----------
@@ -212,6 +277,46 @@ export class User {
   @Prop({ type: [String], default: [] })
   cvSkills: string[];
 
+  @ApiProperty({
+    description: 'Company the user recruits for',
+    example: '507f1f77bcf86cd799439031',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Company', default: null })
+  company?: Types.ObjectId | null;
+
+  @ApiProperty({
+    description: 'Request to become an organization, reviewed by an admin',
+    required: false,
+    example: {
+      status: OrganizationRequestStatus.PENDING,
+      companyName: 'Café des Arts',
+      message: 'We hire students for weekend shifts',
+      requestedAt: '2023-10-05T14:48:00.000Z',
+    },
+  })
+  @Prop({
+    type: {
+      status: { type: String, enum: Object.values(OrganizationRequestStatus) },
+      companyName: { type: String, trim: true },
+      message: { type: String, trim: true },
+      requestedAt: { type: Date },
+      reviewedBy: { type: Types.ObjectId, ref: 'User' },
+      reviewedAt: { type: Date },
+      reviewNote: { type: String, trim: true },
+    },
+    required: false,
+  })
+  organizationRequest?: {
+    status: OrganizationRequestStatus;
+    companyName: string;
+    message?: string;
+    requestedAt: Date;
+    reviewedBy?: Types.ObjectId;
+    reviewedAt?: Date;
+    reviewNote?: string;
+  };
+
   // ---------- Virtual: trust level ----------
   @ApiProperty({
     description: 'Trust level information',
@@ -268,8 +373,12 @@ UserSchema.index({ email: 1 });
 UserSchema.index({ role: 1 });
 UserSchema.index({ is_archive: 1, is_Organization: 1 });
 UserSchema.index({ TrustXP: -1 });
+UserSchema.index({ openToWork: 1, role: 1 });
 UserSchema.index({ createdAt: -1 });
 UserSchema.index({ likedOffres: 1 });
+UserSchema.index({ 'organizationRequest.status': 1 });
+UserSchema.index({ company: 1 });
+UserSchema.index({ calendarFeedTokenHash: 1 }, { unique: true, sparse: true });
 
 // Middleware
 UserSchema.pre('save', function (next) {
@@ -14,6 +14,7 @@ import {
   BadRequestException,
   NotFoundException,
   HttpCode,
+  ForbiddenException,
 } from '@nestjs/common';
 import { UserService } from './user.service';
 import { CreateUserDto } from './dto/create-user.dto';
@@ -34,6 +35,9 @@ import type { UserDocument } from './schemas/user.schema';
 import * as fs from 'fs';
 import { ResetPasswordDto } from './dto/reset-password-dto';
 import { CreateProfileFromCvDto } from './dto/create-profile-from-cv.dto';
+import { RequestOrganizationDto } from './dto/request-organization.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RolesGuard } from '../auth/guards/roles.guard';
 
 @Controller('user/me')
 export class UserController {
@@ -64,14 +68,17 @@ export class UserController {
     return {
       imageUrl: `uploads/${user.image}`,
       filename: user.image,
-      username: user.nom
+      username: user.nom,
     };
   }
 
   @Get('image/:userId')
   @ApiOperation({ summary: 'Get user profile image URL by user ID' })
   @ApiResponse({ status: 200, description: 'Returns image URL' })
-  @ApiResponse({ status: 404, description: 'User not found or has no profile image' })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found or has no profile image',
+  })
   async getImageById(@Param('userId') userId: string) {
     const user = await this.userService.findOne(userId);
 
@@ -82,7 +89,7 @@ export class UserController {
     return {
       imageUrl: `uploads/${user.image}`,
       filename: user.image,
-      username: user.nom
+      username: user.nom,
     };
   }
 
@@ -95,6 +102,9 @@ export class UserController {
   @UseGuards(JwtAuthGuard)
   update(@CurrentUser() user: any, @Body() updateUserDto: UpdateUserDto) {
     const id = user.userId || user._id || user.id;
+    // Organization status and trust XP are granted by admins only
+    delete updateUserDto.is_Organization;
+    delete updateUserDto.TrustXP;
     return this.userService.update(id, updateUserDto);
   }
 
@@ -168,12 +178,27 @@ export class UserController {
   }
 
   @Patch('reset-password')
+  @ApiBearerAuth()
   @ApiConsumes('multipart/form-data')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Reset user password by email' })
+  @ApiOperation({
+    summary:
+      'Change the password of the current user (use POST auth/forgot-password when logged out)',
+  })
   @ApiResponse({ status: 200, description: 'Password reset successfully' })
+  @ApiResponse({
+    status: 403,
+    description: 'Email does not belong to the current user',
+  })
   @ApiResponse({ status: 404, description: 'User not found' })
-  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+  @UseGuards(JwtAuthGuard)
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (user.email !== resetPasswordDto.email.toLowerCase().trim()) {
+      throw new ForbiddenException('You can only change your own password');
+    }
     return this.userService.resetPassword(resetPasswordDto);
   }
 
@@ -207,13 +232,38 @@ export class UserController {
     return this.userService.switchArchiveState(id);
   }
 
+  @Patch('open-to-work/toggle')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Toggle open to work for current student',
+    description:
+      'Open to work students can be ranked by employers for offers they did not apply to',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Open to work state toggled successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Only students can be open to work',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @UseGuards(JwtAuthGuard)
+  async toggleOpenToWork(@CurrentUser() user: UserDocument) {
+    const id = user._id.toString();
+    return this.userService.toggleOpenToWork(id);
+  }
+
   @Patch('trust/level-up/:xp')
   @ApiBearerAuth()
   @ApiConsumes('multipart/form-data')
-  @ApiOperation({ summary: 'Increase trust XP' })
+  @ApiOperation({ summary: 'Increase own trust XP (admins only)' })
   @ApiResponse({ status: 200, description: 'Trust XP increased successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @UseGuards(JwtAuthGuard)
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  // Trust XP lets offers skip moderation, so users cannot grant it to themselves
+  @Roles('admin')
+  @UseGuards(JwtAuthGuard, RolesGuard)
   async levelUp(@CurrentUser() user: any, @Param('xp') xp: number) {
     const id = user.userId || user._id || user.id;
     return this.userService.levelUp(id, xp);
@@ -222,13 +272,15 @@ export class UserController {
   @Patch('trust/level-down/:xp')
   @ApiBearerAuth()
   @ApiConsumes('multipart/form-data')
-  @ApiOperation({ summary: 'Decrease trust XP' })
+  @ApiOperation({ summary: 'Decrease own trust XP (admins only)' })
   @ApiResponse({
     status: 200,
     description: 'Trust XP decreased successfully',
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @UseGuards(JwtAuthGuard)
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  @Roles('admin')
+  @UseGuards(JwtAuthGuard, RolesGuard)
   async levelDown(@CurrentUser() user: any, @Param('xp') xp: number) {
     const id = user.userId || user._id || user.id;
     return this.userService.levelDown(id, xp);
@@ -245,19 +297,39 @@ export class UserController {
     return this.userService.getTrustLevel(id);
   }
 
-  @Patch('organization/toggle')
+  @Post('organization/request')
   @ApiBearerAuth()
-  @ApiConsumes('multipart/form-data')
-  @ApiOperation({ summary: 'Toggle organization status' })
+  @ApiOperation({
+    summary: 'Ask an admin to turn this account into an organization',
+  })
+  @ApiResponse({ status: 201, description: 'Request submitted' })
+  @ApiResponse({
+    status: 409,
+    description: 'Already an organization or request pending',
+  })
+  @UseGuards(JwtAuthGuard)
+  async requestOrganization(
+    @CurrentUser() user: UserDocument,
+    @Body() requestOrganizationDto: RequestOrganizationDto,
+  ) {
+    const id = user._id.toString();
+    const updated = await this.userService.requestOrganization(
+      id,
+      requestOrganizationDto,
+    );
+    return updated.organizationRequest;
+  }
+
+  @Get('organization/request')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the status of my organization request' })
   @ApiResponse({
     status: 200,
-    description: 'Organization status toggled successfully',
+    description: 'Returns the request, or null if none was made',
   })
-  @ApiResponse({ status: 401, description: 'Unauthorized' })
   @UseGuards(JwtAuthGuard)
-  async toggleOrganization(@CurrentUser() user: any) {
-    const id = user.userId || user._id || user.id;
-    return this.userService.toggleOrganization(id);
+  getOrganizationRequest(@CurrentUser() user: UserDocument) {
+    return user.organizationRequest ?? null;
   }
 
   @Get('liked-offres')
@@ -271,7 +343,7 @@ export class UserController {
     const likedOffres = await this.userService.getLikedOffres(id);
 
     return {
-      likedOffres: likedOffres.map(id => id.toString())
+      likedOffres: likedOffres.map((id) => id.toString()),
     };
   }
 
@@ -283,7 +355,7 @@ export class UserController {
   @UseGuards(JwtAuthGuard)
   async addLikedOffre(
     @CurrentUser() user: any,
-    @Param('offreId') offreId: string
+    @Param('offreId') offreId: string,
   ) {
     const id = user.userId || user._id || user.id;
     return this.userService.addLikedOffre(id, offreId);
@@ -297,7 +369,7 @@ export class UserController {
   @UseGuards(JwtAuthGuard)
   async removeLikedOffre(
     @CurrentUser() user: any,
-    @Param('offreId') offreId: string
+    @Param('offreId') offreId: string,
   ) {
     const id = user.userId || user._id || user.id;
     return this.userService.removeLikedOffre(id, offreId);
@@ -349,24 +421,24 @@ export class UserController {
           phone: '+33 6 12 34 56 78',
           experience: [
             'Développeur Senior chez ABC Corp (2020-2024)',
-            'Développeur Junior chez XYZ Ltd (2018-2020)'
+            'Développeur Junior chez XYZ Ltd (2018-2020)',
           ],
           education: [
             'Master en Informatique - Université Paris (2018)',
-            'Licence en Mathématiques - Université Lyon (2016)'
+            'Licence en Mathématiques - Université Lyon (2016)',
           ],
-          skills: ['JavaScript', 'TypeScript', 'Python', 'React', 'NestJS']
-        }
+          skills: ['JavaScript', 'TypeScript', 'Python', 'React', 'NestJS'],
+        },
       },
       partial: {
         summary: 'Partial CV data (only some fields)',
         value: {
           name: 'Marie Martin',
           experience: ['Chef de projet chez Tech Inc'],
-          skills: ['Management', 'Agile', 'Scrum']
-        }
-      }
-    }
+          skills: ['Management', 'Agile', 'Scrum'],
+        },
+      },
+    },
   })
   @ApiResponse({
     status: 200,
@@ -379,20 +451,20 @@ export class UserController {
         contact: '+33 6 12 34 56 78',
         cvExperience: [
           'Développeur Senior chez ABC Corp (2020-2024)',
-          'Développeur Junior chez XYZ Ltd (2018-2020)'
+          'Développeur Junior chez XYZ Ltd (2018-2020)',
         ],
         cvEducation: [
           'Master en Informatique - Université Paris (2018)',
-          'Licence en Mathématiques - Université Lyon (2016)'
+          'Licence en Mathématiques - Université Lyon (2016)',
         ],
         cvSkills: ['JavaScript', 'TypeScript', 'Python', 'React', 'NestJS'],
         role: 'user',
         TrustXP: 100,
         profileCompletion: 95,
         createdAt: '2024-01-01T00:00:00.000Z',
-        updatedAt: '2024-01-15T10:30:00.000Z'
-      }
-    }
+        updatedAt: '2024-01-15T10:30:00.000Z',
+      },
+    },
   })
   @ApiResponse({
     status: 400,
@@ -401,22 +473,23 @@ export class UserController {
       example: {
         statusCode: 400,
         message: 'Invalid input',
-        errors: [
-          { field: 'email', message: 'Must be a valid email address' }
-        ]
-      }
-    }
+        errors: [{ field: 'email', message: 'Must be a valid email address' }],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - JWT token required',
   })
-  @ApiResponse({ status: 401, description: 'Unauthorized - JWT token required' })
   @ApiResponse({
     status: 404,
     description: 'User not found',
     schema: {
       example: {
         statusCode: 404,
-        message: 'User not found'
-      }
-    }
+        message: 'User not found',
+      },
+    },
   })
   @UseGuards(JwtAuthGuard)
   async createOrUpdateProfileFromCv(
@@ -427,7 +500,6 @@ export class UserController {
     return this.userService.createOrUpdateProfileFromCv(id, body);
   }
 
-
   @Get(':id/trust/level')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get trust level for any user' })
@@ -1,13 +1,21 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { UserService } from './user.service';
 import { UserController } from './user.controller';
 import { MongooseModule } from '@nestjs/mongoose';
 import { User, UserSchema } from './schemas/user.schema';
 import { AdminController } from './admin.controller';
+import { NotificationModule } from '../notification/notification.module';
+import { OffreModule } from '../offre/offre.module';
+import { AiMatchingModule } from '../ai-matching/ai-matching.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    NotificationModule,
+    OffreModule,
+    AiMatchingModule,
+    forwardRef(() => AuthModule),
   ],
   controllers: [AdminController, UserController],
   providers: [UserService],
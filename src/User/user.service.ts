@@ -1,4 +1,12 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Inject,
+  Logger,
+  forwardRef,
+} from '@nestjs/common';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { InjectModel } from '@nestjs/mongoose';
@@ -8,11 +16,25 @@ import * as bcrypt from 'bcrypt';
 import { ResetPasswordDto } from './dto/reset-password-dto';
 import { CreateProfileFromCvDto } from './dto/create-profile-from-cv.dto';
 import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { Role } from './enums/role.enum';
+import { OrganizationRequestStatus } from './enums/organization-request-status.enum';
+import { RequestOrganizationDto } from './dto/request-organization.dto';
+import { NotificationService } from '../notification/notification.service';
+import { NotificationType } from '../notification/schemas/notification.schema';
+import { getEffectiveRole } from '../auth/role-permissions';
+import { MatchIndexService } from '../ai-matching/match-index.service';
+import { AuthService } from '../auth/auth.service';
 
 @Injectable()
 export class UserService {
+  private readonly logger = new Logger(UserService.name);
+
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly notificationService: NotificationService,
+    private readonly matchIndexService: MatchIndexService,
+    @Inject(forwardRef(() => AuthService))
+    private readonly authService: AuthService,
   ) {}
 
   async create(
@@ -65,12 +87,42 @@ export class UserService {
     id: string,
     updateUserDto: UpdateUserDto,
   ): Promise<UserDocument> {
+    const current = await this.userModel.findById(id).select('email').exec();
+    if (!current) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    const changes: Record<string, unknown> = { ...updateUserDto };
+    const email = updateUserDto.email?.toLowerCase().trim();
+    const emailChanged = !!email && email !== current.email;
+    if (email) {
+      changes.email = email;
+    }
+    if (emailChanged) {
+      if (await this.userModel.exists({ email, _id: { $ne: current._id } })) {
+        throw new ConflictException('Email already exists');
+      }
+      // The new address has to be verified again
+      changes.emailVerified = false;
+      changes.emailVerifiedAt = null;
+    }
+
     const user = await this.userModel
-      .findByIdAndUpdate(id, updateUserDto, { new: true })
+      .findByIdAndUpdate(id, changes, { new: true })
       .exec();
     if (!user) {
       throw new NotFoundException(`User with ID ${id} not found`);
     }
+
+    if (emailChanged) {
+      try {
+        await this.authService.sendVerificationEmail(user);
+      } catch (error) {
+        this.logger.error(
+          `Verification email not sent to ${user.email}: ${(error as Error).message}`,
+        );
+      }
+    }
     return user;
   }
 
@@ -138,6 +190,55 @@ export class UserService {
     return { message: 'Password reset successfully' };
   }
 
+  async markEmailVerified(userId: string): Promise<UserDocument> {
+    const user = await this.userModel
+      .findByIdAndUpdate(
+        userId,
+        { emailVerified: true, emailVerifiedAt: new Date() },
+        { new: true },
+      )
+      .exec();
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    return user;
+  }
+
+  async setPasswordResetToken(
+    userId: string,
+    tokenHash: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.userModel
+      .findByIdAndUpdate(userId, {
+        passwordResetTokenHash: tokenHash,
+        passwordResetExpiresAt: expiresAt,
+      })
+      .exec();
+  }
+
+  /** Sets the new password only if the reset token is still valid, and burns the token */
+  async consumePasswordResetToken(
+    tokenHash: string,
+    newPassword: string,
+  ): Promise<UserDocument | null> {
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+    return this.userModel
+      .findOneAndUpdate(
+        {
+          passwordResetTokenHash: tokenHash,
+          passwordResetExpiresAt: { $gt: new Date() },
+        },
+        {
+          password: hashedPassword,
+          $unset: { passwordResetTokenHash: 1, passwordResetExpiresAt: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
   async toggleExamMode(userId: string): Promise<UserDocument> {
     const user = await this.userModel.findById(userId);
     if (!user) {
@@ -158,6 +259,19 @@ export class UserService {
     return user.save();
   }
 
+  async toggleOpenToWork(userId: string): Promise<UserDocument> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    if (getEffectiveRole(user) !== Role.STUDENT) {
+      throw new BadRequestException('Only students can be open to work');
+    }
+
+    user.openToWork = !user.openToWork;
+    return user.save();
+  }
+
   async levelUp(userId: string, xp: number): Promise<UserDocument> {
     const user = await this.userModel.findById(userId);
     if (!user) {
@@ -213,6 +327,59 @@ export class UserService {
     };
   }
 
+  async updatePresence(
+    userId: string,
+    isOnline: boolean,
+  ): Promise<UserDocument | null> {
+    return this.userModel
+      .findByIdAndUpdate(
+        userId,
+        { isOnline, lastSeen: new Date() },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /** Heartbeat of a connected socket, keeps the user from being swept offline */
+  async touchPresence(userId: string): Promise<void> {
+    await this.userModel
+      .updateOne({ _id: userId }, { isOnline: true, lastSeen: new Date() })
+      .exec();
+  }
+
+  /**
+   * Server-side heartbeat of the sockets open on one instance. Only users
+   * already online are touched, a socket alone never brings a user online.
+   */
+  async refreshLastSeen(userIds: string[]): Promise<void> {
+    const ids = userIds
+      .filter((id) => Types.ObjectId.isValid(id))
+      .map((id) => new Types.ObjectId(id));
+    if (ids.length === 0) {
+      return;
+    }
+    await this.userModel
+      .updateMany(
+        { _id: { $in: ids }, isOnline: true },
+        { lastSeen: new Date() },
+      )
+      .exec();
+  }
+
+  /**
+   * Marks offline the users whose connection went away without a disconnect.
+   * Open sockets on every instance keep lastSeen fresh (PRESENCE_HEARTBEAT_MS).
+   */
+  async markStaleUsersOffline(before: Date): Promise<{ updated: number }> {
+    const result = await this.userModel
+      .updateMany(
+        { isOnline: true, lastSeen: { $lt: before } },
+        { isOnline: false },
+      )
+      .exec();
+    return { updated: result.modifiedCount };
+  }
+
   async toggleOrganization(userId: string): Promise<UserDocument> {
     const user = await this.userModel.findById(userId);
     if (!user) {
@@ -220,18 +387,115 @@ export class UserService {
     }
 
     user.is_Organization = !user.is_Organization;
+    // Keep the role in sync for plain accounts, staff roles are left untouched
+    const role = getEffectiveRole(user);
+    if (user.is_Organization && role === Role.STUDENT) {
+      user.role = Role.EMPLOYER;
+    } else if (!user.is_Organization && role === Role.EMPLOYER) {
+      user.role = Role.STUDENT;
+    }
     return user.save();
   }
 
-  async addLikedOffre(
+  async requestOrganization(
     userId: string,
-    offreId: string,
+    requestOrganizationDto: RequestOrganizationDto,
+  ): Promise<UserDocument> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    if (getEffectiveRole(user) === Role.EMPLOYER || user.is_Organization) {
+      throw new ConflictException('This account is already an organization');
+    }
+
+    if (
+      user.organizationRequest?.status === OrganizationRequestStatus.PENDING
+    ) {
+      throw new ConflictException('An organization request is already pending');
+    }
+
+    user.organizationRequest = {
+      status: OrganizationRequestStatus.PENDING,
+      companyName: requestOrganizationDto.companyName,
+      message: requestOrganizationDto.message,
+      requestedAt: new Date(),
+    };
+    return user.save();
+  }
+
+  async findOrganizationRequests(
+    status: OrganizationRequestStatus = OrganizationRequestStatus.PENDING,
+  ): Promise<UserDocument[]> {
+    return this.userModel
+      .find({ 'organizationRequest.status': status })
+      .select(
+        'nom email contact image role TrustXP is_Organization organizationRequest createdAt',
+      )
+      .sort({ 'organizationRequest.requestedAt': 1 })
+      .exec();
+  }
+
+  async reviewOrganizationRequest(
+    userId: string,
+    reviewerId: string,
+    approved: boolean,
+    note?: string,
   ): Promise<UserDocument> {
     const user = await this.userModel.findById(userId);
     if (!user) {
       throw new NotFoundException(`User with ID ${userId} not found`);
     }
 
+    if (
+      user.organizationRequest?.status !== OrganizationRequestStatus.PENDING
+    ) {
+      throw new BadRequestException(
+        'This user has no pending organization request',
+      );
+    }
+
+    user.organizationRequest = {
+      ...user.organizationRequest,
+      status: approved
+        ? OrganizationRequestStatus.APPROVED
+        : OrganizationRequestStatus.REJECTED,
+      reviewedBy: new Types.ObjectId(reviewerId),
+      reviewedAt: new Date(),
+      reviewNote: note,
+    };
+
+    if (approved) {
+      user.is_Organization = true;
+      if (getEffectiveRole(user) === Role.STUDENT) {
+        user.role = Role.EMPLOYER;
+      }
+    }
+
+    const saved = await user.save();
+
+    await this.notificationService.notify({
+      recipient: saved._id,
+      type: NotificationType.ORGANIZATION_REQUEST,
+      title: approved
+        ? 'Organization request approved'
+        : 'Organization request rejected',
+      body: approved
+        ? 'You can now publish job offers'
+        : note || 'Your organization request was not approved',
+      data: { status: saved.organizationRequest?.status },
+    });
+
+    return saved;
+  }
+
+  async addLikedOffre(userId: string, offreId: string): Promise<UserDocument> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
     if (!user.likedOffres.includes(new Types.ObjectId(offreId))) {
       user.likedOffres.push(new Types.ObjectId(offreId));
     }
@@ -277,13 +541,17 @@ export class UserService {
     userId: string,
     cv: CreateProfileFromCvDto,
   ): Promise<UserDocument> {
+    // Same uniqueness check and re-verification as a profile edit
+    if (cv.email) {
+      await this.update(userId, { email: cv.email } as UpdateUserDto);
+    }
+
     const user = await this.userModel.findById(userId);
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
     if (cv.name) user.nom = cv.name;
-    if (cv.email) user.email = cv.email;
     if (cv.phone) user.contact = cv.phone;
 
     user.cvExperience = cv.experience ?? [];
@@ -291,6 +559,7 @@ export class UserService {
     user.cvSkills = cv.skills ?? [];
 
     await user.save();
+    this.matchIndexService.markStale(userId);
     return user;
   }
-}
\ No newline at end of file
+}
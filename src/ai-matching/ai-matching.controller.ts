@@ -1,38 +1,89 @@
-import { Controller, Post, Body, UseGuards, Req, Get, Param } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  Req,
+  Get,
+  Param,
+  Query,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
 import { AiMatchingService } from './ai-matching.service';
+import { MatchIndexService } from './match-index.service';
 import { MatchingRequestDto } from './dto/matching-request.dto';
 import { MatchingResponseDto } from './dto/matching-response.dto';
+import { MatchFeedResponseDto } from './dto/match-feed-response.dto';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
 
 @ApiTags('AI Matching')
 @Controller('ai-matching')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class AiMatchingController {
-  constructor(private readonly aiMatchingService: AiMatchingService) {}
+  constructor(
+    private readonly aiMatchingService: AiMatchingService,
+    private readonly matchIndexService: MatchIndexService,
+  ) {}
+
+  @Get('feed')
+  @ApiOperation({
+    summary: "Fil d'offres personnalisé",
+    description:
+      'Offres actives classées par score de compatibilité, à partir des préférences et disponibilités enregistrées. Les scores sont précalculés et mis à jour en arrière-plan',
+  })
+  @ApiQuery({ name: 'page', required: false, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, example: 20 })
+  @ApiResponse({
+    status: 200,
+    description: 'Offres classées avec le détail des scores et les raisons',
+    type: MatchFeedResponseDto,
+  })
+  async getFeed(
+    @CurrentUser() user: UserDocument,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ): Promise<MatchFeedResponseDto> {
+    return this.matchIndexService.getFeed(
+      user._id.toString(),
+      Math.max(1, page),
+      Math.min(Math.max(1, limit), 50),
+    );
+  }
 
   @Post('analyze')
-  @ApiOperation({ 
-    summary: 'Analyse et matche les offres avec les disponibilités de l\'étudiant',
-    description: 'Utilise l\'IA pour calculer la compatibilité entre les disponibilités d\'un étudiant et les offres disponibles'
+  @ApiOperation({
+    summary:
+      "Analyse et matche les offres avec les disponibilités de l'étudiant",
+    description:
+      "Utilise l'IA pour calculer la compatibilité entre les disponibilités d'un étudiant et les offres disponibles",
   })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiResponse({
+    status: 200,
     description: 'Matching réussi',
-    type: MatchingResponseDto 
+    type: MatchingResponseDto,
   })
-  @ApiResponse({ 
-    status: 401, 
-    description: 'Non autorisé' 
+  @ApiResponse({
+    status: 401,
+    description: 'Non autorisé',
   })
-  @ApiResponse({ 
-    status: 404, 
-    description: 'Aucune offre trouvée' 
+  @ApiResponse({
+    status: 404,
+    description: 'Aucune offre trouvée',
   })
   async analyzeMatching(
     @Body() request: MatchingRequestDto,
-    @Req() req: any
+    @Req() req: any,
   ): Promise<MatchingResponseDto> {
     // S'assurer que l'étudiant demande ses propres données
     const userId = req.user.userId || req.user.sub || req.user._id;
@@ -42,35 +93,35 @@ export class AiMatchingController {
   }
 
   @Post('analyze/:studentId')
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Analyse les offres pour un étudiant spécifique (Admin)',
-    description: 'Permet aux administrateurs d\'analyser les offres pour n\'importe quel étudiant'
+    description:
+      "Permet aux administrateurs d'analyser les offres pour n'importe quel étudiant",
   })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiResponse({
+    status: 200,
     description: 'Matching réussi',
-    type: MatchingResponseDto 
+    type: MatchingResponseDto,
   })
   async analyzeMatchingForStudent(
     @Param('studentId') studentId: string,
-    @Body() request: MatchingRequestDto
+    @Body() request: MatchingRequestDto,
   ): Promise<MatchingResponseDto> {
     request.studentId = studentId;
     return this.aiMatchingService.matchOffres(request);
   }
 
   @Get('health')
-  @ApiOperation({ 
-    summary: 'Vérifie l\'état du service de matching',
-    description: 'Retourne l\'état du service et la disponibilité de l\'IA'
+  @ApiOperation({
+    summary: "Vérifie l'état du service de matching",
+    description: "Retourne l'état du service et la disponibilité de l'IA",
   })
   getHealth() {
     return {
       status: 'ok',
       service: 'AI Matching',
       timestamp: new Date().toISOString(),
-      message: 'Service de matching IA opérationnel'
+      message: 'Service de matching IA opérationnel',
     };
   }
 }
-
@@ -3,22 +3,67 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { ConfigModule } from '@nestjs/config';
 import { AiMatchingController } from './ai-matching.controller';
 import { AiMatchingService } from './ai-matching.service';
+import { MatchIndexService } from './match-index.service';
+import { CandidateRankingService } from './candidate-ranking.service';
+import { ScoringConfigService } from './scoring-config.service';
+import { ScoringConfigController } from './scoring-config.controller';
 import { Offre, OffreSchema } from '../offre/schemas/offre.schema';
-import { StudentPreference, StudentPreferenceSchema } from '../student_preference/schemas/student_preference.schema';
-import { Disponibilite, DisponibiliteSchema } from '../disponibilite/schemas/disponibilite.schema';
+import {
+  StudentPreference,
+  StudentPreferenceSchema,
+} from '../student_preference/schemas/student_preference.schema';
+import {
+  Disponibilite,
+  DisponibiliteSchema,
+} from '../disponibilite/schemas/disponibilite.schema';
+import { OffreMatch, OffreMatchSchema } from './schemas/offre-match.schema';
+import {
+  MatchIndexState,
+  MatchIndexStateSchema,
+} from './schemas/match-index-state.schema';
+import {
+  ScoringConfig,
+  ScoringConfigSchema,
+} from './schemas/scoring-config.schema';
+import {
+  ScoringExperiment,
+  ScoringExperimentSchema,
+} from './schemas/scoring-experiment.schema';
+import {
+  ScoringRecord,
+  ScoringRecordSchema,
+} from './schemas/scoring-record.schema';
+import { User, UserSchema } from '../User/schemas/user.schema';
+import {
+  Application,
+  ApplicationSchema,
+} from '../application/schemas/application.schema';
+import { AiProviderModule } from '../ai-provider/ai-provider.module';
 
 @Module({
   imports: [
     ConfigModule,
+    AiProviderModule,
     MongooseModule.forFeature([
       { name: Offre.name, schema: OffreSchema },
       { name: StudentPreference.name, schema: StudentPreferenceSchema },
       { name: Disponibilite.name, schema: DisponibiliteSchema },
+      { name: OffreMatch.name, schema: OffreMatchSchema },
+      { name: MatchIndexState.name, schema: MatchIndexStateSchema },
+      { name: User.name, schema: UserSchema },
+      { name: ScoringConfig.name, schema: ScoringConfigSchema },
+      { name: ScoringExperiment.name, schema: ScoringExperimentSchema },
+      { name: ScoringRecord.name, schema: ScoringRecordSchema },
+      { name: Application.name, schema: ApplicationSchema },
     ]),
   ],
-  controllers: [AiMatchingController],
-  providers: [AiMatchingService],
-  exports: [AiMatchingService],
+  controllers: [AiMatchingController, ScoringConfigController],
+  providers: [
+    AiMatchingService,
+    MatchIndexService,
+    CandidateRankingService,
+    ScoringConfigService,
+  ],
+  exports: [AiMatchingService, MatchIndexService, CandidateRankingService],
 })
 export class AiMatchingModule {}
-
@@ -1,68 +1,105 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { HfInference } from '@huggingface/inference';
+import { FilterQuery, Model } from 'mongoose';
 import { Offre, OffreDocument } from '../offre/schemas/offre.schema';
-import { StudentPreference, StudentPreferenceDocument } from '../student_preference/schemas/student_preference.schema';
-import { Disponibilite, DisponibiliteDocument } from '../disponibilite/schemas/disponibilite.schema';
+import {
+  StudentPreference,
+  StudentPreferenceDocument,
+} from '../student_preference/schemas/student_preference.schema';
+import {
+  Disponibilite,
+  DisponibiliteDocument,
+} from '../disponibilite/schemas/disponibilite.schema';
+import { User, UserDocument } from '../User/schemas/user.schema';
+import {
+  EARTH_RADIUS_KM,
+  haversineKm,
+  isValidLatLng,
+  LatLng,
+} from '../offre/offre-geo';
+import {
+  monthlySalary,
+  requiredWeeklyHours,
+  scheduleCoveredHours,
+  scheduleWeeklyHours,
+} from '../offre/offre-compensation';
 import { MatchingRequestDto } from './dto/matching-request.dto';
-import { MatchingResponseDto, OffreMatchDto, MatchingScoreDto, MatchingReasonDto } from './dto/matching-response.dto';
+import {
+  MatchingResponseDto,
+  OffreMatchDto,
+  MatchingScoreDto,
+  MatchingReasonDto,
+} from './dto/matching-response.dto';
+import { matchSkills, SkillMatch } from './skill-vocabulary';
+import { AiProviderService } from '../ai-provider/ai-provider.service';
+import { ScoringConfigService } from './scoring-config.service';
+import {
+  DEFAULT_SCORING_PARAMETERS,
+  ScoringParameters,
+} from './scoring-parameters';
+import { ScoringRecordSource } from './schemas/scoring-record.schema';
 
 @Injectable()
 export class AiMatchingService {
+  private static readonly DEFAULT_RADIUS_KM = 20;
   private readonly logger = new Logger(AiMatchingService.name);
-  private hf: HfInference | null = null;
 
   constructor(
-    private configService: ConfigService,
+    private readonly aiProviderService: AiProviderService,
+    private readonly scoringConfigService: ScoringConfigService,
     @InjectModel(Offre.name) private offreModel: Model<OffreDocument>,
-    @InjectModel(StudentPreference.name) private studentPreferenceModel: Model<StudentPreferenceDocument>,
-    @InjectModel(Disponibilite.name) private disponibiliteModel: Model<DisponibiliteDocument>,
-  ) {
-    this.initializeHuggingFace();
-  }
-
-  private initializeHuggingFace(): void {
-    const hfApiKey = this.configService.get<string>('HF_API_KEY');
-    
-    if (!hfApiKey) {
-      this.logger.warn('HF_API_KEY non définie - Le matching utilisera uniquement les algorithmes locaux');
-      return;
-    }
-
-    try {
-      this.hf = new HfInference(hfApiKey);
-      this.logger.log('✅ Hugging Face initialisé avec succès');
-    } catch (error) {
-      this.logger.error('❌ Erreur lors de l\'initialisation de Hugging Face:', error);
-    }
-  }
+    @InjectModel(StudentPreference.name)
+    private studentPreferenceModel: Model<StudentPreferenceDocument>,
+    @InjectModel(Disponibilite.name)
+    private disponibiliteModel: Model<DisponibiliteDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+  ) {}
 
   /**
    * Analyse et matche les disponibilités d'un étudiant avec les offres
    */
   async matchOffres(request: MatchingRequestDto): Promise<MatchingResponseDto> {
-    this.logger.log(`🔍 Démarrage du matching pour l'étudiant ${request.studentId}`);
+    this.logger.log(
+      `🔍 Démarrage du matching pour l'étudiant ${request.studentId}`,
+    );
 
     // 1. Récupérer les préférences de l'étudiant
     const studentPreference = await this.studentPreferenceModel
       .findOne({ userId: request.studentId })
       .exec();
+    const student = await this.userModel
+      .findById(request.studentId)
+      .select('cvSkills')
+      .lean()
+      .exec();
+    const cvSkills = student?.cvSkills ?? [];
+    const scoring = await this.scoringConfigService.resolveForStudent(
+      request.studentId,
+    );
+
+    const studentLocation = this.resolveStudentLocation(
+      request.preferences,
+      studentPreference,
+    );
+    const distanceFilter = this.buildDistanceFilter(
+      studentLocation,
+      request.preferences?.maxDistance,
+    );
 
     // 2. Récupérer les offres à analyser
     let offres: OffreDocument[];
     if (request.offreIds && request.offreIds.length > 0) {
       offres = await this.offreModel
-        .find({ 
+        .find({
           _id: { $in: request.offreIds },
-          isActive: true 
+          isActive: true,
+          ...distanceFilter,
         })
         .populate('createdBy', 'nom email company is_Organization')
         .exec();
     } else {
       offres = await this.offreModel
-        .find({ isActive: true })
+        .find({ isActive: true, ...distanceFilter })
         .populate('createdBy', 'nom email company is_Organization')
         .limit(50) // Limiter pour la performance
         .exec();
@@ -76,15 +113,18 @@ export class AiMatchingService {
 
     // 3. Calculer les scores pour chaque offre
     const matches: OffreMatchDto[] = [];
-    
+
     for (const offre of offres) {
       const matchData = await this.calculateMatch(
         offre,
         request.disponibilites,
         studentPreference,
-        request.preferences
+        cvSkills,
+        request.preferences,
+        studentLocation ? this.distanceToOffre(offre, studentLocation) : null,
+        scoring.parameters,
       );
-      
+
       if (matchData) {
         matches.push(matchData);
       }
@@ -99,30 +139,102 @@ export class AiMatchingService {
     });
 
     // 6. Calculer le résumé
-    const scores = matches.map(m => m.scores.score);
-    const averageScore = scores.length > 0 
-      ? scores.reduce((a, b) => a + b, 0) / scores.length 
-      : 0;
+    const scores = matches.map((m) => m.scores.score);
+    const averageScore =
+      scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
 
     const summary = {
       bestMatch: matches.length > 0 ? matches[0] : undefined,
       averageScore: Math.round(averageScore),
-      highScoreCount: matches.filter(m => m.scores.score > 70).length,
-      mediumScoreCount: matches.filter(m => m.scores.score >= 40 && m.scores.score <= 70).length,
-      lowScoreCount: matches.filter(m => m.scores.score < 40).length,
+      highScoreCount: matches.filter((m) => m.scores.score > 70).length,
+      mediumScoreCount: matches.filter(
+        (m) => m.scores.score >= 40 && m.scores.score <= 70,
+      ).length,
+      lowScoreCount: matches.filter((m) => m.scores.score < 40).length,
     };
 
-    this.logger.log(`✅ Matching terminé: ${matches.length} offres analysées, score moyen: ${summary.averageScore}`);
+    this.logger.log(
+      `✅ Matching terminé: ${matches.length} offres analysées, score moyen: ${summary.averageScore} (scoring v${scoring.version})`,
+    );
+
+    const topMatches = matches.slice(0, 20); // Retourner top 20
+    const scoringInfo = this.scoringConfigService.toInfo(scoring);
+    this.scoringConfigService.record(
+      request.studentId,
+      ScoringRecordSource.ANALYZE,
+      scoringInfo,
+      topMatches,
+    );
 
     return {
       studentId: request.studentId,
       totalOffres: offres.length,
-      matches: matches.slice(0, 20), // Retourner top 20
+      matches: topMatches,
       timestamp: new Date().toISOString(),
+      scoring: scoringInfo,
       summary,
     };
   }
 
+  /**
+   * Position de l'étudiant : celle envoyée avec la requête, sinon celle
+   * enregistrée dans ses préférences
+   */
+  resolveStudentLocation(
+    preferences: MatchingRequestDto['preferences'],
+    studentPreference: StudentPreferenceDocument | null,
+  ): LatLng | null {
+    const requested = {
+      lat: preferences?.latitude,
+      lng: preferences?.longitude,
+    };
+    if (isValidLatLng(requested)) {
+      return requested;
+    }
+    return isValidLatLng(studentPreference?.location)
+      ? studentPreference.location
+      : null;
+  }
+
+  /**
+   * Garde les offres situées dans le rayon maxDistance (km). Les offres sans
+   * coordonnées restent candidates, leur distance est simplement inconnue.
+   */
+  private buildDistanceFilter(
+    studentLocation: LatLng | null,
+    maxDistance?: number,
+  ): FilterQuery<OffreDocument> {
+    if (!studentLocation || !maxDistance || maxDistance <= 0) {
+      return {};
+    }
+
+    return {
+      $or: [
+        {
+          geoPoint: {
+            $geoWithin: {
+              $centerSphere: [
+                [studentLocation.lng, studentLocation.lat],
+                maxDistance / EARTH_RADIUS_KM,
+              ],
+            },
+          },
+        },
+        { geoPoint: null },
+      ],
+    };
+  }
+
+  distanceToOffre(
+    offre: OffreDocument,
+    studentLocation: LatLng,
+  ): number | null {
+    const coordinates = offre.location?.coordinates;
+    return isValidLatLng(coordinates)
+      ? haversineKm(studentLocation, coordinates)
+      : null;
+  }
+
   /**
    * Calcule le score de matching pour une offre
    */
@@ -130,105 +242,186 @@ export class AiMatchingService {
     offre: OffreDocument,
     disponibilites: any[],
     studentPreference: StudentPreferenceDocument | null,
-    preferences?: any
+    cvSkills: string[],
+    preferences?: any,
+    distanceKm: number | null = null,
+    scoring: ScoringParameters = DEFAULT_SCORING_PARAMETERS,
   ): Promise<OffreMatchDto | null> {
     try {
-      // 1. Score de disponibilité temporelle (40% du score total)
-      const timeScore = this.calculateTimeCompatibility(offre, disponibilites);
-
-      // 2. Score de préférences (30% du score total)
-      const preferenceScore = this.calculatePreferenceScore(offre, preferences);
-
-      // 3. Score de profil étudiant (30% du score total)
-      const profileScore = this.calculateProfileScore(offre, studentPreference);
-
-      // 4. Score global pondéré
-      const globalScore = Math.round(
-        timeScore * 0.4 + 
-        preferenceScore * 0.3 + 
-        profileScore * 0.3
-      );
-
-      // 5. Générer les raisons
-      const reasons = this.generateReasons(
+      const match = this.scoreOffre(
         offre,
-        timeScore,
-        preferenceScore,
-        profileScore,
-        disponibilites
+        disponibilites,
+        studentPreference,
+        cvSkills,
+        preferences,
+        distanceKm,
+        scoring,
       );
 
-      // 6. Générer la recommandation avec IA (si disponible)
-      const recommendation = await this.generateAIRecommendation(
+      // Générer la recommandation avec IA (si disponible)
+      match.recommendation = await this.generateAIRecommendation(
         offre,
-        globalScore,
-        reasons,
-        studentPreference
+        match.scores.score,
+        match.reasons,
+        studentPreference,
       );
 
-      return {
-        offreId: offre._id.toString(),
-        titre: offre.title,
-        entreprise: offre.company,
-        ville: offre.location?.city || 'Non spécifié',
-        jobType: offre.jobType,
-        horaire: this.extractHoraire(offre),
-        scores: {
-          score: globalScore,
-          timeScore: Math.round(timeScore),
-          preferenceScore: Math.round(preferenceScore),
-          profileScore: Math.round(profileScore),
-        },
-        reasons,
-        recommendation,
-        rank: 0, // Sera défini après le tri
-      };
+      return match;
     } catch (error) {
-      this.logger.error(`Erreur lors du calcul du match pour l'offre ${offre._id}:`, error);
+      this.logger.error(
+        `Erreur lors du calcul du match pour l'offre ${offre._id}:`,
+        error,
+      );
       return null;
     }
   }
 
   /**
-   * Calcule la compatibilité temporelle
+   * Scores et raisons d'une offre, sans appel à l'IA. La recommandation est
+   * la recommandation locale.
    */
-  private calculateTimeCompatibility(offre: OffreDocument, disponibilites: any[]): number {
-    let score = 50; // Score de base
+  scoreOffre(
+    offre: OffreDocument,
+    disponibilites: any[],
+    studentPreference: StudentPreferenceDocument | null,
+    cvSkills: string[],
+    preferences?: any,
+    distanceKm: number | null = null,
+    scoring: ScoringParameters = DEFAULT_SCORING_PARAMETERS,
+  ): OffreMatchDto {
+    // 1. Score de disponibilité temporelle
+    const timeScore = this.calculateTimeCompatibility(
+      offre,
+      disponibilites,
+      scoring.time,
+    );
+
+    // 2. Score de préférences
+    const preferenceScore = this.calculatePreferenceScore(
+      offre,
+      preferences,
+      distanceKm,
+      scoring.preference,
+    );
+
+    // 3. Score de profil étudiant
+    const profileScore = this.calculateProfileScore(offre, studentPreference);
+
+    // 4. Compétences du CV face aux exigences, sans CV ce critère est ignoré
+    const skills = matchSkills(cvSkills, offre.exigences ?? []);
+    const skillsScore = cvSkills.length > 0 ? skills.score : null;
+
+    // 5. Score global pondéré, ramené à la somme des poids
+    const weights =
+      skillsScore === null
+        ? { ...scoring.weightsWithoutCv, skills: 0 }
+        : scoring.weights;
+    const globalScore = Math.round(
+      (timeScore * weights.time +
+        preferenceScore * weights.preference +
+        profileScore * weights.profile +
+        (skillsScore ?? 0) * weights.skills) /
+        (weights.time + weights.preference + weights.profile + weights.skills),
+    );
+
+    // 6. Générer les raisons
+    const reasons = [
+      ...this.generateReasons(
+        offre,
+        timeScore,
+        preferenceScore,
+        profileScore,
+        disponibilites,
+        distanceKm,
+        preferences?.maxDistance,
+      ),
+      ...this.generateSkillReasons(skills, cvSkills.length > 0),
+    ];
 
-    // Analyser le shift (jour/nuit/flexible)
-    if (offre.shift === 'flexible') {
-      score += 30; // Très compatible
+    return {
+      offreId: offre._id.toString(),
+      titre: offre.title,
+      entreprise: offre.company,
+      ville: offre.location?.city || 'Non spécifié',
+      jobType: offre.jobType,
+      horaire: this.extractHoraire(offre),
+      ...(distanceKm !== null && {
+        distanceKm: Math.round(distanceKm * 10) / 10,
+      }),
+      scores: {
+        score: globalScore,
+        timeScore: Math.round(timeScore),
+        preferenceScore: Math.round(preferenceScore),
+        profileScore: Math.round(profileScore),
+        ...(skillsScore !== null && { skillsScore }),
+      },
+      ...(skills.score !== null && {
+        skills: { matched: skills.matched, missing: skills.missing },
+      }),
+      reasons,
+      recommendation: this.generateLocalRecommendation(globalScore),
+      rank: 0, // Sera défini après le tri
+    };
+  }
+
+  /**
+   * Calcule la compatibilité temporelle
+   */
+  private calculateTimeCompatibility(
+    offre: OffreDocument,
+    disponibilites: any[],
+    points: ScoringParameters['time'],
+  ): number {
+    let score = points.base;
+
+    // Horaires déclarés : part des heures de l'offre couvertes par les disponibilités
+    if (offre.schedule?.length) {
+      const coverage =
+        scheduleCoveredHours(offre.schedule, disponibilites) /
+        scheduleWeeklyHours(offre.schedule);
+      if (coverage >= points.scheduleCoverage.fullRatio) {
+        score += points.scheduleCoverage.full;
+      } else if (coverage >= points.scheduleCoverage.partialRatio) {
+        score += points.scheduleCoverage.partial;
+      } else {
+        score += points.scheduleCoverage.low;
+      }
+    } else if (offre.shift === 'flexible') {
+      score += points.shift.flexible; // Très compatible
     } else if (offre.shift === 'jour') {
       // Vérifier si l'étudiant a des disponibilités en journée
-      const hasJourDispos = disponibilites.some(d => {
+      const hasJourDispos = disponibilites.some((d) => {
         const heureDebut = parseInt(d.heureDebut.split(':')[0]);
         return heureDebut >= 8 && heureDebut <= 18;
       });
-      score += hasJourDispos ? 20 : -10;
+      score += hasJourDispos
+        ? points.shift.jour
+        : points.shift.jourWithoutDayAvailability;
     } else if (offre.shift === 'nuit') {
-      score -= 20; // Moins compatible pour les étudiants
+      score += points.shift.nuit; // Moins compatible pour les étudiants
     }
 
     // Analyser le type de job
     if (offre.jobType === 'stage') {
-      score += 10; // Les stages sont souvent plus flexibles
+      score += points.jobType.stage; // Les stages sont souvent plus flexibles
     } else if (offre.jobType === 'freelance') {
-      score += 20; // Très flexible
+      score += points.jobType.freelance; // Très flexible
     }
 
     // Calculer le nombre de jours disponibles
-    const joursDisponibles = [...new Set(disponibilites.map(d => d.jour))].length;
+    const joursDisponibles = [...new Set(disponibilites.map((d) => d.jour))]
+      .length;
     if (joursDisponibles >= 3) {
-      score += 15;
+      score += points.days.threeOrMore;
     } else if (joursDisponibles >= 2) {
-      score += 10;
+      score += points.days.two;
     } else {
-      score -= 10;
+      score += points.days.fewer;
     }
 
     // Calculer le total d'heures disponibles
     let totalHeures = 0;
-    disponibilites.forEach(d => {
+    disponibilites.forEach((d) => {
       if (d.heureFin) {
         const debut = this.parseHeure(d.heureDebut);
         const fin = this.parseHeure(d.heureFin);
@@ -238,12 +431,21 @@ export class AiMatchingService {
       }
     });
 
-    if (totalHeures >= 20) {
-      score += 15;
-    } else if (totalHeures >= 10) {
-      score += 5;
+    const heuresRequises = requiredWeeklyHours(offre);
+    if (heuresRequises !== null) {
+      if (totalHeures >= heuresRequises * points.hours.ampleRatio) {
+        score += points.hours.ample;
+      } else if (totalHeures >= heuresRequises) {
+        score += points.hours.enough;
+      } else {
+        score += points.hours.short;
+      }
+    } else if (totalHeures >= points.hours.ampleHours) {
+      score += points.hours.ample;
+    } else if (totalHeures >= points.hours.enoughHours) {
+      score += points.hours.enough;
     } else {
-      score -= 15;
+      score += points.hours.short;
     }
 
     return Math.max(0, Math.min(100, score));
@@ -252,32 +454,53 @@ export class AiMatchingService {
   /**
    * Calcule le score basé sur les préférences
    */
-  private calculatePreferenceScore(offre: OffreDocument, preferences?: any): number {
-    let score = 50; // Score de base
+  private calculatePreferenceScore(
+    offre: OffreDocument,
+    preferences: any,
+    distanceKm: number | null,
+    points: ScoringParameters['preference'],
+  ): number {
+    let score = points.base;
+
+    // Vérifier la distance (rayon par défaut si aucun maxDistance)
+    if (distanceKm !== null) {
+      const radius =
+        preferences?.maxDistance || AiMatchingService.DEFAULT_RADIUS_KM;
+      if (distanceKm <= radius / 4) {
+        score += points.distance.near;
+      } else if (distanceKm <= radius) {
+        score += points.distance.within;
+      } else {
+        score += points.distance.far;
+      }
+    }
 
     if (!preferences) {
-      return score;
+      return Math.max(0, Math.min(100, score));
     }
 
     // Vérifier le type de job
     if (preferences.jobType && offre.jobType === preferences.jobType) {
-      score += 25;
+      score += points.jobType;
     }
 
     // Vérifier la ville
     if (preferences.city && offre.location?.city) {
-      const cityMatch = offre.location.city.toLowerCase().includes(preferences.city.toLowerCase());
+      const cityMatch = offre.location.city
+        .toLowerCase()
+        .includes(preferences.city.toLowerCase());
       if (cityMatch) {
-        score += 25;
+        score += points.city;
       }
     }
 
-    // Vérifier le salaire minimum
-    if (preferences.minSalary && offre.salary) {
-      // Simple vérification si le salaire contient un nombre >= minSalary
-      const salaryNumbers = offre.salary.match(/\d+/g);
-      if (salaryNumbers && parseInt(salaryNumbers[0]) >= parseInt(preferences.minSalary)) {
-        score += 20;
+    // Vérifier le salaire minimum (mensuel), les offres horaires sont ramenées au mois
+    const salaireMensuel = monthlySalary(offre);
+    if (preferences.minSalary && salaireMensuel !== null) {
+      if (salaireMensuel >= parseFloat(preferences.minSalary)) {
+        score += points.salary.met;
+      } else {
+        score += points.salary.missed;
       }
     }
 
@@ -287,9 +510,9 @@ export class AiMatchingService {
   /**
    * Calcule le score basé sur le profil étudiant
    */
-  private calculateProfileScore(
-    offre: OffreDocument, 
-    studentPreference: StudentPreferenceDocument | null
+  calculateProfileScore(
+    offre: OffreDocument,
+    studentPreference: StudentPreferenceDocument | null,
   ): number {
     let score = 50; // Score de base
 
@@ -300,9 +523,12 @@ export class AiMatchingService {
     // Vérifier la motivation principale
     if (studentPreference.looking_for && offre.jobType) {
       if (
-        (studentPreference.looking_for.toLowerCase() === 'job' && offre.jobType === 'job') ||
-        (studentPreference.looking_for.toLowerCase() === 'stage' && offre.jobType === 'stage') ||
-        (studentPreference.looking_for.toLowerCase() === 'freelance' && offre.jobType === 'freelance')
+        (studentPreference.looking_for.toLowerCase() === 'job' &&
+          offre.jobType === 'job') ||
+        (studentPreference.looking_for.toLowerCase() === 'stage' &&
+          offre.jobType === 'stage') ||
+        (studentPreference.looking_for.toLowerCase() === 'freelance' &&
+          offre.jobType === 'freelance')
       ) {
         score += 30;
       }
@@ -311,11 +537,12 @@ export class AiMatchingService {
     // Correspondance des tags avec le domaine d'étude
     if (studentPreference.study_domain && offre.tags && offre.tags.length > 0) {
       const domainLower = studentPreference.study_domain.toLowerCase();
-      const matchingTags = offre.tags.filter(tag => 
-        tag.toLowerCase().includes(domainLower) || 
-        domainLower.includes(tag.toLowerCase())
+      const matchingTags = offre.tags.filter(
+        (tag) =>
+          tag.toLowerCase().includes(domainLower) ||
+          domainLower.includes(tag.toLowerCase()),
       );
-      
+
       if (matchingTags.length > 0) {
         score += Math.min(20, matchingTags.length * 10);
       }
@@ -332,10 +559,32 @@ export class AiMatchingService {
     timeScore: number,
     preferenceScore: number,
     profileScore: number,
-    disponibilites: any[]
+    disponibilites: any[],
+    distanceKm: number | null = null,
+    maxDistance?: number,
   ): MatchingReasonDto[] {
     const reasons: MatchingReasonDto[] = [];
 
+    // Raisons liées à la distance
+    if (distanceKm !== null) {
+      const radius = maxDistance || AiMatchingService.DEFAULT_RADIUS_KM;
+      const distance =
+        distanceKm < 1 ? 'Moins de 1 km' : `À ${Math.round(distanceKm)} km`;
+      if (distanceKm <= radius) {
+        reasons.push({
+          type: 'positive',
+          message: `${distance} de chez vous`,
+          weight: distanceKm <= radius / 4 ? 0.8 : 0.6,
+        });
+      } else {
+        reasons.push({
+          type: 'negative',
+          message: `Offre éloignée (${Math.round(distanceKm)} km de chez vous)`,
+          weight: 0.6,
+        });
+      }
+    }
+
     // Raisons liées au temps
     if (timeScore >= 70) {
       reasons.push({
@@ -394,7 +643,8 @@ export class AiMatchingService {
     }
 
     // Analyse du nombre de jours disponibles
-    const joursDisponibles = [...new Set(disponibilites.map(d => d.jour))].length;
+    const joursDisponibles = [...new Set(disponibilites.map((d) => d.jour))]
+      .length;
     if (joursDisponibles >= 4) {
       reasons.push({
         type: 'positive',
@@ -413,37 +663,82 @@ export class AiMatchingService {
   }
 
   /**
-   * Génère une recommandation avec IA (Hugging Face)
+   * Raisons liées aux exigences de l'offre
+   */
+  private generateSkillReasons(
+    skills: SkillMatch,
+    hasCv: boolean,
+  ): MatchingReasonDto[] {
+    const total = skills.matched.length + skills.missing.length;
+    if (total === 0) {
+      return [];
+    }
+
+    if (!hasCv) {
+      return [
+        {
+          type: 'neutral',
+          message:
+            'Ajoutez votre CV pour comparer vos compétences aux exigences de cette offre',
+          weight: 0.5,
+        },
+      ];
+    }
+
+    const reasons: MatchingReasonDto[] = [];
+    if (skills.matched.length > 0) {
+      reasons.push({
+        type: skills.missing.length === 0 ? 'positive' : 'neutral',
+        message:
+          skills.missing.length === 0
+            ? 'Vous avez toutes les compétences demandées'
+            : `Vous avez ${skills.matched.length} des ${total} compétences demandées`,
+        weight: skills.missing.length === 0 ? 0.9 : 0.6,
+      });
+    }
+    if (skills.missing.length > 0) {
+      const shown = skills.missing.slice(0, 3).join(', ');
+      reasons.push({
+        type: 'negative',
+        message: `Compétences manquantes : ${shown}${skills.missing.length > 3 ? '…' : ''}`,
+        weight: skills.matched.length === 0 ? 0.8 : 0.6,
+      });
+    }
+    return reasons;
+  }
+
+  /**
+   * Génère une recommandation avec le fournisseur IA configuré
    */
   private async generateAIRecommendation(
     offre: OffreDocument,
     score: number,
     reasons: MatchingReasonDto[],
-    studentPreference: StudentPreferenceDocument | null
+    studentPreference: StudentPreferenceDocument | null,
   ): Promise<string> {
-    // Si Hugging Face n'est pas disponible, utiliser une recommandation locale
-    if (!this.hf) {
+    // Sans fournisseur IA, utiliser une recommandation locale
+    if (!this.aiProviderService.isTextEnabled()) {
       return this.generateLocalRecommendation(score);
     }
 
     try {
       // Préparer le prompt pour le modèle
-      const prompt = this.buildRecommendationPrompt(offre, score, reasons, studentPreference);
-
-      // Appeler Hugging Face (modèle de génération de texte)
-      const response = await this.hf.textGeneration({
-        model: 'mistralai/Mistral-7B-Instruct-v0.2', // Modèle gratuit et performant
-        inputs: prompt,
-        parameters: {
-          max_new_tokens: 100,
-          temperature: 0.7,
-          top_p: 0.95,
-          return_full_text: false,
-        },
+      const prompt = this.buildRecommendationPrompt(
+        offre,
+        score,
+        reasons,
+        studentPreference,
+      );
+
+      const response = await this.aiProviderService.generateText({
+        feature: 'ai-matching',
+        prompt,
+        maxTokens: 100,
+        temperature: 0.7,
       });
 
-      const recommendation = response.generated_text.trim();
-      
+      const recommendation = response.text.trim();
+
       // Nettoyer et valider la recommandation
       if (recommendation.length > 10 && recommendation.length < 300) {
         return recommendation;
@@ -458,16 +753,22 @@ export class AiMatchingService {
   }
 
   /**
-   * Construit le prompt pour Hugging Face
+   * Construit le prompt de la recommandation
    */
   private buildRecommendationPrompt(
     offre: OffreDocument,
     score: number,
     reasons: MatchingReasonDto[],
-    studentPreference: StudentPreferenceDocument | null
+    studentPreference: StudentPreferenceDocument | null,
   ): string {
-    const positiveReasons = reasons.filter(r => r.type === 'positive').map(r => r.message).join(', ');
-    const negativeReasons = reasons.filter(r => r.type === 'negative').map(r => r.message).join(', ');
+    const positiveReasons = reasons
+      .filter((r) => r.type === 'positive')
+      .map((r) => r.message)
+      .join(', ');
+    const negativeReasons = reasons
+      .filter((r) => r.type === 'negative')
+      .map((r) => r.message)
+      .join(', ');
 
     return `Tu es un conseiller d'orientation pour étudiants tunisiens. 
 
@@ -493,9 +794,9 @@ Recommandation:`;
     } else if (score >= 60) {
       return 'Bonne compatibilité avec votre profil. Cette offre mérite votre attention et pourrait correspondre à vos besoins.';
     } else if (score >= 40) {
-      return 'Compatibilité moyenne. Vérifiez les détails de l\'offre pour vous assurer qu\'elle correspond à vos attentes.';
+      return "Compatibilité moyenne. Vérifiez les détails de l'offre pour vous assurer qu'elle correspond à vos attentes.";
     } else {
-      return 'Compatibilité limitée. Il pourrait y avoir des défis d\'organisation avec cette offre. Explorez d\'autres opportunités mieux adaptées.';
+      return "Compatibilité limitée. Il pourrait y avoir des défis d'organisation avec cette offre. Explorez d'autres opportunités mieux adaptées.";
     }
   }
 
@@ -504,13 +805,19 @@ Recommandation:`;
    */
   private parseHeure(heure: string): number {
     const [h, m] = heure.split(':').map(Number);
-    return h + (m / 60);
+    return h + m / 60;
   }
 
   private extractHoraire(offre: OffreDocument): string {
+    if (offre.schedule?.length) {
+      return offre.schedule
+        .map((slot) => `${slot.jour} ${slot.heureDebut}-${slot.heureFin}`)
+        .join(', ');
+    }
+
     const shift = offre.shift || 'Non spécifié';
     const jobType = offre.jobType || '';
-    
+
     if (shift === 'flexible') {
       return 'Horaires flexibles';
     } else if (shift === 'jour') {
@@ -518,8 +825,7 @@ Recommandation:`;
     } else if (shift === 'nuit') {
       return 'Horaires de nuit';
     }
-    
+
     return `${jobType} - ${shift}`;
   }
 }
-
@@ -0,0 +1,422 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { OffreDocument, Shift } from '../offre/schemas/offre.schema';
+import {
+  StudentPreference,
+  StudentPreferenceDocument,
+} from '../student_preference/schemas/student_preference.schema';
+import {
+  Disponibilite,
+  DisponibiliteDocument,
+  JourSemaine,
+} from '../disponibilite/schemas/disponibilite.schema';
+import { User, UserDocument } from '../User/schemas/user.schema';
+import { Role } from '../User/enums/role.enum';
+import { LanguageLevel } from '../student_preference/enums/language-level.enum';
+import {
+  requiredWeeklyHours,
+  scheduleCoveredHours,
+  scheduleWeeklyHours,
+  WorkScheduleSlot,
+} from '../offre/offre-compensation';
+import { AiMatchingService } from './ai-matching.service';
+import { extractSkills, matchSkills, SkillMatch } from './skill-vocabulary';
+import { MatchingReasonDto } from './dto/matching-response.dto';
+import {
+  CandidateMatchDto,
+  CandidateRankingResponseDto,
+} from './dto/candidate-ranking-response.dto';
+
+/** Candidature à classer, sans lien avec le module des candidatures */
+export interface CandidateApplication {
+  candidateId: string;
+  applicationId: string;
+  status: string;
+}
+
+type Candidate = Pick<User, 'nom' | 'image' | 'TrustXP' | 'cvSkills'> &
+  Partial<Pick<User, 'email'>> & {
+    _id: Types.ObjectId;
+  };
+
+// Plages horaires d'une offre sans horaires déclarés
+const SHIFT_HOURS: Record<Shift, [string, string]> = {
+  [Shift.JOUR]: ['08:00', '18:00'],
+  [Shift.NUIT]: ['20:00', '06:00'],
+  [Shift.FLEXIBLE]: ['00:00', '24:00'],
+};
+
+// Heures par semaine attendues quand l'offre ne les précise pas
+const DEFAULT_WEEKLY_HOURS = 20;
+
+const WEIGHTS = {
+  availability: 0.3,
+  skills: 0.25,
+  profile: 0.2,
+  trust: 0.15,
+  languages: 0.1,
+};
+
+const LANGUAGES: Record<string, keyof StudentPreference> = {
+  Arabe: 'langue_arabe',
+  Français: 'langue_francais',
+  Anglais: 'langue_anglais',
+};
+
+const LANGUAGE_LEVEL_SCORES: Record<LanguageLevel, number> = {
+  [LanguageLevel.DEBUTANT]: 25,
+  [LanguageLevel.INTERMEDIAIRE]: 50,
+  [LanguageLevel.AVANCE]: 75,
+  [LanguageLevel.COURANT]: 100,
+};
+
+// TrustXP à partir duquel le score de confiance est maximal (niveau Expert)
+const TRUST_XP_MAX = 10000;
+
+const CANDIDATE_FIELDS = 'nom email image TrustXP cvSkills';
+// Sans candidature, l'étudiant n'a pas partagé son email avec l'employeur
+const OPEN_TO_WORK_FIELDS = 'nom image TrustXP cvSkills';
+
+/**
+ * Classement des étudiants pour une offre, côté employeur : candidats ayant
+ * postulé et, sur demande, étudiants ouverts aux offres.
+ */
+@Injectable()
+export class CandidateRankingService {
+  private static readonly MAX_OPEN_TO_WORK = 200;
+
+  constructor(
+    private readonly aiMatchingService: AiMatchingService,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(StudentPreference.name)
+    private studentPreferenceModel: Model<StudentPreferenceDocument>,
+    @InjectModel(Disponibilite.name)
+    private disponibiliteModel: Model<DisponibiliteDocument>,
+  ) {}
+
+  /**
+   * Classe les candidats d'une offre. La propriété de l'offre est vérifiée
+   * par l'appelant.
+   */
+  async rankCandidates(
+    offre: OffreDocument,
+    applications: CandidateApplication[],
+    includeOpenToWork = false,
+  ): Promise<CandidateRankingResponseDto> {
+    const applied = new Map(
+      applications.map((application) => [application.candidateId, application]),
+    );
+    const ownerId = offre.createdBy.toString();
+
+    const candidates = await this.userModel
+      .find({ _id: { $in: [...applied.keys()] } })
+      .select(CANDIDATE_FIELDS)
+      .lean<Candidate[]>()
+      .exec();
+
+    if (includeOpenToWork) {
+      const openToWork = await this.userModel
+        .find({
+          _id: {
+            $nin: [...applied.keys(), ownerId].map(
+              (id) => new Types.ObjectId(id),
+            ),
+          },
+          openToWork: true,
+          is_archive: { $ne: true },
+          $or: [
+            { role: Role.STUDENT },
+            { role: Role.USER, is_Organization: { $ne: true } },
+          ],
+        })
+        .select(OPEN_TO_WORK_FIELDS)
+        .sort({ TrustXP: -1 })
+        .limit(CandidateRankingService.MAX_OPEN_TO_WORK)
+        .lean<Candidate[]>()
+        .exec();
+      candidates.push(...openToWork);
+    }
+
+    const ids = candidates.map((candidate) => candidate._id);
+    const [preferences, disponibilites] = await Promise.all([
+      this.studentPreferenceModel.find({ userId: { $in: ids } }).exec(),
+      this.disponibiliteModel
+        .find({ userId: { $in: ids } })
+        .lean<Disponibilite[]>()
+        .exec(),
+    ]);
+    const preferenceByUser = new Map(
+      preferences.map((preference) => [
+        preference.userId.toString(),
+        preference,
+      ]),
+    );
+    const disponibilitesByUser = new Map<string, Disponibilite[]>();
+    for (const disponibilite of disponibilites) {
+      const userId = disponibilite.userId.toString();
+      disponibilitesByUser.set(userId, [
+        ...(disponibilitesByUser.get(userId) ?? []),
+        disponibilite,
+      ]);
+    }
+
+    const matches = candidates.map((candidate) => {
+      const id = candidate._id.toString();
+      return this.scoreCandidate(
+        offre,
+        candidate,
+        preferenceByUser.get(id) ?? null,
+        disponibilitesByUser.get(id) ?? [],
+        applied.get(id),
+      );
+    });
+
+    matches.sort((a, b) => b.scores.score - a.scores.score);
+    matches.forEach((match, index) => {
+      match.rank = index + 1;
+    });
+
+    const scores = matches.map((match) => match.scores.score);
+    const applicantCount = matches.filter(
+      (match) => match.applicationId,
+    ).length;
+
+    return {
+      offreId: offre._id.toString(),
+      totalCandidates: matches.length,
+      candidates: matches,
+      timestamp: new Date().toISOString(),
+      summary: {
+        averageScore: scores.length
+          ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length)
+          : 0,
+        applicantCount,
+        openToWorkCount: matches.length - applicantCount,
+        highScoreCount: scores.filter((score) => score > 70).length,
+        mediumScoreCount: scores.filter((score) => score >= 40 && score <= 70)
+          .length,
+        lowScoreCount: scores.filter((score) => score < 40).length,
+      },
+    };
+  }
+
+  private scoreCandidate(
+    offre: OffreDocument,
+    candidate: Candidate,
+    studentPreference: StudentPreferenceDocument | null,
+    disponibilites: Disponibilite[],
+    application?: CandidateApplication,
+  ): CandidateMatchDto {
+    const { availableHours, availabilityScore } = this.scoreAvailability(
+      offre,
+      disponibilites,
+    );
+    const profileScore = this.aiMatchingService.calculateProfileScore(
+      offre,
+      studentPreference,
+    );
+    const skills = matchSkills(
+      [
+        ...(candidate.cvSkills ?? []),
+        ...(studentPreference?.soft_skills ?? []),
+      ],
+      offre.exigences ?? [],
+    );
+    const languages = this.scoreLanguages(offre, studentPreference);
+    const trustScore = Math.min(
+      100,
+      Math.round(
+        (Math.log10((candidate.TrustXP ?? 0) + 1) / Math.log10(TRUST_XP_MAX)) *
+          100,
+      ),
+    );
+
+    // Les critères sans objet pour cette offre sont retirés de la moyenne
+    const weighted: [number, number][] = [
+      [availabilityScore, WEIGHTS.availability],
+      [profileScore, WEIGHTS.profile],
+      [trustScore, WEIGHTS.trust],
+    ];
+    if (skills.score !== null) weighted.push([skills.score, WEIGHTS.skills]);
+    if (languages) weighted.push([languages.score, WEIGHTS.languages]);
+    const totalWeight = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+    const score = Math.round(
+      weighted.reduce((sum, [value, weight]) => sum + value * weight, 0) /
+        totalWeight,
+    );
+
+    return {
+      candidateId: candidate._id.toString(),
+      nom: candidate.nom,
+      ...(candidate.image && { image: candidate.image }),
+      TrustXP: candidate.TrustXP ?? 0,
+      ...(application && {
+        email: candidate.email,
+        applicationId: application.applicationId,
+        applicationStatus: application.status,
+      }),
+      availableHours,
+      scores: {
+        score,
+        availabilityScore,
+        profileScore: Math.round(profileScore),
+        ...(skills.score !== null && { skillsScore: skills.score }),
+        ...(languages && { languageScore: languages.score }),
+        trustScore,
+      },
+      ...(skills.score !== null && {
+        skills: { matched: skills.matched, missing: skills.missing },
+      }),
+      reasons: this.generateReasons(
+        availableHours,
+        availabilityScore,
+        disponibilites.length > 0,
+        skills,
+        languages?.missing ?? [],
+        studentPreference !== null,
+        trustScore,
+      ),
+      rank: 0, // Sera défini après le tri
+    };
+  }
+
+  /**
+   * Heures de l'offre couvertes par les disponibilités. Sans horaires
+   * déclarés, ce sont les heures disponibles pendant le shift de l'offre,
+   * rapportées aux heures par semaine demandées.
+   */
+  private scoreAvailability(
+    offre: OffreDocument,
+    disponibilites: Disponibilite[],
+  ): { availableHours: number; availabilityScore: number } {
+    if (offre.schedule?.length) {
+      const availableHours = scheduleCoveredHours(
+        offre.schedule,
+        disponibilites,
+      );
+      return {
+        availableHours,
+        availabilityScore: Math.round(
+          (availableHours / scheduleWeeklyHours(offre.schedule)) * 100,
+        ),
+      };
+    }
+
+    const [heureDebut, heureFin] =
+      SHIFT_HOURS[offre.shift] ?? SHIFT_HOURS[Shift.JOUR];
+    const week: WorkScheduleSlot[] = Object.values(JourSemaine).map((jour) => ({
+      jour,
+      heureDebut,
+      heureFin,
+    }));
+    const availableHours = scheduleCoveredHours(week, disponibilites);
+    const needed = requiredWeeklyHours(offre) ?? DEFAULT_WEEKLY_HOURS;
+    return {
+      availableHours,
+      availabilityScore: Math.round(Math.min(1, availableHours / needed) * 100),
+    };
+  }
+
+  /**
+   * Niveau moyen dans les langues citées par les exigences de l'offre, null
+   * si l'offre n'en cite aucune.
+   */
+  private scoreLanguages(
+    offre: OffreDocument,
+    studentPreference: StudentPreferenceDocument | null,
+  ): { score: number; missing: string[] } | null {
+    const required = extractSkills((offre.exigences ?? []).join(', ')).filter(
+      (skill) => skill in LANGUAGES,
+    );
+    if (required.length === 0) {
+      return null;
+    }
+
+    const levels = required.map((language) => {
+      const level = studentPreference?.[LANGUAGES[language]] as
+        | LanguageLevel
+        | undefined;
+      return level ? (LANGUAGE_LEVEL_SCORES[level] ?? 0) : 0;
+    });
+    return {
+      score: Math.round(levels.reduce((a, b) => a + b, 0) / levels.length),
+      // Langues non déclarées ou au niveau débutant
+      missing: required.filter((_, index) => levels[index] <= 25),
+    };
+  }
+
+  private generateReasons(
+    availableHours: number,
+    availabilityScore: number,
+    hasDisponibilites: boolean,
+    skills: SkillMatch,
+    weakLanguages: string[],
+    hasPreferences: boolean,
+    trustScore: number,
+  ): MatchingReasonDto[] {
+    const reasons: MatchingReasonDto[] = [];
+
+    if (!hasDisponibilites) {
+      reasons.push({
+        type: 'neutral',
+        message: "Le candidat n'a pas renseigné ses disponibilités",
+        weight: 0.6,
+      });
+    } else if (availabilityScore >= 80) {
+      reasons.push({
+        type: 'positive',
+        message: `Disponible sur les horaires du poste (${Math.round(availableHours)} h par semaine)`,
+        weight: 0.9,
+      });
+    } else if (availabilityScore < 40) {
+      reasons.push({
+        type: 'negative',
+        message: `Peu disponible sur les horaires du poste (${Math.round(availableHours)} h par semaine)`,
+        weight: 0.7,
+      });
+    }
+
+    const total = skills.matched.length + skills.missing.length;
+    if (total > 0 && skills.missing.length === 0) {
+      reasons.push({
+        type: 'positive',
+        message: 'A toutes les compétences demandées',
+        weight: 0.9,
+      });
+    } else if (total > 0) {
+      const shown = skills.missing.slice(0, 3).join(', ');
+      reasons.push({
+        type: skills.matched.length > 0 ? 'neutral' : 'negative',
+        message: `${skills.matched.length} des ${total} compétences demandées, manquantes : ${shown}${skills.missing.length > 3 ? '…' : ''}`,
+        weight: skills.matched.length > 0 ? 0.6 : 0.8,
+      });
+    }
+
+    if (weakLanguages.length > 0) {
+      reasons.push({
+        type: 'negative',
+        message: `Niveau insuffisant ou non renseigné : ${weakLanguages.join(', ')}`,
+        weight: 0.6,
+      });
+    }
+
+    if (!hasPreferences) {
+      reasons.push({
+        type: 'neutral',
+        message: "Le candidat n'a pas complété son profil étudiant",
+        weight: 0.5,
+      });
+    }
+
+    if (trustScore >= 50) {
+      reasons.push({
+        type: 'positive',
+        message: 'Profil de confiance reconnu sur la plateforme',
+        weight: 0.7,
+      });
+    }
+
+    return reasons;
+  }
+}
@@ -0,0 +1,126 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { MatchingReasonDto, SkillsMatchDto } from './matching-response.dto';
+
+export class CandidateScoreDto {
+  @ApiProperty({ description: 'Score de pertinence (0-100)', example: 78 })
+  score: number;
+
+  @ApiProperty({
+    description: "Part des heures de l'offre couvertes par les disponibilités",
+    example: 85,
+  })
+  availabilityScore: number;
+
+  @ApiProperty({
+    description: "Type de contrat recherché et domaine d'étude",
+    example: 80,
+  })
+  profileScore: number;
+
+  @ApiProperty({
+    description:
+      "Part des exigences de l'offre couvertes par le CV et les soft skills, absent sans exigence",
+    example: 67,
+    required: false,
+  })
+  skillsScore?: number;
+
+  @ApiProperty({
+    description:
+      "Niveau déclaré dans les langues exigées par l'offre, absent si l'offre n'en exige aucune",
+    example: 75,
+    required: false,
+  })
+  languageScore?: number;
+
+  @ApiProperty({ description: 'Score de confiance (TrustXP)', example: 50 })
+  trustScore: number;
+}
+
+export class CandidateMatchDto {
+  @ApiProperty({ description: "ID de l'étudiant" })
+  candidateId: string;
+
+  @ApiProperty({ description: 'Nom', example: 'Amira Ben Salah' })
+  nom: string;
+
+  @ApiProperty({
+    description: "Email, uniquement pour un étudiant qui a postulé à l'offre",
+    example: 'amira@example.com',
+    required: false,
+  })
+  email?: string;
+
+  @ApiProperty({ description: 'Photo de profil', required: false })
+  image?: string;
+
+  @ApiProperty({ description: 'Points de confiance', example: 120 })
+  TrustXP: number;
+
+  @ApiProperty({
+    description:
+      "ID de la candidature, absent pour un étudiant ouvert aux offres qui n'a pas postulé",
+    required: false,
+  })
+  applicationId?: string;
+
+  @ApiProperty({
+    description: 'Statut de la candidature',
+    example: 'submitted',
+    required: false,
+  })
+  applicationStatus?: string;
+
+  @ApiProperty({
+    description:
+      "Heures par semaine où l'étudiant est disponible sur les horaires de l'offre",
+    example: 16,
+  })
+  availableHours: number;
+
+  @ApiProperty({ description: 'Scores de matching', type: CandidateScoreDto })
+  scores: CandidateScoreDto;
+
+  @ApiProperty({
+    description: "Exigences de l'offre remplies ou non par le candidat",
+    type: SkillsMatchDto,
+    required: false,
+  })
+  skills?: SkillsMatchDto;
+
+  @ApiProperty({
+    description: 'Raisons du classement',
+    type: [MatchingReasonDto],
+  })
+  reasons: MatchingReasonDto[];
+
+  @ApiProperty({ description: 'Rang du candidat', example: 1 })
+  rank: number;
+}
+
+export class CandidateRankingResponseDto {
+  @ApiProperty({ description: "ID de l'offre" })
+  offreId: string;
+
+  @ApiProperty({ description: 'Nombre de candidats classés', example: 12 })
+  totalCandidates: number;
+
+  @ApiProperty({
+    description: 'Candidats triés par score',
+    type: [CandidateMatchDto],
+  })
+  candidates: CandidateMatchDto[];
+
+  @ApiProperty({ description: "Timestamp de l'analyse" })
+  timestamp: string;
+
+  @ApiProperty({ description: "Résumé de l'analyse" })
+  summary: {
+    averageScore: number;
+    applicantCount: number;
+    openToWorkCount: number;
+    highScoreCount: number; // Score > 70
+    mediumScoreCount: number; // Score 40-70
+    lowScoreCount: number; // Score < 40
+  };
+}
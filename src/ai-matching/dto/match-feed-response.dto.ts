@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OffreMatchDto, ScoringInfoDto } from './matching-response.dto';
+
+export class MatchFeedResponseDto {
+  @ApiProperty({
+    description: 'Offres triées par score',
+    type: [OffreMatchDto],
+  })
+  items: OffreMatchDto[];
+
+  @ApiProperty({ description: "Nombre d'offres actives notées", example: 120 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 20 })
+  limit: number;
+
+  @ApiProperty({
+    description: 'Date du dernier calcul complet',
+    required: false,
+  })
+  refreshedAt?: Date | null;
+
+  @ApiProperty({
+    description:
+      'Un recalcul est en cours après une modification des préférences ou disponibilités',
+    example: false,
+  })
+  stale: boolean;
+
+  @ApiProperty({
+    description: 'Configuration de scoring ayant produit les scores servis',
+    type: ScoringInfoDto,
+    required: false,
+  })
+  scoring?: ScoringInfoDto;
+}
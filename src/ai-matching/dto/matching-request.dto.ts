@@ -3,10 +3,18 @@ import { IsString, IsOptional, IsArray, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class DisponibiliteDto {
-  @ApiProperty({ 
-    description: 'Jour de la semaine', 
+  @ApiProperty({
+    description: 'Jour de la semaine',
     example: 'Lundi',
-    enum: ['Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi', 'Dimanche']
+    enum: [
+      'Lundi',
+      'Mardi',
+      'Mercredi',
+      'Jeudi',
+      'Vendredi',
+      'Samedi',
+      'Dimanche',
+    ],
   })
   @IsString()
   jour: string;
@@ -15,39 +23,52 @@ export class DisponibiliteDto {
   @IsString()
   heureDebut: string;
 
-  @ApiProperty({ description: 'Heure de fin', example: '17:00', required: false })
+  @ApiProperty({
+    description: 'Heure de fin',
+    example: '17:00',
+    required: false,
+  })
   @IsString()
   @IsOptional()
   heureFin?: string;
 }
 
 export class MatchingRequestDto {
-  @ApiProperty({ description: 'ID de l\'étudiant' })
+  @ApiProperty({ description: "ID de l'étudiant" })
   @IsString()
   studentId: string;
 
-  @ApiProperty({ 
-    description: 'Liste des IDs d\'offres à analyser (optionnel, sinon toutes les offres actives)',
+  @ApiProperty({
+    description:
+      "Liste des IDs d'offres à analyser (optionnel, sinon toutes les offres actives)",
     type: [String],
-    required: false 
+    required: false,
   })
   @IsArray()
   @IsString({ each: true })
   @IsOptional()
   offreIds?: string[];
 
-  @ApiProperty({ 
-    description: 'Disponibilités de l\'étudiant',
-    type: [DisponibiliteDto]
+  @ApiProperty({
+    description: "Disponibilités de l'étudiant",
+    type: [DisponibiliteDto],
   })
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => DisponibiliteDto)
   disponibilites: DisponibiliteDto[];
 
-  @ApiProperty({ 
-    description: 'Préférences supplémentaires (type de job, ville, etc.)',
-    required: false 
+  @ApiProperty({
+    description:
+      'Préférences supplémentaires (type de job, ville, etc.). maxDistance est en km, mesuré depuis latitude/longitude ou la position enregistrée dans les préférences étudiant',
+    required: false,
+    example: {
+      jobType: 'job',
+      city: 'Tunis',
+      maxDistance: 10,
+      latitude: 36.8065,
+      longitude: 10.1815,
+    },
   })
   @IsOptional()
   preferences?: {
@@ -55,6 +76,7 @@ export class MatchingRequestDto {
     city?: string;
     minSalary?: string;
     maxDistance?: number;
+    latitude?: number;
+    longitude?: number;
   };
 }
-
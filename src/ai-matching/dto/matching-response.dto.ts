@@ -4,21 +4,52 @@ export class MatchingScoreDto {
   @ApiProperty({ description: 'Score de compatibilité (0-100)', example: 85 })
   score: number;
 
-  @ApiProperty({ description: 'Score de disponibilité temporelle', example: 90 })
+  @ApiProperty({
+    description: 'Score de disponibilité temporelle',
+    example: 90,
+  })
   timeScore: number;
 
-  @ApiProperty({ description: 'Score de compatibilité des préférences', example: 80 })
+  @ApiProperty({
+    description: 'Score de compatibilité des préférences',
+    example: 80,
+  })
   preferenceScore: number;
 
-  @ApiProperty({ description: 'Score basé sur le profil étudiant', example: 85 })
+  @ApiProperty({
+    description: 'Score basé sur le profil étudiant',
+    example: 85,
+  })
   profileScore: number;
+
+  @ApiProperty({
+    description:
+      "Part des exigences de l'offre couvertes par les compétences du CV, absent sans CV ou sans exigence",
+    example: 67,
+    required: false,
+  })
+  skillsScore?: number;
+}
+
+export class SkillsMatchDto {
+  @ApiProperty({
+    description: 'Exigences remplies',
+    example: ['JavaScript', 'Anglais courant'],
+  })
+  matched: string[];
+
+  @ApiProperty({ description: 'Exigences manquantes', example: ['Permis B'] })
+  missing: string[];
 }
 
 export class MatchingReasonDto {
   @ApiProperty({ description: 'Type de raison', example: 'positive' })
   type: 'positive' | 'negative' | 'neutral';
 
-  @ApiProperty({ description: 'Message explicatif', example: 'Vos horaires correspondent parfaitement' })
+  @ApiProperty({
+    description: 'Message explicatif',
+    example: 'Vos horaires correspondent parfaitement',
+  })
   message: string;
 
   @ApiProperty({ description: 'Poids de cette raison (0-1)', example: 0.8 })
@@ -26,10 +57,10 @@ export class MatchingReasonDto {
 }
 
 export class OffreMatchDto {
-  @ApiProperty({ description: 'ID de l\'offre' })
+  @ApiProperty({ description: "ID de l'offre" })
   offreId: string;
 
-  @ApiProperty({ description: 'Titre de l\'offre' })
+  @ApiProperty({ description: "Titre de l'offre" })
   titre: string;
 
   @ApiProperty({ description: 'Entreprise' })
@@ -41,36 +72,90 @@ export class OffreMatchDto {
   @ApiProperty({ description: 'Type de job', example: 'stage' })
   jobType: string;
 
-  @ApiProperty({ description: 'Horaire de travail', example: 'Lundi-Vendredi 09:00-17:00' })
+  @ApiProperty({
+    description: 'Horaire de travail',
+    example: 'Lundi-Vendredi 09:00-17:00',
+  })
   horaire?: string;
 
+  @ApiProperty({
+    description: "Distance entre l'étudiant et l'offre (km)",
+    example: 3.4,
+    required: false,
+  })
+  distanceKm?: number;
+
   @ApiProperty({ description: 'Scores de matching', type: MatchingScoreDto })
   scores: MatchingScoreDto;
 
-  @ApiProperty({ description: 'Raisons du matching', type: [MatchingReasonDto] })
+  @ApiProperty({
+    description: "Exigences de l'offre remplies ou non par le CV",
+    type: SkillsMatchDto,
+    required: false,
+  })
+  skills?: SkillsMatchDto;
+
+  @ApiProperty({
+    description: 'Raisons du matching',
+    type: [MatchingReasonDto],
+  })
   reasons: MatchingReasonDto[];
 
-  @ApiProperty({ description: 'Recommandation IA', example: 'Cette offre correspond bien à votre profil' })
+  @ApiProperty({
+    description: 'Recommandation IA',
+    example: 'Cette offre correspond bien à votre profil',
+  })
   recommendation: string;
 
   @ApiProperty({ description: 'Rang de cette offre', example: 1 })
   rank: number;
 }
 
+export class ScoringInfoDto {
+  @ApiProperty({
+    description:
+      'Version de la configuration de scoring, 0 pour les valeurs par défaut',
+    example: 3,
+  })
+  version: number;
+
+  @ApiProperty({
+    description: 'Expérience A/B en cours pour cet étudiant',
+    required: false,
+  })
+  experimentId?: string;
+
+  @ApiProperty({
+    description: "Groupe de l'étudiant dans l'expérience",
+    enum: ['control', 'variant'],
+    required: false,
+  })
+  variant?: string;
+}
+
 export class MatchingResponseDto {
-  @ApiProperty({ description: 'ID de l\'étudiant' })
+  @ApiProperty({ description: "ID de l'étudiant" })
   studentId: string;
 
-  @ApiProperty({ description: 'Nombre total d\'offres analysées', example: 25 })
+  @ApiProperty({ description: "Nombre total d'offres analysées", example: 25 })
   totalOffres: number;
 
-  @ApiProperty({ description: 'Offres compatibles triées par score', type: [OffreMatchDto] })
+  @ApiProperty({
+    description: 'Offres compatibles triées par score',
+    type: [OffreMatchDto],
+  })
   matches: OffreMatchDto[];
 
-  @ApiProperty({ description: 'Timestamp de l\'analyse' })
+  @ApiProperty({ description: "Timestamp de l'analyse" })
   timestamp: string;
 
-  @ApiProperty({ description: 'Résumé de l\'analyse' })
+  @ApiProperty({
+    description: 'Configuration de scoring utilisée',
+    type: ScoringInfoDto,
+  })
+  scoring: ScoringInfoDto;
+
+  @ApiProperty({ description: "Résumé de l'analyse" })
   summary: {
     bestMatch?: OffreMatchDto;
     averageScore: number;
@@ -79,4 +164,3 @@ export class MatchingResponseDto {
     lowScoreCount: number; // Score < 40
   };
 }
-
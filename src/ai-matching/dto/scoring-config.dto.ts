@@ -0,0 +1,98 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ScoringVariant } from '../schemas/scoring-experiment.schema';
+
+export class CreateScoringConfigDto {
+  @ApiProperty({ example: 'Distance plus importante' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'Version de départ, par défaut la version active (0 pour les valeurs par défaut)',
+    required: false,
+    example: 2,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  basedOn?: number;
+
+  @ApiProperty({
+    description:
+      'Paramètres modifiés par rapport à la version de départ, les autres sont repris tels quels',
+    required: false,
+    example: {
+      weights: { time: 0.3, preference: 0.3 },
+      preference: { distance: { near: 35 } },
+    },
+  })
+  @IsObject()
+  @IsOptional()
+  parameters?: Record<string, unknown>;
+}
+
+export class CreateScoringExperimentDto {
+  @ApiProperty({ example: 'Distance x2' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({ description: 'Version testée', example: 3 })
+  @IsInt()
+  @Min(0)
+  variantVersion: number;
+
+  @ApiProperty({
+    description: 'Version du groupe témoin, par défaut la version active',
+    required: false,
+    example: 2,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  controlVersion?: number;
+
+  @ApiProperty({
+    description: 'Pourcentage des étudiants servis par la version testée',
+    required: false,
+    example: 50,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(99)
+  @IsOptional()
+  variantPercent?: number;
+}
+
+export class StopScoringExperimentDto {
+  @ApiProperty({
+    description:
+      'Groupe dont la version devient la version active, aucune activation si absent',
+    enum: ScoringVariant,
+    required: false,
+  })
+  @IsEnum(ScoringVariant)
+  @IsOptional()
+  activate?: ScoringVariant;
+}
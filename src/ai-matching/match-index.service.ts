@@ -0,0 +1,496 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, Model, Types } from 'mongoose';
+import { AiMatchingService } from './ai-matching.service';
+import { OffreMatch, OffreMatchDocument } from './schemas/offre-match.schema';
+import {
+  MatchIndexState,
+  MatchIndexStateDocument,
+} from './schemas/match-index-state.schema';
+import { Offre, OffreDocument } from '../offre/schemas/offre.schema';
+import {
+  StudentPreference,
+  StudentPreferenceDocument,
+} from '../student_preference/schemas/student_preference.schema';
+import {
+  Disponibilite,
+  DisponibiliteDocument,
+} from '../disponibilite/schemas/disponibilite.schema';
+import { User, UserDocument } from '../User/schemas/user.schema';
+import { OffreMatchDto, ScoringInfoDto } from './dto/matching-response.dto';
+import { MatchFeedResponseDto } from './dto/match-feed-response.dto';
+import {
+  ResolvedScoring,
+  ScoringConfigService,
+} from './scoring-config.service';
+import { ScoringRecordSource } from './schemas/scoring-record.schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WRITE_BATCH_SIZE = 200;
+// Offres modifiées traitées par passage de la tâche planifiée
+const CHANGED_OFFRES_LIMIT = 1000;
+
+interface StudentContext {
+  studentId: Types.ObjectId;
+  disponibilites: Disponibilite[];
+  preference: StudentPreferenceDocument | null;
+  cvSkills: string[];
+  scoring: ResolvedScoring;
+}
+
+interface FeedRow {
+  offreId: Types.ObjectId;
+  scores: OffreMatch['scores'];
+  reasons: OffreMatch['reasons'];
+  skills?: OffreMatch['skills'];
+  horaire?: string;
+  distanceKm?: number | null;
+  recommendation: string;
+  offre: {
+    title: string;
+    company: string;
+    jobType: string;
+    location?: { city?: string };
+  };
+}
+
+/**
+ * Index de matching par étudiant : les scores sont calculés en arrière-plan
+ * et le fil personnalisé n'a plus qu'à les lire.
+ */
+@Injectable()
+export class MatchIndexService {
+  private readonly logger = new Logger(MatchIndexService.name);
+  private readonly maxIndexedOffres =
+    Number(process.env.MATCH_INDEX_MAX_OFFRES) || 2000;
+  // Les index non consultés depuis ce délai ne sont plus entretenus
+  private readonly retentionMs =
+    (Number(process.env.MATCH_INDEX_RETENTION_DAYS) || 30) * DAY_MS;
+  // Un recalcul complet quotidien rattrape les offres supprimées et les distances
+  private readonly fullRefreshMs = DAY_MS;
+  // Un calcul à la fois par étudiant dans ce processus
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor(
+    @InjectModel(OffreMatch.name)
+    private offreMatchModel: Model<OffreMatchDocument>,
+    @InjectModel(MatchIndexState.name)
+    private stateModel: Model<MatchIndexStateDocument>,
+    @InjectModel(Offre.name) private offreModel: Model<OffreDocument>,
+    @InjectModel(StudentPreference.name)
+    private studentPreferenceModel: Model<StudentPreferenceDocument>,
+    @InjectModel(Disponibilite.name)
+    private disponibiliteModel: Model<DisponibiliteDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly aiMatchingService: AiMatchingService,
+    private readonly scoringConfigService: ScoringConfigService,
+  ) {}
+
+  /**
+   * Fil classé par score. À la première consultation l'index est construit
+   * avant de répondre, ensuite il est servi tel quel pendant un recalcul,
+   * y compris quand la configuration de scoring de l'étudiant a changé.
+   */
+  async getFeed(
+    studentId: string,
+    page = 1,
+    limit = 20,
+  ): Promise<MatchFeedResponseDto> {
+    const owner = new Types.ObjectId(studentId);
+    let state = await this.stateModel
+      .findOneAndUpdate(
+        { studentId: owner },
+        { lastConsultedAt: new Date() },
+        { new: true },
+      )
+      .exec();
+    if (!state) {
+      await this.enqueue(studentId, () => this.rebuild(studentId));
+      state = await this.stateModel.findOne({ studentId: owner }).exec();
+    } else if (state.stale) {
+      this.scheduleRebuild(studentId);
+    } else if (
+      !this.sameScoring(
+        state.scoring,
+        await this.scoringConfigService.resolveForStudent(studentId),
+      )
+    ) {
+      this.markStale(studentId);
+      state.stale = true;
+    }
+
+    const skip = (page - 1) * limit;
+    const [result] = await this.offreMatchModel
+      .aggregate<{ items: FeedRow[]; total: { count: number }[] }>([
+        { $match: { studentId: owner } },
+        { $sort: { score: -1, offreId: 1 } },
+        // Les offres désactivées ou supprimées depuis le calcul sont écartées ici
+        {
+          $lookup: {
+            from: this.offreModel.collection.name,
+            let: { offreId: '$offreId' },
+            pipeline: [
+              { $match: { $expr: { $eq: ['$_id', '$$offreId'] } } },
+              {
+                $project: {
+                  title: 1,
+                  company: 1,
+                  jobType: 1,
+                  'location.city': 1,
+                  isActive: 1,
+                },
+              },
+            ],
+            as: 'offre',
+          },
+        },
+        { $unwind: '$offre' },
+        { $match: { 'offre.isActive': true } },
+        {
+          $facet: {
+            items: [{ $skip: skip }, { $limit: limit }],
+            total: [{ $count: 'count' }],
+          },
+        },
+      ])
+      .exec();
+
+    const items = result.items.map((row, index) =>
+      this.toMatchDto(row, skip + index + 1),
+    );
+    const scoring = state?.scoring
+      ? {
+          version: state.scoring.version,
+          ...(state.scoring.experimentId && {
+            experimentId: state.scoring.experimentId,
+            variant: state.scoring.variant,
+          }),
+        }
+      : undefined;
+    if (scoring) {
+      this.scoringConfigService.record(
+        studentId,
+        ScoringRecordSource.FEED,
+        scoring,
+        items,
+      );
+    }
+
+    return {
+      items,
+      total: result.total[0]?.count ?? 0,
+      page,
+      limit,
+      refreshedAt: state?.refreshedAt ?? null,
+      stale: state?.stale ?? false,
+      ...(scoring && { scoring }),
+    };
+  }
+
+  /**
+   * À appeler quand les préférences ou disponibilités d'un étudiant changent.
+   * Ne lève jamais d'erreur, l'index est recalculé en arrière-plan.
+   */
+  markStale(studentId: string): void {
+    if (!Types.ObjectId.isValid(studentId)) return;
+    void this.stateModel
+      .updateOne({ studentId: new Types.ObjectId(studentId) }, { stale: true })
+      .exec()
+      .then((result) => {
+        // Pas d'index tant que l'étudiant n'a pas ouvert son fil
+        if (result.matchedCount > 0) this.scheduleRebuild(studentId);
+      })
+      .catch((error: Error) =>
+        this.logger.error(
+          `Index de matching non invalidé pour ${studentId}: ${error.message}`,
+        ),
+      );
+  }
+
+  /** Tâche planifiée : recalculs en attente puis offres modifiées */
+  async refreshAll(): Promise<{ rebuilt: number; rescored: number }> {
+    const now = Date.now();
+    const states = await this.stateModel
+      .find({
+        lastConsultedAt: { $gte: new Date(now - this.retentionMs) },
+        $or: [
+          { stale: true },
+          { refreshedAt: null },
+          { refreshedAt: { $lt: new Date(now - this.fullRefreshMs) } },
+        ],
+      })
+      .select('studentId')
+      .limit(100)
+      .exec();
+
+    let rebuilt = 0;
+    for (const state of states) {
+      const studentId = state.studentId.toString();
+      try {
+        await this.enqueue(studentId, () => this.rebuild(studentId));
+        rebuilt++;
+      } catch (error) {
+        this.logger.warn(
+          `Index de matching non recalculé pour ${studentId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    const rescored = await this.rescoreChangedOffres();
+    return { rebuilt, rescored };
+  }
+
+  /** Recalcule tout l'index d'un étudiant */
+  private async rebuild(studentId: string): Promise<number> {
+    const startedAt = new Date();
+    const owner = new Types.ObjectId(studentId);
+    // Une modification pendant le calcul remettra stale à true
+    await this.stateModel
+      .updateOne({ studentId: owner }, { stale: false }, { upsert: true })
+      .exec();
+
+    const context = await this.loadContext(owner);
+    const cursor = this.offreModel
+      .find({ isActive: true })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(this.maxIndexedOffres)
+      .cursor();
+
+    let count = 0;
+    let batch: OffreDocument[] = [];
+    for await (const offre of cursor) {
+      batch.push(offre);
+      if (batch.length === WRITE_BATCH_SIZE) {
+        count += await this.writeMatches(context, batch, startedAt);
+        batch = [];
+      }
+    }
+    count += await this.writeMatches(context, batch, startedAt);
+
+    await this.offreMatchModel
+      .deleteMany({ studentId: owner, computedAt: { $lt: startedAt } })
+      .exec();
+    await this.stateModel
+      .updateOne(
+        { studentId: owner },
+        {
+          refreshedAt: startedAt,
+          offresCheckedAt: startedAt,
+          offreCount: count,
+          scoring: this.scoringConfigService.toInfo(context.scoring),
+        },
+      )
+      .exec();
+    return count;
+  }
+
+  /**
+   * Renote les offres dont un champ utile au matching a changé depuis le
+   * dernier passage de chaque index.
+   */
+  private async rescoreChangedOffres(): Promise<number> {
+    const states = await this.stateModel
+      .find({
+        stale: false,
+        offresCheckedAt: { $ne: null },
+        lastConsultedAt: { $gte: new Date(Date.now() - this.retentionMs) },
+      })
+      .select('studentId offresCheckedAt scoring')
+      .exec();
+    if (states.length === 0) return 0;
+
+    const since = new Date(
+      states.reduce(
+        (oldest, state) => Math.min(oldest, state.offresCheckedAt!.getTime()),
+        Infinity,
+      ),
+    );
+    const runAt = new Date();
+    const changed = await this.offreModel
+      .find({ matchingUpdatedAt: { $gt: since, $lte: runAt } })
+      .sort({ matchingUpdatedAt: 1 })
+      .limit(CHANGED_OFFRES_LIMIT)
+      .exec();
+    // Limite atteinte : le reste sera traité au prochain passage
+    const checkpoint =
+      changed.length === CHANGED_OFFRES_LIMIT
+        ? changed[changed.length - 1].matchingUpdatedAt!
+        : runAt;
+
+    let rescored = 0;
+    for (const state of states) {
+      const checkedAt = state.offresCheckedAt!;
+      const relevant = changed.filter(
+        (offre) =>
+          offre.matchingUpdatedAt! > checkedAt &&
+          offre.matchingUpdatedAt! <= checkpoint,
+      );
+      const studentId = state.studentId.toString();
+
+      try {
+        await this.enqueue(studentId, async () => {
+          if (relevant.length > 0) {
+            const context = await this.loadContext(state.studentId);
+            // Des scores d'une autre configuration ne se mélangent pas à l'index
+            if (!this.sameScoring(state.scoring, context.scoring)) {
+              await this.rebuild(studentId);
+              return;
+            }
+            rescored += await this.writeMatches(
+              context,
+              relevant.filter((offre) => offre.isActive),
+              runAt,
+            );
+            const inactive = relevant.filter((offre) => !offre.isActive);
+            if (inactive.length > 0) {
+              await this.offreMatchModel
+                .deleteMany({
+                  studentId: state.studentId,
+                  offreId: { $in: inactive.map((offre) => offre._id) },
+                })
+                .exec();
+            }
+          }
+          // Un recalcul complet entre-temps a déjà avancé la date
+          await this.stateModel
+            .updateOne(
+              { _id: state._id, offresCheckedAt: { $lt: checkpoint } },
+              { offresCheckedAt: checkpoint },
+            )
+            .exec();
+        });
+      } catch (error) {
+        this.logger.warn(
+          `Offres non renotées pour ${studentId}: ${(error as Error).message}`,
+        );
+      }
+    }
+    return rescored;
+  }
+
+  private async loadContext(
+    studentId: Types.ObjectId,
+  ): Promise<StudentContext> {
+    const [preference, disponibilites, student, scoring] = await Promise.all([
+      this.studentPreferenceModel.findOne({ userId: studentId }).exec(),
+      this.disponibiliteModel.find({ userId: studentId }).lean().exec(),
+      this.userModel.findById(studentId).select('cvSkills').lean().exec(),
+      this.scoringConfigService.resolveForStudent(studentId.toString()),
+    ]);
+    return {
+      studentId,
+      preference,
+      disponibilites,
+      cvSkills: student?.cvSkills ?? [],
+      scoring,
+    };
+  }
+
+  private async writeMatches(
+    context: StudentContext,
+    offres: OffreDocument[],
+    computedAt: Date,
+  ): Promise<number> {
+    if (offres.length === 0) return 0;
+    const location = this.aiMatchingService.resolveStudentLocation(
+      undefined,
+      context.preference,
+    );
+
+    const operations: AnyBulkWriteOperation<OffreMatchDocument>[] = offres.map(
+      (offre) => {
+        const match = this.aiMatchingService.scoreOffre(
+          offre,
+          context.disponibilites,
+          context.preference,
+          context.cvSkills,
+          undefined,
+          location
+            ? this.aiMatchingService.distanceToOffre(offre, location)
+            : null,
+          context.scoring.parameters,
+        );
+        return {
+          updateOne: {
+            filter: { studentId: context.studentId, offreId: offre._id },
+            update: {
+              $set: {
+                score: match.scores.score,
+                scores: match.scores,
+                reasons: match.reasons,
+                skills: match.skills ?? null,
+                horaire: match.horaire,
+                distanceKm: match.distanceKm ?? null,
+                recommendation: match.recommendation,
+                computedAt,
+              },
+            },
+            upsert: true,
+          },
+        };
+      },
+    );
+    await this.offreMatchModel.bulkWrite(operations, { ordered: false });
+    return operations.length;
+  }
+
+  private toMatchDto(row: FeedRow, rank: number): OffreMatchDto {
+    return {
+      offreId: row.offreId.toString(),
+      titre: row.offre.title,
+      entreprise: row.offre.company,
+      ville: row.offre.location?.city || 'Non spécifié',
+      jobType: row.offre.jobType,
+      horaire: row.horaire,
+      ...(row.distanceKm != null && { distanceKm: row.distanceKm }),
+      scores: row.scores,
+      ...(row.skills && { skills: row.skills }),
+      reasons: row.reasons,
+      recommendation: row.recommendation,
+      rank,
+    };
+  }
+
+  private sameScoring(
+    built: ScoringInfoDto | null | undefined,
+    current: ScoringInfoDto,
+  ): boolean {
+    // Les index antérieurs aux configurations ont été calculés en version 0
+    const previous = built ?? { version: 0 };
+    return (
+      previous.version === current.version &&
+      (previous.experimentId ?? null) === (current.experimentId ?? null) &&
+      (previous.variant ?? null) === (current.variant ?? null)
+    );
+  }
+
+  private scheduleRebuild(studentId: string): void {
+    void this.enqueue(studentId, async () => {
+      // Plusieurs modifications rapprochées ne donnent qu'un recalcul
+      const state = await this.stateModel
+        .findOne({ studentId: new Types.ObjectId(studentId) })
+        .select('stale')
+        .exec();
+      if (state && !state.stale) return 0;
+      return this.rebuild(studentId);
+    }).catch((error: Error) =>
+      this.logger.error(
+        `Index de matching non recalculé pour ${studentId}: ${error.message}`,
+      ),
+    );
+  }
+
+  private enqueue<T>(studentId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.has(studentId)
+      ? this.queues.get(studentId)!
+      : Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.queues.set(studentId, next);
+    void next
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.queues.get(studentId) === next) this.queues.delete(studentId);
+      });
+    return next;
+  }
+}
@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type MatchIndexStateDocument = HydratedDocument<MatchIndexState>;
+
+/** État de l'index de matching d'un étudiant, créé à sa première consultation du fil */
+@Schema({ timestamps: true, versionKey: false })
+export class MatchIndexState {
+  @ApiProperty({ description: "L'étudiant concerné" })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
+  studentId: Types.ObjectId;
+
+  @ApiProperty({
+    description:
+      'Préférences ou disponibilités modifiées depuis le dernier calcul',
+  })
+  @Prop({ type: Boolean, default: true })
+  stale: boolean;
+
+  @ApiProperty({ description: 'Dernier calcul complet', required: false })
+  @Prop({ type: Date, default: null })
+  refreshedAt?: Date | null;
+
+  // Les offres modifiées après cette date sont à renoter
+  @Prop({ type: Date, default: null })
+  offresCheckedAt?: Date | null;
+
+  @ApiProperty({ description: 'Dernière consultation du fil' })
+  @Prop({ type: Date, default: Date.now })
+  lastConsultedAt: Date;
+
+  @ApiProperty({
+    description: 'Configuration de scoring du dernier calcul complet',
+    required: false,
+  })
+  @Prop({
+    type: { version: Number, experimentId: String, variant: String },
+    _id: false,
+    default: null,
+  })
+  scoring?: { version: number; experimentId?: string; variant?: string } | null;
+
+  @ApiProperty({ description: "Nombre d'offres notées" })
+  @Prop({ type: Number, default: 0 })
+  offreCount: number;
+}
+
+export const MatchIndexStateSchema =
+  SchemaFactory.createForClass(MatchIndexState);
+
+MatchIndexStateSchema.index({ lastConsultedAt: 1, stale: 1, refreshedAt: 1 });
@@ -0,0 +1,93 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type OffreMatchDocument = HydratedDocument<OffreMatch>;
+
+/** Score précalculé d'une offre pour un étudiant, lu par le fil personnalisé */
+@Schema({ timestamps: true, versionKey: false })
+export class OffreMatch {
+  @ApiProperty({ description: "L'étudiant concerné" })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  studentId: Types.ObjectId;
+
+  @ApiProperty({ description: "L'offre notée" })
+  @Prop({ type: Types.ObjectId, ref: 'Offre', required: true })
+  offreId: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Score global, dupliqué pour le tri',
+    example: 85,
+  })
+  @Prop({ type: Number, required: true })
+  score: number;
+
+  @ApiProperty({ description: 'Détail des scores' })
+  @Prop({
+    type: {
+      score: Number,
+      timeScore: Number,
+      preferenceScore: Number,
+      profileScore: Number,
+      skillsScore: Number,
+    },
+    _id: false,
+    required: true,
+  })
+  scores: {
+    score: number;
+    timeScore: number;
+    preferenceScore: number;
+    profileScore: number;
+    skillsScore?: number;
+  };
+
+  @ApiProperty({ description: 'Raisons du matching' })
+  @Prop({
+    type: [
+      { type: { type: String }, message: String, weight: Number, _id: false },
+    ],
+    default: [],
+  })
+  reasons: {
+    type: 'positive' | 'negative' | 'neutral';
+    message: string;
+    weight: number;
+  }[];
+
+  @ApiProperty({
+    description: "Exigences de l'offre remplies ou non par le CV",
+    required: false,
+  })
+  @Prop({
+    type: { matched: [String], missing: [String] },
+    _id: false,
+    default: null,
+  })
+  skills?: { matched: string[]; missing: string[] } | null;
+
+  @ApiProperty({ description: 'Horaire de travail', required: false })
+  @Prop({ type: String })
+  horaire?: string;
+
+  @ApiProperty({
+    description: "Distance entre l'étudiant et l'offre (km)",
+    required: false,
+  })
+  @Prop({ type: Number, default: null })
+  distanceKm?: number | null;
+
+  @ApiProperty({ description: 'Recommandation' })
+  @Prop({ type: String })
+  recommendation: string;
+
+  @ApiProperty({ description: 'Date du calcul' })
+  @Prop({ type: Date, required: true })
+  computedAt: Date;
+}
+
+export const OffreMatchSchema = SchemaFactory.createForClass(OffreMatch);
+
+OffreMatchSchema.index({ studentId: 1, offreId: 1 }, { unique: true });
+OffreMatchSchema.index({ studentId: 1, score: -1 });
+OffreMatchSchema.index({ offreId: 1 });
@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import type { ScoringParameters } from '../scoring-parameters';
+
+export type ScoringConfigDocument = HydratedDocument<ScoringConfig>;
+
+/**
+ * Version d'une configuration de scoring. Une version n'est jamais modifiée :
+ * chaque changement en crée une nouvelle, pour savoir quels paramètres ont
+ * produit un résultat.
+ */
+@Schema({ timestamps: true, versionKey: false })
+export class ScoringConfig {
+  @ApiProperty({
+    description:
+      'Numéro de version, la version 0 est la configuration par défaut',
+    example: 3,
+  })
+  @Prop({ type: Number, required: true, unique: true })
+  version: number;
+
+  @ApiProperty({ example: 'Distance plus importante' })
+  @Prop({ type: String, required: true, trim: true })
+  name: string;
+
+  @ApiProperty({ required: false })
+  @Prop({ type: String, trim: true })
+  description?: string;
+
+  @ApiProperty({ description: 'Version dont les paramètres ont été repris' })
+  @Prop({ type: Number, required: true })
+  basedOn: number;
+
+  @ApiProperty({ description: 'Pondérations et points du scoring' })
+  @Prop({ type: Object, required: true })
+  parameters: ScoringParameters;
+
+  @ApiProperty({
+    description: 'Configuration appliquée hors expérience',
+    example: false,
+  })
+  @Prop({ type: Boolean, default: false })
+  active: boolean;
+
+  @ApiProperty({ required: false })
+  @Prop({ type: Date })
+  activatedAt?: Date;
+
+  @ApiProperty({ description: 'Administrateur auteur de la version' })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+}
+
+export const ScoringConfigSchema = SchemaFactory.createForClass(ScoringConfig);
+
+ScoringConfigSchema.index({ active: 1, activatedAt: -1 });
@@ -0,0 +1,89 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type ScoringExperimentDocument = HydratedDocument<ScoringExperiment>;
+
+export enum ScoringExperimentStatus {
+  RUNNING = 'running',
+  STOPPED = 'stopped',
+}
+
+export enum ScoringVariant {
+  CONTROL = 'control',
+  VARIANT = 'variant',
+}
+
+/**
+ * Test A/B entre deux versions de configuration. Chaque étudiant est affecté
+ * à un groupe par un hachage de son identifiant, l'affectation ne change
+ * donc pas d'une requête à l'autre.
+ */
+@Schema({ timestamps: true, versionKey: false })
+export class ScoringExperiment {
+  @ApiProperty({ example: 'Distance x2' })
+  @Prop({ type: String, required: true, trim: true })
+  name: string;
+
+  @ApiProperty({ required: false })
+  @Prop({ type: String, trim: true })
+  description?: string;
+
+  @ApiProperty({ description: 'Version servie au groupe témoin', example: 2 })
+  @Prop({ type: Number, required: true })
+  controlVersion: number;
+
+  @ApiProperty({ description: 'Version testée', example: 3 })
+  @Prop({ type: Number, required: true })
+  variantVersion: number;
+
+  @ApiProperty({
+    description: 'Pourcentage des étudiants servis par la version testée',
+    example: 50,
+  })
+  @Prop({ type: Number, required: true, min: 1, max: 99 })
+  variantPercent: number;
+
+  @ApiProperty({ enum: ScoringExperimentStatus })
+  @Prop({
+    type: String,
+    enum: ScoringExperimentStatus,
+    default: ScoringExperimentStatus.RUNNING,
+  })
+  status: ScoringExperimentStatus;
+
+  @ApiProperty()
+  @Prop({ type: Date, default: Date.now })
+  startedAt: Date;
+
+  @ApiProperty({ required: false })
+  @Prop({ type: Date })
+  stoppedAt?: Date;
+
+  @ApiProperty({
+    description: "Groupe dont la version a été activée à l'arrêt",
+    enum: ScoringVariant,
+    required: false,
+  })
+  @Prop({ type: String, enum: ScoringVariant })
+  winner?: ScoringVariant;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  stoppedBy?: Types.ObjectId;
+}
+
+export const ScoringExperimentSchema =
+  SchemaFactory.createForClass(ScoringExperiment);
+
+// Une seule expérience en cours à la fois
+ScoringExperimentSchema.index(
+  { status: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: ScoringExperimentStatus.RUNNING },
+  },
+);
+ScoringExperimentSchema.index({ startedAt: -1 });
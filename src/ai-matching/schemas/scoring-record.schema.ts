@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ScoringVariant } from './scoring-experiment.schema';
+
+export type ScoringRecordDocument = HydratedDocument<ScoringRecord>;
+
+export enum ScoringRecordSource {
+  ANALYZE = 'analyze',
+  FEED = 'feed',
+}
+
+/** Configuration ayant produit un résultat de matching servi à un étudiant */
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false,
+})
+export class ScoringRecord {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  studentId: Types.ObjectId;
+
+  @Prop({ type: String, enum: ScoringRecordSource, required: true })
+  source: ScoringRecordSource;
+
+  @Prop({ type: Number, required: true })
+  configVersion: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'ScoringExperiment' })
+  experimentId?: Types.ObjectId;
+
+  @Prop({ type: String, enum: ScoringVariant })
+  variant?: ScoringVariant;
+
+  @Prop({ type: Number, default: 0 })
+  matchCount: number;
+
+  @Prop({ type: Number, default: 0 })
+  averageScore: number;
+
+  // Offres servies, dans l'ordre du classement
+  @Prop({ type: [Types.ObjectId], default: [] })
+  offreIds: Types.ObjectId[];
+
+  createdAt?: Date;
+}
+
+export const ScoringRecordSchema = SchemaFactory.createForClass(ScoringRecord);
+
+ScoringRecordSchema.index({ experimentId: 1, variant: 1 });
+ScoringRecordSchema.index({ studentId: 1, createdAt: -1 });
+ScoringRecordSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 180 * 24 * 60 * 60 },
+);
@@ -0,0 +1,158 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ScoringConfigService } from './scoring-config.service';
+import {
+  CreateScoringConfigDto,
+  CreateScoringExperimentDto,
+  StopScoringExperimentDto,
+} from './dto/scoring-config.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
+
+@ApiTags('admins')
+@Controller('admin/matching/scoring')
+@Roles('admin')
+export class ScoringConfigController {
+  constructor(private readonly scoringConfigService: ScoringConfigService) {}
+
+  @Get('configs')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Versions de la configuration de scoring',
+    description:
+      'Toutes les versions enregistrées, la version active et les valeurs par défaut (version 0)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Versions, la plus récente en premier',
+  })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  async findConfigs() {
+    return this.scoringConfigService.findConfigs();
+  }
+
+  @Get('configs/:version')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Paramètres d'une version" })
+  @ApiResponse({ status: 200, description: 'Version demandée' })
+  @ApiResponse({ status: 404, description: 'Version introuvable' })
+  async findConfig(@Param('version', ParseIntPipe) version: number) {
+    return this.scoringConfigService.findConfig(version);
+  }
+
+  @Post('configs')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Créer une version',
+    description:
+      "Reprend les paramètres d'une version existante en appliquant les modifications. La nouvelle version n'est appliquée qu'après activation ou dans une expérience",
+  })
+  @ApiResponse({ status: 201, description: 'Version créée' })
+  @ApiResponse({ status: 400, description: 'Paramètres invalides' })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  async createConfig(
+    @Body() dto: CreateScoringConfigDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.scoringConfigService.createConfig(dto, userId.toString());
+  }
+
+  @Post('configs/:version/activate')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Activer une version',
+    description:
+      'Appliquée à tous les étudiants hors expérience en cours, les fils personnalisés sont recalculés à leur prochaine consultation. La version 0 revient aux valeurs par défaut',
+  })
+  @ApiResponse({ status: 201, description: 'Version activée' })
+  @ApiResponse({ status: 404, description: 'Version introuvable' })
+  async activateConfig(@Param('version', ParseIntPipe) version: number) {
+    return this.scoringConfigService.activateConfig(version);
+  }
+
+  @Get('experiments')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Expériences A/B de scoring' })
+  @ApiResponse({
+    status: 200,
+    description: 'Expériences, la plus récente en premier',
+  })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  async findExperiments() {
+    return this.scoringConfigService.findExperiments();
+  }
+
+  @Post('experiments')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Démarrer une expérience A/B',
+    description:
+      "Les étudiants sont répartis entre la version témoin et la version testée, chacun reste dans son groupe pendant toute l'expérience",
+  })
+  @ApiResponse({ status: 201, description: 'Expérience démarrée' })
+  @ApiResponse({ status: 404, description: 'Version introuvable' })
+  @ApiResponse({ status: 409, description: 'Une expérience est déjà en cours' })
+  async startExperiment(
+    @Body() dto: CreateScoringExperimentDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.scoringConfigService.startExperiment(dto, userId.toString());
+  }
+
+  @Post('experiments/:id/stop')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Arrêter une expérience',
+    description: "Peut activer la version d'un des deux groupes",
+  })
+  @ApiResponse({ status: 201, description: 'Expérience arrêtée' })
+  @ApiResponse({ status: 404, description: 'Expérience introuvable' })
+  @ApiResponse({ status: 409, description: 'Expérience déjà arrêtée' })
+  async stopExperiment(
+    @Param('id') id: string,
+    @Body() dto: StopScoringExperimentDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.scoringConfigService.stopExperiment(id, dto, userId.toString());
+  }
+
+  @Get('experiments/:id/results')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Résultats d'une expérience",
+    description:
+      "Par groupe : résultats de matching servis, étudiants, score moyen et candidatures envoyées pendant l'expérience",
+  })
+  @ApiResponse({ status: 200, description: 'Résultats par groupe' })
+  @ApiResponse({ status: 404, description: 'Expérience introuvable' })
+  async getExperimentResults(@Param('id') id: string) {
+    return this.scoringConfigService.getExperimentResults(id);
+  }
+}
@@ -0,0 +1,471 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
+import {
+  ScoringConfig,
+  ScoringConfigDocument,
+} from './schemas/scoring-config.schema';
+import {
+  ScoringExperiment,
+  ScoringExperimentDocument,
+  ScoringExperimentStatus,
+  ScoringVariant,
+} from './schemas/scoring-experiment.schema';
+import {
+  ScoringRecord,
+  ScoringRecordDocument,
+  ScoringRecordSource,
+} from './schemas/scoring-record.schema';
+import {
+  Application,
+  ApplicationDocument,
+} from '../application/schemas/application.schema';
+import {
+  DEFAULT_SCORING_PARAMETERS,
+  mergeScoringParameters,
+  ScoringParameters,
+} from './scoring-parameters';
+import {
+  CreateScoringConfigDto,
+  CreateScoringExperimentDto,
+  StopScoringExperimentDto,
+} from './dto/scoring-config.dto';
+import { ScoringInfoDto } from './dto/matching-response.dto';
+
+// Délai de prise en compte d'une modification faite par une autre instance
+const CACHE_TTL_MS = 30 * 1000;
+
+/** Configuration de scoring retenue pour un étudiant */
+export interface ResolvedScoring extends ScoringInfoDto {
+  parameters: ScoringParameters;
+  variant?: ScoringVariant;
+}
+
+interface ScoringSnapshot {
+  activeVersion: number;
+  experiment: {
+    id: string;
+    controlVersion: number;
+    variantVersion: number;
+    variantPercent: number;
+  } | null;
+  loadedAt: number;
+}
+
+/**
+ * Versions de la configuration de scoring et expériences A/B. Sans version
+ * activée, le matching utilise DEFAULT_SCORING_PARAMETERS (version 0).
+ */
+@Injectable()
+export class ScoringConfigService {
+  private readonly logger = new Logger(ScoringConfigService.name);
+  // Les versions ne changent jamais, elles restent en cache
+  private readonly parametersByVersion = new Map<number, ScoringParameters>([
+    [0, DEFAULT_SCORING_PARAMETERS],
+  ]);
+  private snapshot: Promise<ScoringSnapshot> | null = null;
+
+  constructor(
+    @InjectModel(ScoringConfig.name)
+    private configModel: Model<ScoringConfigDocument>,
+    @InjectModel(ScoringExperiment.name)
+    private experimentModel: Model<ScoringExperimentDocument>,
+    @InjectModel(ScoringRecord.name)
+    private recordModel: Model<ScoringRecordDocument>,
+    @InjectModel(Application.name)
+    private applicationModel: Model<ApplicationDocument>,
+  ) {}
+
+  /** Version active, ou celle du groupe de l'étudiant si une expérience est en cours */
+  async resolveForStudent(studentId: string): Promise<ResolvedScoring> {
+    const snapshot = await this.getSnapshot();
+    const experiment = snapshot.experiment;
+    if (!experiment) {
+      const version = snapshot.activeVersion;
+      return { version, parameters: await this.getParameters(version) };
+    }
+
+    const variant = this.assignVariant(experiment, studentId);
+    const version =
+      variant === ScoringVariant.VARIANT
+        ? experiment.variantVersion
+        : experiment.controlVersion;
+    return {
+      version,
+      experimentId: experiment.id,
+      variant,
+      parameters: await this.getParameters(version),
+    };
+  }
+
+  toInfo(scoring: ResolvedScoring): ScoringInfoDto {
+    return {
+      version: scoring.version,
+      ...(scoring.experimentId && {
+        experimentId: scoring.experimentId,
+        variant: scoring.variant,
+      }),
+    };
+  }
+
+  /**
+   * Garde la trace de la configuration ayant produit un résultat servi.
+   * Ne lève jamais d'erreur.
+   */
+  record(
+    studentId: string,
+    source: ScoringRecordSource,
+    scoring: ScoringInfoDto,
+    matches: { offreId: string; scores: { score: number } }[],
+  ): void {
+    const scores = matches.map((match) => match.scores.score);
+    void this.recordModel
+      .create({
+        studentId: new Types.ObjectId(studentId),
+        source,
+        configVersion: scoring.version,
+        ...(scoring.experimentId && {
+          experimentId: new Types.ObjectId(scoring.experimentId),
+          variant: scoring.variant,
+        }),
+        matchCount: matches.length,
+        averageScore:
+          scores.length > 0
+            ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length)
+            : 0,
+        offreIds: matches.map((match) => new Types.ObjectId(match.offreId)),
+      })
+      .catch((error: Error) =>
+        this.logger.error(
+          `Configuration de scoring non enregistrée pour ${studentId}: ${error.message}`,
+        ),
+      );
+  }
+
+  async findConfigs() {
+    const [snapshot, configs] = await Promise.all([
+      this.getSnapshot(),
+      this.configModel.find().sort({ version: -1 }).lean().exec(),
+    ]);
+    return {
+      activeVersion: snapshot.activeVersion,
+      defaults: this.defaultConfig(),
+      configs,
+    };
+  }
+
+  async findConfig(version: number) {
+    if (version === 0) {
+      return this.defaultConfig();
+    }
+    const config = await this.configModel.findOne({ version }).lean().exec();
+    if (!config) {
+      throw new NotFoundException(`Configuration v${version} introuvable`);
+    }
+    return config;
+  }
+
+  /** Crée une nouvelle version, inactive tant qu'elle n'est pas activée */
+  async createConfig(dto: CreateScoringConfigDto, adminId: string) {
+    const basedOn = dto.basedOn ?? (await this.getSnapshot()).activeVersion;
+    const parameters = mergeScoringParameters(
+      await this.getParameters(basedOn),
+      dto.parameters,
+    );
+    const last = await this.configModel
+      .findOne()
+      .sort({ version: -1 })
+      .select('version')
+      .lean()
+      .exec();
+
+    try {
+      return await this.configModel.create({
+        version: (last?.version ?? 0) + 1,
+        name: dto.name,
+        description: dto.description,
+        basedOn,
+        parameters,
+        createdBy: new Types.ObjectId(adminId),
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException(
+          "Une autre version vient d'être créée, veuillez réessayer",
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Applique une version à tous les étudiants hors expérience. La version 0
+   * revient aux valeurs par défaut.
+   */
+  async activateConfig(version: number) {
+    if (version !== 0) {
+      const activated = await this.configModel
+        .findOneAndUpdate(
+          { version },
+          { active: true, activatedAt: new Date() },
+          { new: true },
+        )
+        .exec();
+      if (!activated) {
+        throw new NotFoundException(`Configuration v${version} introuvable`);
+      }
+    }
+    // L'ancienne version n'est désactivée qu'ensuite : la plus récente l'emporte entre-temps
+    await this.configModel
+      .updateMany(
+        { active: true, version: { $ne: version } },
+        { active: false },
+      )
+      .exec();
+    this.snapshot = null;
+    this.logger.log(`Configuration de scoring v${version} activée`);
+    return this.findConfig(version);
+  }
+
+  async findExperiments() {
+    return this.experimentModel.find().sort({ startedAt: -1 }).lean().exec();
+  }
+
+  async startExperiment(dto: CreateScoringExperimentDto, adminId: string) {
+    const controlVersion =
+      dto.controlVersion ?? (await this.getSnapshot()).activeVersion;
+    if (controlVersion === dto.variantVersion) {
+      throw new BadRequestException(
+        'Les deux groupes doivent utiliser des versions différentes',
+      );
+    }
+    // Vérifie que les deux versions existent
+    await this.getParameters(controlVersion);
+    await this.getParameters(dto.variantVersion);
+
+    try {
+      const experiment = await this.experimentModel.create({
+        name: dto.name,
+        description: dto.description,
+        controlVersion,
+        variantVersion: dto.variantVersion,
+        variantPercent: dto.variantPercent ?? 50,
+        createdBy: new Types.ObjectId(adminId),
+      });
+      this.snapshot = null;
+      this.logger.log(
+        `Expérience de scoring "${experiment.name}" démarrée: v${controlVersion} / v${dto.variantVersion}`,
+      );
+      return experiment;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException('Une expérience est déjà en cours');
+      }
+      throw error;
+    }
+  }
+
+  /** Arrête l'expérience, en activant si demandé la version d'un des groupes */
+  async stopExperiment(
+    id: string,
+    dto: StopScoringExperimentDto,
+    adminId: string,
+  ) {
+    const experiment = await this.findExperimentDocument(id);
+    if (experiment.status !== ScoringExperimentStatus.RUNNING) {
+      throw new ConflictException("L'expérience est déjà arrêtée");
+    }
+
+    if (dto.activate) {
+      await this.activateConfig(
+        dto.activate === ScoringVariant.VARIANT
+          ? experiment.variantVersion
+          : experiment.controlVersion,
+      );
+    }
+    experiment.status = ScoringExperimentStatus.STOPPED;
+    experiment.stoppedAt = new Date();
+    experiment.stoppedBy = new Types.ObjectId(adminId);
+    experiment.winner = dto.activate;
+    await experiment.save();
+    this.snapshot = null;
+    return experiment;
+  }
+
+  /**
+   * Résultats par groupe : résultats servis, étudiants concernés, score moyen
+   * et candidatures envoyées par ces étudiants pendant l'expérience.
+   */
+  async getExperimentResults(id: string) {
+    const experiment = await this.findExperimentDocument(id);
+    const groups = await this.recordModel
+      .aggregate<{
+        _id: ScoringVariant;
+        responses: number;
+        averageScore: number;
+        students: Types.ObjectId[];
+      }>([
+        { $match: { experimentId: experiment._id } },
+        {
+          $group: {
+            _id: '$variant',
+            responses: { $sum: 1 },
+            averageScore: { $avg: '$averageScore' },
+            students: { $addToSet: '$studentId' },
+          },
+        },
+      ])
+      .exec();
+
+    const period = {
+      $gte: experiment.startedAt,
+      ...(experiment.stoppedAt && { $lte: experiment.stoppedAt }),
+    };
+    const variants = await Promise.all(
+      [ScoringVariant.CONTROL, ScoringVariant.VARIANT].map(async (variant) => {
+        const group = groups.find((entry) => entry._id === variant);
+        const students = group?.students ?? [];
+        const applicants =
+          students.length > 0
+            ? await this.applicationModel
+                .distinct('candidate', {
+                  candidate: { $in: students },
+                  createdAt: period,
+                })
+                .exec()
+            : [];
+        const applications =
+          students.length > 0
+            ? await this.applicationModel
+                .countDocuments({
+                  candidate: { $in: students },
+                  createdAt: period,
+                })
+                .exec()
+            : 0;
+
+        return {
+          variant,
+          version:
+            variant === ScoringVariant.VARIANT
+              ? experiment.variantVersion
+              : experiment.controlVersion,
+          responses: group?.responses ?? 0,
+          students: students.length,
+          averageScore: Math.round(group?.averageScore ?? 0),
+          applications,
+          applicantRate:
+            students.length > 0
+              ? Math.round((applicants.length / students.length) * 1000) / 10
+              : 0,
+        };
+      }),
+    );
+
+    return { experiment, variants };
+  }
+
+  private async findExperimentDocument(
+    id: string,
+  ): Promise<ScoringExperimentDocument> {
+    const experiment = Types.ObjectId.isValid(id)
+      ? await this.experimentModel.findById(id).exec()
+      : null;
+    if (!experiment) {
+      throw new NotFoundException('Expérience introuvable');
+    }
+    return experiment;
+  }
+
+  private defaultConfig() {
+    return {
+      version: 0,
+      name: 'Valeurs par défaut',
+      parameters: DEFAULT_SCORING_PARAMETERS,
+    };
+  }
+
+  private async getParameters(version: number): Promise<ScoringParameters> {
+    const cached = this.parametersByVersion.get(version);
+    if (cached) {
+      return cached;
+    }
+    const config = await this.configModel
+      .findOne({ version })
+      .select('parameters')
+      .lean()
+      .exec();
+    if (!config) {
+      throw new NotFoundException(`Configuration v${version} introuvable`);
+    }
+    // Complète une version enregistrée avant l'ajout d'un paramètre
+    const parameters = mergeScoringParameters(config.parameters);
+    this.parametersByVersion.set(version, parameters);
+    return parameters;
+  }
+
+  private getSnapshot(): Promise<ScoringSnapshot> {
+    if (!this.snapshot) {
+      const loading = this.loadSnapshot();
+      this.snapshot = loading;
+      loading.catch(() => {
+        if (this.snapshot === loading) this.snapshot = null;
+      });
+      return loading;
+    }
+    return this.snapshot.then((snapshot) => {
+      if (Date.now() - snapshot.loadedAt > CACHE_TTL_MS) {
+        this.snapshot = null;
+        return this.getSnapshot();
+      }
+      return snapshot;
+    });
+  }
+
+  private async loadSnapshot(): Promise<ScoringSnapshot> {
+    const [active, experiment] = await Promise.all([
+      this.configModel
+        .findOne({ active: true })
+        .sort({ activatedAt: -1 })
+        .select('version')
+        .lean()
+        .exec(),
+      this.experimentModel
+        .findOne({ status: ScoringExperimentStatus.RUNNING })
+        .lean()
+        .exec(),
+    ]);
+    return {
+      activeVersion: active?.version ?? 0,
+      experiment: experiment && {
+        id: experiment._id.toString(),
+        controlVersion: experiment.controlVersion,
+        variantVersion: experiment.variantVersion,
+        variantPercent: experiment.variantPercent,
+      },
+      loadedAt: Date.now(),
+    };
+  }
+
+  // Même groupe à chaque requête, indépendant d'une expérience à l'autre
+  private assignVariant(
+    experiment: NonNullable<ScoringSnapshot['experiment']>,
+    studentId: string,
+  ): ScoringVariant {
+    const bucket =
+      createHash('sha256')
+        .update(`${experiment.id}:${studentId}`)
+        .digest()
+        .readUInt32BE(0) % 100;
+    return bucket < experiment.variantPercent
+      ? ScoringVariant.VARIANT
+      : ScoringVariant.CONTROL;
+  }
+}
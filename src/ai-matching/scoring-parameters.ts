@@ -0,0 +1,203 @@
+import { BadRequestException } from '@nestjs/common';
+
+export interface ScoringWeights {
+  time: number;
+  preference: number;
+  profile: number;
+  skills: number;
+}
+
+/**
+ * Pondérations et points du score de matching. Les points s'ajoutent au
+ * score de base de chaque critère, une valeur négative est une pénalité.
+ */
+export interface ScoringParameters {
+  weights: ScoringWeights;
+  // Sans CV le critère compétences est ignoré
+  weightsWithoutCv: Omit<ScoringWeights, 'skills'>;
+  time: {
+    base: number;
+    // Part des horaires déclarés de l'offre couverte par les disponibilités
+    scheduleCoverage: {
+      fullRatio: number;
+      full: number;
+      partialRatio: number;
+      partial: number;
+      low: number;
+    };
+    // Offres sans horaires déclarés
+    shift: {
+      flexible: number;
+      jour: number;
+      jourWithoutDayAvailability: number;
+      nuit: number;
+    };
+    jobType: { stage: number; freelance: number };
+    // Nombre de jours disponibles : 3 et plus, 2, moins
+    days: { threeOrMore: number; two: number; fewer: number };
+    // Heures disponibles face aux heures demandées par l'offre, ou face aux
+    // seuils ampleHours / enoughHours quand l'offre n'en indique pas
+    hours: {
+      ampleRatio: number;
+      ample: number;
+      enough: number;
+      short: number;
+      ampleHours: number;
+      enoughHours: number;
+    };
+  };
+  preference: {
+    base: number;
+    // Distance face au rayon de recherche : quart du rayon, rayon, au-delà
+    distance: { near: number; within: number; far: number };
+    jobType: number;
+    city: number;
+    salary: { met: number; missed: number };
+  };
+}
+
+/** Valeurs historiques, utilisées tant qu'aucune configuration n'est activée */
+export const DEFAULT_SCORING_PARAMETERS: ScoringParameters = {
+  weights: { time: 0.35, preference: 0.25, profile: 0.2, skills: 0.2 },
+  weightsWithoutCv: { time: 0.4, preference: 0.3, profile: 0.3 },
+  time: {
+    base: 50,
+    scheduleCoverage: {
+      fullRatio: 0.9,
+      full: 35,
+      partialRatio: 0.5,
+      partial: 10,
+      low: -25,
+    },
+    shift: {
+      flexible: 30,
+      jour: 20,
+      jourWithoutDayAvailability: -10,
+      nuit: -20,
+    },
+    jobType: { stage: 10, freelance: 20 },
+    days: { threeOrMore: 15, two: 10, fewer: -10 },
+    hours: {
+      ampleRatio: 1.2,
+      ample: 15,
+      enough: 5,
+      short: -15,
+      ampleHours: 20,
+      enoughHours: 10,
+    },
+  },
+  preference: {
+    base: 50,
+    distance: { near: 25, within: 10, far: -20 },
+    jobType: 25,
+    city: 25,
+    salary: { met: 20, missed: -10 },
+  },
+};
+
+type ParameterTree = { [key: string]: number | ParameterTree };
+
+/**
+ * Applique des modifications partielles sur une configuration existante.
+ * Chaque clé doit exister dans la configuration par défaut et chaque valeur
+ * finale être un nombre.
+ */
+export function mergeScoringParameters(
+  base: ScoringParameters,
+  changes: Record<string, unknown> = {},
+): ScoringParameters {
+  const errors: string[] = [];
+  const merged = mergeTree(
+    base as unknown as ParameterTree,
+    DEFAULT_SCORING_PARAMETERS as unknown as ParameterTree,
+    changes,
+    '',
+    errors,
+  ) as unknown as ScoringParameters;
+
+  for (const [name, weights] of [
+    ['weights', merged.weights],
+    ['weightsWithoutCv', merged.weightsWithoutCv],
+  ] as const) {
+    const values = Object.values(weights as Record<string, number>);
+    if (values.some((value) => value < 0)) {
+      errors.push(`${name}: les poids doivent être positifs`);
+    } else if (values.every((value) => value === 0)) {
+      errors.push(`${name}: au moins un poids doit être non nul`);
+    }
+  }
+  const coverage = merged.time.scheduleCoverage;
+  if (
+    coverage.partialRatio < 0 ||
+    coverage.partialRatio > coverage.fullRatio ||
+    coverage.fullRatio > 1
+  ) {
+    errors.push(
+      'time.scheduleCoverage: il faut 0 <= partialRatio <= fullRatio <= 1',
+    );
+  }
+  if (merged.time.hours.ampleRatio < 1) {
+    errors.push('time.hours.ampleRatio doit être au moins 1');
+  }
+  if (merged.time.hours.enoughHours > merged.time.hours.ampleHours) {
+    errors.push('time.hours.enoughHours doit être inférieur à ampleHours');
+  }
+
+  if (errors.length > 0) {
+    throw new BadRequestException(errors);
+  }
+  return merged;
+}
+
+function mergeTree(
+  base: ParameterTree,
+  shape: ParameterTree,
+  changes: unknown,
+  path: string,
+  errors: string[],
+): ParameterTree {
+  if (
+    typeof changes !== 'object' ||
+    changes === null ||
+    Array.isArray(changes)
+  ) {
+    errors.push(`${path || 'parameters'} doit être un objet`);
+    return base;
+  }
+
+  const merged: ParameterTree = {};
+  for (const [key, expected] of Object.entries(shape)) {
+    const current = base[key] ?? expected;
+    const change = (changes as Record<string, unknown>)[key];
+    const keyPath = path ? `${path}.${key}` : key;
+
+    if (typeof expected === 'number') {
+      if (change === undefined) {
+        merged[key] = current;
+      } else if (typeof change === 'number' && Number.isFinite(change)) {
+        merged[key] = change;
+      } else {
+        errors.push(`${keyPath} doit être un nombre`);
+        merged[key] = current;
+      }
+    } else {
+      merged[key] =
+        change === undefined
+          ? mergeTree(current as ParameterTree, expected, {}, keyPath, errors)
+          : mergeTree(
+              current as ParameterTree,
+              expected,
+              change,
+              keyPath,
+              errors,
+            );
+    }
+  }
+
+  for (const key of Object.keys(changes)) {
+    if (!(key in shape)) {
+      errors.push(`${path ? `${path}.${key}` : key}: paramètre inconnu`);
+    }
+  }
+  return merged;
+}
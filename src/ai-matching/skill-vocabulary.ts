@@ -0,0 +1,210 @@
+import { normalizeSearchText } from '../offre/offre-search';
+
+/**
+ * Vocabulaire des compétences : nom affiché et variantes reconnues. Les
+ * variantes sont comparées après normalisation (casse, accents,
+ * ponctuation), "JS", "javascript" et "Java Script" désignent donc la même
+ * compétence.
+ */
+const SKILL_SYNONYMS: Record<string, string[]> = {
+  JavaScript: ['js', 'java script', 'ecmascript', 'es6', 'vanilla js'],
+  TypeScript: ['ts', 'type script'],
+  Python: ['py', 'python3'],
+  Java: ['java ee', 'j2ee', 'jee'],
+  'C++': ['cpp'],
+  'C#': ['csharp', 'c sharp'],
+  '.NET': ['dotnet', 'asp.net', 'asp net', 'net core'],
+  PHP: ['php8'],
+  'Node.js': ['node', 'nodejs', 'node js'],
+  React: ['reactjs', 'react.js', 'react js'],
+  'React Native': ['reactnative'],
+  Angular: ['angularjs', 'angular js'],
+  'Vue.js': ['vuejs', 'vue js'],
+  NestJS: ['nest.js', 'nest js'],
+  Express: ['expressjs', 'express.js'],
+  Spring: ['spring boot', 'springboot'],
+  Django: [],
+  Laravel: [],
+  Symfony: [],
+  HTML: ['html5'],
+  CSS: ['css3', 'scss', 'sass'],
+  Tailwind: ['tailwind css', 'tailwindcss'],
+  SQL: ['langage sql'],
+  MySQL: [],
+  PostgreSQL: ['postgres', 'psql'],
+  MongoDB: ['mongo', 'mongoose'],
+  Firebase: [],
+  Git: ['github', 'gitlab'],
+  Docker: ['conteneurisation'],
+  Kubernetes: ['k8s'],
+  AWS: ['amazon web services'],
+  Linux: ['unix'],
+  Flutter: [],
+  Dart: [],
+  Kotlin: [],
+  Swift: [],
+  Android: ['developpement android'],
+  iOS: ['developpement ios'],
+  Figma: [],
+  Photoshop: ['adobe photoshop'],
+  Illustrator: ['adobe illustrator'],
+  Canva: [],
+  'UI/UX': ['ui ux', 'ux ui', 'ux design', 'ui design', 'design ux'],
+  Excel: ['microsoft excel', 'ms excel'],
+  Word: ['microsoft word', 'ms word'],
+  PowerPoint: ['microsoft powerpoint', 'ms powerpoint', 'ppt'],
+  'Pack Office': [
+    'microsoft office',
+    'ms office',
+    'office 365',
+    'suite office',
+  ],
+  'Machine Learning': ['ml', 'apprentissage automatique'],
+  'Intelligence artificielle': ['ia', 'artificial intelligence'],
+  'Data Analysis': [
+    'analyse de donnees',
+    'data analyse',
+    'analyse des donnees',
+  ],
+  SEO: ['referencement', 'referencement naturel'],
+  'Marketing digital': [
+    'digital marketing',
+    'marketing numerique',
+    'webmarketing',
+    'marketing web',
+  ],
+  'Community management': ['community manager', 'gestion des reseaux sociaux'],
+  Comptabilité: ['accounting', 'comptable'],
+  Vente: ['sales', 'techniques de vente', 'vendeur', 'vendeuse'],
+  'Service client': [
+    'relation client',
+    'customer service',
+    'accueil client',
+    'relation clientele',
+  ],
+  Caisse: ['encaissement', 'caissier', 'caissiere', 'cashier'],
+  Communication: ['communication skills', 'aisance relationnelle'],
+  'Travail en équipe': [
+    'teamwork',
+    'esprit d equipe',
+    'travail d equipe',
+    'team work',
+    // soft skill du questionnaire étudiant
+    'travail equipe',
+  ],
+  Organisation: ['sens de l organisation', 'organisé', 'organisée'],
+  Anglais: ['english', 'langue anglaise'],
+  Français: ['french', 'langue francaise'],
+  Arabe: ['arabic', 'langue arabe'],
+  Allemand: ['german', 'deutsch'],
+  'Permis B': ['permis de conduire', 'driving licence', 'driving license'],
+};
+
+// Au plus ce nombre de mots par variante
+const MAX_ALIAS_WORDS = 4;
+
+// Variantes courtes qui sont aussi des mots ou abréviations du français
+// courant ("ts les weekends", "250 ml") : reconnues seulement quand elles
+// forment toute l'entrée (skillKey), jamais au milieu d'un texte libre
+const WHOLE_ENTRY_ALIASES = new Set(['ts', 'py', 'node', 'ml', 'ia']);
+
+/** Normalise une compétence, les symboles de C++, C# ou .NET sont gardés */
+export function normalizeSkill(raw?: string | null): string {
+  return normalizeSearchText(
+    (raw ?? '')
+      .toLowerCase()
+      .replace(/c\+\+/g, ' cpp ')
+      .replace(/c#/g, ' csharp ')
+      .replace(/(^|[^a-z0-9])\.net\b/g, '$1 dotnet ')
+      // node.js, vue.js
+      .replace(/\b([a-z]+)\.js\b/g, '$1js'),
+  );
+}
+
+const ALIASES = new Map<string, string>();
+// Variantes cherchées dans un texte libre par extractSkills
+const TEXT_ALIASES = new Map<string, string>();
+for (const [label, synonyms] of Object.entries(SKILL_SYNONYMS)) {
+  for (const alias of [label, ...synonyms]) {
+    const normalized = normalizeSkill(alias);
+    ALIASES.set(normalized, label);
+    if (!WHOLE_ENTRY_ALIASES.has(normalized)) {
+      TEXT_ALIASES.set(normalized, label);
+    }
+  }
+}
+
+/** Nom du vocabulaire, sinon la forme normalisée */
+export function skillKey(raw: string): string {
+  const normalized = normalizeSkill(raw);
+  return ALIASES.get(normalized) ?? normalized;
+}
+
+/**
+ * Compétences connues citées dans un texte libre, par exemple
+ * "Maîtrise de React et Node.js" donne React et Node.js.
+ */
+export function extractSkills(text: string): string[] {
+  const words = normalizeSkill(text).split(' ').filter(Boolean);
+  const found = new Set<string>();
+
+  for (let i = 0; i < words.length; ) {
+    let length = Math.min(MAX_ALIAS_WORDS, words.length - i);
+    // La variante la plus longue l'emporte : "react native" avant "react"
+    for (; length > 0; length--) {
+      const label = TEXT_ALIASES.get(words.slice(i, i + length).join(' '));
+      if (label) {
+        found.add(label);
+        break;
+      }
+    }
+    i += Math.max(1, length);
+  }
+  return [...found];
+}
+
+export interface SkillMatch {
+  // Exigences de l'offre, telles que saisies
+  matched: string[];
+  missing: string[];
+  // Part des exigences couvertes (0-100), null sans exigence
+  score: number | null;
+}
+
+/**
+ * Compare les compétences du CV aux exigences d'une offre. Une exigence qui
+ * cite plusieurs compétences n'est remplie que si toutes sont présentes.
+ */
+export function matchSkills(
+  skills: string[],
+  requirements: string[],
+): SkillMatch {
+  const owned = new Set<string>();
+  for (const skill of skills) {
+    owned.add(skillKey(skill));
+    for (const label of extractSkills(skill)) owned.add(label);
+  }
+
+  const matched: string[] = [];
+  const missing: string[] = [];
+  const seen = new Set<string>();
+  for (const requirement of requirements) {
+    const label = requirement?.trim();
+    const key = label ? skillKey(label) : '';
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+
+    const needed = extractSkills(label);
+    const met =
+      owned.has(key) ||
+      (needed.length > 0 && needed.every((skill) => owned.has(skill)));
+    (met ? matched : missing).push(label);
+  }
+
+  const total = matched.length + missing.length;
+  return {
+    matched,
+    missing,
+    score: total > 0 ? Math.round((matched.length / total) * 100) : null,
+  };
+}
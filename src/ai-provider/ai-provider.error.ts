@@ -0,0 +1,49 @@
+export class AiProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    // HTTP status of the provider response, absent for network errors
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'AiProviderError';
+  }
+
+  // Timeouts, rate limits, server and network errors are worth another try
+  get retryable(): boolean {
+    return (
+      this.status === undefined ||
+      this.status === 408 ||
+      this.status === 429 ||
+      this.status >= 500
+    );
+  }
+
+  get modelNotFound(): boolean {
+    return this.status === 404;
+  }
+}
+
+/** Wraps an SDK error, reading the HTTP status where each SDK keeps it */
+export function toProviderError(
+  provider: string,
+  error: unknown,
+): AiProviderError {
+  if (error instanceof AiProviderError) {
+    return error;
+  }
+
+  const source = (error ?? {}) as {
+    message?: string;
+    status?: unknown;
+    httpResponse?: { status?: unknown };
+    response?: { status?: unknown };
+  };
+  const status = [
+    source.status,
+    source.httpResponse?.status,
+    source.response?.status,
+  ].find((value): value is number => typeof value === 'number');
+
+  return new AiProviderError(source.message || String(error), provider, status);
+}
@@ -0,0 +1,64 @@
+export const AI_TEXT_BACKEND = 'AI_TEXT_BACKEND';
+export const AI_OCR_BACKEND = 'AI_OCR_BACKEND';
+
+export interface TextGenerationOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface TextGenerationRequest extends TextGenerationOptions {
+  prompt: string;
+  // Feature name used in the call logs, e.g. "ai-matching"
+  feature: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface BackendTextResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface TextGenerationResult extends BackendTextResult {
+  provider: string;
+  model: string;
+  latencyMs: number;
+}
+
+export interface OcrResult {
+  text: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+}
+
+/**
+ * A text generation backend. Timeouts, retries and model fallbacks are
+ * handled by AiProviderService, backends only make one call and report
+ * failures as AiProviderError.
+ */
+export interface AiTextBackend {
+  readonly name: string;
+  // Tried in order when AI_TEXT_MODELS is not set
+  readonly defaultTextModels: string[];
+  generateText(
+    prompt: string,
+    model: string,
+    options: TextGenerationOptions,
+    signal: AbortSignal,
+  ): Promise<BackendTextResult>;
+}
+
+/** Reads the text of an image, same contract as AiTextBackend */
+export interface AiOcrBackend {
+  readonly name: string;
+  readonly defaultOcrModels: string[];
+  extractText(
+    image: Buffer,
+    model: string,
+    signal: AbortSignal,
+  ): Promise<string>;
+}
@@ -0,0 +1,127 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AiProviderService } from './ai-provider.service';
+import {
+  AI_OCR_BACKEND,
+  AI_TEXT_BACKEND,
+  AiOcrBackend,
+  AiTextBackend,
+} from './ai-provider.interface';
+import { GeminiBackend } from './backends/gemini.backend';
+import { HuggingFaceBackend } from './backends/huggingface.backend';
+import { OpenAiBackend } from './backends/openai.backend';
+import { GradioBackend } from './backends/gradio.backend';
+import { StubBackend } from './backends/stub.backend';
+
+const logger = new Logger('AiProviderModule');
+
+// Placeholder values shipped in old .env templates count as missing
+function apiKey(configService: ConfigService, key: string): string | null {
+  const value = configService.get<string>(key)?.trim();
+  if (!value || /^votre_cle|XXXXXXXX/.test(value)) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Backend named by the setting, or the first one with an API key when it is
+ * not set. "none" and missing keys disable the feature: callers then use
+ * their local fallback.
+ */
+function createBackend(
+  configService: ConfigService,
+  setting: string,
+  autoOrder: string[],
+):
+  | GeminiBackend
+  | HuggingFaceBackend
+  | OpenAiBackend
+  | GradioBackend
+  | StubBackend
+  | null {
+  const keys: Record<string, string | null> = {
+    gemini: apiKey(configService, 'GEMINI_API_KEY'),
+    openai: apiKey(configService, 'OPENAI_API_KEY'),
+    huggingface: apiKey(configService, 'HF_API_KEY'),
+  };
+  const provider =
+    configService.get<string>(setting)?.trim().toLowerCase() ||
+    autoOrder.find((name) => keys[name]) ||
+    'none';
+
+  switch (provider) {
+    case 'stub':
+      return new StubBackend(configService.get<string>('AI_STUB_OCR_TEXT'));
+    case 'gradio':
+      return new GradioBackend(
+        configService.get<string>('AI_GRADIO_ENDPOINT') || '/predict',
+        keys.huggingface ?? undefined,
+      );
+    case 'none':
+      return null;
+  }
+
+  const key = keys[provider];
+  if (key === undefined) {
+    logger.error(`${setting}=${provider} is not a known provider`);
+    return null;
+  }
+  if (!key) {
+    logger.error(`${setting}=${provider} but its API key is not set`);
+    return null;
+  }
+
+  switch (provider) {
+    case 'gemini':
+      return new GeminiBackend(key);
+    case 'openai':
+      return new OpenAiBackend(
+        key,
+        configService.get<string>('OPENAI_BASE_URL') || undefined,
+      );
+    default:
+      return new HuggingFaceBackend(key);
+  }
+}
+
+/**
+ * Settings:
+ * - AI_TEXT_PROVIDER=gemini|openai|huggingface|stub|none, AI_OCR_PROVIDER
+ *   also accepts gradio. Unset, the first provider with an API key is used
+ *   (GEMINI_API_KEY, OPENAI_API_KEY, HF_API_KEY).
+ * - AI_TEXT_MODELS / AI_OCR_MODELS: comma separated, later models are
+ *   fallbacks when the first one does not exist.
+ * - AI_TIMEOUT_MS, AI_MAX_RETRIES, AI_COST_PER_1K_INPUT_TOKENS and
+ *   AI_COST_PER_1K_OUTPUT_TOKENS for the call logs.
+ */
+@Module({
+  providers: [
+    {
+      provide: AI_TEXT_BACKEND,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): AiTextBackend | null => {
+        const backend = createBackend(configService, 'AI_TEXT_PROVIDER', [
+          'gemini',
+          'openai',
+          'huggingface',
+        ]);
+        if (backend instanceof GradioBackend) {
+          logger.error('Gradio is only supported for OCR');
+          return null;
+        }
+        return backend;
+      },
+    },
+    {
+      provide: AI_OCR_BACKEND,
+      inject: [ConfigService],
+      // Tesseract stays the main OCR, this backend is its fallback
+      useFactory: (configService: ConfigService): AiOcrBackend | null =>
+        createBackend(configService, 'AI_OCR_PROVIDER', ['huggingface']),
+    },
+    AiProviderService,
+  ],
+  exports: [AiProviderService],
+})
+export class AiProviderModule {}
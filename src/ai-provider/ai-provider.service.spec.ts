@@ -0,0 +1,195 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { AiProviderService } from './ai-provider.service';
+import { AI_OCR_BACKEND, AI_TEXT_BACKEND } from './ai-provider.interface';
+import type {
+  BackendTextResult,
+  TextGenerationOptions,
+} from './ai-provider.interface';
+import { AiProviderError } from './ai-provider.error';
+import { StubBackend } from './backends/stub.backend';
+import { AIRoutineService } from '../ai-routine/ai-routine.service';
+
+/** Stub backend that fails according to a per-call script */
+class ScriptedBackend extends StubBackend {
+  calls: {
+    model: string;
+    options: TextGenerationOptions;
+    signal: AbortSignal;
+  }[] = [];
+  failures: (AiProviderError | 'hang' | null)[] = [];
+
+  generateText(
+    prompt: string,
+    model = 'stub',
+    options: TextGenerationOptions = {},
+    signal = new AbortController().signal,
+  ): Promise<BackendTextResult> {
+    this.calls.push({ model, options, signal });
+    const failure = this.failures.shift();
+    if (failure === 'hang') {
+      return new Promise((_, reject) =>
+        signal.addEventListener('abort', () =>
+          reject(new AiProviderError('Aborted', this.name)),
+        ),
+      );
+    }
+    if (failure) {
+      return Promise.reject(failure);
+    }
+    if (model === 'missing') {
+      return Promise.reject(
+        new AiProviderError('Model not found', this.name, 404),
+      );
+    }
+    return super.generateText(prompt);
+  }
+}
+
+async function createService(
+  backend: StubBackend,
+  settings: Record<string, string> = {},
+): Promise<TestingModule> {
+  return Test.createTestingModule({
+    providers: [
+      AiProviderService,
+      AIRoutineService,
+      { provide: AI_TEXT_BACKEND, useValue: backend },
+      { provide: AI_OCR_BACKEND, useValue: backend },
+      { provide: ConfigService, useValue: new ConfigService(settings) },
+      { provide: CACHE_MANAGER, useValue: new Map() },
+    ],
+  }).compile();
+}
+
+describe('AiProviderService', () => {
+  let backend: ScriptedBackend;
+
+  beforeEach(() => {
+    backend = new ScriptedBackend('Relevé de notes');
+  });
+
+  it('gives the same answer for the same prompt', async () => {
+    const module = await createService(backend);
+    const service = module.get(AiProviderService);
+
+    const first = await service.generateText({
+      feature: 'test',
+      prompt: 'Bonjour',
+    });
+    const second = await service.generateText({
+      feature: 'test',
+      prompt: 'Bonjour',
+    });
+    const other = await service.generateText({
+      feature: 'test',
+      prompt: 'Au revoir',
+    });
+
+    expect(first).toMatchObject({ provider: 'stub', model: 'stub' });
+    expect(first.text).toBe(second.text);
+    expect(first.text).not.toBe(other.text);
+    expect(first.usage).toEqual(second.usage);
+    await expect(
+      service.extractText(Buffer.from('image'), 'test'),
+    ).resolves.toMatchObject({ text: 'Relevé de notes', provider: 'stub' });
+  });
+
+  it('times out and aborts a call that does not answer', async () => {
+    const module = await createService(backend, {
+      AI_TIMEOUT_MS: '20',
+      AI_MAX_RETRIES: '0',
+    });
+    const service = module.get(AiProviderService);
+    backend.failures = ['hang'];
+
+    await expect(
+      service.generateText({ feature: 'test', prompt: 'Bonjour' }),
+    ).rejects.toThrow('Timed out after 20 ms');
+    expect(backend.calls).toHaveLength(1);
+    expect(backend.calls[0].signal.aborted).toBe(true);
+  });
+
+  it('retries transient errors but not client errors', async () => {
+    const module = await createService(backend, { AI_MAX_RETRIES: '1' });
+    const service = module.get(AiProviderService);
+
+    backend.failures = [new AiProviderError('Overloaded', 'stub', 503)];
+    const result = await service.generateText({
+      feature: 'test',
+      prompt: 'Bonjour',
+    });
+    expect(result.text).toContain('Stub response');
+    expect(backend.calls).toHaveLength(2);
+
+    backend.calls = [];
+    backend.failures = [new AiProviderError('Bad request', 'stub', 400)];
+    await expect(
+      service.generateText({ feature: 'test', prompt: 'Bonjour' }),
+    ).rejects.toMatchObject({ status: 400 });
+    expect(backend.calls).toHaveLength(1);
+  });
+
+  it('falls back to the next model when one does not exist', async () => {
+    const module = await createService(backend, {
+      AI_TEXT_MODELS: 'missing, stub',
+    });
+    const service = module.get(AiProviderService);
+
+    const result = await service.generateText({
+      feature: 'test',
+      prompt: 'Bonjour',
+    });
+    expect(result.model).toBe('stub');
+    expect(backend.calls.map((call) => call.model)).toEqual([
+      'missing',
+      'stub',
+    ]);
+
+    // The working model is tried first from then on
+    backend.calls = [];
+    await service.generateText({ feature: 'test', prompt: 'Bonjour' });
+    expect(backend.calls.map((call) => call.model)).toEqual(['stub']);
+  });
+
+  it('runs a routine analysis fully offline', async () => {
+    const module = await createService(new StubBackend());
+    const routine = module.get(AIRoutineService);
+    const data = {
+      evenements: [
+        {
+          id: '1',
+          titre: 'Cours Math',
+          type: 'cours',
+          date: '2024-01-15',
+          heureDebut: '09:00',
+          heureFin: '11:00',
+        },
+        {
+          id: '2',
+          titre: 'Serveur',
+          type: 'job',
+          date: '2024-01-16',
+          heureDebut: '18:00',
+          heureFin: '22:00',
+        },
+      ],
+      disponibilites: [],
+      dateDebut: '2024-01-15',
+      dateFin: '2024-01-21',
+    };
+
+    const first = (await routine.analyzeRoutine('user-1', data)) as {
+      scoreEquilibre: number;
+      analyseHebdomadaire: Record<string, number>;
+    };
+    expect(first.scoreEquilibre).toBe(50);
+    expect(first.analyseHebdomadaire).toMatchObject({
+      heuresEtudes: 2,
+      heuresTravail: 4,
+    });
+    // Served from the cache the second time
+    await expect(routine.analyzeRoutine('user-1', data)).resolves.toBe(first);
+  });
+});
@@ -0,0 +1,219 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AI_OCR_BACKEND, AI_TEXT_BACKEND } from './ai-provider.interface';
+import type {
+  AiOcrBackend,
+  AiTextBackend,
+  OcrResult,
+  TextGenerationRequest,
+  TextGenerationResult,
+  TokenUsage,
+} from './ai-provider.interface';
+import { AiProviderError, toProviderError } from './ai-provider.error';
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+/**
+ * Single entry point for every AI call. Each call gets a timeout, retries
+ * with backoff on transient errors, moves on to the next configured model
+ * when one does not exist, and is logged with its latency, token usage and
+ * estimated cost.
+ */
+@Injectable()
+export class AiProviderService {
+  private readonly logger = new Logger(AiProviderService.name);
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly costPer1kInput: number;
+  private readonly costPer1kOutput: number;
+  private textModels: string[];
+  private ocrModels: string[];
+
+  constructor(
+    @Inject(AI_TEXT_BACKEND)
+    private readonly textBackend: AiTextBackend | null,
+    @Inject(AI_OCR_BACKEND)
+    private readonly ocrBackend: AiOcrBackend | null,
+    private readonly configService: ConfigService,
+  ) {
+    this.timeoutMs = this.readNumber('AI_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+    this.maxRetries = this.readNumber('AI_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+    this.costPer1kInput = this.readNumber('AI_COST_PER_1K_INPUT_TOKENS', 0);
+    this.costPer1kOutput = this.readNumber('AI_COST_PER_1K_OUTPUT_TOKENS', 0);
+    this.textModels =
+      this.readList('AI_TEXT_MODELS') ?? textBackend?.defaultTextModels ?? [];
+    this.ocrModels =
+      this.readList('AI_OCR_MODELS') ?? ocrBackend?.defaultOcrModels ?? [];
+
+    if (textBackend) {
+      this.logger.log(
+        `Text generation: ${textBackend.name} (${this.textModels.join(', ')})`,
+      );
+    } else {
+      this.logger.warn('No text generation provider configured');
+    }
+    if (ocrBackend && this.ocrModels.length === 0) {
+      this.logger.warn(`OCR provider ${ocrBackend.name} has no model set`);
+    }
+  }
+
+  isTextEnabled(): boolean {
+    return this.textBackend !== null && this.textModels.length > 0;
+  }
+
+  isOcrEnabled(): boolean {
+    return this.ocrBackend !== null && this.ocrModels.length > 0;
+  }
+
+  async generateText(
+    request: TextGenerationRequest,
+  ): Promise<TextGenerationResult> {
+    const backend = this.textBackend;
+    if (!backend || !this.isTextEnabled()) {
+      throw new AiProviderError(
+        'No text generation provider configured',
+        'none',
+      );
+    }
+
+    const { prompt, feature, ...options } = request;
+    const { result, model, latencyMs } = await this.call(
+      feature,
+      backend.name,
+      this.textModels,
+      (model, signal) => backend.generateText(prompt, model, options, signal),
+      (models) => (this.textModels = models),
+    );
+    this.logCall(feature, backend.name, model, latencyMs, result.usage);
+
+    return { ...result, provider: backend.name, model, latencyMs };
+  }
+
+  async extractText(image: Buffer, feature: string): Promise<OcrResult> {
+    const backend = this.ocrBackend;
+    if (!backend || !this.isOcrEnabled()) {
+      throw new AiProviderError('No OCR provider configured', 'none');
+    }
+
+    const { result, model, latencyMs } = await this.call(
+      feature,
+      backend.name,
+      this.ocrModels,
+      (model, signal) => backend.extractText(image, model, signal),
+      (models) => (this.ocrModels = models),
+    );
+    this.logCall(feature, backend.name, model, latencyMs);
+
+    return { text: result, provider: backend.name, model, latencyMs };
+  }
+
+  /**
+   * Runs one call over the models in order. A missing model moves on to the
+   * next one, which is then tried first on later calls.
+   */
+  private async call<T>(
+    feature: string,
+    provider: string,
+    models: string[],
+    run: (model: string, signal: AbortSignal) => Promise<T>,
+    reorder: (models: string[]) => void,
+  ): Promise<{ result: T; model: string; latencyMs: number }> {
+    let lastError: AiProviderError | undefined;
+
+    for (const model of models) {
+      for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+        if (attempt > 0) {
+          await this.sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+        }
+
+        const startedAt = Date.now();
+        try {
+          const result = await this.withTimeout(provider, run, model);
+          if (model !== models[0]) {
+            reorder([model, ...models.filter((other) => other !== model)]);
+          }
+          return { result, model, latencyMs: Date.now() - startedAt };
+        } catch (error) {
+          lastError = toProviderError(provider, error);
+          this.logger.warn(
+            `${feature}: ${provider}/${model} failed after ${Date.now() - startedAt} ms ` +
+              `(attempt ${attempt + 1}/${this.maxRetries + 1}): ${lastError.message}`,
+          );
+          if (!lastError.retryable) break;
+        }
+      }
+
+      if (lastError && !lastError.modelNotFound) {
+        throw lastError;
+      }
+    }
+
+    throw lastError ?? new AiProviderError('No model configured', provider);
+  }
+
+  private async withTimeout<T>(
+    provider: string,
+    run: (model: string, signal: AbortSignal) => Promise<T>,
+    model: string,
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // Settle first so the race reports the timeout, not the abort
+        reject(
+          new AiProviderError(`Timed out after ${this.timeoutMs} ms`, provider),
+        );
+        controller.abort();
+      }, this.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([run(model, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private logCall(
+    feature: string,
+    provider: string,
+    model: string,
+    latencyMs: number,
+    usage?: TokenUsage,
+  ): void {
+    let details = '';
+    if (usage) {
+      details = `, ${usage.inputTokens}+${usage.outputTokens} tokens`;
+      const cost =
+        (usage.inputTokens / 1000) * this.costPer1kInput +
+        (usage.outputTokens / 1000) * this.costPer1kOutput;
+      if (cost > 0) {
+        details += `, ~$${cost.toFixed(5)}`;
+      }
+    }
+    this.logger.log(
+      `${feature}: ${provider}/${model} in ${latencyMs} ms${details}`,
+    );
+  }
+
+  private readNumber(key: string, fallback: number): number {
+    const raw = this.configService.get<string>(key);
+    const value = Number(raw);
+    return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+  }
+
+  private readList(key: string): string[] | null {
+    const values = (this.configService.get<string>(key) ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    return values.length > 0 ? values : null;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,86 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  AiOcrBackend,
+  AiTextBackend,
+  BackendTextResult,
+  TextGenerationOptions,
+} from '../ai-provider.interface';
+import { toProviderError } from '../ai-provider.error';
+import { imageMimeType, OCR_PROMPT } from './ocr-prompt';
+
+export class GeminiBackend implements AiTextBackend, AiOcrBackend {
+  readonly name = 'gemini';
+  readonly defaultTextModels = [
+    'gemini-1.5-flash-latest',
+    'gemini-1.5-pro-latest',
+    'gemini-pro',
+    'gemini-1.5-flash',
+    'gemini-1.5-pro',
+  ];
+  readonly defaultOcrModels = ['gemini-1.5-flash-latest'];
+  private readonly genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generateText(
+    prompt: string,
+    model: string,
+    options: TextGenerationOptions,
+    signal: AbortSignal,
+  ): Promise<BackendTextResult> {
+    try {
+      const result = await this.genAI
+        .getGenerativeModel({
+          model,
+          generationConfig: {
+            temperature: options.temperature ?? 0.7,
+            topK: 40,
+            topP: 0.95,
+            maxOutputTokens: options.maxTokens ?? 2048,
+          },
+        })
+        .generateContent(prompt, { signal });
+
+      const usage = result.response.usageMetadata;
+      return {
+        text: result.response.text(),
+        ...(usage && {
+          usage: {
+            inputTokens: usage.promptTokenCount,
+            outputTokens: usage.candidatesTokenCount,
+          },
+        }),
+      };
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+
+  async extractText(
+    image: Buffer,
+    model: string,
+    signal: AbortSignal,
+  ): Promise<string> {
+    try {
+      const result = await this.genAI
+        .getGenerativeModel({ model })
+        .generateContent(
+          [
+            OCR_PROMPT,
+            {
+              inlineData: {
+                data: image.toString('base64'),
+                mimeType: imageMimeType(image),
+              },
+            },
+          ],
+          { signal },
+        );
+      return result.response.text();
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { AiOcrBackend } from '../ai-provider.interface';
+import { AiProviderError, toProviderError } from '../ai-provider.error';
+
+// The ESM only package types do not resolve from CommonJS, only what is used here
+interface GradioClient {
+  predict(endpoint: string, data: unknown[]): Promise<{ data: unknown }>;
+}
+
+interface GradioModule {
+  Client: {
+    connect(space: string, options: { token?: string }): Promise<GradioClient>;
+  };
+  handle_file: (file: Buffer) => unknown;
+}
+
+const loadGradio = () =>
+  import('@gradio/client') as unknown as Promise<GradioModule>;
+
+/**
+ * OCR through a Gradio app, usually a Hugging Face Space. The model is the
+ * Space id ("owner/space") and the endpoint receives the image as its only
+ * input. There is no default Space, AI_OCR_MODELS must name one.
+ */
+export class GradioBackend implements AiOcrBackend {
+  readonly name = 'gradio';
+  readonly defaultOcrModels: string[] = [];
+  private readonly clients = new Map<string, Promise<GradioClient>>();
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly token?: string,
+  ) {}
+
+  // The Gradio client takes no abort signal, the service timeout still applies
+  async extractText(image: Buffer, model: string): Promise<string> {
+    let data: unknown;
+    try {
+      const { handle_file } = await loadGradio();
+      const client = await this.connect(model);
+      ({ data } = await client.predict(this.endpoint, [handle_file(image)]));
+    } catch (error) {
+      this.clients.delete(model);
+      throw toProviderError(this.name, error);
+    }
+
+    const output: unknown = Array.isArray(data) ? data[0] : undefined;
+    if (typeof output !== 'string') {
+      throw new AiProviderError(
+        `Unexpected output from ${model}${this.endpoint}`,
+        this.name,
+      );
+    }
+    return output;
+  }
+
+  private connect(space: string): Promise<GradioClient> {
+    let client = this.clients.get(space);
+    if (!client) {
+      client = loadGradio().then(({ Client }) =>
+        Client.connect(space, { ...(this.token && { token: this.token }) }),
+      );
+      this.clients.set(space, client);
+    }
+    return client;
+  }
+}
@@ -0,0 +1,71 @@
+import { HfInference } from '@huggingface/inference';
+import {
+  AiOcrBackend,
+  AiTextBackend,
+  BackendTextResult,
+  TextGenerationOptions,
+} from '../ai-provider.interface';
+import { AiProviderError, toProviderError } from '../ai-provider.error';
+
+export class HuggingFaceBackend implements AiTextBackend, AiOcrBackend {
+  readonly name = 'huggingface';
+  readonly defaultTextModels = ['mistralai/Mistral-7B-Instruct-v0.2'];
+  readonly defaultOcrModels = ['microsoft/trocr-small-printed'];
+  private readonly hf: HfInference;
+
+  constructor(apiKey: string) {
+    this.hf = new HfInference(apiKey);
+  }
+
+  async generateText(
+    prompt: string,
+    model: string,
+    options: TextGenerationOptions,
+    signal: AbortSignal,
+  ): Promise<BackendTextResult> {
+    try {
+      const response = await this.hf.textGeneration(
+        {
+          model,
+          inputs: prompt,
+          parameters: {
+            max_new_tokens: options.maxTokens ?? 500,
+            temperature: options.temperature ?? 0.7,
+            top_p: 0.95,
+            return_full_text: false,
+          },
+        },
+        { signal },
+      );
+      return { text: response.generated_text ?? '' };
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+
+  async extractText(
+    image: Buffer,
+    model: string,
+    signal: AbortSignal,
+  ): Promise<string> {
+    let result: unknown;
+    try {
+      result = await this.hf.imageToText(
+        { model, data: new Blob([new Uint8Array(image)]) },
+        { signal },
+      );
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+
+    if (typeof result === 'string') {
+      return result;
+    }
+    const text = (result as { generated_text?: unknown } | null)
+      ?.generated_text;
+    if (typeof text !== 'string') {
+      throw new AiProviderError('Unexpected OCR response', this.name);
+    }
+    return text;
+  }
+}
@@ -0,0 +1,7 @@
+export const OCR_PROMPT =
+  'Transcribe all the text of this image, line by line, keeping days, hours and room names as written. Reply with the text only.';
+
+/** PNG unless the bytes say JPEG, the schedule pipeline converts to PNG */
+export function imageMimeType(image: Buffer): string {
+  return image[0] === 0xff && image[1] === 0xd8 ? 'image/jpeg' : 'image/png';
+}
@@ -0,0 +1,83 @@
+import OpenAI from 'openai';
+import {
+  AiOcrBackend,
+  AiTextBackend,
+  BackendTextResult,
+  TextGenerationOptions,
+} from '../ai-provider.interface';
+import { toProviderError } from '../ai-provider.error';
+import { imageMimeType, OCR_PROMPT } from './ocr-prompt';
+
+export class OpenAiBackend implements AiTextBackend, AiOcrBackend {
+  readonly name = 'openai';
+  readonly defaultTextModels = ['gpt-4o-mini'];
+  readonly defaultOcrModels = ['gpt-4o-mini'];
+  private readonly client: OpenAI;
+
+  constructor(apiKey: string, baseURL?: string) {
+    // Retries are done by AiProviderService for every backend
+    this.client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+  }
+
+  async generateText(
+    prompt: string,
+    model: string,
+    options: TextGenerationOptions,
+    signal: AbortSignal,
+  ): Promise<BackendTextResult> {
+    try {
+      const completion = await this.client.chat.completions.create(
+        {
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          max_tokens: options.maxTokens ?? 2048,
+          temperature: options.temperature ?? 0.7,
+        },
+        { signal },
+      );
+      return {
+        text: completion.choices[0]?.message?.content ?? '',
+        ...(completion.usage && {
+          usage: {
+            inputTokens: completion.usage.prompt_tokens,
+            outputTokens: completion.usage.completion_tokens,
+          },
+        }),
+      };
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+
+  async extractText(
+    image: Buffer,
+    model: string,
+    signal: AbortSignal,
+  ): Promise<string> {
+    try {
+      const completion = await this.client.chat.completions.create(
+        {
+          model,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: OCR_PROMPT },
+                {
+                  type: 'image_url',
+                  image_url: {
+                    url: `data:${imageMimeType(image)};base64,${image.toString('base64')}`,
+                  },
+                },
+              ],
+            },
+          ],
+        },
+        { signal },
+      );
+      return completion.choices[0]?.message?.content ?? '';
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+}
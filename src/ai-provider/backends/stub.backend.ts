@@ -0,0 +1,43 @@
+import { createHash } from 'crypto';
+import {
+  AiOcrBackend,
+  AiTextBackend,
+  BackendTextResult,
+} from '../ai-provider.interface';
+
+/**
+ * Offline backend: the same input always gives the same output and nothing
+ * leaves the machine. Used for local development and tests.
+ */
+export class StubBackend implements AiTextBackend, AiOcrBackend {
+  readonly name = 'stub';
+  readonly defaultTextModels = ['stub'];
+  readonly defaultOcrModels = ['stub'];
+
+  // Fixed OCR output, otherwise a line derived from the image bytes
+  constructor(private readonly ocrText?: string) {}
+
+  generateText(prompt: string): Promise<BackendTextResult> {
+    const digest = this.digest(prompt);
+    // Callers that ask for JSON look for the first {...} block
+    const text = /json/i.test(prompt)
+      ? JSON.stringify({ stub: true, digest })
+      : `Stub response ${digest}: ${prompt.trim().split('\n')[0].slice(0, 120)}`;
+
+    return Promise.resolve({
+      text,
+      usage: {
+        inputTokens: Math.ceil(prompt.length / 4),
+        outputTokens: Math.ceil(text.length / 4),
+      },
+    });
+  }
+
+  extractText(image: Buffer): Promise<string> {
+    return Promise.resolve(this.ocrText ?? `Stub OCR ${this.digest(image)}`);
+  }
+
+  private digest(input: string | Buffer): string {
+    return createHash('sha256').update(input).digest('hex').slice(0, 12);
+  }
+}
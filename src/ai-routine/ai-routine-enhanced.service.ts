@@ -1,80 +1,65 @@
-import { Injectable, Inject, Logger, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { ConfigService } from '@nestjs/config';
 import type { Cache } from 'cache-manager';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { HfInference } from '@huggingface/inference';
 import { createHash } from 'crypto';
-import { RoutineInputDataDto, EvenementDto, DisponibiliteDto } from './dto/routine-input.dto';
-import { ConflictDto, ConflictSeverity, TimeSlotDto, OverloadedDayDto } from './dto/conflict.dto';
-import { JobCompatibilityResponseDto, QuickSuggestionResponseDto } from './dto/job-compatibility.dto';
+import {
+  RoutineInputDataDto,
+  EvenementDto,
+  DisponibiliteDto,
+  StoredRoutineAnalysisDto,
+} from './dto/routine-input.dto';
+import {
+  ConflictDto,
+  ConflictSeverity,
+  TimeSlotDto,
+  OverloadedDayDto,
+} from './dto/conflict.dto';
+import {
+  JobCompatibilityResponseDto,
+  QuickSuggestionResponseDto,
+} from './dto/job-compatibility.dto';
 import { EnhancedRoutineAnalysisDto } from './dto/routine-response.dto';
 import { Offre, OffreDocument } from '../offre/schemas/offre.schema';
+import {
+  requiredWeeklyHours,
+  scheduleCoveredHours,
+  scheduleWeeklyHours,
+} from '../offre/offre-compensation';
+import { RoutineHistoryService } from './routine-history.service';
+import { EvenementService } from '../evenement/evenement.service';
+import { DisponibiliteService } from '../disponibilite/disponibilite.service';
+import { AiProviderService } from '../ai-provider/ai-provider.service';
+
+// Période analysable en une fois depuis les données enregistrées
+const MAX_STORED_RANGE_DAYS = 31;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 @Injectable()
 export class AIRoutineEnhancedService {
   private readonly logger = new Logger(AIRoutineEnhancedService.name);
-  private genAI: GoogleGenerativeAI | null = null;
-  private model: any = null;
-  private hf: HfInference | null = null;
-  private useHuggingFace = false;
+  // Les recommandations viennent de nos algorithmes, l'IA seulement si AI_ROUTINE_RECOMMENDATIONS=true
+  private readonly useAiRecommendations: boolean;
 
   constructor(
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
     private configService: ConfigService,
     @InjectModel(Offre.name) private offreModel: Model<OffreDocument>,
+    private readonly routineHistoryService: RoutineHistoryService,
+    private readonly evenementService: EvenementService,
+    private readonly disponibiliteService: DisponibiliteService,
+    private readonly aiProviderService: AiProviderService,
   ) {
-    this.initializeAI();
-  }
-
-  private initializeAI(): void {
-    // Désactiver Hugging Face temporairement (problèmes de providers)
-    // Utiliser directement les recommandations par défaut qui sont très bonnes
-    const geminiKey = this.configService.get<string>('GEMINI_API_KEY');
-    if (geminiKey && geminiKey !== 'votre_cle_gemini_api_ici') {
-      this.logger.log('✅ Utilisation des algorithmes intelligents pour les recommandations');
-      // Pas besoin d'IA externe, nos algorithmes sont déjà très bons
-    } else {
-      this.logger.log('✅ Utilisation des algorithmes intelligents pour les recommandations');
-    }
-  }
-
-  private initializeGemini(): void {
-    if (this.genAI && this.model) {
-      return;
-    }
-
-    const apiKey = this.configService.get<string>('GEMINI_API_KEY');
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY est requise');
-    }
-
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    
-    // Liste des modèles à essayer dans l'ordre de préférence
-    // Utiliser les versions "-latest" qui sont plus stables
-    const modelsToTry = [
-      'gemini-1.5-flash-latest',
-      'gemini-1.5-pro-latest', 
-      'gemini-pro',
-      'gemini-1.5-flash',
-      'gemini-1.5-pro'
-    ];
-    
-    // Utiliser le premier modèle de la liste
-    this.model = this.genAI.getGenerativeModel({ 
-      model: modelsToTry[0],
-      generationConfig: {
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 3072,
-      },
-    });
-
-    this.logger.log(`✅ Google Gemini initialisé avec succès (modèle: ${modelsToTry[0]})`);
+    this.useAiRecommendations =
+      this.configService.get<string>('AI_ROUTINE_RECOMMENDATIONS') === 'true';
   }
 
   /**
@@ -84,8 +69,6 @@ export class AIRoutineEnhancedService {
     userId: string,
     data: RoutineInputDataDto,
   ): Promise<EnhancedRoutineAnalysisDto> {
-    this.initializeGemini();
-
     // 1. Détection des conflits d'horaires
     const conflicts = this.detectScheduleConflicts(data.evenements);
     this.logger.log(`🔍 ${conflicts.length} conflit(s) détecté(s)`);
@@ -99,7 +82,7 @@ export class AIRoutineEnhancedService {
       data.evenements,
       data.disponibilites,
       data.dateDebut,
-      data.dateFin
+      data.dateFin,
     );
     this.logger.log(`✅ ${availableTimeSlots.length} créneau(x) disponible(s)`);
 
@@ -107,109 +90,60 @@ export class AIRoutineEnhancedService {
     const stats = this.calculateStats(data);
 
     // 5. Calcul du score d'équilibre (améloré)
-    const scoreBreakdown = this.calculateEnhancedBalanceScore(stats, conflicts, overloadedDays);
-    const scoreEquilibre = scoreBreakdown.baseScore + 
-                          scoreBreakdown.workStudyBalance + 
-                          scoreBreakdown.restPenalty + 
-                          scoreBreakdown.conflictPenalty + 
-                          scoreBreakdown.overloadPenalty + 
-                          scoreBreakdown.bonuses;
+    const scoreBreakdown = this.calculateEnhancedBalanceScore(
+      stats,
+      conflicts,
+      overloadedDays,
+    );
+    const scoreEquilibre =
+      scoreBreakdown.baseScore +
+      scoreBreakdown.workStudyBalance +
+      scoreBreakdown.restPenalty +
+      scoreBreakdown.conflictPenalty +
+      scoreBreakdown.overloadPenalty +
+      scoreBreakdown.bonuses;
 
     this.logger.log(`📊 Score d'équilibre: ${scoreEquilibre}/100`);
 
     // 6. Créer le prompt enrichi pour l'IA
-    const prompt = this.createEnhancedPrompt(data, stats, conflicts, overloadedDays, availableTimeSlots);
+    const prompt = this.createEnhancedPrompt(
+      data,
+      stats,
+      conflicts,
+      overloadedDays,
+      availableTimeSlots,
+    );
 
     // 7. Générer les recommandations avec nos algorithmes intelligents
-    let aiResponse;
-    
-    // Utiliser directement nos algorithmes intelligents (plus fiables que les API externes)
-    aiResponse = this.generateDefaultRecommendations(stats, conflicts, overloadedDays);
-    
-    // Code Gemini désactivé car API externe non fiable
-    /* Commenté pour éviter les appels API externes non fiables
-    if (this.model) {
+    let aiResponse = this.generateDefaultRecommendations(
+      stats,
+      conflicts,
+      overloadedDays,
+    );
+
+    // L'IA n'est utilisée que sur demande, nos algorithmes restent le repli
+    if (this.useAiRecommendations && this.aiProviderService.isTextEnabled()) {
       try {
-        const result = await this.model.generateContent(prompt);
-        const response = result?.response;
-        const text = response?.text() || '';
-        
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        if (jsonMatch && jsonMatch[0]) {
-          aiResponse = JSON.parse(jsonMatch[0]);
-        } else {
-          aiResponse = { recommandations: [], suggestionsOptimisation: [] };
-        }
-      } catch (error: any) {
-        this.logger.error('Erreur lors de l\'appel Gemini:', error);
-      
-      // Si erreur 404 (modèle non trouvé), essayer d'autres modèles
-      if (error.status === 404 || error.message?.includes('404') || error.message?.includes('not found')) {
-        this.logger.warn('Modèle initial non disponible, tentative avec d\'autres modèles...');
-        
-        if (!this.genAI) {
-          throw new Error('GoogleGenerativeAI n\'est pas initialisé');
-        }
-        
-        const modelsToTry = [
-          'gemini-1.5-flash-latest',
-          'gemini-1.5-pro-latest',
-          'gemini-pro',
-          'gemini-1.5-flash',
-          'gemini-1.5-pro',
-          'gemini-1.5-flash-001',
-          'gemini-1.0-pro'
-        ];
-        let success = false;
-        
-        for (const modelName of modelsToTry) {
-          try {
-            this.logger.log(`Tentative avec le modèle: ${modelName}`);
-            const fallbackModel = this.genAI.getGenerativeModel({ 
-              model: modelName,
-              generationConfig: {
-                temperature: 0.7,
-                topK: 40,
-                topP: 0.95,
-                maxOutputTokens: 3072,
-              },
-            });
-            
-            const result = await fallbackModel.generateContent(prompt);
-            const response = await result.response;
-            const text = response.text();
-            
-            const jsonMatch = text.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-              aiResponse = JSON.parse(jsonMatch[0]);
-            } else {
-              aiResponse = { recommandations: [], suggestionsOptimisation: [] };
-            }
-            
-            // Mettre à jour le modèle pour les prochaines utilisations
-            this.model = fallbackModel;
-            this.logger.log(`✅ Modèle ${modelName} fonctionne, utilisation de ce modèle`);
-            success = true;
-            break;
-          } catch (fallbackError: any) {
-            this.logger.warn(`Modèle ${modelName} non disponible: ${fallbackError.message}`);
-            continue;
-          }
-        }
-        
-        if (!success) {
-          this.logger.warn('Aucun modèle Gemini disponible, utilisation de recommandations par défaut');
-          aiResponse = this.generateDefaultRecommendations(stats, conflicts, overloadedDays);
-        }
-      } else {
-        aiResponse = this.generateDefaultRecommendations(stats, conflicts, overloadedDays);
-      }
+        aiResponse = await this.generateRecommendationsWithAI(
+          prompt,
+          stats,
+          conflicts,
+          overloadedDays,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Recommandations IA indisponibles, utilisation des recommandations par défaut: ${(error as Error).message}`,
+        );
       }
     }
-    */ // Fin du code commenté
 
     // 8. Générer le résumé de santé
-    const healthSummary = this.generateHealthSummary(scoreEquilibre, conflicts, overloadedDays, stats);
+    const healthSummary = this.generateHealthSummary(
+      scoreEquilibre,
+      conflicts,
+      overloadedDays,
+      stats,
+    );
 
     // 9. Construire la réponse complète
     const analysis: EnhancedRoutineAnalysisDto = {
@@ -238,18 +172,119 @@ export class AIRoutineEnhancedService {
       healthSummary,
     };
 
+    // 10. Historiser l'analyse (un échec ne doit pas bloquer la réponse)
+    try {
+      const history = await this.routineHistoryService.record(
+        userId,
+        data,
+        analysis,
+      );
+      analysis.id = history._id.toString();
+    } catch (error) {
+      this.logger.error(
+        "Erreur lors de l'enregistrement de l'historique:",
+        error,
+      );
+    }
+
     return analysis;
   }
 
+  /**
+   * Analyse améliorée à partir des événements et disponibilités enregistrés
+   * de l'utilisateur, sans que le client ait à les renvoyer.
+   */
+  async analyzeStoredRoutine(
+    userId: string,
+    options: StoredRoutineAnalysisDto = {},
+  ): Promise<EnhancedRoutineAnalysisDto> {
+    const { dateDebut, dateFin } = this.resolveStoredRange(options);
+
+    const [evenements, disponibilites] = await Promise.all([
+      this.evenementService.findByUserAndDateRange(
+        userId,
+        `${dateDebut}T00:00:00.000Z`,
+        `${dateFin}T23:59:59.999Z`,
+      ),
+      this.disponibiliteService.findAllByUser(userId),
+    ]);
+    this.logger.log(
+      `📥 ${evenements.length} événement(s) et ${disponibilites.length} disponibilité(s) chargés du ${dateDebut} au ${dateFin}`,
+    );
+
+    return this.analyzeRoutineEnhanced(userId, {
+      evenements: evenements.map((event) => ({
+        id: event._id.toString(),
+        titre: event.titre,
+        type: event.type,
+        date: new Date(event.date).toISOString().slice(0, 10),
+        heureDebut: event.heureDebut,
+        heureFin: event.heureFin,
+        lieu: event.lieu,
+        tarifHoraire: event.tarifHoraire,
+        couleur: event.couleur,
+      })),
+      disponibilites: disponibilites.map((dispo) => ({
+        id: dispo._id.toString(),
+        jour: dispo.jour,
+        heureDebut: dispo.heureDebut,
+        heureFin: dispo.heureFin,
+      })),
+      preferences: options.preferences,
+      dateDebut,
+      dateFin,
+    });
+  }
+
+  /**
+   * Semaine en cours (lundi au dimanche) par défaut, sinon la période demandée
+   */
+  private resolveStoredRange(options: StoredRoutineAnalysisDto): {
+    dateDebut: string;
+    dateFin: string;
+  } {
+    const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+    let start: Date;
+    if (options.dateDebut) {
+      start = new Date(`${options.dateDebut.slice(0, 10)}T00:00:00.000Z`);
+    } else {
+      const today = new Date(`${toDay(new Date())}T00:00:00.000Z`);
+      // getUTCDay: 0 = dimanche
+      start = new Date(
+        today.getTime() - ((today.getUTCDay() + 6) % 7) * DAY_MS,
+      );
+    }
+    const end = options.dateFin
+      ? new Date(`${options.dateFin.slice(0, 10)}T00:00:00.000Z`)
+      : new Date(start.getTime() + 6 * DAY_MS);
+
+    if (end < start) {
+      throw new BadRequestException(
+        'La date de fin doit être postérieure à la date de début',
+      );
+    }
+    if (
+      (end.getTime() - start.getTime()) / DAY_MS + 1 >
+      MAX_STORED_RANGE_DAYS
+    ) {
+      throw new BadRequestException(
+        `La période analysée ne peut pas dépasser ${MAX_STORED_RANGE_DAYS} jours`,
+      );
+    }
+
+    return { dateDebut: toDay(start), dateFin: toDay(end) };
+  }
+
   /**
    * Détecte les conflits d'horaires entre événements
    */
   private detectScheduleConflicts(evenements: EvenementDto[]): ConflictDto[] {
     const conflicts: ConflictDto[] = [];
-    
+
     // Grouper les événements par date
     const eventsByDate = new Map<string, EvenementDto[]>();
-    evenements.forEach(event => {
+    evenements.forEach((event) => {
       if (!eventsByDate.has(event.date)) {
         eventsByDate.set(event.date, []);
       }
@@ -261,16 +296,24 @@ export class AIRoutineEnhancedService {
       for (let i = 0; i < events.length; i++) {
         for (let j = i + 1; j < events.length; j++) {
           const overlap = this.calculateTimeOverlap(events[i], events[j]);
-          
+
           if (overlap > 0) {
-            const severity = this.calculateConflictSeverity(overlap, events[i], events[j]);
-            
+            const severity = this.calculateConflictSeverity(
+              overlap,
+              events[i],
+              events[j],
+            );
+
             conflicts.push({
               date,
               event1: events[i],
               event2: events[j],
               severity,
-              suggestion: this.generateConflictSuggestion(events[i], events[j], severity),
+              suggestion: this.generateConflictSuggestion(
+                events[i],
+                events[j],
+                severity,
+              ),
               overlapDuration: overlap,
               scoreImpact: this.calculateConflictScoreImpact(severity, overlap),
             });
@@ -285,7 +328,10 @@ export class AIRoutineEnhancedService {
   /**
    * Calcule le chevauchement entre deux événements (en minutes)
    */
-  private calculateTimeOverlap(event1: EvenementDto, event2: EvenementDto): number {
+  private calculateTimeOverlap(
+    event1: EvenementDto,
+    event2: EvenementDto,
+  ): number {
     const start1 = this.timeToMinutes(event1.heureDebut);
     const end1 = this.timeToMinutes(event1.heureFin);
     const start2 = this.timeToMinutes(event2.heureDebut);
@@ -309,28 +355,32 @@ export class AIRoutineEnhancedService {
    * Calcule la gravité d'un conflit
    */
   private calculateConflictSeverity(
-    overlapMinutes: number, 
-    event1: EvenementDto, 
-    event2: EvenementDto
+    overlapMinutes: number,
+    event1: EvenementDto,
+    event2: EvenementDto,
   ): ConflictSeverity {
     // Chevauchement total = critique
-    const duration1 = this.timeToMinutes(event1.heureFin) - this.timeToMinutes(event1.heureDebut);
-    const duration2 = this.timeToMinutes(event2.heureFin) - this.timeToMinutes(event2.heureDebut);
-    
+    const duration1 =
+      this.timeToMinutes(event1.heureFin) -
+      this.timeToMinutes(event1.heureDebut);
+    const duration2 =
+      this.timeToMinutes(event2.heureFin) -
+      this.timeToMinutes(event2.heureDebut);
+
     if (overlapMinutes >= Math.min(duration1, duration2)) {
       return ConflictSeverity.CRITICAL;
     }
-    
+
     // Chevauchement > 60 min = high
     if (overlapMinutes > 60) {
       return ConflictSeverity.HIGH;
     }
-    
+
     // Chevauchement 30-60 min = medium
     if (overlapMinutes >= 30) {
       return ConflictSeverity.MEDIUM;
     }
-    
+
     // Chevauchement < 30 min = low
     return ConflictSeverity.LOW;
   }
@@ -339,44 +389,52 @@ export class AIRoutineEnhancedService {
    * Génère une suggestion pour résoudre un conflit
    */
   private generateConflictSuggestion(
-    event1: EvenementDto, 
-    event2: EvenementDto, 
-    severity: ConflictSeverity
+    event1: EvenementDto,
+    event2: EvenementDto,
+    severity: ConflictSeverity,
   ): string {
-    if (severity === ConflictSeverity.CRITICAL || severity === ConflictSeverity.HIGH) {
+    if (
+      severity === ConflictSeverity.CRITICAL ||
+      severity === ConflictSeverity.HIGH
+    ) {
       return `Conflit majeur : "${event1.titre}" et "${event2.titre}" se chevauchent. Vous devez déplacer l'un des deux événements.`;
     }
-    
+
     if (severity === ConflictSeverity.MEDIUM) {
       return `Attention : "${event1.titre}" et "${event2.titre}" se chevauchent partiellement. Prévoyez un temps de transition.`;
     }
-    
+
     return `Léger chevauchement entre "${event1.titre}" et "${event2.titre}". Assurez-vous d'avoir le temps de vous déplacer.`;
   }
 
   /**
    * Calcule l'impact d'un conflit sur le score
    */
-  private calculateConflictScoreImpact(severity: ConflictSeverity, overlapMinutes: number): number {
+  private calculateConflictScoreImpact(
+    severity: ConflictSeverity,
+    overlapMinutes: number,
+  ): number {
     const baseImpact = {
       [ConflictSeverity.LOW]: -2,
       [ConflictSeverity.MEDIUM]: -5,
       [ConflictSeverity.HIGH]: -10,
       [ConflictSeverity.CRITICAL]: -15,
     };
-    
+
     return baseImpact[severity] * Math.ceil(overlapMinutes / 30);
   }
 
   /**
    * Identifie les jours surchargés
    */
-  private identifyOverloadedDays(evenements: EvenementDto[]): OverloadedDayDto[] {
+  private identifyOverloadedDays(
+    evenements: EvenementDto[],
+  ): OverloadedDayDto[] {
     const overloadedDays: OverloadedDayDto[] = [];
-    
+
     // Grouper par date
     const eventsByDate = new Map<string, EvenementDto[]>();
-    evenements.forEach(event => {
+    evenements.forEach((event) => {
       if (!eventsByDate.has(event.date)) {
         eventsByDate.set(event.date, []);
       }
@@ -386,22 +444,30 @@ export class AIRoutineEnhancedService {
     // Analyser chaque jour
     for (const [date, events] of eventsByDate.entries()) {
       let totalHours = 0;
-      
-      events.forEach(event => {
-        const duration = (this.timeToMinutes(event.heureFin) - this.timeToMinutes(event.heureDebut)) / 60;
+
+      events.forEach((event) => {
+        const duration =
+          (this.timeToMinutes(event.heureFin) -
+            this.timeToMinutes(event.heureDebut)) /
+          60;
         totalHours += duration;
       });
 
-      if (totalHours >= 10) { // Seuil de surcharge: 10h
-        const level = totalHours >= 14 ? 'critique' : totalHours >= 12 ? 'élevé' : 'modéré';
-        
+      if (totalHours >= 10) {
+        // Seuil de surcharge: 10h
+        const level =
+          totalHours >= 14 ? 'critique' : totalHours >= 12 ? 'élevé' : 'modéré';
+
         overloadedDays.push({
           date,
           jour: new Date(date).toLocaleDateString('fr-FR', { weekday: 'long' }),
           totalHours,
           evenements: events,
           level: level as any,
-          recommendations: this.generateOverloadRecommendations(totalHours, events),
+          recommendations: this.generateOverloadRecommendations(
+            totalHours,
+            events,
+          ),
         });
       }
     }
@@ -412,28 +478,43 @@ export class AIRoutineEnhancedService {
   /**
    * Génère des recommandations pour les jours surchargés
    */
-  private generateOverloadRecommendations(totalHours: number, events: EvenementDto[]): string[] {
+  private generateOverloadRecommendations(
+    totalHours: number,
+    events: EvenementDto[],
+  ): string[] {
     const recommendations: string[] = [];
-    
+
     if (totalHours >= 14) {
-      recommendations.push('⚠️ Journée critique : Essayez de déplacer au moins 2-3h d\'activités');
-      recommendations.push('Prévoyez des pauses de 15-20 minutes entre les activités');
-      recommendations.push('Assurez-vous de bien dormir la veille et le lendemain');
+      recommendations.push(
+        "⚠️ Journée critique : Essayez de déplacer au moins 2-3h d'activités",
+      );
+      recommendations.push(
+        'Prévoyez des pauses de 15-20 minutes entre les activités',
+      );
+      recommendations.push(
+        'Assurez-vous de bien dormir la veille et le lendemain',
+      );
     } else if (totalHours >= 12) {
-      recommendations.push('⚠️ Journée chargée : Déplacez si possible 1-2h d\'activités');
+      recommendations.push(
+        "⚠️ Journée chargée : Déplacez si possible 1-2h d'activités",
+      );
       recommendations.push('Prenez des pauses régulières de 10 minutes');
     } else {
-      recommendations.push('Journée modérément chargée : Gérez votre énergie avec des pauses');
+      recommendations.push(
+        'Journée modérément chargée : Gérez votre énergie avec des pauses',
+      );
     }
-    
+
     // Recommandations spécifiques selon les types d'événements
-    const hasJob = events.some(e => e.type.toLowerCase() === 'job');
-    const hasCours = events.some(e => e.type.toLowerCase() === 'cours');
-    
+    const hasJob = events.some((e) => e.type.toLowerCase() === 'job');
+    const hasCours = events.some((e) => e.type.toLowerCase() === 'cours');
+
     if (hasJob && hasCours) {
-      recommendations.push('Alternez travail et études : prévoyez 1h de pause entre les deux');
+      recommendations.push(
+        'Alternez travail et études : prévoyez 1h de pause entre les deux',
+      );
     }
-    
+
     return recommendations;
   }
 
@@ -444,21 +525,25 @@ export class AIRoutineEnhancedService {
     evenements: EvenementDto[],
     disponibilites: DisponibiliteDto[],
     dateDebut: string,
-    dateFin: string
+    dateFin: string,
   ): TimeSlotDto[] {
     const availableSlots: TimeSlotDto[] = [];
-    
+
     // Pour chaque jour de disponibilité
-    disponibilites.forEach(dispo => {
+    disponibilites.forEach((dispo) => {
       // Trouver les événements pour ce jour
-      const eventsForDay = evenements.filter(event => {
+      const eventsForDay = evenements.filter((event) => {
         const eventDate = new Date(event.date);
-        const dayName = eventDate.toLocaleDateString('fr-FR', { weekday: 'long' });
+        const dayName = eventDate.toLocaleDateString('fr-FR', {
+          weekday: 'long',
+        });
         return dayName.toLowerCase() === dispo.jour.toLowerCase();
       });
 
       const dispoStart = this.timeToMinutes(dispo.heureDebut);
-      const dispoEnd = dispo.heureFin ? this.timeToMinutes(dispo.heureFin) : 24 * 60;
+      const dispoEnd = dispo.heureFin
+        ? this.timeToMinutes(dispo.heureFin)
+        : 24 * 60;
 
       // Calculer les créneaux libres
       if (eventsForDay.length === 0) {
@@ -472,20 +557,22 @@ export class AIRoutineEnhancedService {
         });
       } else {
         // Identifier les créneaux libres entre les événements
-        const sortedEvents = eventsForDay.sort((a, b) => 
-          this.timeToMinutes(a.heureDebut) - this.timeToMinutes(b.heureDebut)
+        const sortedEvents = eventsForDay.sort(
+          (a, b) =>
+            this.timeToMinutes(a.heureDebut) - this.timeToMinutes(b.heureDebut),
         );
 
         let currentTime = dispoStart;
 
-        sortedEvents.forEach(event => {
+        sortedEvents.forEach((event) => {
           const eventStart = this.timeToMinutes(event.heureDebut);
           const eventEnd = this.timeToMinutes(event.heureFin);
 
           // Créneau libre avant cet événement
           if (currentTime < eventStart) {
             const duration = (eventStart - currentTime) / 60;
-            if (duration >= 0.5) { // Au moins 30 minutes
+            if (duration >= 0.5) {
+              // Au moins 30 minutes
               availableSlots.push({
                 jour: dispo.jour,
                 heureDebut: this.minutesToTime(currentTime),
@@ -531,11 +618,11 @@ export class AIRoutineEnhancedService {
    * Calcule un score d'équilibre amélioré avec décomposition
    */
   private calculateEnhancedBalanceScore(
-    stats: any, 
-    conflicts: ConflictDto[], 
-    overloadedDays: OverloadedDayDto[]
+    stats: any,
+    conflicts: ConflictDto[],
+    overloadedDays: OverloadedDayDto[],
   ): any {
-    let baseScore = 100;
+    const baseScore = 100;
     let workStudyBalance = 0;
     let restPenalty = 0;
     let conflictPenalty = 0;
@@ -567,10 +654,13 @@ export class AIRoutineEnhancedService {
     }
 
     // 4. Pénalités pour conflits
-    conflictPenalty = conflicts.reduce((sum, conflict) => sum + conflict.scoreImpact, 0);
+    conflictPenalty = conflicts.reduce(
+      (sum, conflict) => sum + conflict.scoreImpact,
+      0,
+    );
 
     // 5. Pénalités pour jours surchargés
-    overloadedDays.forEach(day => {
+    overloadedDays.forEach((day) => {
       if (day.level === 'critique') {
         overloadPenalty -= 15;
       } else if (day.level === 'élevé') {
@@ -606,8 +696,8 @@ export class AIRoutineEnhancedService {
   private calculateStats(data: RoutineInputDataDto): any {
     const dateDebut = new Date(data.dateDebut);
     const dateFin = new Date(data.dateFin);
-    
-    const evenementsFiltres = data.evenements.filter(evenement => {
+
+    const evenementsFiltres = data.evenements.filter((evenement) => {
       const eventDate = new Date(evenement.date);
       return eventDate >= dateDebut && eventDate <= dateFin;
     });
@@ -617,7 +707,10 @@ export class AIRoutineEnhancedService {
     let heuresActivites = 0;
 
     for (const evenement of evenementsFiltres) {
-      const duree = this.calculerDureeHeures(evenement.heureDebut, evenement.heureFin);
+      const duree = this.calculerDureeHeures(
+        evenement.heureDebut,
+        evenement.heureFin,
+      );
 
       switch (evenement.type.toLowerCase()) {
         case 'job':
@@ -638,9 +731,12 @@ export class AIRoutineEnhancedService {
     const diffTime = dateFin.getTime() - dateDebut.getTime();
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
     const nombreJours = Math.max(1, diffDays);
-    
+
     const heuresDisponibles = 16.0 * nombreJours;
-    const heuresRepos = Math.max(0, heuresDisponibles - heuresTravail - heuresEtudes - heuresActivites);
+    const heuresRepos = Math.max(
+      0,
+      heuresDisponibles - heuresTravail - heuresEtudes - heuresActivites,
+    );
     const total = heuresTravail + heuresEtudes + heuresRepos + heuresActivites;
 
     return {
@@ -659,10 +755,10 @@ export class AIRoutineEnhancedService {
   private calculerDureeHeures(heureDebut: string, heureFin: string): number {
     const [h1, m1] = heureDebut.split(':').map(Number);
     const [h2, m2] = heureFin.split(':').map(Number);
-    
+
     const debutMinutes = h1 * 60 + m1;
     const finMinutes = h2 * 60 + m2;
-    
+
     const dureeMinutes = finMinutes - debutMinutes;
     return Math.max(0, dureeMinutes / 60.0);
   }
@@ -675,19 +771,32 @@ export class AIRoutineEnhancedService {
     stats: any,
     conflicts: ConflictDto[],
     overloadedDays: OverloadedDayDto[],
-    availableSlots: TimeSlotDto[]
+    availableSlots: TimeSlotDto[],
   ): string {
-    const conflictsText = conflicts.length > 0
-      ? conflicts.map(c => `- ${c.date}: "${c.event1.titre}" vs "${c.event2.titre}" (${c.overlapDuration}min de chevauchement)`).join('\n')
-      : 'Aucun conflit détecté';
-
-    const overloadText = overloadedDays.length > 0
-      ? overloadedDays.map(d => `- ${d.jour} ${d.date}: ${d.totalHours.toFixed(1)}h (${d.level})`).join('\n')
-      : 'Aucun jour surchargé';
-
-    const availabilityText = availableSlots.length > 0
-      ? `${availableSlots.reduce((sum, slot) => sum + slot.duration, 0).toFixed(1)}h disponibles réparties sur ${availableSlots.length} créneaux`
-      : 'Peu de créneaux disponibles';
+    const conflictsText =
+      conflicts.length > 0
+        ? conflicts
+            .map(
+              (c) =>
+                `- ${c.date}: "${c.event1.titre}" vs "${c.event2.titre}" (${c.overlapDuration}min de chevauchement)`,
+            )
+            .join('\n')
+        : 'Aucun conflit détecté';
+
+    const overloadText =
+      overloadedDays.length > 0
+        ? overloadedDays
+            .map(
+              (d) =>
+                `- ${d.jour} ${d.date}: ${d.totalHours.toFixed(1)}h (${d.level})`,
+            )
+            .join('\n')
+        : 'Aucun jour surchargé';
+
+    const availabilityText =
+      availableSlots.length > 0
+        ? `${availableSlots.reduce((sum, slot) => sum + slot.duration, 0).toFixed(1)}h disponibles réparties sur ${availableSlots.length} créneaux`
+        : 'Peu de créneaux disponibles';
 
     return `Tu es un assistant IA expert en équilibre vie-études-travail pour les étudiants tunisiens.
 
@@ -760,7 +869,7 @@ RÈGLES CRITIQUES :
     score: number,
     conflicts: ConflictDto[],
     overloadedDays: OverloadedDayDto[],
-    stats: any
+    stats: any,
   ): any {
     let status: 'excellent' | 'bon' | 'moyen' | 'faible' | 'critique';
     const mainIssues: string[] = [];
@@ -783,47 +892,49 @@ RÈGLES CRITIQUES :
     if (conflicts.length > 0) {
       mainIssues.push(`${conflicts.length} conflit(s) d'horaires à résoudre`);
     }
-    
+
     if (overloadedDays.length > 0) {
       mainIssues.push(`${overloadedDays.length} jour(s) surchargé(s)`);
     }
-    
+
     if (stats.pourcentageRepos < 30) {
       mainIssues.push('Temps de repos insuffisant');
     }
-    
+
     const workStudyRatio = stats.heuresTravail / (stats.heuresEtudes || 1);
     if (workStudyRatio > 2) {
       mainIssues.push('Déséquilibre: trop de travail par rapport aux études');
     } else if (workStudyRatio < 0.3) {
-      mainIssues.push('Peu d\'expérience professionnelle');
+      mainIssues.push("Peu d'expérience professionnelle");
     }
 
     // Identifier les points forts
     if (conflicts.length === 0) {
-      mainStrengths.push('Aucun conflit d\'horaires');
+      mainStrengths.push("Aucun conflit d'horaires");
     }
-    
+
     if (stats.pourcentageRepos >= 35 && stats.pourcentageRepos <= 45) {
       mainStrengths.push('Excellent équilibre de repos');
     }
-    
+
     if (workStudyRatio >= 0.6 && workStudyRatio <= 1.2) {
       mainStrengths.push('Bon équilibre travail/études');
     }
-    
+
     if (stats.heuresActivites >= 5) {
       mainStrengths.push('Temps pour activités personnelles');
     }
-    
+
     if (overloadedDays.length === 0) {
       mainStrengths.push('Répartition équilibrée des activités');
     }
 
     return {
       status,
-      mainIssues: mainIssues.length > 0 ? mainIssues : ['Aucun problème majeur détecté'],
-      mainStrengths: mainStrengths.length > 0 ? mainStrengths : ['Continuez vos efforts'],
+      mainIssues:
+        mainIssues.length > 0 ? mainIssues : ['Aucun problème majeur détecté'],
+      mainStrengths:
+        mainStrengths.length > 0 ? mainStrengths : ['Continuez vos efforts'],
     };
   }
 
@@ -833,7 +944,7 @@ RÈGLES CRITIQUES :
   async analyzeJobCompatibility(
     userId: string,
     offreId: string,
-    currentData: RoutineInputDataDto
+    currentData: RoutineInputDataDto,
   ): Promise<JobCompatibilityResponseDto> {
     // Récupérer l'offre
     const offre = await this.offreModel.findById(offreId).exec();
@@ -846,10 +957,13 @@ RÈGLES CRITIQUES :
       currentData.evenements,
       currentData.disponibilites,
       currentData.dateDebut,
-      currentData.dateFin
+      currentData.dateFin,
     );
 
-    const totalAvailableHours = availableSlots.reduce((sum, slot) => sum + slot.duration, 0);
+    const totalAvailableHours = availableSlots.reduce(
+      (sum, slot) => sum + slot.duration,
+      0,
+    );
 
     // Calculer le score de compatibilité
     let score = 50;
@@ -860,18 +974,38 @@ RÈGLES CRITIQUES :
     const requiredHours = this.estimateRequiredHours(offre);
     if (totalAvailableHours >= requiredHours * 1.2) {
       score += 30;
-      reasons.push(`Vous avez ${totalAvailableHours.toFixed(1)}h disponibles (${requiredHours}h requises)`);
+      reasons.push(
+        `Vous avez ${totalAvailableHours.toFixed(1)}h disponibles (${requiredHours}h requises)`,
+      );
     } else if (totalAvailableHours >= requiredHours) {
       score += 15;
       reasons.push(`Vous avez juste assez de temps disponible`);
       warnings.push('Planning serré, peu de marge de manœuvre');
     } else {
       score -= 20;
-      warnings.push(`Temps insuffisant: ${totalAvailableHours.toFixed(1)}h disponibles pour ${requiredHours}h requises`);
+      warnings.push(
+        `Temps insuffisant: ${totalAvailableHours.toFixed(1)}h disponibles pour ${requiredHours}h requises`,
+      );
     }
 
-    // 2. Vérifier la flexibilité des horaires
-    if (offre.shift === 'flexible') {
+    // 2. Vérifier les horaires déclarés, sinon la flexibilité du shift
+    if (offre.schedule?.length) {
+      const scheduleHours = scheduleWeeklyHours(offre.schedule);
+      const coveredHours = scheduleCoveredHours(offre.schedule, availableSlots);
+      if (coveredHours >= scheduleHours * 0.9) {
+        score += 20;
+        reasons.push("Les horaires de l'offre tombent sur vos créneaux libres");
+      } else if (coveredHours > 0) {
+        warnings.push(
+          `Seulement ${coveredHours.toFixed(1)}h sur ${scheduleHours}h des horaires de l'offre tombent sur vos créneaux libres`,
+        );
+      } else {
+        score -= 20;
+        warnings.push(
+          "Les horaires de l'offre ne correspondent à aucun de vos créneaux libres",
+        );
+      }
+    } else if (offre.shift === 'flexible') {
       score += 20;
       reasons.push('Horaires flexibles - Idéal pour étudiants');
     } else if (offre.shift === 'nuit') {
@@ -887,7 +1021,10 @@ RÈGLES CRITIQUES :
 
     // 4. Calculer l'impact sur l'équilibre
     const currentStats = this.calculateStats(currentData);
-    const impactOnBalance = this.estimateBalanceImpact(currentStats, requiredHours);
+    const impactOnBalance = this.estimateBalanceImpact(
+      currentStats,
+      requiredHours,
+    );
 
     // Générer la recommandation finale
     let recommendation: string;
@@ -906,8 +1043,8 @@ RÈGLES CRITIQUES :
     return {
       score: Math.max(0, Math.min(100, score)),
       available,
-      message: available 
-        ? `Vous pouvez accepter cette offre` 
+      message: available
+        ? `Vous pouvez accepter cette offre`
         : `Cette offre risque de surcharger votre emploi du temps`,
       availableHoursPerWeek: totalAvailableHours,
       bestTimeSlots: availableSlots.slice(0, 5), // Top 5 créneaux
@@ -922,7 +1059,13 @@ RÈGLES CRITIQUES :
    * Estime les heures requises pour une offre
    */
   private estimateRequiredHours(offre: OffreDocument): number {
-    // Estimation basée sur le type de job
+    // Heures déclarées par l'offre (ou somme de ses horaires)
+    const declared = requiredWeeklyHours(offre);
+    if (declared !== null) {
+      return declared;
+    }
+
+    // Sinon estimation basée sur le type de job
     if (offre.jobType === 'job') {
       return 20; // 20h/semaine pour un job à temps partiel
     } else if (offre.jobType === 'stage') {
@@ -938,7 +1081,7 @@ RÈGLES CRITIQUES :
   private estimateBalanceImpact(currentStats: any, newHours: number): number {
     const currentWorkHours = currentStats.heuresTravail;
     const totalAfter = currentWorkHours + newHours;
-    
+
     // Si > 30h de travail par semaine = impact négatif
     if (totalAfter > 30) {
       return -15;
@@ -947,7 +1090,7 @@ RÈGLES CRITIQUES :
     } else if (totalAfter < 10) {
       return 10; // Bénéfique si peu de travail actuellement
     }
-    
+
     return -5;
   }
 
@@ -957,7 +1100,7 @@ RÈGLES CRITIQUES :
   async getQuickSuggestion(
     userId: string,
     newEvent: any,
-    currentEvents: EvenementDto[]
+    currentEvents: EvenementDto[],
   ): Promise<QuickSuggestionResponseDto> {
     // Créer un événement temporaire
     const tempEvent: EvenementDto = {
@@ -970,44 +1113,56 @@ RÈGLES CRITIQUES :
     };
 
     // Vérifier les conflits avec les événements existants du même jour
-    const eventsOnSameDay = currentEvents.filter(e => e.date === tempEvent.date);
+    const eventsOnSameDay = currentEvents.filter(
+      (e) => e.date === tempEvent.date,
+    );
     const conflicts: any[] = [];
 
-    eventsOnSameDay.forEach(existingEvent => {
+    eventsOnSameDay.forEach((existingEvent) => {
       const overlap = this.calculateTimeOverlap(tempEvent, existingEvent);
       if (overlap > 0) {
         conflicts.push({
           event: existingEvent.titre,
           overlap: overlap,
-          severity: this.calculateConflictSeverity(overlap, tempEvent, existingEvent),
+          severity: this.calculateConflictSeverity(
+            overlap,
+            tempEvent,
+            existingEvent,
+          ),
         });
       }
     });
 
     // Générer la réponse
     if (conflicts.length > 0) {
-      const criticalConflicts = conflicts.filter(c => c.severity === 'critical' || c.severity === 'high');
-      
+      const criticalConflicts = conflicts.filter(
+        (c) => c.severity === 'critical' || c.severity === 'high',
+      );
+
       return {
         status: criticalConflicts.length > 0 ? 'error' : 'warning',
-        message: criticalConflicts.length > 0
-          ? `❌ Conflit majeur détecté : Ce créneau chevauche "${conflicts[0].event}"`
-          : `⚠️ Attention : Chevauchement partiel avec "${conflicts[0].event}"`,
+        message:
+          criticalConflicts.length > 0
+            ? `❌ Conflit majeur détecté : Ce créneau chevauche "${conflicts[0].event}"`
+            : `⚠️ Attention : Chevauchement partiel avec "${conflicts[0].event}"`,
         conflicts,
         impactScore: -5 * conflicts.length,
         recommendations: [
           'Choisissez un autre créneau horaire',
-          'Déplacez l\'événement existant',
-          'Réduisez la durée de l\'un des événements',
+          "Déplacez l'événement existant",
+          "Réduisez la durée de l'un des événements",
         ],
       };
     }
 
     // Vérifier si la journée devient surchargée
-    const dayHours = eventsOnSameDay.reduce((sum, e) => 
-      sum + this.calculerDureeHeures(e.heureDebut, e.heureFin), 0
+    const dayHours = eventsOnSameDay.reduce(
+      (sum, e) => sum + this.calculerDureeHeures(e.heureDebut, e.heureFin),
+      0,
     );
-    const newDayHours = dayHours + this.calculerDureeHeures(tempEvent.heureDebut, tempEvent.heureFin);
+    const newDayHours =
+      dayHours +
+      this.calculerDureeHeures(tempEvent.heureDebut, tempEvent.heureFin);
 
     if (newDayHours >= 12) {
       return {
@@ -1016,7 +1171,7 @@ RÈGLES CRITIQUES :
         impactScore: -3,
         recommendations: [
           'Prévoyez des pauses régulières',
-          'Assurez-vous d\'avoir une bonne nuit de sommeil',
+          "Assurez-vous d'avoir une bonne nuit de sommeil",
           'Considérez déplacer certaines activités à un autre jour',
         ],
       };
@@ -1024,11 +1179,10 @@ RÈGLES CRITIQUES :
 
     return {
       status: 'ok',
-      message: '✅ Parfait ! Ce créneau est libre et ne surcharge pas votre journée',
+      message:
+        '✅ Parfait ! Ce créneau est libre et ne surcharge pas votre journée',
       impactScore: 0,
-      recommendations: [
-        'Ajoutez cet événement à votre planning',
-      ],
+      recommendations: ['Ajoutez cet événement à votre planning'],
     };
   }
 
@@ -1036,78 +1190,92 @@ RÈGLES CRITIQUES :
    * Génère un ID unique
    */
   private generateId(): string {
-    return Math.random().toString(36).substring(2, 15) + 
-           Math.random().toString(36).substring(2, 15);
+    return (
+      Math.random().toString(36).substring(2, 15) +
+      Math.random().toString(36).substring(2, 15)
+    );
   }
 
   /**
-   * Génère des recommandations avec Hugging Face
+   * Génère des recommandations avec le fournisseur IA configuré
    */
-  private async generateRecommendationsWithHF(
+  private async generateRecommendationsWithAI(
     prompt: string,
     stats: any,
     conflicts: ConflictDto[],
-    overloadedDays: OverloadedDayDto[]
+    overloadedDays: OverloadedDayDto[],
   ): Promise<any> {
-    if (!this.hf) {
-      throw new Error('Hugging Face non initialisé');
-    }
-
-    try {
-      // Créer un prompt simplifié pour Hugging Face
-      const simplifiedPrompt = `Tu es un conseiller pour étudiants. Analyse cette routine et donne 3-5 recommandations concrètes.
-
-Statistiques:
-- Travail: ${stats.heuresTravail.toFixed(1)}h (${stats.pourcentageTravail.toFixed(1)}%)
-- Études: ${stats.heuresEtudes.toFixed(1)}h (${stats.pourcentageEtudes.toFixed(1)}%)
-- Repos: ${stats.heuresRepos.toFixed(1)}h (${stats.pourcentageRepos.toFixed(1)}%)
-- Conflits d'horaires: ${conflicts.length}
-- Jours surchargés: ${overloadedDays.length}
-
-Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
-
-      // Utiliser textGeneration avec un modèle gratuit et accessible
-      const response = await this.hf.textGeneration({
-        model: 'google/flan-t5-large',
-        inputs: simplifiedPrompt,
-        parameters: {
-          max_new_tokens: 500,
-          temperature: 0.7,
-          top_p: 0.95,
-          return_full_text: false,
-        },
-      });
+    const { text } = await this.aiProviderService.generateText({
+      feature: 'ai-routine-enhanced',
+      prompt,
+      maxTokens: 3072,
+      temperature: 0.7,
+    });
 
-      // Parser la réponse et la convertir en format structuré
-      const text = response.generated_text || '';
-      const recommandations = this.parseHFResponse(text, stats, conflicts, overloadedDays);
-      
-      return {
-        recommandations,
-        suggestionsOptimisation: this.generateOptimizationSuggestions(stats, conflicts, overloadedDays),
-      };
-    } catch (error: any) {
-      this.logger.error('Erreur Hugging Face:', error.message);
-      throw error;
+    // Le prompt demande du JSON, une réponse en liste libre est aussi acceptée
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      try {
+        const parsed = JSON.parse(jsonMatch[0]) as {
+          recommandations?: unknown[];
+          suggestionsOptimisation?: unknown[];
+        };
+        if (
+          Array.isArray(parsed.recommandations) &&
+          parsed.recommandations.length > 0
+        ) {
+          return {
+            recommandations: parsed.recommandations,
+            suggestionsOptimisation: Array.isArray(
+              parsed.suggestionsOptimisation,
+            )
+              ? parsed.suggestionsOptimisation
+              : this.generateOptimizationSuggestions(
+                  stats,
+                  conflicts,
+                  overloadedDays,
+                ),
+          };
+        }
+      } catch {
+        this.logger.warn('Réponse IA non JSON, lecture en liste');
+      }
     }
+
+    return {
+      recommandations: this.parseAIResponse(
+        text,
+        stats,
+        conflicts,
+        overloadedDays,
+      ),
+      suggestionsOptimisation: this.generateOptimizationSuggestions(
+        stats,
+        conflicts,
+        overloadedDays,
+      ),
+    };
   }
 
   /**
-   * Parse la réponse de Hugging Face
+   * Lit une réponse IA en liste libre
    */
-  private parseHFResponse(
+  private parseAIResponse(
     text: string,
     stats: any,
     conflicts: ConflictDto[],
-    overloadedDays: OverloadedDayDto[]
+    overloadedDays: OverloadedDayDto[],
   ): any[] {
     const recommandations: any[] = [];
-    
+
     // Extraire les lignes qui ressemblent à des recommandations
-    const lines = text.split('\n').filter(line => 
-      line.trim().length > 10 && 
-      (line.includes('-') || line.includes('•') || line.match(/^\d+\./))
-    );
+    const lines = text
+      .split('\n')
+      .filter(
+        (line) =>
+          line.trim().length > 10 &&
+          (line.includes('-') || line.includes('•') || line.match(/^\d+\./)),
+      );
 
     lines.forEach((line, index) => {
       const cleanLine = line.replace(/^[-•\d.]\s*/, '').trim();
@@ -1125,7 +1293,13 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
 
     // Ajouter des recommandations basées sur les données si pas assez
     if (recommandations.length < 3) {
-      recommandations.push(...this.generateDataBasedRecommendations(stats, conflicts, overloadedDays));
+      recommandations.push(
+        ...this.generateDataBasedRecommendations(
+          stats,
+          conflicts,
+          overloadedDays,
+        ),
+      );
     }
 
     return recommandations.slice(0, 12);
@@ -1138,11 +1312,23 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
     const lower = text.toLowerCase();
     if (lower.includes('travail') || lower.includes('job')) return 'travail';
     if (lower.includes('étud') || lower.includes('cours')) return 'etudes';
-    if (lower.includes('repos') || lower.includes('sommeil') || lower.includes('dormir')) return 'repos';
-    if (lower.includes('activité') || lower.includes('loisir')) return 'activites';
-    if (lower.includes('santé') || lower.includes('exercice') || lower.includes('sport')) return 'sante';
+    if (
+      lower.includes('repos') ||
+      lower.includes('sommeil') ||
+      lower.includes('dormir')
+    )
+      return 'repos';
+    if (lower.includes('activité') || lower.includes('loisir'))
+      return 'activites';
+    if (
+      lower.includes('santé') ||
+      lower.includes('exercice') ||
+      lower.includes('sport')
+    )
+      return 'sante';
     if (lower.includes('social') || lower.includes('ami')) return 'social';
-    if (lower.includes('planning') || lower.includes('horaire')) return 'planning';
+    if (lower.includes('planning') || lower.includes('horaire'))
+      return 'planning';
     if (lower.includes('équilibre')) return 'optimisation';
     return 'bienetre';
   }
@@ -1161,14 +1347,18 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
   private generateDataBasedRecommendations(
     stats: any,
     conflicts: ConflictDto[],
-    overloadedDays: OverloadedDayDto[]
+    overloadedDays: OverloadedDayDto[],
   ): any[] {
     const recommandations: any[] = [];
 
     // 1. CONFLITS D'HORAIRES (Priorité critique)
     if (conflicts.length > 0) {
-      const criticalConflicts = conflicts.filter(c => c.severity === ConflictSeverity.CRITICAL || c.severity === ConflictSeverity.HIGH);
-      
+      const criticalConflicts = conflicts.filter(
+        (c) =>
+          c.severity === ConflictSeverity.CRITICAL ||
+          c.severity === ConflictSeverity.HIGH,
+      );
+
       if (criticalConflicts.length > 0) {
         recommandations.push({
           id: this.generateId(),
@@ -1179,7 +1369,7 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
           actionSuggeree: `Déplacez les événements en conflit vers les ${conflicts.length} créneaux disponibles identifiés`,
         });
       }
-      
+
       if (conflicts.length > criticalConflicts.length) {
         const minorConflicts = conflicts.length - criticalConflicts.length;
         recommandations.push({
@@ -1196,10 +1386,16 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
     // 2. JOURS SURCHARGÉS (Analyse détaillée)
     if (overloadedDays.length > 0) {
       overloadedDays.forEach((day, index) => {
-        if (index < 2) { // Top 2 jours les plus surchargés
-          const level = day.level === 'critique' ? 'critique' : day.level === 'élevé' ? 'très élevée' : 'modérée';
+        if (index < 2) {
+          // Top 2 jours les plus surchargés
+          const level =
+            day.level === 'critique'
+              ? 'critique'
+              : day.level === 'élevé'
+                ? 'très élevée'
+                : 'modérée';
           const heuresExcess = day.totalHours - 10;
-          
+
           recommandations.push({
             id: this.generateId(),
             type: 'optimisation',
@@ -1218,9 +1414,9 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
         id: this.generateId(),
         type: 'repos',
         titre: 'URGENT : Temps de repos critique',
-        description: `Votre temps de repos est dangereusement bas (${stats.pourcentageRepos.toFixed(1)}%, minimum vital : 30%). Ce manque de repos peut entraîner de l'épuisement, une baisse de concentration, et des problèmes de santé. Vous devez impérativement libérer ${Math.ceil((30 - stats.pourcentageRepos) * stats.heuresTotales / 100)}h supplémentaires pour le repos et le sommeil.`,
+        description: `Votre temps de repos est dangereusement bas (${stats.pourcentageRepos.toFixed(1)}%, minimum vital : 30%). Ce manque de repos peut entraîner de l'épuisement, une baisse de concentration, et des problèmes de santé. Vous devez impérativement libérer ${Math.ceil(((30 - stats.pourcentageRepos) * stats.heuresTotales) / 100)}h supplémentaires pour le repos et le sommeil.`,
         priorite: 'haute',
-        actionSuggeree: `Libérer immédiatement ${Math.ceil((30 - stats.pourcentageRepos) * stats.heuresTotales / 100)}h pour le repos`,
+        actionSuggeree: `Libérer immédiatement ${Math.ceil(((30 - stats.pourcentageRepos) * stats.heuresTotales) / 100)}h pour le repos`,
       });
     } else if (stats.pourcentageRepos < 30) {
       recommandations.push({
@@ -1229,13 +1425,13 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
         titre: 'Augmenter le temps de repos',
         description: `Votre temps de repos (${stats.pourcentageRepos.toFixed(1)}%) est en dessous du seuil recommandé de 30-35%. Pour maintenir une bonne santé mentale et physique, et optimiser vos performances académiques et professionnelles, visez au moins 7-8h de sommeil par nuit plus 2-3h de détente quotidienne.`,
         priorite: 'haute',
-        actionSuggeree: `Libérer ${Math.ceil((30 - stats.pourcentageRepos) * stats.heuresTotales / 100)}h supplémentaires pour le repos`,
+        actionSuggeree: `Libérer ${Math.ceil(((30 - stats.pourcentageRepos) * stats.heuresTotales) / 100)}h supplémentaires pour le repos`,
       });
     } else if (stats.pourcentageRepos >= 45) {
       recommandations.push({
         id: this.generateId(),
         type: 'optimisation',
-        titre: 'Optimiser l\'utilisation du temps libre',
+        titre: "Optimiser l'utilisation du temps libre",
         description: `Vous disposez d'un excellent temps de repos (${stats.pourcentageRepos.toFixed(1)}%). Profitez de ce temps pour des activités enrichissantes : développement personnel, sport, loisirs créatifs, ou même augmenter légèrement vos heures de travail/études si vous souhaitez progresser plus rapidement sans compromettre votre équilibre.`,
         priorite: 'basse',
         actionSuggeree: `Exploiter ${Math.floor(stats.heuresRepos * 0.2)}h de temps libre pour des activités de développement`,
@@ -1244,7 +1440,7 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
 
     // 4. ÉQUILIBRE TRAVAIL/ÉTUDES (Analyse contextuelle)
     const ratio = stats.heuresTravail / (stats.heuresEtudes || 1);
-    
+
     if (ratio > 2.5) {
       recommandations.push({
         id: this.generateId(),
@@ -1267,7 +1463,7 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
       recommandations.push({
         id: this.generateId(),
         type: 'travail',
-        titre: 'Augmenter l\'expérience professionnelle',
+        titre: "Augmenter l'expérience professionnelle",
         description: `Vous consacrez peu de temps au travail (${stats.heuresTravail.toFixed(1)}h) comparé à vos études (${stats.heuresEtudes.toFixed(1)}h). L'expérience professionnelle est précieuse pour votre développement de carrière. Si votre emploi du temps le permet, envisagez d'augmenter vos heures de travail de 3-5h pour développer vos compétences pratiques.`,
         priorite: 'basse',
         actionSuggeree: `Chercher des opportunités de travail/stage à temps partiel (5-10h/semaine)`,
@@ -1330,7 +1526,7 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
       recommandations.push({
         id: this.generateId(),
         type: 'sante',
-        titre: 'Intégrer de l\'exercice physique',
+        titre: "Intégrer de l'exercice physique",
         description: `L'activité physique est absente ou quasi-absente de votre routine. L'exercice régulier (même 30 min/jour) améliore la concentration, réduit le stress, améliore le sommeil et booste les performances académiques. Marche, jogging, sport collectif, ou simplement des étirements : trouvez ce qui vous convient.`,
         priorite: 'moyenne',
         actionSuggeree: `Planifier 3-4 sessions de 30-45 minutes d'exercice physique par semaine`,
@@ -1363,8 +1559,11 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
 
     // 9. ÉQUILIBRE À LONG TERME (Vision stratégique)
     const totalHeures = stats.heuresTotales;
-    const utilization = ((stats.heuresTravail + stats.heuresEtudes + stats.heuresActivites) / totalHeures) * 100;
-    
+    const utilization =
+      ((stats.heuresTravail + stats.heuresEtudes + stats.heuresActivites) /
+        totalHeures) *
+      100;
+
     if (utilization > 70) {
       recommandations.push({
         id: this.generateId(),
@@ -1432,7 +1631,7 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
   private generateOptimizationSuggestions(
     stats: any,
     conflicts: ConflictDto[],
-    overloadedDays: OverloadedDayDto[]
+    overloadedDays: OverloadedDayDto[],
   ): any[] {
     const suggestions: any[] = [];
 
@@ -1440,11 +1639,14 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
     conflicts.forEach((conflict, index) => {
       if (index < 3) {
         const severity = conflict.severity;
-        const timeframe = conflict.overlapDuration >= 60 ? `${Math.floor(conflict.overlapDuration / 60)}h${conflict.overlapDuration % 60}min` : `${conflict.overlapDuration}min`;
-        
+        const timeframe =
+          conflict.overlapDuration >= 60
+            ? `${Math.floor(conflict.overlapDuration / 60)}h${conflict.overlapDuration % 60}min`
+            : `${conflict.overlapDuration}min`;
+
         let description = '';
         let avantage = '';
-        
+
         if (severity === ConflictSeverity.CRITICAL) {
           description = `CONFLIT CRITIQUE le ${conflict.date} : "${conflict.event1.titre}" (${conflict.event1.heureDebut}-${conflict.event1.heureFin}) chevauche complètement "${conflict.event2.titre}" (${conflict.event2.heureDebut}-${conflict.event2.heureFin}). L'un des deux événements doit être déplacé ou annulé immédiatement.`;
           avantage = `Éliminer l'impossibilité physique d'honorer les deux engagements simultanément (${timeframe} de chevauchement)`;
@@ -1455,14 +1657,19 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
           description = `Chevauchement partiel le ${conflict.date} entre "${conflict.event1.titre}" et "${conflict.event2.titre}" (${timeframe}). Prévoyez du temps pour la transition ou ajustez légèrement les horaires.`;
           avantage = `Éviter les retards et la précipitation, améliorer la qualité de participation`;
         }
-        
+
         suggestions.push({
           id: this.generateId(),
           jour: conflict.date,
           type: 'deplacement',
           description,
           avantage,
-          impact: severity === ConflictSeverity.CRITICAL ? 'tresPositif' : severity === ConflictSeverity.HIGH ? 'tresPositif' : 'positif',
+          impact:
+            severity === ConflictSeverity.CRITICAL
+              ? 'tresPositif'
+              : severity === ConflictSeverity.HIGH
+                ? 'tresPositif'
+                : 'positif',
         });
       }
     });
@@ -1475,7 +1682,7 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
           acc[e.type] = (acc[e.type] || 0) + 1;
           return acc;
         }, {} as any);
-        
+
         let strategie = '';
         if (eventsByType['job'] && eventsByType['cours']) {
           strategie = `Vous avez à la fois des cours et du travail ce jour-là. Envisagez de déplacer ${Math.ceil(excessHours)}h de travail vers un jour plus léger.`;
@@ -1484,7 +1691,7 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
         } else {
           strategie = `Réduisez la durée de certaines activités ou déplacez ${Math.ceil(excessHours)}h vers d'autres jours.`;
         }
-        
+
         suggestions.push({
           id: this.generateId(),
           jour: day.jour,
@@ -1567,12 +1774,19 @@ Donne 3-5 recommandations pratiques et spécifiques en format liste.`;
   private generateDefaultRecommendations(
     stats: any,
     conflicts: ConflictDto[],
-    overloadedDays: OverloadedDayDto[]
+    overloadedDays: OverloadedDayDto[],
   ): any {
     return {
-      recommandations: this.generateDataBasedRecommendations(stats, conflicts, overloadedDays),
-      suggestionsOptimisation: this.generateOptimizationSuggestions(stats, conflicts, overloadedDays),
+      recommandations: this.generateDataBasedRecommendations(
+        stats,
+        conflicts,
+        overloadedDays,
+      ),
+      suggestionsOptimisation: this.generateOptimizationSuggestions(
+        stats,
+        conflicts,
+        overloadedDays,
+      ),
     };
   }
 }
-
@@ -1,10 +1,38 @@
-import { Controller, Post, Body, UseGuards, Request, HttpException, HttpStatus, Get, Param } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  Request,
+  HttpException,
+  HttpStatus,
+  Get,
+  Param,
+  Query,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
 import { AIRoutineService } from './ai-routine.service';
 import { AIRoutineEnhancedService } from './ai-routine-enhanced.service';
-import { RoutineInputDataDto } from './dto/routine-input.dto';
-import { CheckJobCompatibilityDto, QuickSuggestionDto } from './dto/job-compatibility.dto';
+import { RoutineHistoryService } from './routine-history.service';
+import {
+  RoutineInputDataDto,
+  StoredRoutineAnalysisDto,
+} from './dto/routine-input.dto';
+import {
+  CheckJobCompatibilityDto,
+  QuickSuggestionDto,
+} from './dto/job-compatibility.dto';
 
 @ApiTags('AI Routine')
 @Controller('ai/routine')
@@ -14,24 +42,24 @@ export class AIRoutineController {
   constructor(
     private readonly aiRoutineService: AIRoutineService,
     private readonly aiRoutineEnhancedService: AIRoutineEnhancedService,
+    private readonly routineHistoryService: RoutineHistoryService,
   ) {}
 
   @Post('analyze')
-  @ApiOperation({ summary: 'Analyser la routine hebdomadaire avec IA (version de base)' })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiOperation({
+    summary: 'Analyser la routine hebdomadaire avec IA (version de base)',
+  })
+  @ApiResponse({
+    status: 200,
     description: 'Analyse de routine réussie',
   })
   @ApiResponse({ status: 401, description: 'Non authentifié' })
   @ApiResponse({ status: 400, description: 'Données invalides' })
   @ApiResponse({ status: 500, description: 'Erreur serveur' })
-  async analyzeRoutine(
-    @Request() req,
-    @Body() data: RoutineInputDataDto,
-  ) {
+  async analyzeRoutine(@Request() req, @Body() data: RoutineInputDataDto) {
     try {
       const userId = req.user?._id?.toString() || req.user?.id || req.user?.sub;
-      
+
       if (!userId) {
         throw new HttpException(
           'Utilisateur non authentifié',
@@ -54,27 +82,30 @@ export class AIRoutineController {
       }
 
       const analysis = await this.aiRoutineService.analyzeRoutine(userId, data);
-      
+
       return {
         success: true,
         data: analysis,
       };
     } catch (error) {
       throw new HttpException(
-        error.message || 'Erreur lors de l\'analyse',
+        error.message || "Erreur lors de l'analyse",
         error.status || HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
   @Post('analyze-enhanced')
-  @ApiOperation({ 
-    summary: 'Analyser la routine avec détection des conflits et optimisations (VERSION AMÉLIORÉE)',
-    description: 'Version améliorée avec détection automatique des conflits d\'horaires, identification des jours surchargés, calcul des créneaux disponibles et recommandations intelligentes'
+  @ApiOperation({
+    summary:
+      'Analyser la routine avec détection des conflits et optimisations (VERSION AMÉLIORÉE)',
+    description:
+      "Version améliorée avec détection automatique des conflits d'horaires, identification des jours surchargés, calcul des créneaux disponibles et recommandations intelligentes",
   })
-  @ApiResponse({ 
-    status: 200, 
-    description: 'Analyse complète de routine réussie avec détection des conflits',
+  @ApiResponse({
+    status: 200,
+    description:
+      'Analyse complète de routine réussie avec détection des conflits',
   })
   @ApiResponse({ status: 401, description: 'Non authentifié' })
   @ApiResponse({ status: 400, description: 'Données invalides' })
@@ -85,7 +116,7 @@ export class AIRoutineController {
   ) {
     try {
       const userId = req.user?._id?.toString() || req.user?.id || req.user?.sub;
-      
+
       if (!userId) {
         throw new HttpException(
           'Utilisateur non authentifié',
@@ -107,8 +138,12 @@ export class AIRoutineController {
         );
       }
 
-      const analysis = await this.aiRoutineEnhancedService.analyzeRoutineEnhanced(userId, data);
-      
+      const analysis =
+        await this.aiRoutineEnhancedService.analyzeRoutineEnhanced(
+          userId,
+          data,
+        );
+
       return {
         success: true,
         message: 'Analyse complète effectuée avec succès',
@@ -116,19 +151,60 @@ export class AIRoutineController {
       };
     } catch (error) {
       throw new HttpException(
-        error.message || 'Erreur lors de l\'analyse améliorée',
+        error.message || "Erreur lors de l'analyse améliorée",
         error.status || HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
+  @Post('analyze-stored')
+  @ApiOperation({
+    summary: 'Analyser la routine à partir des données enregistrées',
+    description:
+      "Même analyse que analyze-enhanced, mais avec les événements et disponibilités déjà enregistrés de l'utilisateur. Semaine en cours par défaut",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Analyse complète de routine réussie',
+  })
+  @ApiResponse({ status: 401, description: 'Non authentifié' })
+  @ApiResponse({ status: 400, description: 'Période invalide' })
+  @ApiResponse({ status: 500, description: 'Erreur serveur' })
+  async analyzeStoredRoutine(
+    @CurrentUser() user: UserDocument,
+    @Body() options: StoredRoutineAnalysisDto,
+  ) {
+    try {
+      const analysis = await this.aiRoutineEnhancedService.analyzeStoredRoutine(
+        user._id.toString(),
+        options,
+      );
+
+      return {
+        success: true,
+        message: 'Analyse complète effectuée avec succès',
+        data: analysis,
+      };
+    } catch (error) {
+      const { message, status } = error as {
+        message?: string;
+        status?: number;
+      };
+      throw new HttpException(
+        message || "Erreur lors de l'analyse améliorée",
+        status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Post('check-job-compatibility')
-  @ApiOperation({ 
-    summary: 'Vérifier la compatibilité d\'une offre avec l\'emploi du temps',
-    description: 'Analyse si l\'étudiant a suffisamment de temps disponible pour accepter une offre d\'emploi'
+  @ApiOperation({
+    summary: "Vérifier la compatibilité d'une offre avec l'emploi du temps",
+    description:
+      "Analyse si l'étudiant a suffisamment de temps disponible pour accepter une offre d'emploi",
   })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiResponse({
+    status: 200,
     description: 'Analyse de compatibilité réussie',
   })
   @ApiResponse({ status: 401, description: 'Non authentifié' })
@@ -139,7 +215,7 @@ export class AIRoutineController {
   ) {
     try {
       const userId = req.user?._id?.toString() || req.user?.id || req.user?.sub;
-      
+
       if (!userId) {
         throw new HttpException(
           'Utilisateur non authentifié',
@@ -147,41 +223,40 @@ export class AIRoutineController {
         );
       }
 
-      const compatibility = await this.aiRoutineEnhancedService.analyzeJobCompatibility(
-        userId,
-        body.offreId,
-        body.routineData
-      );
-      
+      const compatibility =
+        await this.aiRoutineEnhancedService.analyzeJobCompatibility(
+          userId,
+          body.offreId,
+          body.routineData,
+        );
+
       return {
         success: true,
         data: compatibility,
       };
     } catch (error) {
       throw new HttpException(
-        error.message || 'Erreur lors de l\'analyse de compatibilité',
+        error.message || "Erreur lors de l'analyse de compatibilité",
         error.status || HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
   @Post('quick-suggestion')
-  @ApiOperation({ 
-    summary: 'Obtenir une suggestion rapide lors de l\'ajout d\'un événement',
-    description: 'Analyse en temps réel pour détecter les conflits potentiels avant d\'ajouter un événement'
+  @ApiOperation({
+    summary: "Obtenir une suggestion rapide lors de l'ajout d'un événement",
+    description:
+      "Analyse en temps réel pour détecter les conflits potentiels avant d'ajouter un événement",
   })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiResponse({
+    status: 200,
     description: 'Suggestion générée avec succès',
   })
   @ApiResponse({ status: 401, description: 'Non authentifié' })
-  async getQuickSuggestion(
-    @Request() req,
-    @Body() body: QuickSuggestionDto,
-  ) {
+  async getQuickSuggestion(@Request() req, @Body() body: QuickSuggestionDto) {
     try {
       const userId = req.user?._id?.toString() || req.user?.id || req.user?.sub;
-      
+
       if (!userId) {
         throw new HttpException(
           'Utilisateur non authentifié',
@@ -192,9 +267,9 @@ export class AIRoutineController {
       const suggestion = await this.aiRoutineEnhancedService.getQuickSuggestion(
         userId,
         body.newEvent,
-        body.currentEvents || []
+        body.currentEvents || [],
       );
-      
+
       return {
         success: true,
         data: suggestion,
@@ -208,10 +283,89 @@ export class AIRoutineController {
     }
   }
 
+  @Get('history')
+  @ApiOperation({
+    summary: 'Lister les analyses de routine passées',
+    description:
+      'Analyses améliorées enregistrées, de la semaine la plus récente à la plus ancienne',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Historique des analyses' })
+  @ApiResponse({ status: 401, description: 'Non authentifié' })
+  async getHistory(
+    @CurrentUser() user: UserDocument,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+  ) {
+    const userId = user._id.toString();
+
+    const history = await this.routineHistoryService.findAll(
+      userId,
+      Math.max(page, 1),
+      Math.min(Math.max(limit, 1), 50),
+    );
+
+    return {
+      success: true,
+      data: history,
+    };
+  }
+
+  @Get('history/trends')
+  @ApiOperation({
+    summary: 'Évolution de la routine semaine après semaine',
+    description:
+      "Score d'équilibre, conflits, jours surchargés et heures par catégorie pour chaque semaine analysée, avec les écarts par rapport à la semaine précédente",
+  })
+  @ApiQuery({
+    name: 'weeks',
+    required: false,
+    type: Number,
+    description: 'Nombre de semaines (1-52, 8 par défaut)',
+  })
+  @ApiResponse({ status: 200, description: 'Tendances hebdomadaires' })
+  @ApiResponse({ status: 401, description: 'Non authentifié' })
+  async getTrends(
+    @CurrentUser() user: UserDocument,
+    @Query('weeks', new DefaultValuePipe(8), ParseIntPipe) weeks: number,
+  ) {
+    const userId = user._id.toString();
+
+    const trends = await this.routineHistoryService.getTrends(
+      userId,
+      Math.min(Math.max(weeks, 1), 52),
+    );
+
+    return {
+      success: true,
+      data: trends,
+    };
+  }
+
+  @Get('history/:id')
+  @ApiOperation({ summary: 'Récupérer une analyse de routine passée' })
+  @ApiResponse({ status: 200, description: 'Analyse trouvée' })
+  @ApiResponse({ status: 401, description: 'Non authentifié' })
+  @ApiResponse({ status: 404, description: 'Analyse non trouvée' })
+  async getHistoryEntry(
+    @CurrentUser() user: UserDocument,
+    @Param('id') id: string,
+  ) {
+    const userId = user._id.toString();
+
+    const analysis = await this.routineHistoryService.findOne(userId, id);
+
+    return {
+      success: true,
+      data: analysis,
+    };
+  }
+
   @Get('health')
-  @ApiOperation({ summary: 'Vérifier l\'état du service AI Routine' })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiOperation({ summary: "Vérifier l'état du service AI Routine" })
+  @ApiResponse({
+    status: 200,
     description: 'Service opérationnel',
   })
   async checkHealth() {
@@ -222,14 +376,13 @@ export class AIRoutineController {
       version: '2.0',
       timestamp: new Date().toISOString(),
       features: [
-        'Détection automatique des conflits d\'horaires',
+        "Détection automatique des conflits d'horaires",
         'Identification des jours surchargés',
         'Calcul des créneaux disponibles',
-        'Analyse de compatibilité avec offres d\'emploi',
+        "Analyse de compatibilité avec offres d'emploi",
         'Suggestions en temps réel',
         'Recommandations personnalisées IA',
       ],
     };
   }
 }
-
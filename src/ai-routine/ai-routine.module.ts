@@ -5,21 +5,33 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AIRoutineController } from './ai-routine.controller';
 import { AIRoutineService } from './ai-routine.service';
 import { AIRoutineEnhancedService } from './ai-routine-enhanced.service';
+import { RoutineHistoryService } from './routine-history.service';
 import { Offre, OffreSchema } from '../offre/schemas/offre.schema';
+import {
+  RoutineHistory,
+  RoutineHistorySchema,
+} from './schemas/routine-history.schema';
+import { EvenementModule } from '../evenement/evenement.module';
+import { DisponibiliteModule } from '../disponibilite/disponibilite.module';
+import { AiProviderModule } from '../ai-provider/ai-provider.module';
 import * as redisStore from 'cache-manager-redis-store';
 
 @Module({
   imports: [
     ConfigModule,
+    EvenementModule,
+    DisponibiliteModule,
+    AiProviderModule,
     MongooseModule.forFeature([
       { name: Offre.name, schema: OffreSchema },
+      { name: RoutineHistory.name, schema: RoutineHistorySchema },
     ]),
     CacheModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => {
         const redisHost = configService.get<string>('REDIS_HOST', 'localhost');
         const redisPort = configService.get<number>('REDIS_PORT', 6379);
-        
+
         return {
           store: redisStore,
           host: redisHost,
@@ -31,8 +43,11 @@ import * as redisStore from 'cache-manager-redis-store';
     }),
   ],
   controllers: [AIRoutineController],
-  providers: [AIRoutineService, AIRoutineEnhancedService],
-  exports: [AIRoutineService, AIRoutineEnhancedService],
+  providers: [
+    AIRoutineService,
+    AIRoutineEnhancedService,
+    RoutineHistoryService,
+  ],
+  exports: [AIRoutineService, AIRoutineEnhancedService, RoutineHistoryService],
 })
 export class AIRoutineModule {}
-
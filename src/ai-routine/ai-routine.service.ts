@@ -1,77 +1,31 @@
 import { Injectable, Inject, Logger } from '@nestjs/common';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
-import { ConfigService } from '@nestjs/config';
 import type { Cache } from 'cache-manager';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { createHash } from 'crypto';
 import { RoutineInputDataDto } from './dto/routine-input.dto';
+import { AiProviderService } from '../ai-provider/ai-provider.service';
 
 @Injectable()
 export class AIRoutineService {
   private readonly logger = new Logger(AIRoutineService.name);
-  private genAI: GoogleGenerativeAI | null = null;
-  private model: any = null;
 
   constructor(
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
-    private configService: ConfigService,
-  ) {
-    // Initialisation paresseuse de Gemini (lazy initialization)
-    // L'initialisation se fera lors du premier appel à analyzeRoutine
-  }
-
-  private initializeGemini(): void {
-    if (this.genAI && this.model) {
-      return; // Déjà initialisé
-    }
-
-    const apiKey = this.configService.get<string>('GEMINI_API_KEY');
-    if (!apiKey) {
-      this.logger.error('GEMINI_API_KEY non définie dans les variables d\'environnement');
-      this.logger.error('Vérifiez que le fichier .env (ou .env.production) existe et contient GEMINI_API_KEY');
-      throw new Error('GEMINI_API_KEY est requise. Veuillez l\'ajouter dans votre fichier .env ou .env.production');
-    }
-
-    // Vérifier si c'est encore le placeholder
-    if (apiKey === 'votre_cle_api_ici' || apiKey.includes('XXXXXXXXXXXXXXXX')) {
-      this.logger.error('GEMINI_API_KEY contient encore le placeholder');
-      this.logger.error('Remplacez "votre_cle_api_ici" par votre vraie clé API Gemini');
-      this.logger.error('Obtenez votre clé sur: https://makersuite.google.com/app/apikey');
-      throw new Error('GEMINI_API_KEY doit être remplacée par votre vraie clé API. Obtenez-la sur https://makersuite.google.com/app/apikey');
-    }
-
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    
-    // Liste des modèles à essayer dans l'ordre de préférence
-    // Utiliser les versions "-latest" qui sont plus stables
-    const modelsToTry = [
-      'gemini-1.5-flash-latest',
-      'gemini-1.5-pro-latest',
-      'gemini-pro',
-      'gemini-1.5-flash',
-      'gemini-1.5-pro'
-    ];
-    let modelName = modelsToTry[0];
-    
-    this.model = this.genAI.getGenerativeModel({ 
-      model: modelName,
-      generationConfig: {
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 2048,
-      },
-    });
-
-    this.logger.log(`✅ Google Gemini ${modelName} initialisé avec succès`);
-  }
+    private readonly aiProviderService: AiProviderService,
+  ) {}
 
   async analyzeRoutine(
     userId: string,
     data: RoutineInputDataDto,
   ): Promise<any> {
-    // Initialiser Gemini si ce n'est pas déjà fait
-    this.initializeGemini();
+    if (!this.aiProviderService.isTextEnabled()) {
+      this.logger.error(
+        'Aucun fournisseur IA configuré (AI_TEXT_PROVIDER ou GEMINI_API_KEY)',
+      );
+      throw new Error(
+        'Un fournisseur IA est requis. Définissez AI_TEXT_PROVIDER ou GEMINI_API_KEY dans votre fichier .env',
+      );
+    }
 
     // 1. Générer un hash des données pour le cache
     const dataHash = this.generateDataHash(data);
@@ -85,10 +39,12 @@ export class AIRoutineService {
         return cached;
       }
     } catch (error) {
-      this.logger.warn('Erreur lors de la lecture du cache, continuation sans cache');
+      this.logger.warn(
+        'Erreur lors de la lecture du cache, continuation sans cache',
+      );
     }
 
-    this.logger.log(`❌ Cache miss pour utilisateur ${userId}, appel Gemini...`);
+    this.logger.log(`❌ Cache miss pour utilisateur ${userId}, appel IA...`);
 
     // 3. Calculer les statistiques
     const stats = this.calculateStats(data);
@@ -97,68 +53,13 @@ export class AIRoutineService {
     const prompt = this.createPrompt(data, stats);
 
     try {
-      // 5. Appeler Gemini avec fallback sur d'autres modèles si nécessaire
-      let result;
-      let response;
-      let text;
-      
-      try {
-        result = await this.model.generateContent(prompt);
-        response = await result.response;
-        text = response.text();
-      } catch (modelError: any) {
-        // Si erreur 404 (modèle non trouvé), essayer d'autres modèles
-        if (modelError.status === 404 || modelError.message?.includes('404') || modelError.message?.includes('not found')) {
-          this.logger.warn('Modèle initial non disponible, tentative avec d\'autres modèles...');
-          
-          if (!this.genAI) {
-            throw new Error('GoogleGenerativeAI n\'est pas initialisé');
-          }
-          
-          const modelsToTry = [
-            'gemini-1.5-flash-latest',
-            'gemini-1.5-pro-latest',
-            'gemini-pro',
-            'gemini-1.5-flash',
-            'gemini-1.5-pro'
-          ];
-          let success = false;
-          
-          for (const modelName of modelsToTry) {
-            try {
-              this.logger.log(`Tentative avec le modèle: ${modelName}`);
-              const fallbackModel = this.genAI.getGenerativeModel({ 
-                model: modelName,
-                generationConfig: {
-                  temperature: 0.7,
-                  topK: 40,
-                  topP: 0.95,
-                  maxOutputTokens: 2048,
-                },
-              });
-              
-              result = await fallbackModel.generateContent(prompt);
-              response = await result.response;
-              text = response.text();
-              
-              // Mettre à jour le modèle pour les prochaines utilisations
-              this.model = fallbackModel;
-              this.logger.log(`✅ Modèle ${modelName} fonctionne, utilisation de ce modèle`);
-              success = true;
-              break;
-            } catch (fallbackError) {
-              this.logger.warn(`Modèle ${modelName} non disponible: ${fallbackError.message}`);
-              continue;
-            }
-          }
-          
-          if (!success) {
-            throw new Error('Aucun modèle Gemini disponible. Vérifiez votre clé API et les modèles accessibles.');
-          }
-        } else {
-          throw modelError;
-        }
-      }
+      // 5. Appeler le fournisseur IA (timeout, nouvelles tentatives et modèles de secours inclus)
+      const { text } = await this.aiProviderService.generateText({
+        feature: 'ai-routine',
+        prompt,
+        maxTokens: 2048,
+        temperature: 0.7,
+      });
 
       // 6. Parser la réponse JSON
       let aiResponse;
@@ -172,8 +73,8 @@ export class AIRoutineService {
         }
       } catch (parseError) {
         this.logger.error('Erreur lors du parsing JSON:', parseError);
-        this.logger.error('Réponse Gemini:', text);
-        throw new Error('Erreur lors du parsing de la réponse Gemini');
+        this.logger.error('Réponse IA:', text);
+        throw new Error('Erreur lors du parsing de la réponse IA');
       }
 
       // 7. Convertir en format RoutineBalance
@@ -183,14 +84,17 @@ export class AIRoutineService {
       try {
         await this.cacheManager.set(cacheKey, routineBalance, 3600);
       } catch (cacheError) {
-        this.logger.warn('Erreur lors de la mise en cache, continuation sans cache');
+        this.logger.warn(
+          'Erreur lors de la mise en cache, continuation sans cache',
+        );
       }
 
-      this.logger.log(`✅ Analyse terminée pour utilisateur ${userId}, score: ${routineBalance.scoreEquilibre}`);
+      this.logger.log(
+        `✅ Analyse terminée pour utilisateur ${userId}, score: ${routineBalance.scoreEquilibre}`,
+      );
       return routineBalance;
-
     } catch (error) {
-      this.logger.error('Erreur lors de l\'appel Gemini:', error);
+      this.logger.error("Erreur lors de l'appel IA:", error);
       throw new Error(`Erreur lors de l'analyse IA: ${error.message}`);
     }
   }
@@ -198,7 +102,7 @@ export class AIRoutineService {
   private generateDataHash(data: RoutineInputDataDto): string {
     // Créer un hash des données pour identifier les analyses identiques
     const dataString = JSON.stringify({
-      evenements: data.evenements.map(e => ({
+      evenements: data.evenements.map((e) => ({
         date: e.date,
         type: e.type,
         heureDebut: e.heureDebut,
@@ -209,7 +113,7 @@ export class AIRoutineService {
       dateDebut: data.dateDebut,
       dateFin: data.dateFin,
     });
-    
+
     return createHash('sha256')
       .update(dataString)
       .digest('hex')
@@ -220,8 +124,8 @@ export class AIRoutineService {
     // Filtrer les événements dans la plage de dates
     const dateDebut = new Date(data.dateDebut);
     const dateFin = new Date(data.dateFin);
-    
-    const evenementsFiltres = data.evenements.filter(evenement => {
+
+    const evenementsFiltres = data.evenements.filter((evenement) => {
       const eventDate = new Date(evenement.date);
       return eventDate >= dateDebut && eventDate <= dateFin;
     });
@@ -233,7 +137,7 @@ export class AIRoutineService {
     for (const evenement of evenementsFiltres) {
       const duree = this.calculerDureeHeures(
         evenement.heureDebut,
-        evenement.heureFin
+        evenement.heureFin,
       );
 
       switch (evenement.type.toLowerCase()) {
@@ -253,12 +157,12 @@ export class AIRoutineService {
     }
 
     const heuresTotales = heuresTravail + heuresEtudes + heuresActivites;
-    
+
     // Calculer le nombre de jours dans la période (inclusif)
     const diffTime = dateFin.getTime() - dateDebut.getTime();
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1; // +1 pour inclure le jour de fin
     const nombreJours = Math.max(1, diffDays); // Au moins 1 jour
-    
+
     // Calculer les heures disponibles pour cette période (16h par jour)
     const heuresDisponibles = 16.0 * nombreJours;
     const heuresRepos = Math.max(0, heuresDisponibles - heuresTotales);
@@ -280,10 +184,10 @@ export class AIRoutineService {
   private calculerDureeHeures(heureDebut: string, heureFin: string): number {
     const [h1, m1] = heureDebut.split(':').map(Number);
     const [h2, m2] = heureFin.split(':').map(Number);
-    
+
     const debutMinutes = h1 * 60 + m1;
     const finMinutes = h2 * 60 + m2;
-    
+
     const dureeMinutes = finMinutes - debutMinutes;
     return Math.max(0, dureeMinutes / 60.0);
   }
@@ -291,23 +195,28 @@ export class AIRoutineService {
   private createPrompt(data: RoutineInputDataDto, stats: any): string {
     // Analyser les événements par jour pour identifier les patterns
     const evenementsParJour: { [key: string]: any[] } = {};
-    const heuresParJour: { [key: string]: { travail: number; etudes: number; activites: number } } = {};
-    
-    data.evenements.forEach(evenement => {
+    const heuresParJour: {
+      [key: string]: { travail: number; etudes: number; activites: number };
+    } = {};
+
+    data.evenements.forEach((evenement) => {
       const date = new Date(evenement.date);
       const jourSemaine = date.toLocaleDateString('fr-FR', { weekday: 'long' });
       const dateStr = `${jourSemaine} ${evenement.date}`;
-      
+
       if (!evenementsParJour[dateStr]) {
         evenementsParJour[dateStr] = [];
         heuresParJour[dateStr] = { travail: 0, etudes: 0, activites: 0 };
       }
-      
+
       evenementsParJour[dateStr].push(evenement);
-      
-      const duree = this.calculerDureeHeures(evenement.heureDebut, evenement.heureFin);
+
+      const duree = this.calculerDureeHeures(
+        evenement.heureDebut,
+        evenement.heureFin,
+      );
       const type = evenement.type.toLowerCase();
-      
+
       if (type === 'job') {
         heuresParJour[dateStr].travail += duree;
       } else if (type === 'cours') {
@@ -320,37 +229,52 @@ export class AIRoutineService {
     // Construire le texte des événements avec analyse par jour
     let evenementsText = '';
     if (data.evenements.length > 0) {
-      evenementsText = Object.keys(evenementsParJour).map(dateStr => {
-        const evenements = evenementsParJour[dateStr];
-        const heures = heuresParJour[dateStr];
-        const totalHeures = heures.travail + heures.etudes + heures.activites;
-        
-        const evenementsList = evenements.map(e => 
-          `  • ${e.titre} (${e.type}) : ${e.heureDebut} - ${e.heureFin}${e.lieu ? ` @ ${e.lieu}` : ''}`
-        ).join('\n');
-        
-        return `${dateStr} (${totalHeures.toFixed(1)}h total : ${heures.travail.toFixed(1)}h travail, ${heures.etudes.toFixed(1)}h études, ${heures.activites.toFixed(1)}h activités) :\n${evenementsList}`;
-      }).join('\n\n');
+      evenementsText = Object.keys(evenementsParJour)
+        .map((dateStr) => {
+          const evenements = evenementsParJour[dateStr];
+          const heures = heuresParJour[dateStr];
+          const totalHeures = heures.travail + heures.etudes + heures.activites;
+
+          const evenementsList = evenements
+            .map(
+              (e) =>
+                `  • ${e.titre} (${e.type}) : ${e.heureDebut} - ${e.heureFin}${e.lieu ? ` @ ${e.lieu}` : ''}`,
+            )
+            .join('\n');
+
+          return `${dateStr} (${totalHeures.toFixed(1)}h total : ${heures.travail.toFixed(1)}h travail, ${heures.etudes.toFixed(1)}h études, ${heures.activites.toFixed(1)}h activités) :\n${evenementsList}`;
+        })
+        .join('\n\n');
     } else {
       evenementsText = 'Aucun événement';
     }
 
     // Identifier les jours surchargés
     const joursSurcharges = Object.keys(heuresParJour)
-      .filter(dateStr => {
-        const total = heuresParJour[dateStr].travail + heuresParJour[dateStr].etudes + heuresParJour[dateStr].activites;
+      .filter((dateStr) => {
+        const total =
+          heuresParJour[dateStr].travail +
+          heuresParJour[dateStr].etudes +
+          heuresParJour[dateStr].activites;
         return total > 10; // Plus de 10h d'activités = surchargé
       })
-      .map(dateStr => {
-        const total = heuresParJour[dateStr].travail + heuresParJour[dateStr].etudes + heuresParJour[dateStr].activites;
+      .map((dateStr) => {
+        const total =
+          heuresParJour[dateStr].travail +
+          heuresParJour[dateStr].etudes +
+          heuresParJour[dateStr].activites;
         return `${dateStr} (${total.toFixed(1)}h)`;
       });
 
-    const disponibilitesText = data.disponibilites.length > 0
-      ? data.disponibilites.map(d => 
-          `- ${d.jour} : ${d.heureDebut}${d.heureFin ? ` - ${d.heureFin}` : ' (toute la journée)'}`
-        ).join('\n')
-      : 'Aucune disponibilité définie';
+    const disponibilitesText =
+      data.disponibilites.length > 0
+        ? data.disponibilites
+            .map(
+              (d) =>
+                `- ${d.jour} : ${d.heureDebut}${d.heureFin ? ` - ${d.heureFin}` : ' (toute la journée)'}`,
+            )
+            .join('\n')
+        : 'Aucune disponibilité définie';
 
     return `Tu es un assistant IA expert en équilibre vie-études-travail pour les étudiants tunisiens.
 
@@ -368,14 +292,20 @@ STATISTIQUES GLOBALES DE LA PÉRIODE :
 
 ${evenementsText}
 
-${joursSurcharges.length > 0 ? `⚠️ JOURS SURCHARGÉS DÉTECTÉS (>10h d'activités) :
-${joursSurcharges.map(j => `- ${j}`).join('\n')}
+${
+  joursSurcharges.length > 0
+    ? `⚠️ JOURS SURCHARGÉS DÉTECTÉS (>10h d'activités) :
+${joursSurcharges.map((j) => `- ${j}`).join('\n')}
 
-` : ''}DISPONIBILITÉS :
+`
+    : ''
+}DISPONIBILITÉS :
 
 ${disponibilitesText}
 
-${data.preferences ? `PRÉFÉRENCES UTILISATEUR :
+${
+  data.preferences
+    ? `PRÉFÉRENCES UTILISATEUR :
 
 - Niveau d'étude : ${data.preferences.educationLevel || 'Non spécifié'}
 
@@ -383,7 +313,9 @@ ${data.preferences ? `PRÉFÉRENCES UTILISATEUR :
 
 - Motivation : ${data.preferences.mainMotivation || 'Non spécifiée'}
 
-` : ''}
+`
+    : ''
+}
 
 Génère une analyse complète et approfondie en JSON avec ce format EXACT (réponds UNIQUEMENT en JSON, sans texte avant ou après) :
 
@@ -467,7 +399,10 @@ EXEMPLE DE RECOMMANDATIONS VARIÉES À GÉNÉRER :
     return {
       id: generateId(),
       dateAnalyse: new Date().toISOString(),
-      scoreEquilibre: Math.max(0, Math.min(100, aiResponse.scoreEquilibre || 50)),
+      scoreEquilibre: Math.max(
+        0,
+        Math.min(100, aiResponse.scoreEquilibre || 50),
+      ),
       recommandations: (aiResponse.recommandations || []).map((r: any) => ({
         id: generateId(),
         type: r.type || 'optimisation',
@@ -489,15 +424,16 @@ EXEMPLE DE RECOMMANDATIONS VARIÉES À GÉNÉRER :
           pourcentageActivites: stats.pourcentageActivites,
         },
       },
-      suggestionsOptimisation: (aiResponse.suggestionsOptimisation || []).map((s: any) => ({
-        id: generateId(),
-        jour: s.jour || 'Cette semaine',
-        type: s.type || 'optimisation',
-        description: s.description || '',
-        avantage: s.avantage || '',
-        impact: s.impact || 'neutre',
-      })),
+      suggestionsOptimisation: (aiResponse.suggestionsOptimisation || []).map(
+        (s: any) => ({
+          id: generateId(),
+          jour: s.jour || 'Cette semaine',
+          type: s.type || 'optimisation',
+          description: s.description || '',
+          avantage: s.avantage || '',
+          impact: s.impact || 'neutre',
+        }),
+      ),
     };
   }
 }
-
@@ -1,24 +1,34 @@
-import { IsArray, IsString, IsOptional, IsDateString, ValidateNested, IsNotEmpty } from 'class-validator';
+import {
+  IsArray,
+  IsString,
+  IsOptional,
+  IsDateString,
+  ValidateNested,
+  IsNotEmpty,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class EvenementDto {
-  @ApiProperty({ description: 'ID de l\'événement', example: '507f1f77bcf86cd799439011' })
+  @ApiProperty({
+    description: "ID de l'événement",
+    example: '507f1f77bcf86cd799439011',
+  })
   @IsString()
   @IsNotEmpty()
   id: string;
 
-  @ApiProperty({ description: 'Titre de l\'événement', example: 'Cours Math' })
+  @ApiProperty({ description: "Titre de l'événement", example: 'Cours Math' })
   @IsString()
   @IsNotEmpty()
   titre: string;
 
-  @ApiProperty({ description: 'Type d\'événement', example: 'cours' })
+  @ApiProperty({ description: "Type d'événement", example: 'cours' })
   @IsString()
   @IsNotEmpty()
   type: string;
 
-  @ApiProperty({ description: 'Date de l\'événement', example: '2024-01-15' })
+  @ApiProperty({ description: "Date de l'événement", example: '2024-01-15' })
   @IsDateString()
   @IsNotEmpty()
   date: string;
@@ -49,7 +59,10 @@ export class EvenementDto {
 }
 
 export class DisponibiliteDto {
-  @ApiProperty({ description: 'ID de la disponibilité', example: '507f1f77bcf86cd799439011' })
+  @ApiProperty({
+    description: 'ID de la disponibilité',
+    example: '507f1f77bcf86cd799439011',
+  })
   @IsString()
   @IsNotEmpty()
   id: string;
@@ -64,43 +77,75 @@ export class DisponibiliteDto {
   @IsNotEmpty()
   heureDebut: string;
 
-  @ApiProperty({ description: 'Heure de fin', example: '17:00', required: false })
+  @ApiProperty({
+    description: 'Heure de fin',
+    example: '17:00',
+    required: false,
+  })
   @IsOptional()
   @IsString()
   heureFin?: string;
 }
 
 export class UserPreferencesDto {
-  @ApiProperty({ description: 'Niveau d\'éducation', example: 'Licence 1', required: false })
+  @ApiProperty({
+    description: "Niveau d'éducation",
+    example: 'Licence 1',
+    required: false,
+  })
   @IsOptional()
   @IsString()
   educationLevel?: string;
 
-  @ApiProperty({ description: 'Domaine d\'étude', example: 'Informatique', required: false })
+  @ApiProperty({
+    description: "Domaine d'étude",
+    example: 'Informatique',
+    required: false,
+  })
   @IsOptional()
   @IsString()
   studyField?: string;
 
-  @ApiProperty({ description: 'Types de recherche', example: ['job', 'cours'], required: false })
+  @ApiProperty({
+    description: 'Types de recherche',
+    example: ['job', 'cours'],
+    required: false,
+  })
   @IsOptional()
   @IsArray()
   searchTypes?: string[];
 
-  @ApiProperty({ description: 'Motivation principale', example: 'Expérience', required: false })
+  @ApiProperty({
+    description: 'Motivation principale',
+    example: 'Expérience',
+    required: false,
+  })
   @IsOptional()
   @IsString()
   mainMotivation?: string;
 
-  @ApiProperty({ description: 'Compétences douces', example: ['Communication', 'Organisation'], required: false })
+  @ApiProperty({
+    description: 'Compétences douces',
+    example: ['Communication', 'Organisation'],
+    required: false,
+  })
   @IsOptional()
   @IsArray()
   softSkills?: string[];
 
-  @ApiProperty({ description: 'Niveaux de langue', example: [], required: false })
+  @ApiProperty({
+    description: 'Niveaux de langue',
+    example: [],
+    required: false,
+  })
   @IsOptional()
   languageLevels?: any[];
 
-  @ApiProperty({ description: 'Centres d\'intérêt', example: ['Sport', 'Musique'], required: false })
+  @ApiProperty({
+    description: "Centres d'intérêt",
+    example: ['Sport', 'Musique'],
+    required: false,
+  })
   @IsOptional()
   @IsArray()
   interests?: string[];
@@ -113,26 +158,70 @@ export class RoutineInputDataDto {
   @Type(() => EvenementDto)
   evenements: EvenementDto[];
 
-  @ApiProperty({ description: 'Liste des disponibilités', type: [DisponibiliteDto] })
+  @ApiProperty({
+    description: 'Liste des disponibilités',
+    type: [DisponibiliteDto],
+  })
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => DisponibiliteDto)
   disponibilites: DisponibiliteDto[];
 
-  @ApiProperty({ description: 'Préférences utilisateur', type: UserPreferencesDto, required: false })
+  @ApiProperty({
+    description: 'Préférences utilisateur',
+    type: UserPreferencesDto,
+    required: false,
+  })
   @IsOptional()
   @ValidateNested()
   @Type(() => UserPreferencesDto)
   preferences?: UserPreferencesDto;
 
-  @ApiProperty({ description: 'Date de début de la période', example: '2024-01-15' })
+  @ApiProperty({
+    description: 'Date de début de la période',
+    example: '2024-01-15',
+  })
   @IsDateString()
   @IsNotEmpty()
   dateDebut: string;
 
-  @ApiProperty({ description: 'Date de fin de la période', example: '2024-01-22' })
+  @ApiProperty({
+    description: 'Date de fin de la période',
+    example: '2024-01-22',
+  })
   @IsDateString()
   @IsNotEmpty()
   dateFin: string;
 }
 
+export class StoredRoutineAnalysisDto {
+  @ApiProperty({
+    description:
+      'Date de début de la période (lundi de la semaine en cours par défaut)',
+    example: '2024-01-15',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  dateDebut?: string;
+
+  @ApiProperty({
+    description:
+      'Date de fin de la période, incluse (6 jours après le début par défaut)',
+    example: '2024-01-21',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  dateFin?: string;
+
+  @ApiProperty({
+    description: 'Préférences utilisateur',
+    type: UserPreferencesDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UserPreferencesDto)
+  preferences?: UserPreferencesDto;
+}
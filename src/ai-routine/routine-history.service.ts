@@ -0,0 +1,241 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  RoutineHistory,
+  RoutineHistoryDocument,
+} from './schemas/routine-history.schema';
+import { RoutineInputDataDto } from './dto/routine-input.dto';
+import { EnhancedRoutineAnalysisDto } from './dto/routine-response.dto';
+
+type HoursCategory =
+  | 'heuresTravail'
+  | 'heuresEtudes'
+  | 'heuresRepos'
+  | 'heuresActivites'
+  | 'heuresTotales';
+
+const HOURS_CATEGORIES: HoursCategory[] = [
+  'heuresTravail',
+  'heuresEtudes',
+  'heuresRepos',
+  'heuresActivites',
+  'heuresTotales',
+];
+
+export interface RoutineHistoryPage {
+  items: RoutineHistoryDocument[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface RoutineWeekTrend {
+  weekStart: Date;
+  weekEnd: Date;
+  analysisId: string;
+  scoreEquilibre: number;
+  conflictCount: number;
+  overloadedDaysCount: number;
+  heures: Record<HoursCategory, number>;
+  // Écart avec la semaine analysée précédente, null pour la première
+  deltas: {
+    scoreEquilibre: number;
+    conflictCount: number;
+    overloadedDaysCount: number;
+    heures: Record<HoursCategory, number>;
+  } | null;
+}
+
+export interface RoutineTrends {
+  weeks: RoutineWeekTrend[];
+  averageScore: number | null;
+  // Différence de score entre la première et la dernière semaine
+  scoreEvolution: number | null;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Lundi de la semaine ISO, à minuit UTC comme les dates des analyses
+function isoMonday(date: Date): Date {
+  const monday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  // getUTCDay: 0 = dimanche
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday;
+}
+
+@Injectable()
+export class RoutineHistoryService {
+  constructor(
+    @InjectModel(RoutineHistory.name)
+    private historyModel: Model<RoutineHistoryDocument>,
+  ) {}
+
+  /**
+   * Enregistre le résultat d'une analyse améliorée pour la période analysée,
+   * rattachée à la semaine ISO de son premier jour.
+   */
+  async record(
+    userId: string,
+    data: RoutineInputDataDto,
+    analysis: EnhancedRoutineAnalysisDto,
+  ): Promise<RoutineHistoryDocument> {
+    const stats = analysis.analyseHebdomadaire;
+
+    return this.historyModel.create({
+      userId: new Types.ObjectId(userId),
+      weekStart: isoMonday(new Date(data.dateDebut)),
+      weekEnd: new Date(data.dateFin),
+      scoreEquilibre: analysis.scoreEquilibre,
+      scoreBreakdown: analysis.scoreBreakdown,
+      statistics: {
+        heuresTravail: stats.heuresTravail,
+        heuresEtudes: stats.heuresEtudes,
+        heuresRepos: stats.heuresRepos,
+        heuresActivites: stats.heuresActivites,
+        heuresTotales: stats.heuresTotales,
+        repartition: stats.repartition,
+      },
+      conflictCount: analysis.conflicts.length,
+      overloadedDaysCount: analysis.overloadedDays.length,
+      availableHours: round(
+        analysis.availableTimeSlots.reduce(
+          (sum, slot) => sum + (slot.duration || 0),
+          0,
+        ),
+      ),
+      recommandations: analysis.recommandations,
+      suggestionsOptimisation: analysis.suggestionsOptimisation,
+      healthStatus: analysis.healthSummary.status,
+      mainIssues: analysis.healthSummary.mainIssues,
+      mainStrengths: analysis.healthSummary.mainStrengths,
+    });
+  }
+
+  async findAll(
+    userId: string,
+    page = 1,
+    limit = 10,
+  ): Promise<RoutineHistoryPage> {
+    const filter = { userId: new Types.ObjectId(userId) };
+    const [items, total] = await Promise.all([
+      this.historyModel
+        .find(filter)
+        .select('-recommandations -suggestionsOptimisation')
+        .sort({ weekStart: -1, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.historyModel.countDocuments(filter).exec(),
+    ]);
+
+    return { items, total, page, limit };
+  }
+
+  async findOne(userId: string, id: string): Promise<RoutineHistoryDocument> {
+    const history = Types.ObjectId.isValid(id)
+      ? await this.historyModel
+          .findOne({ _id: id, userId: new Types.ObjectId(userId) })
+          .exec()
+      : null;
+    if (!history) {
+      throw new NotFoundException('Analyse non trouvée');
+    }
+    return history;
+  }
+
+  /**
+   * Évolution semaine par semaine. Quand une semaine a été analysée
+   * plusieurs fois, seule la dernière analyse compte. Les analyses plus
+   * anciennes, enregistrées avec leur date de début, sont ramenées au lundi.
+   */
+  async getTrends(userId: string, weeks = 8): Promise<RoutineTrends> {
+    const latestPerWeek = await this.historyModel
+      .aggregate<RoutineHistory & { _id: Types.ObjectId }>([
+        { $match: { userId: new Types.ObjectId(userId) } },
+        {
+          $set: {
+            weekStart: {
+              $dateTrunc: {
+                date: '$weekStart',
+                unit: 'week',
+                startOfWeek: 'monday',
+              },
+            },
+          },
+        },
+        { $sort: { weekStart: -1, createdAt: -1 } },
+        { $group: { _id: '$weekStart', doc: { $first: '$$ROOT' } } },
+        { $replaceRoot: { newRoot: '$doc' } },
+        { $sort: { weekStart: -1 } },
+        { $limit: weeks },
+        {
+          $project: {
+            weekStart: 1,
+            weekEnd: 1,
+            scoreEquilibre: 1,
+            conflictCount: 1,
+            overloadedDaysCount: 1,
+            statistics: 1,
+          },
+        },
+      ])
+      .exec();
+
+    const chronological = latestPerWeek.reverse();
+    const trends = chronological.map((entry, index): RoutineWeekTrend => {
+      const heures = this.hoursOf(entry);
+      const previous = chronological[index - 1];
+      const previousHeures = previous && this.hoursOf(previous);
+
+      return {
+        weekStart: entry.weekStart,
+        weekEnd: entry.weekEnd,
+        analysisId: entry._id.toString(),
+        scoreEquilibre: entry.scoreEquilibre,
+        conflictCount: entry.conflictCount,
+        overloadedDaysCount: entry.overloadedDaysCount,
+        heures,
+        deltas: previous
+          ? {
+              scoreEquilibre: entry.scoreEquilibre - previous.scoreEquilibre,
+              conflictCount: entry.conflictCount - previous.conflictCount,
+              overloadedDaysCount:
+                entry.overloadedDaysCount - previous.overloadedDaysCount,
+              heures: Object.fromEntries(
+                HOURS_CATEGORIES.map((category) => [
+                  category,
+                  round(heures[category] - previousHeures[category]),
+                ]),
+              ) as Record<HoursCategory, number>,
+            }
+          : null,
+      };
+    });
+
+    const first = trends[0];
+    const last = trends[trends.length - 1];
+    return {
+      weeks: trends,
+      averageScore: trends.length
+        ? round(
+            trends.reduce((sum, week) => sum + week.scoreEquilibre, 0) /
+              trends.length,
+          )
+        : null,
+      scoreEvolution:
+        trends.length > 1 ? last.scoreEquilibre - first.scoreEquilibre : null,
+    };
+  }
+
+  private hoursOf(entry: RoutineHistory): Record<HoursCategory, number> {
+    return Object.fromEntries(
+      HOURS_CATEGORIES.map((category) => [
+        category,
+        entry.statistics?.[category] ?? 0,
+      ]),
+    ) as Record<HoursCategory, number>;
+  }
+}
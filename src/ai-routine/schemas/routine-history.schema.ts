@@ -6,11 +6,11 @@ export type RoutineHistoryDocument = HydratedDocument<RoutineHistory>;
 
 @Schema({ timestamps: true, versionKey: false })
 export class RoutineHistory {
-  @ApiProperty({ description: 'ID de l\'utilisateur' })
+  @ApiProperty({ description: "ID de l'utilisateur" })
   @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
   userId: Types.ObjectId;
 
-  @ApiProperty({ description: 'Date de début de la semaine analysée' })
+  @ApiProperty({ description: 'Lundi de la semaine analysée (semaine ISO)' })
   @Prop({ required: true, type: Date })
   weekStart: Date;
 
@@ -18,7 +18,7 @@ export class RoutineHistory {
   @Prop({ required: true, type: Date })
   weekEnd: Date;
 
-  @ApiProperty({ description: 'Score d\'équilibre (0-100)' })
+  @ApiProperty({ description: "Score d'équilibre (0-100)" })
   @Prop({ required: true, min: 0, max: 100 })
   scoreEquilibre: number;
 
@@ -65,15 +65,15 @@ export class RoutineHistory {
   @Prop({ type: [Object] })
   recommandations: any[];
 
-  @ApiProperty({ description: 'Suggestions d\'optimisation' })
+  @ApiProperty({ description: "Suggestions d'optimisation" })
   @Prop({ type: [Object] })
   suggestionsOptimisation: any[];
 
   @ApiProperty({ description: 'Statut de santé de la routine' })
-  @Prop({ 
-    type: String, 
+  @Prop({
+    type: String,
     enum: ['excellent', 'bon', 'moyen', 'faible', 'critique'],
-    default: 'moyen' 
+    default: 'moyen',
   })
   healthStatus: string;
 
@@ -92,10 +92,10 @@ export class RoutineHistory {
   updatedAt: Date;
 }
 
-export const RoutineHistorySchema = SchemaFactory.createForClass(RoutineHistory);
+export const RoutineHistorySchema =
+  SchemaFactory.createForClass(RoutineHistory);
 
 // Index pour optimiser les requêtes
 RoutineHistorySchema.index({ userId: 1, weekStart: -1 });
 RoutineHistorySchema.index({ userId: 1, scoreEquilibre: -1 });
 RoutineHistorySchema.index({ createdAt: -1 });
-
@@ -17,6 +17,12 @@ import { CvAiModule } from './cv_ai/cv_ai.module';
 import { AIRoutineModule } from './ai-routine/ai-routine.module';
 import { ScheduleModule } from './schedule/schedule.module';
 import { AiMatchingModule } from './ai-matching/ai-matching.module';
+import { ApplicationModule } from './application/application.module';
+import { NotificationModule } from './notification/notification.module';
+import { CompanyModule } from './company/company.module';
+import { JobsModule } from './jobs/jobs.module';
+import { SavedSearchModule } from './saved-search/saved-search.module';
+import { GoogleCalendarModule } from './google-calendar/google-calendar.module';
 @Module({
   imports: [
     ConfigModule.forRoot({
@@ -44,8 +50,14 @@ import { AiMatchingModule } from './ai-matching/ai-matching.module';
     AIRoutineModule,
     ScheduleModule,
     AiMatchingModule,
+    ApplicationModule,
+    NotificationModule,
+    CompanyModule,
+    JobsModule,
+    SavedSearchModule,
+    GoogleCalendarModule,
   ],
   controllers: [AppController],
   providers: [AppService],
 })
-export class AppModule {}
\ No newline at end of file
+export class AppModule {}
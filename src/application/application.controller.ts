@@ -0,0 +1,167 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApplicationService } from './application.service';
+import { CreateApplicationDto } from './dto/create-application.dto';
+import { UpdateApplicationStatusDto } from './dto/update-application-status.dto';
+import { ApplicationStatus } from './schemas/application.schema';
+import { CandidateRankingResponseDto } from '../ai-matching/dto/candidate-ranking-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
+
+@ApiTags('applications')
+@Controller('applications')
+export class ApplicationController {
+  constructor(private readonly applicationService: ApplicationService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Apply to an offer' })
+  @ApiResponse({
+    status: 201,
+    description: 'Application submitted and chat opened',
+  })
+  @ApiResponse({ status: 409, description: 'Already applied to this offer' })
+  async apply(
+    @Body() createApplicationDto: CreateApplicationDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.applicationService.apply(createApplicationDto, userId);
+  }
+
+  @Get('my-applications')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get applications of the current candidate' })
+  @ApiQuery({ name: 'status', enum: ApplicationStatus, required: false })
+  @ApiResponse({ status: 200, description: 'Returns candidate applications' })
+  async findMyApplications(
+    @CurrentUser() user: UserDocument,
+    @Query('status') status?: ApplicationStatus,
+  ) {
+    const userId = user._id.toString();
+    return this.applicationService.findMyApplications(userId, status);
+  }
+
+  @Get('offer/:offerId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get applicants of an offer (offer owner only)' })
+  @ApiQuery({ name: 'status', enum: ApplicationStatus, required: false })
+  @ApiResponse({ status: 200, description: 'Returns applicants of the offer' })
+  @ApiResponse({ status: 403, description: 'Not the owner of the offer' })
+  async findByOffer(
+    @Param('offerId') offerId: string,
+    @CurrentUser() user: UserDocument,
+    @Query('status') status?: ApplicationStatus,
+  ) {
+    const userId = user._id.toString();
+    return this.applicationService.findByOffer(offerId, userId, status);
+  }
+
+  @Get('offer/:offerId/pipeline')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Count applicants per status for an offer (offer owner only)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the number of applications per status',
+  })
+  async getOfferPipeline(
+    @Param('offerId') offerId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.applicationService.getOfferPipeline(offerId, userId);
+  }
+
+  @Get('offer/:offerId/ranking')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Rank candidates for an offer (offer owner only)',
+    description:
+      'Scores applicants on availability over the offer hours, CV skills, profile, languages and trust XP. Withdrawn and rejected applications are left out',
+  })
+  @ApiQuery({
+    name: 'includeOpenToWork',
+    required: false,
+    type: Boolean,
+    description: 'Also rank students who are open to work and did not apply',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Candidates ranked with a score breakdown',
+    type: CandidateRankingResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Not the owner of the offer' })
+  @ApiResponse({ status: 404, description: 'Offer not found' })
+  async rankCandidates(
+    @Param('offerId') offerId: string,
+    @CurrentUser() user: UserDocument,
+    @Query('includeOpenToWork') includeOpenToWork?: string,
+  ) {
+    const userId = user._id.toString();
+    return this.applicationService.rankCandidates(
+      offerId,
+      userId,
+      includeOpenToWork === 'true',
+    );
+  }
+
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get an application with its status history' })
+  @ApiResponse({ status: 200, description: 'Returns the application' })
+  async findOne(@Param('id') id: string, @CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.applicationService.findOne(id, userId);
+  }
+
+  @Patch(':id/status')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Move an application to a new status (offer owner only)',
+  })
+  @ApiResponse({ status: 200, description: 'Status updated' })
+  @ApiResponse({ status: 400, description: 'Transition not allowed' })
+  async updateStatus(
+    @Param('id') id: string,
+    @Body() updateStatusDto: UpdateApplicationStatusDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.applicationService.updateStatus(id, userId, updateStatusDto);
+  }
+
+  @Patch(':id/withdraw')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Withdraw an application (candidate only)' })
+  @ApiResponse({ status: 200, description: 'Application withdrawn' })
+  async withdraw(@Param('id') id: string, @CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.applicationService.withdraw(id, userId);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ApplicationController } from './application.controller';
+import { ApplicationService } from './application.service';
+import { ChatAcceptController } from './chat-accept.controller';
+import { Application, ApplicationSchema } from './schemas/application.schema';
+import { Offre, OffreSchema } from '../offre/schemas/offre.schema';
+import { ChatModule } from '../chat/chat.module';
+import { AiMatchingModule } from '../ai-matching/ai-matching.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Application.name, schema: ApplicationSchema },
+      { name: Offre.name, schema: OffreSchema },
+    ]),
+    ChatModule,
+    AiMatchingModule,
+  ],
+  controllers: [ApplicationController, ChatAcceptController],
+  providers: [ApplicationService],
+  exports: [ApplicationService],
+})
+export class ApplicationModule {}
@@ -0,0 +1,424 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  Application,
+  ApplicationDocument,
+  ApplicationStatus,
+  APPLICATION_TRANSITIONS,
+} from './schemas/application.schema';
+import { Offre, OffreDocument } from '../offre/schemas/offre.schema';
+import { ChatService } from '../chat/chat.service';
+import { CandidateRankingService } from '../ai-matching/candidate-ranking.service';
+import { CandidateRankingResponseDto } from '../ai-matching/dto/candidate-ranking-response.dto';
+import { CreateApplicationDto } from './dto/create-application.dto';
+import { UpdateApplicationStatusDto } from './dto/update-application-status.dto';
+
+const CANDIDATE_FIELDS =
+  'nom email image contact TrustXP cvSkills cvExperience cvEducation';
+
+@Injectable()
+export class ApplicationService {
+  constructor(
+    @InjectModel(Application.name)
+    private applicationModel: Model<ApplicationDocument>,
+    @InjectModel(Offre.name) private offreModel: Model<OffreDocument>,
+    private readonly chatService: ChatService,
+    private readonly candidateRankingService: CandidateRankingService,
+  ) {}
+
+  async apply(
+    createApplicationDto: CreateApplicationDto,
+    candidateId: string,
+  ): Promise<ApplicationDocument> {
+    const offer = await this.offreModel
+      .findById(createApplicationDto.offer)
+      .exec();
+    if (!offer || !offer.isActive) {
+      throw new NotFoundException('Offer not found or no longer active');
+    }
+
+    const candidateObjectId = new Types.ObjectId(candidateId);
+    if (offer.createdBy.equals(candidateObjectId)) {
+      throw new BadRequestException('You cannot apply to your own offer');
+    }
+
+    if (offer.blockedUsers?.some((id) => id.equals(candidateObjectId))) {
+      throw new ForbiddenException('You are blocked from this offer');
+    }
+
+    // Opening the chat is part of applying; it also reuses any existing conversation
+    const chat = await this.chatService.createOrGetChat(
+      { entreprise: offer.createdBy.toString(), offer: offer._id.toString() },
+      candidateId,
+    );
+
+    const existing = await this.applicationModel
+      .findOne({ offer: offer._id, candidate: candidateObjectId })
+      .exec();
+
+    if (existing) {
+      // Only a withdrawn application can be submitted again
+      if (existing.status !== ApplicationStatus.WITHDRAWN) {
+        throw new ConflictException('You have already applied to this offer');
+      }
+
+      existing.history.push({
+        from: existing.status,
+        to: ApplicationStatus.SUBMITTED,
+        changedBy: candidateObjectId,
+        note: 'Application resubmitted',
+        changedAt: new Date(),
+      });
+      existing.status = ApplicationStatus.SUBMITTED;
+      existing.coverLetter =
+        createApplicationDto.coverLetter ?? existing.coverLetter;
+      existing.chat = chat._id;
+      return existing.save();
+    }
+
+    const application = new this.applicationModel({
+      offer: offer._id,
+      candidate: candidateObjectId,
+      entreprise: offer.createdBy,
+      chat: chat._id,
+      coverLetter: createApplicationDto.coverLetter,
+      status: ApplicationStatus.SUBMITTED,
+      history: [
+        {
+          to: ApplicationStatus.SUBMITTED,
+          changedBy: candidateObjectId,
+          changedAt: new Date(),
+        },
+      ],
+    });
+
+    return application.save();
+  }
+
+  async findMyApplications(
+    candidateId: string,
+    status?: ApplicationStatus,
+  ): Promise<ApplicationDocument[]> {
+    const filter: FilterQuery<ApplicationDocument> = {
+      candidate: new Types.ObjectId(candidateId),
+    };
+    if (status) {
+      filter.status = status;
+    }
+
+    return this.applicationModel
+      .find(filter)
+      .populate(
+        'offer',
+        'title company salary jobType location images isActive',
+      )
+      .populate('entreprise', 'nom email image')
+      .sort({ updatedAt: -1 })
+      .exec();
+  }
+
+  async findByOffer(
+    offerId: string,
+    ownerId: string,
+    status?: ApplicationStatus,
+  ): Promise<ApplicationDocument[]> {
+    await this.getOwnedOffer(offerId, ownerId);
+
+    const filter: FilterQuery<ApplicationDocument> = {
+      offer: new Types.ObjectId(offerId),
+    };
+    if (status) {
+      filter.status = status;
+    }
+
+    return this.applicationModel
+      .find(filter)
+      .populate('candidate', CANDIDATE_FIELDS)
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Applicants ranked by how well they fit the offer, optionally with the
+   * students who are open to work. Withdrawn and rejected applications are
+   * left out.
+   */
+  async rankCandidates(
+    offerId: string,
+    ownerId: string,
+    includeOpenToWork = false,
+  ): Promise<CandidateRankingResponseDto> {
+    const offer = await this.getOwnedOffer(offerId, ownerId);
+
+    const applications = await this.applicationModel
+      .find({
+        offer: offer._id,
+        status: {
+          $nin: [ApplicationStatus.WITHDRAWN, ApplicationStatus.REJECTED],
+        },
+      })
+      .select('candidate status')
+      .exec();
+
+    return this.candidateRankingService.rankCandidates(
+      offer,
+      applications.map((application) => ({
+        candidateId: application.candidate.toString(),
+        applicationId: application._id.toString(),
+        status: application.status,
+      })),
+      includeOpenToWork,
+    );
+  }
+
+  async getOfferPipeline(
+    offerId: string,
+    ownerId: string,
+  ): Promise<Record<ApplicationStatus, number>> {
+    await this.getOwnedOffer(offerId, ownerId);
+
+    const counts = await this.applicationModel.aggregate<{
+      _id: ApplicationStatus;
+      count: number;
+    }>([
+      { $match: { offer: new Types.ObjectId(offerId) } },
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+
+    const pipeline = Object.values(ApplicationStatus).reduce(
+      (acc, status) => ({ ...acc, [status]: 0 }),
+      {} as Record<ApplicationStatus, number>,
+    );
+    counts.forEach(({ _id, count }) => {
+      pipeline[_id] = count;
+    });
+
+    return pipeline;
+  }
+
+  async findOne(id: string, userId: string): Promise<ApplicationDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Application not found or access denied');
+    }
+
+    const userObjectId = new Types.ObjectId(userId);
+    const application = await this.applicationModel
+      .findOne({
+        _id: id,
+        $or: [{ candidate: userObjectId }, { entreprise: userObjectId }],
+      })
+      .populate(
+        'offer',
+        'title company salary jobType location images isActive',
+      )
+      .populate('candidate', CANDIDATE_FIELDS)
+      .populate('entreprise', 'nom email image')
+      .populate('history.changedBy', 'nom email')
+      .exec();
+
+    if (!application) {
+      throw new NotFoundException('Application not found or access denied');
+    }
+
+    return application;
+  }
+
+  async updateStatus(
+    id: string,
+    ownerId: string,
+    updateStatusDto: UpdateApplicationStatusDto,
+  ): Promise<ApplicationDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Application not found');
+    }
+    const application = await this.applicationModel.findById(id).exec();
+    if (!application) {
+      throw new NotFoundException('Application not found');
+    }
+
+    if (!application.entreprise.equals(new Types.ObjectId(ownerId))) {
+      throw new ForbiddenException(
+        'Only the offer owner can change the application status',
+      );
+    }
+
+    if (updateStatusDto.status === ApplicationStatus.WITHDRAWN) {
+      throw new BadRequestException(
+        'Only the candidate can withdraw an application',
+      );
+    }
+
+    return this.transition(
+      application,
+      updateStatusDto.status,
+      ownerId,
+      updateStatusDto.note,
+    );
+  }
+
+  async withdraw(
+    id: string,
+    candidateId: string,
+    note?: string,
+  ): Promise<ApplicationDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Application not found');
+    }
+    const application = await this.applicationModel.findById(id).exec();
+    if (!application) {
+      throw new NotFoundException('Application not found');
+    }
+
+    if (!application.candidate.equals(new Types.ObjectId(candidateId))) {
+      throw new ForbiddenException(
+        'Only the candidate can withdraw this application',
+      );
+    }
+
+    return this.transition(
+      application,
+      ApplicationStatus.WITHDRAWN,
+      candidateId,
+      note,
+    );
+  }
+
+  /**
+   * Backs the legacy chat "accept candidate" action: hires the candidate
+   * through the application of that chat, creating one for chats opened
+   * before applications existed. Chat clients accept in one step, so the
+   * intermediate stages are skipped.
+   */
+  async hireFromChat(
+    chatId: string,
+    ownerId: string,
+  ): Promise<ApplicationDocument> {
+    if (!Types.ObjectId.isValid(chatId)) {
+      throw new NotFoundException('Chat not found');
+    }
+    const chat = (
+      await this.chatService.getChatById(chatId, ownerId)
+    ).depopulate();
+    if (!chat.entreprise.equals(new Types.ObjectId(ownerId))) {
+      throw new ForbiddenException('Only entreprise can accept candidates');
+    }
+
+    const application =
+      (await this.applicationModel
+        .findOne({ offer: chat.offer, candidate: chat.candidate })
+        .exec()) ??
+      new this.applicationModel({
+        offer: chat.offer,
+        candidate: chat.candidate,
+        entreprise: chat.entreprise,
+        chat: chat._id,
+        status: ApplicationStatus.SUBMITTED,
+        history: [
+          {
+            to: ApplicationStatus.SUBMITTED,
+            changedBy: chat.candidate,
+            changedAt: new Date(),
+          },
+        ],
+      });
+
+    if (application.status === ApplicationStatus.HIRED) {
+      return application;
+    }
+    if (APPLICATION_TRANSITIONS[application.status].length === 0) {
+      throw new BadRequestException(
+        `Cannot move an application from ${application.status} to ${ApplicationStatus.HIRED}`,
+      );
+    }
+
+    return this.transition(
+      application,
+      ApplicationStatus.HIRED,
+      ownerId,
+      'Accepted from chat',
+      true,
+    );
+  }
+
+  private async transition(
+    application: ApplicationDocument,
+    to: ApplicationStatus,
+    userId: string,
+    note?: string,
+    skipStages = false,
+  ): Promise<ApplicationDocument> {
+    const from = application.status;
+    if (!skipStages && !APPLICATION_TRANSITIONS[from].includes(to)) {
+      throw new BadRequestException(
+        `Cannot move an application from ${from} to ${to}`,
+      );
+    }
+
+    if (to === ApplicationStatus.HIRED) {
+      await this.applyHiredConsequences(application);
+    }
+
+    application.history.push({
+      from,
+      to,
+      changedBy: new Types.ObjectId(userId),
+      note,
+      changedAt: new Date(),
+    });
+    application.status = to;
+
+    return application.save();
+  }
+
+  // Hiring is what puts the candidate in acceptedUsers and marks the chat as accepted
+  private async applyHiredConsequences(
+    application: ApplicationDocument,
+  ): Promise<void> {
+    let chatId = application.chat?.toString();
+
+    if (!chatId) {
+      const chat = await this.chatService.createOrGetChat(
+        {
+          entreprise: application.entreprise.toString(),
+          offer: application.offer.toString(),
+        },
+        application.candidate.toString(),
+      );
+      chatId = chat._id.toString();
+      application.chat = chat._id;
+    }
+
+    await this.chatService.acceptCandidate(
+      chatId,
+      application.entreprise.toString(),
+    );
+  }
+
+  private async getOwnedOffer(
+    offerId: string,
+    ownerId: string,
+  ): Promise<OffreDocument> {
+    if (!Types.ObjectId.isValid(offerId)) {
+      throw new NotFoundException('Offer not found');
+    }
+    const offer = await this.offreModel.findById(offerId).exec();
+    if (!offer) {
+      throw new NotFoundException('Offer not found');
+    }
+
+    if (!offer.createdBy.equals(new Types.ObjectId(ownerId))) {
+      throw new ForbiddenException(
+        'You can only view applicants of your own offers',
+      );
+    }
+
+    return offer;
+  }
+}
@@ -0,0 +1,45 @@
+import { Controller, Param, Patch, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApplicationService } from './application.service';
+import { ChatService } from '../chat/chat.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
+
+/**
+ * Legacy `PATCH chat/:chatId/accept`, kept for older clients. It lives here
+ * because accepting a candidate is now the hired transition of an application.
+ */
+@ApiTags('chat')
+@Controller('chat')
+export class ChatAcceptController {
+  constructor(
+    private readonly applicationService: ApplicationService,
+    private readonly chatService: ChatService,
+  ) {}
+
+  @Patch(':chatId/accept')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Accept candidate (entreprise only)',
+    description:
+      'Deprecated, use PATCH applications/:id/status with status hired',
+    deprecated: true,
+  })
+  @ApiResponse({ status: 200, description: 'Candidate accepted successfully' })
+  @ApiResponse({ status: 400, description: 'Application already closed' })
+  async acceptCandidate(
+    @Param('chatId') chatId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    await this.applicationService.hireFromChat(chatId, userId);
+    return this.chatService.getChatById(chatId, userId);
+  }
+}
@@ -0,0 +1,25 @@
+import {
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateApplicationDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439013', description: 'Offer ID' })
+  @IsNotEmpty()
+  @IsMongoId()
+  offer: string;
+
+  @ApiProperty({
+    example: 'I am available every weekend and have worked as a waiter before',
+    description: 'Optional cover letter',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  coverLetter?: string;
+}
@@ -0,0 +1,30 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ApplicationStatus } from '../schemas/application.schema';
+
+export class UpdateApplicationStatusDto {
+  @ApiProperty({
+    enum: ApplicationStatus,
+    example: ApplicationStatus.SHORTLISTED,
+    description: 'New status of the application',
+  })
+  @IsNotEmpty()
+  @IsEnum(ApplicationStatus)
+  status: ApplicationStatus;
+
+  @ApiProperty({
+    example: 'Strong profile, schedule an interview',
+    description: 'Optional note stored in the status history',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
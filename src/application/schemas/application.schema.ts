@@ -0,0 +1,141 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type ApplicationDocument = HydratedDocument<Application>;
+
+export enum ApplicationStatus {
+  SUBMITTED = 'submitted',
+  SHORTLISTED = 'shortlisted',
+  INTERVIEW = 'interview',
+  OFFER = 'offer',
+  HIRED = 'hired',
+  REJECTED = 'rejected',
+  WITHDRAWN = 'withdrawn',
+}
+
+// Allowed next states for each state; hired, rejected and withdrawn are final
+export const APPLICATION_TRANSITIONS: Record<
+  ApplicationStatus,
+  ApplicationStatus[]
+> = {
+  [ApplicationStatus.SUBMITTED]: [
+    ApplicationStatus.SHORTLISTED,
+    ApplicationStatus.INTERVIEW,
+    ApplicationStatus.REJECTED,
+    ApplicationStatus.WITHDRAWN,
+  ],
+  [ApplicationStatus.SHORTLISTED]: [
+    ApplicationStatus.INTERVIEW,
+    ApplicationStatus.OFFER,
+    ApplicationStatus.REJECTED,
+    ApplicationStatus.WITHDRAWN,
+  ],
+  [ApplicationStatus.INTERVIEW]: [
+    ApplicationStatus.OFFER,
+    ApplicationStatus.REJECTED,
+    ApplicationStatus.WITHDRAWN,
+  ],
+  [ApplicationStatus.OFFER]: [
+    ApplicationStatus.HIRED,
+    ApplicationStatus.REJECTED,
+    ApplicationStatus.WITHDRAWN,
+  ],
+  [ApplicationStatus.HIRED]: [],
+  [ApplicationStatus.REJECTED]: [],
+  [ApplicationStatus.WITHDRAWN]: [],
+};
+
+@Schema({ _id: false, versionKey: false })
+export class ApplicationTransition {
+  @ApiProperty({
+    enum: ApplicationStatus,
+    example: ApplicationStatus.SUBMITTED,
+    required: false,
+    description: 'Previous status (empty for the initial submission)',
+  })
+  @Prop({ type: String, enum: ApplicationStatus })
+  from?: ApplicationStatus;
+
+  @ApiProperty({
+    enum: ApplicationStatus,
+    example: ApplicationStatus.SHORTLISTED,
+  })
+  @Prop({ type: String, enum: ApplicationStatus, required: true })
+  to: ApplicationStatus;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439012',
+    description: 'User who made the change',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  changedBy: Types.ObjectId;
+
+  @ApiProperty({
+    example: 'Strong profile, schedule an interview',
+    required: false,
+  })
+  @Prop({ type: String, trim: true })
+  note?: string;
+
+  @ApiProperty({ example: new Date() })
+  @Prop({ type: Date, default: Date.now })
+  changedAt: Date;
+}
+
+export const ApplicationTransitionSchema = SchemaFactory.createForClass(
+  ApplicationTransition,
+);
+
+@Schema({ timestamps: true, versionKey: false })
+export class Application {
+  @ApiProperty({ example: '507f1f77bcf86cd799439013', description: 'Offer ID' })
+  @Prop({ type: Types.ObjectId, ref: 'Offre', required: true })
+  offer: Types.ObjectId;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Candidate user ID',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  candidate: Types.ObjectId;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439012',
+    description: 'Offer owner user ID',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  entreprise: Types.ObjectId;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439021',
+    description: 'Chat opened for this application',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Chat' })
+  chat?: Types.ObjectId;
+
+  @ApiProperty({
+    enum: ApplicationStatus,
+    example: ApplicationStatus.SUBMITTED,
+  })
+  @Prop({
+    type: String,
+    enum: ApplicationStatus,
+    default: ApplicationStatus.SUBMITTED,
+  })
+  status: ApplicationStatus;
+
+  @ApiProperty({ example: 'I am available every weekend', required: false })
+  @Prop({ type: String, trim: true })
+  coverLetter?: string;
+
+  @ApiProperty({ type: [ApplicationTransition], description: 'Status history' })
+  @Prop({ type: [ApplicationTransitionSchema], default: [] })
+  history: ApplicationTransition[];
+}
+
+export const ApplicationSchema = SchemaFactory.createForClass(Application);
+
+ApplicationSchema.index({ offer: 1, candidate: 1 }, { unique: true });
+ApplicationSchema.index({ offer: 1, status: 1 });
+ApplicationSchema.index({ candidate: 1, updatedAt: -1 });
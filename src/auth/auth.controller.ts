@@ -1,42 +1,226 @@
-import { Body, Controller, Get, Param, Post } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  Ip,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
 import { GoogleLoginDto } from './dto/google-login.dto';
 import { ResetPasswordDto } from 'src/User/dto/reset-password-dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RegisterDto } from './dto/register.dto';
+import { EmailRequestDto } from './dto/email-request.dto';
+import { ConfirmPasswordResetDto } from './dto/confirm-password-reset.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { CurrentSession } from './decorators/current-session.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
 
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
   constructor(private readonly authService: AuthService) {}
 
+  @Post('register')
+  @ApiOperation({
+    summary: 'Register',
+    description: 'Create an account and send an email verification link',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Account created, returns tokens like login',
+  })
+  @ApiResponse({ status: 409, description: 'Email already exists' })
+  async register(
+    @Body() dto: RegisterDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.register(dto, { userAgent, ipAddress });
+  }
+
+  @Get('verify-email')
+  @ApiOperation({
+    summary: 'Verify email',
+    description: 'Confirm an email address with the link received by email',
+  })
+  @ApiQuery({ name: 'token', required: true })
+  @ApiResponse({ status: 200, description: 'Email verified' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired link' })
+  async verifyEmail(@Query('token') token: string) {
+    return this.authService.verifyEmail(token);
+  }
+
+  @Post('resend-verification')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Resend verification email' })
+  @ApiResponse({
+    status: 200,
+    description: 'A new link is sent if the address is not verified yet',
+  })
+  async resendVerification(@Body() dto: EmailRequestDto) {
+    return this.authService.resendVerification(dto.email);
+  }
+
+  @Post('forgot-password')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Forgot password',
+    description: 'Send a one-time password reset link by email',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'A reset link is sent if the account exists',
+  })
+  async forgotPassword(@Body() dto: EmailRequestDto) {
+    return this.authService.forgotPassword(dto.email);
+  }
+
+  @Post('reset-password')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Reset password',
+    description:
+      'Choose a new password with the one-time token received by email',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Password changed, every session is revoked',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or expired token' })
+  async resetPassword(@Body() dto: ConfirmPasswordResetDto) {
+    return this.authService.resetPassword(dto);
+  }
+
   @Post('login')
-  @ApiOperation({ summary: 'User login', description: 'Login with email and password to get JWT token' })
-  @ApiResponse({ status: 200, description: 'Successfully logged in, returns JWT token' })
+  @ApiOperation({
+    summary: 'User login',
+    description: 'Login with email and password to get JWT token',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully logged in, returns JWT token',
+  })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
-  async login(@Body() dto: LoginDto) {
+  async login(
+    @Body() dto: LoginDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
     const user = await this.authService.validateUser(dto.email, dto.password);
     if (!user) return { status: 'error', message: 'Invalid credentials' };
-    return this.authService.login(user);
+    return this.authService.login(user, {
+      deviceId: dto.deviceId,
+      deviceName: dto.deviceName,
+      userAgent,
+      ipAddress,
+    });
   }
 
   @Post('google')
-  @ApiOperation({ summary: 'Google login', description: 'Login with Google ID token' })
-  @ApiResponse({ status: 200, description: 'Successfully logged in with Google, returns JWT token' })
+  @ApiOperation({
+    summary: 'Google login',
+    description: 'Login with Google ID token',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully logged in with Google, returns JWT token',
+  })
   @ApiResponse({ status: 401, description: 'Invalid Google token' })
-  async googleLogin(@Body() dto: GoogleLoginDto) {
-    return this.authService.googleLogin(dto.id_token);
+  async googleLogin(
+    @Body() dto: GoogleLoginDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.googleLogin(dto.id_token, {
+      deviceId: dto.deviceId,
+      deviceName: dto.deviceName,
+      userAgent,
+      ipAddress,
+    });
+  }
+
+  @Post('refresh')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Refresh tokens',
+    description:
+      'Exchange a refresh token for a new access token and a new refresh token',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns a new access token and refresh token',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token invalid, expired, revoked or already used',
+  })
+  async refresh(
+    @Body() dto: RefreshTokenDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ) {
+    return this.authService.refresh(dto.refresh_token, {
+      userAgent,
+      ipAddress,
+    });
+  }
+
+  @Post('logout')
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Logout',
+    description: 'Revoke the session of the current access token',
+  })
+  @ApiResponse({ status: 200, description: 'Session revoked' })
+  async logout(
+    @CurrentUser() user: UserDocument,
+    @CurrentSession() sessionId: string,
+  ) {
+    const userId = user._id.toString();
+    return this.authService.logout(sessionId, userId);
+  }
+
+  @Post('logout-all')
+  @HttpCode(200)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Logout everywhere',
+    description: 'Revoke every session of the current user',
+  })
+  @ApiResponse({ status: 200, description: 'All sessions revoked' })
+  async logoutAll(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.authService.logoutAll(userId);
   }
 
   @Get('config-test')
   @ApiOperation({ summary: 'Test Google configuration' })
   testGoogleConfig() {
-  return {
-    hasGoogleClientId: !!process.env.GOOGLE_CLIENT_ID,
-    googleClientId: process.env.GOOGLE_CLIENT_ID || 'Missing',
-    hasJwtSecret: !!process.env.JWT_SECRET,
-    message: process.env.GOOGLE_CLIENT_ID ? 'Ready for Google auth' : 'Need GOOGLE_CLIENT_ID in .env'
-  };
+    return {
+      hasGoogleClientId: !!process.env.GOOGLE_CLIENT_ID,
+      googleClientId: process.env.GOOGLE_CLIENT_ID || 'Missing',
+      hasJwtSecret: !!process.env.JWT_SECRET,
+      message: process.env.GOOGLE_CLIENT_ID
+        ? 'Ready for Google auth'
+        : 'Need GOOGLE_CLIENT_ID in .env',
+    };
+  }
 }
-
-}
\ No newline at end of file
@@ -1,22 +1,29 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { UserModule } from '../User/user.module';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './jwt.strategy';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Session, SessionSchema } from './schemas/session.schema';
+import { SessionService } from './session.service';
+import { SessionController } from './session.controller';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
-  UserModule,
-  PassportModule.register({ defaultStrategy: 'jwt' }),
+    forwardRef(() => UserModule),
+    PassportModule.register({ defaultStrategy: 'jwt' }),
+    MongooseModule.forFeature([{ name: Session.name, schema: SessionSchema }]),
+    MailModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'changeme',
       signOptions: { expiresIn: '1h' },
     }),
   ],
-  providers: [AuthService, JwtStrategy],
-  controllers: [AuthController],
-  exports: [PassportModule, JwtModule],
+  providers: [AuthService, JwtStrategy, SessionService],
+  controllers: [AuthController, SessionController],
+  exports: [PassportModule, JwtModule, SessionService, AuthService],
 })
 export class AuthModule {}
@@ -1,18 +1,44 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  forwardRef,
+} from '@nestjs/common';
 import { UserService } from '../User/user.service';
+import { UserDocument } from '../User/schemas/user.schema';
 import * as bcrypt from 'bcryptjs';
 import { JwtService } from '@nestjs/jwt';
 import { OAuth2Client } from 'google-auth-library';
 import { log } from 'console';
 import { Role } from 'src/User/enums/role.enum';
+import { DeviceInfo, SessionService } from './session.service';
+import { MailService } from '../mail/mail.service';
+import { RegisterDto } from './dto/register.dto';
+import { ConfirmPasswordResetDto } from './dto/confirm-password-reset.dto';
+import { createHash, randomBytes } from 'crypto';
+
+const EMAIL_VERIFICATION_PURPOSE = 'email-verification';
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
   private googleClient: OAuth2Client;
+  private readonly publicUrl =
+    process.env.APP_PUBLIC_URL ||
+    `http://localhost:${process.env.PORT || 3005}`;
+  private readonly emailVerificationTtlHours =
+    Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 24;
+  private readonly passwordResetTtlMinutes =
+    Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
 
   constructor(
     private jwtService: JwtService,
+    @Inject(forwardRef(() => UserService))
     private userService: UserService,
+    private sessionService: SessionService,
+    private mailService: MailService,
   ) {
     // Initialize Google OAuth2 client
     this.googleClient = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
@@ -28,85 +54,257 @@ export class AuthService {
     return null;
   }
 
-  async login(user: any) {
-    const payload = { sub: user._id, email: user.email };
+  async login(user: UserDocument, device?: DeviceInfo) {
+    const { session, refreshToken } = await this.sessionService.create(
+      user._id.toString(),
+      device,
+    );
+    const payload = { sub: user._id, email: user.email, sid: session._id };
     log('AuthService Login - payload:', payload);
-    return { 
-      status: "success",
-      message: "Login successful",
+    return {
+      status: 'success',
+      message: 'Login successful',
       access_token: this.jwtService.sign(payload),
+      refresh_token: refreshToken,
+      session_id: session._id,
       user: {
         _id: user._id,
         nom: user.nom,
         email: user.email,
         role: user.role,
         contact: user.contact,
-        image: user.image
-      }
+        image: user.image,
+        emailVerified: !!user.emailVerified,
+      },
     };
   }
 
-async googleLogin(idToken: string) {
-  try {
-    //console.log('🔐 Starting Google login with token:', idToken.substring(0, 20) + '...');
-
-    // Verify Google token
-    const ticket = await this.googleClient.verifyIdToken({
-      idToken: idToken,
-      audience: [
-          process.env.GOOGLE_CLIENT_ID_ANDROID ?? '',
-          process.env.GOOGLE_CLIENT_ID_IOS ?? ''
-        ],
+  async register(dto: RegisterDto, device?: DeviceInfo) {
+    const { deviceId, deviceName, ...userData } = dto;
+    const user = await this.userService.create({
+      ...userData,
+      email: userData.email.toLowerCase().trim(),
+      role: Role.STUDENT,
     });
-    //console.log('✅ Google token verified');
 
-    const payload = ticket.getPayload();
-    //console.log('📧 Google payload:', payload);
+    // The account exists even if the mail provider is down, the user can ask for a new link
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error) {
+      this.logger.error(
+        `Verification email not sent to ${user.email}: ${(error as Error).message}`,
+      );
+    }
 
-    if (!payload) {
-      throw new UnauthorizedException('Invalid Google token: no payload');
+    const result = await this.login(user, { ...device, deviceId, deviceName });
+    return {
+      ...result,
+      message: 'Registration successful, please verify your email address',
+    };
+  }
+
+  async sendVerificationEmail(user: UserDocument) {
+    const token = this.jwtService.sign(
+      { sub: user._id, email: user.email, purpose: EMAIL_VERIFICATION_PURPOSE },
+      { expiresIn: this.emailVerificationTtlHours * 3600 },
+    );
+    const link = `${this.publicUrl}/auth/verify-email?token=${encodeURIComponent(token)}`;
+    await this.mailService.sendEmailVerification(user.email, user.nom, link);
+  }
+
+  async verifyEmail(token: string) {
+    let payload: { sub: string; email: string; purpose?: string };
+    try {
+      payload = await this.jwtService.verifyAsync(token);
+    } catch {
+      throw new BadRequestException('Invalid or expired verification link');
     }
 
-    const email = payload.email;
-    const name = payload.name;
-    const picture = payload.picture;
+    if (payload.purpose !== EMAIL_VERIFICATION_PURPOSE) {
+      throw new BadRequestException('Invalid or expired verification link');
+    }
+
+    const user = await this.userService.findOne(payload.sub);
+    // The link was issued for an address the user no longer uses
+    if (user.email !== payload.email) {
+      throw new BadRequestException('Invalid or expired verification link');
+    }
 
-    if (!email) {
-      throw new UnauthorizedException('Invalid Google token: no email provided');
+    if (!user.emailVerified) {
+      await this.userService.markEmailVerified(user._id.toString());
     }
 
-    //console.log('👤 Looking for user with email:', email);
-    
-    // Find or create user in MongoDB
-    let user = await this.userService.findByEmail(email);
-    //console.log('🔍 User search result:', user);
-    
+    return { status: 'success', message: 'Email verified successfully' };
+  }
+
+  async resendVerification(email: string) {
+    const user = await this.userService.findByEmail(email.toLowerCase().trim());
+    if (user && !user.emailVerified) {
+      await this.sendVerificationEmail(user);
+    }
+
+    // Same answer whether the address exists or not
+    return {
+      status: 'success',
+      message: 'If this address needs to be verified, a new link has been sent',
+    };
+  }
+
+  async forgotPassword(email: string) {
+    const user = await this.userService.findByEmail(email.toLowerCase().trim());
+    if (user) {
+      const token = randomBytes(32).toString('hex');
+      const expiresAt = new Date(
+        Date.now() + this.passwordResetTtlMinutes * 60 * 1000,
+      );
+      await this.userService.setPasswordResetToken(
+        user._id.toString(),
+        this.hashToken(token),
+        expiresAt,
+      );
+
+      const resetUrl =
+        process.env.PASSWORD_RESET_URL || `${this.publicUrl}/reset-password`;
+      // A mail failure must not tell the caller that the address exists
+      try {
+        await this.mailService.sendPasswordReset(
+          user.email,
+          user.nom,
+          `${resetUrl}?token=${token}`,
+          this.passwordResetTtlMinutes,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Password reset email not sent to ${user.email}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    // Same answer whether the address exists or not
+    return {
+      status: 'success',
+      message:
+        'If an account exists for this address, a reset link has been sent',
+    };
+  }
+
+  async resetPassword(dto: ConfirmPasswordResetDto) {
+    const user = await this.userService.consumePasswordResetToken(
+      this.hashToken(dto.token),
+      dto.newPassword,
+    );
     if (!user) {
-      //console.log('🆕 Creating new user for email:', email);
-      user = await this.userService.create({
-        nom: name || 'Google User',
-        email: email,
-        password: '',
-        contact: 'Not provided',
-        role: Role.USER,
-        image: picture || '',
-      });
-      //console.log('✅ New user created:', user);
+      throw new BadRequestException('Invalid or expired reset token');
     }
 
-    //console.log('🎫 Generating JWT token for user:', user.email);
-    // Generate JWT token using existing login method
-    const result = this.login(user);
-    //console.log('✅ Google login successful');
-    return result;
+    // A reset usually means the old password leaked: sign out every device
+    await this.sessionService.revokeAll(user._id.toString(), 'password_reset');
 
-  } catch (error) {
-    console.error('❌ Google login error:', error);
-    console.error('❌ Error stack:', error.stack);
     return {
-      status: "error",
-      message: "Invalid Google token: " + error.message
+      status: 'success',
+      message: 'Password reset successfully, please log in again',
     };
   }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  async refresh(refreshToken: string, device?: DeviceInfo) {
+    const { session, refreshToken: nextRefreshToken } =
+      await this.sessionService.rotate(refreshToken, device);
+    const user = await this.userService.findOne(session.userId.toString());
+    const payload = { sub: user._id, email: user.email, sid: session._id };
+    return {
+      status: 'success',
+      message: 'Token refreshed',
+      access_token: this.jwtService.sign(payload),
+      refresh_token: nextRefreshToken,
+      session_id: session._id,
+    };
+  }
+
+  async logout(sessionId: string, userId: string) {
+    await this.sessionService.revoke(sessionId, userId, 'logout');
+    return { status: 'success', message: 'Logged out' };
+  }
+
+  async logoutAll(userId: string) {
+    const { revoked } = await this.sessionService.revokeAll(userId);
+    return {
+      status: 'success',
+      message: 'Logged out from all devices',
+      revoked,
+    };
+  }
+
+  async googleLogin(idToken: string, device?: DeviceInfo) {
+    try {
+      //console.log('🔐 Starting Google login with token:', idToken.substring(0, 20) + '...');
+
+      // Verify Google token
+      const ticket = await this.googleClient.verifyIdToken({
+        idToken: idToken,
+        audience: [
+          process.env.GOOGLE_CLIENT_ID_ANDROID ?? '',
+          process.env.GOOGLE_CLIENT_ID_IOS ?? '',
+        ],
+      });
+      //console.log('✅ Google token verified');
+
+      const payload = ticket.getPayload();
+      //console.log('📧 Google payload:', payload);
+
+      if (!payload) {
+        throw new UnauthorizedException('Invalid Google token: no payload');
+      }
+
+      const email = payload.email;
+      const name = payload.name;
+      const picture = payload.picture;
+
+      if (!email) {
+        throw new UnauthorizedException(
+          'Invalid Google token: no email provided',
+        );
+      }
+
+      //console.log('👤 Looking for user with email:', email);
+
+      // Find or create user in MongoDB
+      let user = await this.userService.findByEmail(email);
+      //console.log('🔍 User search result:', user);
+
+      if (!user) {
+        //console.log('🆕 Creating new user for email:', email);
+        user = await this.userService.create({
+          nom: name || 'Google User',
+          email: email,
+          password: '',
+          contact: 'Not provided',
+          role: Role.STUDENT,
+          image: picture || '',
+        });
+        //console.log('✅ New user created:', user);
+      }
+
+      // Google already confirmed the address
+      if (payload.email_verified && !user.emailVerified) {
+        user = await this.userService.markEmailVerified(user._id.toString());
+      }
+
+      //console.log('🎫 Generating JWT token for user:', user.email);
+      // Generate JWT token using existing login method
+      const result = await this.login(user, device);
+      //console.log('✅ Google login successful');
+      return result;
+    } catch (error) {
+      console.error('❌ Google login error:', error);
+      console.error('❌ Error stack:', error.stack);
+      return {
+        status: 'error',
+        message: 'Invalid Google token: ' + error.message,
+      };
+    }
+  }
 }
-}
\ No newline at end of file
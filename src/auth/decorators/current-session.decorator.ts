@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+
+// Session id (sid claim) of the access token, set by JwtStrategy
+export const CurrentSession = createParamDecorator(
+  (data: unknown, context: ExecutionContext) => {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { sessionId?: string }>();
+    return request.sessionId;
+  },
+);
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../../User/enums/permission.enum';
+
+export const PERMISSIONS_KEY = 'permissions';
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
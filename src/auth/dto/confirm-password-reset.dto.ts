@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+
+export class ConfirmPasswordResetDto {
+  @ApiProperty({
+    description: 'One-time token received by email',
+    example: '3f9c1b0e5d7a4c2b8e6f...',
+  })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+
+  @ApiProperty({
+    description: 'New password',
+    example: 'StrongP@assw0rd',
+    minLength: 6,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MinLength(6)
+  newPassword: string;
+}
@@ -1,12 +1,33 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
 
 export class GoogleLoginDto {
   @ApiProperty({
     description: 'Google ID token from mobile app',
-    example: 'eyJhbGciOiJSUzI1NiIsImtpZCI6IjFmZmU1Mz' // You can put a fake token for testing
+    example: 'eyJhbGciOiJSUzI1NiIsImtpZCI6IjFmZmU1Mz', // You can put a fake token for testing
   })
   @IsNotEmpty()
   @IsString()
   id_token: string;
-}
\ No newline at end of file
+
+  @ApiProperty({
+    description:
+      'Stable identifier of the client device, one session is kept per device',
+    example: 'c2f1d3e4-pixel-7',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  deviceId?: string;
+
+  @ApiProperty({
+    description: 'Human readable device name shown in the session list',
+    example: 'Pixel 7',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  deviceName?: string;
+}
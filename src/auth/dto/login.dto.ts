@@ -1,10 +1,18 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsEmail, IsNotEmpty, isNotEmpty, IsString, MinLength } from 'class-validator';
+import {
+  IsEmail,
+  IsNotEmpty,
+  isNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
 
 export class LoginDto {
   @ApiProperty({
     description: 'User email address',
-    example: 'user@example.com'
+    example: 'user@example.com',
   })
   @IsNotEmpty()
   @IsEmail()
@@ -13,9 +21,30 @@ export class LoginDto {
   @ApiProperty({
     description: 'User password',
     example: 'StrongP@assw0rd',
-    minLength: 6
+    minLength: 6,
   })
   @IsString()
   @MinLength(6)
   password: string;
+
+  @ApiProperty({
+    description:
+      'Stable identifier of the client device, one session is kept per device',
+    example: 'c2f1d3e4-pixel-7',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  deviceId?: string;
+
+  @ApiProperty({
+    description: 'Human readable device name shown in the session list',
+    example: 'Pixel 7',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  deviceName?: string;
 }
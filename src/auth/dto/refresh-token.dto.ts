@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token returned by login or by the previous refresh',
+    example: '665f1c2e9b1e8a0012345678.Zm9vYmFyYmF6',
+  })
+  @IsNotEmpty()
+  @IsString()
+  refresh_token: string;
+}
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class RegisterDto {
+  @ApiProperty({ description: 'User name', example: 'Najd' })
+  @IsNotEmpty()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  nom: string;
+
+  @ApiProperty({
+    description: 'User email address',
+    example: 'user@example.com',
+  })
+  @IsNotEmpty()
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({
+    description: 'User password',
+    example: 'StrongP@assw0rd',
+    minLength: 6,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MinLength(6)
+  password: string;
+
+  @ApiProperty({ description: 'Phone number', example: '+216 21 000 000' })
+  @IsNotEmpty()
+  @IsString()
+  contact: string;
+
+  @ApiProperty({
+    description: 'Stable identifier of the client device',
+    example: 'c2f1d3e4-pixel-7',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  deviceId?: string;
+
+  @ApiProperty({
+    description: 'Device name',
+    example: 'Pixel 7',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  deviceName?: string;
+}
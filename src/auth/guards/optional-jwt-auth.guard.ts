@@ -0,0 +1,13 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Lets anonymous requests through and sets `request.user` when a valid
+ * bearer token is present.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser = any>(err: unknown, user: TUser): TUser {
+    return (err ? null : user || null) as TUser;
+  }
+}
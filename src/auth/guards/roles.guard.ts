@@ -1,22 +1,38 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { ROLES_KEY } from '../decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { Permission } from '../../User/enums/permission.enum';
+import { getEffectiveRole, hasPermission } from '../role-permissions';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
   constructor(private reflector: Reflector) {}
 
   canActivate(context: ExecutionContext): boolean {
-    const requiredRoles = this.reflector.getAllAndOverride<string[]>(ROLES_KEY, [
-      context.getHandler(),
-      context.getClass(),
-    ]);
-    if (!requiredRoles || requiredRoles.length === 0) {
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!requiredRoles?.length && !requiredPermissions?.length) {
       return true;
     }
     const { user } = context.switchToHttp().getRequest();
     //console.log('RolesGuard - user:', user, 'requiredRoles:', requiredRoles);
     if (!user) return false;
-    return requiredRoles.includes(user.role);
+    if (
+      requiredRoles?.length &&
+      !requiredRoles.includes(getEffectiveRole(user))
+    ) {
+      return false;
+    }
+    // Every listed permission is required
+    return (requiredPermissions ?? []).every((permission) =>
+      hasPermission(user, permission),
+    );
   }
 }
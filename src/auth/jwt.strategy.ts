@@ -1,19 +1,37 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import type { Request } from 'express';
 import { UserService } from '../User/user.service';
+import { SessionService } from './session.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
-  constructor(private UserService: UserService) {
+  constructor(
+    private UserService: UserService,
+    private sessionService: SessionService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
       secretOrKey: process.env.JWT_SECRET || 'changeme',
+      passReqToCallback: true,
     });
   }
 
-  async validate(payload: any) {
+  async validate(
+    req: Request & { sessionId?: string },
+    payload: { sub: string; email: string; sid?: string },
+  ) {
+    // Access tokens are bound to a session so that logout can revoke them
+    if (
+      !payload.sid ||
+      !(await this.sessionService.isActive(payload.sid, payload.sub))
+    ) {
+      throw new UnauthorizedException('Session expired or revoked');
+    }
+    req.sessionId = payload.sid;
+
     //console.log('🔐 JWT Strategy - payload:', payload);
     const user = await this.UserService.findOne(payload.sub);
     //console.log('👤 JWT Strategy - found user:', user);
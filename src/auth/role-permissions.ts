@@ -0,0 +1,31 @@
+import { Role } from '../User/enums/role.enum';
+import { Permission } from '../User/enums/permission.enum';
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.STUDENT]: [],
+  [Role.USER]: [],
+  [Role.EMPLOYER]: [Permission.OFFER_MANAGE],
+  [Role.MODERATOR]: [Permission.OFFER_MODERATE, Permission.RECLAMATION_MANAGE],
+  [Role.ADMIN]: Object.values(Permission),
+};
+
+/**
+ * Legacy `user` accounts that were already flagged as organizations keep
+ * publishing offers; every new organization goes through admin approval.
+ */
+export function getEffectiveRole(user: {
+  role?: Role;
+  is_Organization?: boolean;
+}): Role {
+  if (!user.role || user.role === Role.USER) {
+    return user.is_Organization ? Role.EMPLOYER : Role.STUDENT;
+  }
+  return user.role;
+}
+
+export function hasPermission(
+  user: { role?: Role; is_Organization?: boolean },
+  permission: Permission,
+): boolean {
+  return ROLE_PERMISSIONS[getEffectiveRole(user)].includes(permission);
+}
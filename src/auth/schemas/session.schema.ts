@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type SessionDocument = HydratedDocument<Session>;
+
+@Schema({ timestamps: true, versionKey: false })
+export class Session {
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Owner user ID',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @ApiProperty({
+    example: 'c2f1d3e4-pixel-7',
+    description:
+      'Identifier sent by the client device, one active session per device',
+  })
+  @Prop({ type: String, required: true })
+  deviceId: string;
+
+  @ApiProperty({ example: 'Pixel 7', required: false })
+  @Prop({ type: String, trim: true })
+  deviceName?: string;
+
+  @ApiProperty({ example: 'okhttp/4.12.0', required: false })
+  @Prop({ type: String })
+  userAgent?: string;
+
+  @ApiProperty({ example: '196.203.12.4', required: false })
+  @Prop({ type: String })
+  ipAddress?: string;
+
+  // sha256 of the current refresh token, replaced on every rotation
+  @Prop({ type: String, required: true, select: false })
+  refreshTokenHash: string;
+
+  @ApiProperty({ example: new Date(), description: 'Refresh token expiry' })
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+
+  @ApiProperty({ example: new Date() })
+  @Prop({ type: Date, default: Date.now })
+  lastUsedAt: Date;
+
+  @ApiProperty({ example: null, required: false })
+  @Prop({ type: Date })
+  revokedAt?: Date;
+
+  @ApiProperty({ example: 'logout', required: false })
+  @Prop({ type: String })
+  revokedReason?: string;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+SessionSchema.index({ userId: 1, deviceId: 1 });
+// Expired sessions are removed by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
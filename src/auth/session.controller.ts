@@ -0,0 +1,52 @@
+import { Controller, Delete, Get, Param, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SessionService } from './session.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { CurrentSession } from './decorators/current-session.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
+
+@ApiTags('user')
+@Controller('user/me/sessions')
+export class SessionController {
+  constructor(private readonly sessionService: SessionService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List active sessions of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns active sessions, the current one is flagged',
+  })
+  async findAll(
+    @CurrentUser() user: UserDocument,
+    @CurrentSession() currentSessionId: string,
+  ) {
+    const userId = user._id.toString();
+    const sessions = await this.sessionService.findActiveByUser(
+      userId.toString(),
+    );
+
+    return sessions.map((session) => ({
+      ...session.toJSON(),
+      current: session._id.toString() === currentSessionId,
+    }));
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke one of the current user sessions' })
+  @ApiResponse({ status: 200, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revoke(@Param('id') id: string, @CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.sessionService.revoke(id, userId.toString(), 'revoked_by_user');
+  }
+}
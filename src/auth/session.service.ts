@@ -0,0 +1,196 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { Session, SessionDocument } from './schemas/session.schema';
+
+export interface DeviceInfo {
+  deviceId?: string;
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+  private readonly refreshTtlDays =
+    Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+  ) {}
+
+  /** Opens a session for the device, replacing any previous session of the same device */
+  async create(
+    userId: string,
+    device: DeviceInfo = {},
+  ): Promise<{ session: SessionDocument; refreshToken: string }> {
+    const deviceId = device.deviceId || randomUUID();
+    const userObjectId = new Types.ObjectId(userId);
+
+    await this.sessionModel
+      .updateMany(
+        { userId: userObjectId, deviceId, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: 'replaced' },
+      )
+      .exec();
+
+    const sessionId = new Types.ObjectId();
+    const refreshToken = this.generateRefreshToken(sessionId.toString());
+
+    const session = await new this.sessionModel({
+      _id: sessionId,
+      userId: userObjectId,
+      deviceId,
+      deviceName: device.deviceName,
+      userAgent: device.userAgent,
+      ipAddress: device.ipAddress,
+      refreshTokenHash: this.hash(refreshToken),
+      expiresAt: this.refreshExpiry(),
+      lastUsedAt: new Date(),
+    }).save();
+
+    return { session, refreshToken };
+  }
+
+  /** Exchanges a refresh token for a new one; reusing an old token revokes the session */
+  async rotate(
+    refreshToken: string,
+    device: DeviceInfo = {},
+  ): Promise<{ session: SessionDocument; refreshToken: string }> {
+    const sessionId = refreshToken.split('.')[0];
+    if (!Types.ObjectId.isValid(sessionId)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // Matching on the current hash makes the swap atomic: of two concurrent
+    // refreshes with the same token only one gets a session back
+    const nextToken = this.generateRefreshToken(sessionId);
+    const now = new Date();
+    const session = await this.sessionModel
+      .findOneAndUpdate(
+        {
+          _id: sessionId,
+          refreshTokenHash: this.hash(refreshToken),
+          revokedAt: null,
+          expiresAt: { $gt: now },
+        },
+        {
+          $set: {
+            refreshTokenHash: this.hash(nextToken),
+            expiresAt: this.refreshExpiry(),
+            lastUsedAt: now,
+            ...(device.userAgent && { userAgent: device.userAgent }),
+            ...(device.ipAddress && { ipAddress: device.ipAddress }),
+          },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!session) {
+      const active = await this.sessionModel
+        .exists({ _id: sessionId, revokedAt: null, expiresAt: { $gt: now } })
+        .exec();
+      if (!active) {
+        throw new UnauthorizedException('Session expired or revoked');
+      }
+      // An already rotated token was presented again: assume it leaked
+      this.logger.warn(`Refresh token reuse detected for session ${sessionId}`);
+      await this.revoke(sessionId, undefined, 'refresh_token_reuse');
+      throw new UnauthorizedException('Refresh token already used');
+    }
+
+    return { session, refreshToken: nextToken };
+  }
+
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+
+    const exists = await this.sessionModel
+      .exists({
+        _id: sessionId,
+        userId: new Types.ObjectId(userId),
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .exec();
+
+    return !!exists;
+  }
+
+  async findActiveByUser(userId: string): Promise<SessionDocument[]> {
+    return this.sessionModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ lastUsedAt: -1 })
+      .exec();
+  }
+
+  async revoke(
+    sessionId: string,
+    userId?: string,
+    reason: string = 'logout',
+  ): Promise<{ message: string }> {
+    const filter: Record<string, any> = { _id: sessionId, revokedAt: null };
+    if (userId) {
+      filter.userId = new Types.ObjectId(userId);
+    }
+
+    const session = await this.sessionModel
+      .findOneAndUpdate(filter, {
+        revokedAt: new Date(),
+        revokedReason: reason,
+      })
+      .exec();
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    return { message: 'Session revoked successfully' };
+  }
+
+  async revokeAll(
+    userId: string,
+    reason: string = 'logout_all',
+    exceptSessionId?: string,
+  ): Promise<{ revoked: number }> {
+    const filter: Record<string, any> = {
+      userId: new Types.ObjectId(userId),
+      revokedAt: null,
+    };
+    if (exceptSessionId) {
+      filter._id = { $ne: new Types.ObjectId(exceptSessionId) };
+    }
+
+    const result = await this.sessionModel
+      .updateMany(filter, { revokedAt: new Date(), revokedReason: reason })
+      .exec();
+
+    return { revoked: result.modifiedCount };
+  }
+
+  private generateRefreshToken(sessionId: string): string {
+    return `${sessionId}.${randomBytes(48).toString('base64url')}`;
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private refreshExpiry(): Date {
+    return new Date(Date.now() + this.refreshTtlDays * 24 * 60 * 60 * 1000);
+  }
+}
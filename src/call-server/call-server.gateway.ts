@@ -5,7 +5,15 @@ import {
   OnGatewayDisconnect,
   SubscribeMessage,
 } from '@nestjs/websockets';
+import { OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
 import { Server, Socket } from 'socket.io';
+import {
+  PRESENCE_HEARTBEAT_MS,
+  User,
+  UserDocument,
+} from '../User/schemas/user.schema';
 
 interface UserData {
   userId: string;
@@ -26,12 +34,18 @@ interface ActiveCall {
 
 @WebSocketGateway({
   cors: {
-    origin: "*",
-    credentials: true
+    origin: '*',
+    credentials: true,
   },
-  transports: ['websocket', 'polling']
+  transports: ['websocket', 'polling'],
 })
-export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class CallServerGateway
+  implements
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    OnModuleInit,
+    OnModuleDestroy
+{
   @WebSocketServer()
   server: Server;
 
@@ -39,6 +53,33 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   private userSocketMap = new Map<string, string>();
   private socketUserMap = new Map<string, string>();
   private activeCalls = new Map<string, ActiveCall>();
+  private presenceTimer?: NodeJS.Timeout;
+
+  constructor(@InjectModel(User.name) private userModel: Model<UserDocument>) {}
+
+  // Refreshes lastSeen of registered users for the presence sweep. Registrations are not
+  // authenticated, so this only keeps users online, it never brings one online
+  onModuleInit() {
+    this.presenceTimer = setInterval(() => {
+      const userIds = Array.from(this.userSocketMap.keys()).filter((id) =>
+        Types.ObjectId.isValid(id),
+      );
+      if (userIds.length === 0) {
+        return;
+      }
+      this.userModel
+        .updateMany(
+          { _id: { $in: userIds }, isOnline: true },
+          { lastSeen: new Date() },
+        )
+        .exec()
+        .catch((error) => console.error('❌ Presence heartbeat error:', error));
+    }, PRESENCE_HEARTBEAT_MS);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.presenceTimer);
+  }
 
   handleConnection(client: Socket) {
     console.log('✅ Client connected:', client.id);
@@ -47,7 +88,7 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
 
   handleDisconnect(client: Socket) {
     console.log('❌ Client disconnected:', client.id);
-    
+
     // Remove from userSocketMap and socketUserMap
     const userId = this.socketUserMap.get(client.id);
     if (userId) {
@@ -55,28 +96,28 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
       this.socketUserMap.delete(client.id);
       console.log(`🗑️ User ${userId} removed from mapping`);
     }
-    
+
     // Handle user leaving calls
     if (userId) {
       this.handleUserLeftCalls(client.id, userId);
     }
-    
+
     // Remove from rooms
     this.rooms.forEach((users, roomId) => {
       if (users && users.has(client.id)) {
         const userData = users.get(client.id);
         users.delete(client.id);
-        
-        client.to(roomId).emit('user-left', { 
+
+        client.to(roomId).emit('user-left', {
           socketId: client.id,
-          userId: userData?.userId 
+          userId: userData?.userId,
         });
-        
+
         console.log(`🚪 User left room ${roomId}, remaining: ${users.size}`);
-        
+
         // Check if this room is associated with an active call and end it
         this.checkAndEndCallForRoom(roomId, userId || 'unknown');
-        
+
         if (users.size === 0) {
           this.rooms.delete(roomId);
           console.log(`🏁 Room ${roomId} deleted (empty)`);
@@ -89,35 +130,46 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
    * Check if a room is associated with an active call and end it if a participant left
    */
   private checkAndEndCallForRoom(roomId: string, leavingUserId: string) {
-    console.log(`🔍 Checking calls for room ${roomId}, user ${leavingUserId} left`);
-    
+    console.log(
+      `🔍 Checking calls for room ${roomId}, user ${leavingUserId} left`,
+    );
+
     this.activeCalls.forEach((call, callId) => {
       if (call.roomId === roomId) {
         console.log(`📞 Found active call ${callId} for room ${roomId}`);
-        
+
         // Check if the leaving user is one of the two participants
-        const isParticipant = call.fromUserId === leavingUserId || call.toUserId === leavingUserId;
-        
-        if (isParticipant && (call.status === 'accepted' || call.status === 'ringing')) {
-          console.log(`🔚 Participant ${leavingUserId} left active call ${callId}, ending call...`);
-          
+        const isParticipant =
+          call.fromUserId === leavingUserId || call.toUserId === leavingUserId;
+
+        if (
+          isParticipant &&
+          (call.status === 'accepted' || call.status === 'ringing')
+        ) {
+          console.log(
+            `🔚 Participant ${leavingUserId} left active call ${callId}, ending call...`,
+          );
+
           // Find the other participant
-          const otherUserId = call.fromUserId === leavingUserId ? call.toUserId : call.fromUserId;
+          const otherUserId =
+            call.fromUserId === leavingUserId ? call.toUserId : call.fromUserId;
           const otherSocketId = this.userSocketMap.get(otherUserId);
-          
+
           if (otherSocketId) {
             // Notify the other participant that the call ended
             this.server.to(otherSocketId).emit('call-ended', {
               callId: call.callId,
               roomId: call.roomId,
-              reason: 'Other participant left the call'
+              reason: 'Other participant left the call',
             });
-            console.log(`✅ Notified other participant ${otherUserId} about call end`);
+            console.log(
+              `✅ Notified other participant ${otherUserId} about call end`,
+            );
           }
-          
+
           // Clean up the room
           this.cleanupRoom(call.roomId);
-          
+
           // Remove from active calls
           this.activeCalls.delete(callId);
           console.log(`🗑️ Call ${callId} removed from active calls`);
@@ -131,34 +183,43 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
    */
   private handleUserLeftCalls(socketId: string, userId: string) {
     console.log(`🔚 User ${userId} left, checking active calls...`);
-    
+
     // Create a copy of activeCalls to avoid modification during iteration
     const callsToCheck = Array.from(this.activeCalls.entries());
-    
+
     for (const [callId, call] of callsToCheck) {
       // Check if this user is one of the two participants in this call
-      const isParticipant = call.fromUserId === userId || call.toUserId === userId;
-      
-      if (isParticipant && (call.status === 'accepted' || call.status === 'ringing')) {
-        console.log(`📞 User ${userId} was in active call ${callId}, ending call...`);
-        
+      const isParticipant =
+        call.fromUserId === userId || call.toUserId === userId;
+
+      if (
+        isParticipant &&
+        (call.status === 'accepted' || call.status === 'ringing')
+      ) {
+        console.log(
+          `📞 User ${userId} was in active call ${callId}, ending call...`,
+        );
+
         // Find the other participant
-        const otherUserId = call.fromUserId === userId ? call.toUserId : call.fromUserId;
+        const otherUserId =
+          call.fromUserId === userId ? call.toUserId : call.fromUserId;
         const otherSocketId = this.userSocketMap.get(otherUserId);
-        
+
         if (otherSocketId) {
           // Notify the other participant that the call ended
           this.server.to(otherSocketId).emit('call-ended', {
             callId: call.callId,
             roomId: call.roomId,
-            reason: 'Other participant left the call'
+            reason: 'Other participant left the call',
           });
-          console.log(`✅ Notified other participant ${otherUserId} about call end`);
+          console.log(
+            `✅ Notified other participant ${otherUserId} about call end`,
+          );
         }
-        
+
         // Clean up the room
         this.cleanupRoom(call.roomId);
-        
+
         // Remove from active calls
         this.activeCalls.delete(callId);
         console.log(`🗑️ Call ${callId} removed from active calls`);
@@ -173,18 +234,18 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
     const room = this.rooms.get(roomId);
     if (room) {
       console.log(`🧹 Cleaning up room: ${roomId}`);
-      
+
       // Notify all users in the room that call is ending
       this.server.to(roomId).emit('call-ended', {
         roomId,
-        reason: 'Call ended'
+        reason: 'Call ended',
       });
-      
+
       // Remove all users from the room
       room.forEach((userData, socketId) => {
         this.server.sockets.sockets.get(socketId)?.leave(roomId);
       });
-      
+
       // Delete the room
       this.rooms.delete(roomId);
       console.log(`🏁 Room ${roomId} completely cleaned up`);
@@ -204,9 +265,11 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
       // Remove previous registration for this user
       const existingSocketId = this.userSocketMap.get(userId);
       if (existingSocketId && existingSocketId !== client.id) {
-        console.log(`🔄 User ${userId} re-registered from new socket, removing old: ${existingSocketId}`);
+        console.log(
+          `🔄 User ${userId} re-registered from new socket, removing old: ${existingSocketId}`,
+        );
         this.socketUserMap.delete(existingSocketId);
-        
+
         // Handle user leaving calls from old socket
         this.handleUserLeftCalls(existingSocketId, userId);
       }
@@ -216,7 +279,7 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
       this.socketUserMap.set(client.id, userId);
 
       console.log(`✅ User ${userId} registered with socket ${client.id}`);
-      
+
       client.emit('register-success', { userId });
     } catch (error) {
       console.error('❌ Register error:', error);
@@ -228,25 +291,26 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleCallRequest(client: Socket, data: any) {
     try {
       const { roomId, fromUserId, fromUserName, toUserId, isVideoCall } = data;
-      
+
       if (!roomId || !fromUserId || !fromUserName || !toUserId) {
         console.log('❌ Call request failed: missing required fields');
-        client.emit('call-request-failed', { 
-          reason: 'Missing required fields' 
+        client.emit('call-request-failed', {
+          reason: 'Missing required fields',
         });
         return;
       }
 
       // Check if target user is already in a call
       const existingCall = Array.from(this.activeCalls.values()).find(
-        call => (call.toUserId === toUserId || call.fromUserId === toUserId) && 
-               (call.status === 'ringing' || call.status === 'accepted')
+        (call) =>
+          (call.toUserId === toUserId || call.fromUserId === toUserId) &&
+          (call.status === 'ringing' || call.status === 'accepted'),
       );
-      
+
       if (existingCall) {
         console.log('❌ Target user is already in a call');
-        client.emit('call-request-failed', { 
-          reason: 'User is already in a call' 
+        client.emit('call-request-failed', {
+          reason: 'User is already in a call',
         });
         return;
       }
@@ -257,15 +321,15 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
         fromUserName,
         toUserId,
         isVideoCall,
-        clientId: client.id
+        clientId: client.id,
       });
 
       // Check if the target user is connected and registered
       const targetSocketId = this.userSocketMap.get(toUserId);
-      
+
       if (targetSocketId) {
         const callId = `call_${Date.now()}`;
-        
+
         // Create active call record
         const activeCall: ActiveCall = {
           callId,
@@ -276,30 +340,30 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
           isVideoCall,
           status: 'ringing',
           timestamp: new Date(),
-          participants: new Set([fromUserId, toUserId])
+          participants: new Set([fromUserId, toUserId]),
         };
-        
+
         this.activeCalls.set(callId, activeCall);
-        
+
         console.log(`🎯 Sending incoming-call to user: ${toUserId}`);
-        
+
         const callData = {
           callId,
           roomId,
           fromUserId,
           fromUserName,
           isVideoCall,
-          timestamp: activeCall.timestamp.toISOString()
+          timestamp: activeCall.timestamp.toISOString(),
         };
 
         // Send call request to the target user
         client.to(targetSocketId).emit('incoming-call', callData);
-        
+
         // Also send to caller for UI updates
         client.emit('call-started', callData);
-        
+
         console.log('✅ Call request sent successfully');
-        
+
         // Set timeout to auto-reject after 30 seconds
         setTimeout(() => {
           const call = this.activeCalls.get(callId);
@@ -310,18 +374,17 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
             console.log(`⏰ Call ${callId} timed out`);
           }
         }, 30000);
-        
       } else {
         console.log('❌ Target user not found or offline:', toUserId);
-        client.emit('call-request-failed', { 
+        client.emit('call-request-failed', {
           reason: 'User not available or offline',
-          toUserId
+          toUserId,
         });
       }
     } catch (error) {
       console.error('❌ Call request error:', error);
-      client.emit('call-request-failed', { 
-        reason: 'Internal server error' 
+      client.emit('call-request-failed', {
+        reason: 'Internal server error',
       });
     }
   }
@@ -330,53 +393,62 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleCallResponse(client: Socket, data: any) {
     try {
       const { callId, accepted } = data;
-      
+
       if (!callId) {
         console.log('❌ Call response failed: missing callId');
         client.emit('call-response-failed', { reason: 'Missing callId' });
         return;
       }
 
-      console.log('📞 Call response received:', { callId, accepted, clientId: client.id });
+      console.log('📞 Call response received:', {
+        callId,
+        accepted,
+        clientId: client.id,
+      });
 
       const call = this.activeCalls.get(callId);
       if (!call) {
         console.log('❌ Call not found:', callId);
-        client.emit('call-response-failed', { callId, reason: 'Call not found' });
+        client.emit('call-response-failed', {
+          callId,
+          reason: 'Call not found',
+        });
         return;
       }
 
       // Update call status
       call.status = accepted ? 'accepted' : 'rejected';
-      
+
       // Find the caller's socket using the stored call information
       const callerSocketId = this.userSocketMap.get(call.fromUserId);
-      
+
       if (callerSocketId) {
         const fromUserId = this.socketUserMap.get(client.id);
-        
+
         // Notify caller about the response
         client.to(callerSocketId).emit('call-response', {
           callId,
           accepted,
-          fromUserId: fromUserId || 'unknown'
+          fromUserId: fromUserId || 'unknown',
         });
 
         console.log(`✅ Call response sent to caller: ${call.fromUserId}`);
-        
+
         if (accepted) {
-          console.log(`🎉 Call accepted, notifying to join room: ${call.roomId}`);
-          
+          console.log(
+            `🎉 Call accepted, notifying to join room: ${call.roomId}`,
+          );
+
           // Notify both users to join the room
-          client.emit('join-call-room', { 
+          client.emit('join-call-room', {
             roomId: call.roomId,
-            callId: call.callId
+            callId: call.callId,
           });
-          client.to(callerSocketId).emit('join-call-room', { 
+          client.to(callerSocketId).emit('join-call-room', {
             roomId: call.roomId,
-            callId: call.callId
+            callId: call.callId,
           });
-          
+
           // Update call status to active
           call.status = 'accepted';
         } else {
@@ -388,7 +460,7 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
         console.log('❌ Caller not found for response:', call.fromUserId);
         client.emit('call-response-failed', {
           callId,
-          reason: 'Caller not available'
+          reason: 'Caller not available',
         });
         this.activeCalls.delete(callId);
       }
@@ -402,7 +474,7 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleCancelCall(client: Socket, data: any) {
     try {
       const { callId } = data;
-      
+
       if (!callId) {
         console.log('❌ Cancel call failed: missing callId');
         return;
@@ -415,20 +487,20 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
       }
 
       console.log(`❌ Call cancelled: ${callId}`);
-      
+
       // Update call status
       call.status = 'cancelled';
-      
+
       const targetSocketId = this.userSocketMap.get(call.toUserId);
-      
+
       if (targetSocketId) {
-        client.to(targetSocketId).emit('call-cancelled', { 
+        client.to(targetSocketId).emit('call-cancelled', {
           callId,
-          reason: 'Call cancelled by caller'
+          reason: 'Call cancelled by caller',
         });
         console.log('✅ Cancel notification sent to', call.toUserId);
       }
-      
+
       // Remove from active calls
       this.activeCalls.delete(callId);
     } catch (error) {
@@ -440,33 +512,41 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleEndCall(client: Socket, data: any) {
     try {
       const { roomId, callId, reason = 'Call ended by user' } = data;
-      
-      console.log(`📞 End call request:`, { roomId, callId, reason, clientId: client.id });
+
+      console.log(`📞 End call request:`, {
+        roomId,
+        callId,
+        reason,
+        clientId: client.id,
+      });
 
       // If we have a callId, end that specific call
       if (callId) {
         const call = this.activeCalls.get(callId);
         if (call) {
           console.log(`🔚 Ending call ${callId} for room ${call.roomId}`);
-          
+
           // Find the other participant
           const currentUserId = this.socketUserMap.get(client.id);
-          const otherUserId = call.fromUserId === currentUserId ? call.toUserId : call.fromUserId;
+          const otherUserId =
+            call.fromUserId === currentUserId ? call.toUserId : call.fromUserId;
           const otherSocketId = this.userSocketMap.get(otherUserId);
-          
+
           // Notify the other participant
           if (otherSocketId) {
             this.server.to(otherSocketId).emit('call-ended', {
               callId: call.callId,
               roomId: call.roomId,
-              reason: reason
+              reason: reason,
             });
-            console.log(`✅ Notified other participant ${otherUserId} about call end`);
+            console.log(
+              `✅ Notified other participant ${otherUserId} about call end`,
+            );
           }
-          
+
           // Clean up room
           this.cleanupRoom(call.roomId);
-          
+
           // Remove from active calls
           this.activeCalls.delete(callId);
         }
@@ -475,7 +555,7 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
       else if (roomId) {
         console.log(`🔚 Ending all calls in room ${roomId}`);
         this.cleanupRoom(roomId);
-        
+
         // Also remove any active calls for this room
         this.activeCalls.forEach((call, cid) => {
           if (call.roomId === roomId) {
@@ -483,7 +563,7 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
           }
         });
       }
-      
+
       console.log('✅ Call ended successfully for all participants');
     } catch (error) {
       console.error('❌ End call error:', error);
@@ -494,53 +574,57 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleJoinCall(client: Socket, data: any) {
     try {
       const { roomId, userId, userName } = data;
-      
+
       if (!roomId || !userId) {
         console.log('❌ Join call failed: missing roomId or userId');
         return;
       }
 
       console.log(`🚪 User ${userId} joining call room: ${roomId}`);
-      
+
       // Join the socket room
       client.join(roomId);
-      
+
       // Initialize room if it doesn't exist
       if (!this.rooms.has(roomId)) {
         this.rooms.set(roomId, new Map());
         console.log(`🏠 New room created: ${roomId}`);
       }
-      
+
       const room = this.rooms.get(roomId);
-      
+
       if (!room) {
         console.log('❌ Room not found after creation:', roomId);
         return;
       }
-      
+
       // Add user to room
       room.set(client.id, { userId, userName });
-      
+
       // Notify others in the room
       client.to(roomId).emit('user-joined', {
         socketId: client.id,
         userId,
-        userName
+        userName,
       });
-      
+
       // Send current room participants to the joining user
-      const participants = Array.from(room.entries()).map(([socketId, userData]) => ({
-        socketId,
-        userId: userData.userId,
-        userName: userData.userName
-      })).filter(participant => participant.socketId !== client.id);
-      
+      const participants = Array.from(room.entries())
+        .map(([socketId, userData]) => ({
+          socketId,
+          userId: userData.userId,
+          userName: userData.userName,
+        }))
+        .filter((participant) => participant.socketId !== client.id);
+
       client.emit('room-participants', {
         participants,
-        roomId
+        roomId,
       });
 
-      console.log(`✅ User ${userId} joined room ${roomId}, total participants: ${room.size}`);
+      console.log(
+        `✅ User ${userId} joined room ${roomId}, total participants: ${room.size}`,
+      );
     } catch (error) {
       console.error('❌ Join call error:', error);
     }
@@ -550,7 +634,7 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleLeaveCall(client: Socket, data: any) {
     try {
       const { roomId } = data;
-      
+
       if (!roomId) {
         return;
       }
@@ -560,22 +644,24 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
         const userData = room.get(client.id);
         const userId = userData?.userId;
         room.delete(client.id);
-        
+
         client.leave(roomId);
-        
+
         // Notify others
         client.to(roomId).emit('user-left', {
           socketId: client.id,
-          userId: userId
+          userId: userId,
         });
-        
-        console.log(`🚪 User left call room: ${roomId}, remaining: ${room.size}`);
-        
+
+        console.log(
+          `🚪 User left call room: ${roomId}, remaining: ${room.size}`,
+        );
+
         // Check if this room is associated with an active call and end it
         if (userId) {
           this.checkAndEndCallForRoom(roomId, userId);
         }
-        
+
         if (room.size === 0) {
           this.rooms.delete(roomId);
           console.log(`🏁 Call room ${roomId} deleted (empty)`);
@@ -590,18 +676,18 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleOffer(client: Socket, data: any) {
     try {
       const { offer, roomId } = data;
-      
+
       if (!offer || !roomId) {
         console.log('❌ Offer failed: missing offer or roomId');
         return;
       }
 
       console.log(`📤 Offer from ${client.id} in room ${roomId}`);
-      
+
       client.to(roomId).emit('offer', {
         offer,
         fromSocketId: client.id,
-        roomId
+        roomId,
       });
     } catch (error) {
       console.error('❌ Offer error:', error);
@@ -612,18 +698,18 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleAnswer(client: Socket, data: any) {
     try {
       const { answer, roomId } = data;
-      
+
       if (!answer || !roomId) {
         console.log('❌ Answer failed: missing answer or roomId');
         return;
       }
 
       console.log(`📥 Answer from ${client.id} in room ${roomId}`);
-      
+
       client.to(roomId).emit('answer', {
         answer,
         fromSocketId: client.id,
-        roomId
+        roomId,
       });
     } catch (error) {
       console.error('❌ Answer error:', error);
@@ -634,18 +720,18 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleIceCandidate(client: Socket, data: any) {
     try {
       const { candidate, roomId } = data;
-      
+
       if (!candidate || !roomId) {
         console.log('❌ ICE candidate failed: missing candidate or roomId');
         return;
       }
 
       console.log(`🧊 ICE candidate from ${client.id} in room ${roomId}`);
-      
+
       client.to(roomId).emit('ice-candidate', {
         candidate,
         fromSocketId: client.id,
-        roomId
+        roomId,
       });
     } catch (error) {
       console.error('❌ ICE candidate error:', error);
@@ -657,20 +743,20 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
     try {
       const { userId } = data;
       const isOnline = userId ? this.userSocketMap.has(userId) : false;
-      
+
       client.emit('connection-status', {
         userId,
         isOnline,
-        socketId: client.id
+        socketId: client.id,
       });
-      
+
       // Also notify if user comes online/offline
       if (userId) {
         const targetSocketId = this.userSocketMap.get(userId);
         if (targetSocketId) {
           this.server.to(targetSocketId).emit('user-online-status', {
             userId: this.socketUserMap.get(client.id),
-            isOnline: true
+            isOnline: true,
           });
         }
       }
@@ -684,14 +770,27 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
     return this.socketUserMap.get(socketId) || null;
   }
 
+  // Push a server-side event to a registered user, returns false if the user is not connected
+  emitToUser(userId: string, event: string, payload: any): boolean {
+    const socketId = this.userSocketMap.get(userId.toString());
+    if (!socketId) {
+      return false;
+    }
+
+    this.server.to(socketId).emit(event, payload);
+    return true;
+  }
+
   // Helper method to get all connected users (for debugging)
   @SubscribeMessage('get-connected-users')
   handleGetConnectedUsers(client: Socket) {
-    const connectedUsers = Array.from(this.userSocketMap.entries()).map(([userId, socketId]) => ({
-      userId,
-      socketId,
-      isOnline: true
-    }));
+    const connectedUsers = Array.from(this.userSocketMap.entries()).map(
+      ([userId, socketId]) => ({
+        userId,
+        socketId,
+        isOnline: true,
+      }),
+    );
 
     client.emit('connected-users', { users: connectedUsers });
   }
@@ -699,15 +798,25 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   @SubscribeMessage('media-frame')
   handleMediaFrame(client: Socket, data: any) {
     try {
-      const { roomId, type, frameData, audioData, userId, userName, timestamp } = data;
-      
+      const {
+        roomId,
+        type,
+        frameData,
+        audioData,
+        userId,
+        userName,
+        timestamp,
+      } = data;
+
       if (!roomId) {
         console.log('❌ Media frame failed: missing roomId');
         return;
       }
 
       // Log media frame reception for debugging
-      console.log(`📡 Media frame received - Type: ${type}, Room: ${roomId}, From: ${userId}, Size: ${audioData?.length || frameData?.length || 0} bytes`);
+      console.log(
+        `📡 Media frame received - Type: ${type}, Room: ${roomId}, From: ${userId}, Size: ${audioData?.length || frameData?.length || 0} bytes`,
+      );
 
       // Broadcast to other users in the same room
       client.to(roomId).emit('media-frame', {
@@ -718,12 +827,11 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
         userId,
         userName,
         timestamp,
-        fromSocketId: client.id
+        fromSocketId: client.id,
       });
 
       // Log successful broadcast
       console.log(`📤 Media frame broadcast to room ${roomId} - Type: ${type}`);
-
     } catch (error) {
       console.error('❌ Media frame error:', error);
     }
@@ -733,23 +841,24 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleCallMessage(client: Socket, data: any) {
     try {
       const { roomId, message, userId, userName } = data;
-      
+
       if (!roomId || !message) {
         console.log('❌ Call message failed: missing roomId or message');
         return;
       }
 
-      console.log(`💬 Call message in room ${roomId} from ${userName}: ${message}`);
-      
+      console.log(
+        `💬 Call message in room ${roomId} from ${userName}: ${message}`,
+      );
+
       // Broadcast to other users in the room
       client.to(roomId).emit('call-message', {
         roomId,
         message,
         userId,
         userName,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
       });
-
     } catch (error) {
       console.error('❌ Call message error:', error);
     }
@@ -759,14 +868,14 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleDebugMediaStreaming(client: Socket, data: any) {
     try {
       const { roomId, userId, action } = data;
-      
+
       console.log('🔍 Media Streaming Debug Info:');
       console.log(`- Room: ${roomId}`);
       console.log(`- User: ${userId}`);
       console.log(`- Action: ${action}`);
       console.log(`- Total Rooms: ${this.rooms.size}`);
       console.log(`- Total Connected Users: ${this.userSocketMap.size}`);
-      
+
       if (roomId) {
         const room = this.rooms.get(roomId);
         if (room) {
@@ -783,9 +892,10 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
       client.emit('debug-media-info', {
         roomCount: this.rooms.size,
         userCount: this.userSocketMap.size,
-        roomParticipants: roomId ? Array.from(this.rooms.get(roomId)?.entries() || []) : []
+        roomParticipants: roomId
+          ? Array.from(this.rooms.get(roomId)?.entries() || [])
+          : [],
       });
-
     } catch (error) {
       console.error('❌ Debug media streaming error:', error);
     }
@@ -798,37 +908,36 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
   handleForceEndAllCalls(client: Socket, data: any) {
     try {
       console.log('🚨 Force ending all calls');
-      
+
       // End all active calls
       this.activeCalls.forEach((call, callId) => {
         const fromSocketId = this.userSocketMap.get(call.fromUserId);
         const toSocketId = this.userSocketMap.get(call.toUserId);
-        
+
         if (fromSocketId) {
           this.server.to(fromSocketId).emit('call-ended', {
             callId: call.callId,
             roomId: call.roomId,
-            reason: 'All calls force ended by system'
+            reason: 'All calls force ended by system',
           });
         }
-        
+
         if (toSocketId) {
           this.server.to(toSocketId).emit('call-ended', {
             callId: call.callId,
             roomId: call.roomId,
-            reason: 'All calls force ended by system'
+            reason: 'All calls force ended by system',
           });
         }
-        
+
         this.cleanupRoom(call.roomId);
       });
-      
+
       // Clear all active calls
       this.activeCalls.clear();
-      
+
       console.log('✅ All calls force ended');
       client.emit('force-end-complete', { message: 'All calls ended' });
-      
     } catch (error) {
       console.error('❌ Force end all calls error:', error);
     }
@@ -845,24 +954,28 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
         totalRegisteredUsers: this.userSocketMap.size,
         totalActiveRooms: this.rooms.size,
         totalActiveCalls: this.activeCalls.size,
-        activeCalls: Array.from(this.activeCalls.entries()).map(([callId, call]) => ({
-          callId,
-          roomId: call.roomId,
-          fromUserId: call.fromUserId,
-          toUserId: call.toUserId,
-          status: call.status,
-          isVideoCall: call.isVideoCall,
-          timestamp: call.timestamp
-        })),
+        activeCalls: Array.from(this.activeCalls.entries()).map(
+          ([callId, call]) => ({
+            callId,
+            roomId: call.roomId,
+            fromUserId: call.fromUserId,
+            toUserId: call.toUserId,
+            status: call.status,
+            isVideoCall: call.isVideoCall,
+            timestamp: call.timestamp,
+          }),
+        ),
         rooms: Array.from(this.rooms.entries()).map(([roomId, users]) => ({
           roomId,
           participantCount: users.size,
-          participants: Array.from(users.entries()).map(([socketId, userData]) => ({
-            socketId,
-            userId: userData.userId,
-            userName: userData.userName
-          }))
-        }))
+          participants: Array.from(users.entries()).map(
+            ([socketId, userData]) => ({
+              socketId,
+              userId: userData.userId,
+              userName: userData.userName,
+            }),
+          ),
+        })),
       };
 
       client.emit('server-stats', stats);
@@ -870,4 +983,4 @@ export class CallServerGateway implements OnGatewayConnection, OnGatewayDisconne
       console.error('❌ Get server stats error:', error);
     }
   }
-}
\ No newline at end of file
+}
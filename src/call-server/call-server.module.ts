@@ -1,9 +1,14 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 import { CallServerService } from './call-server.service';
 import { CallServerGateway } from './call-server.gateway';
+import { User, UserSchema } from '../User/schemas/user.schema';
 
 @Module({
+  imports: [
+    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+  ],
   providers: [CallServerService, CallServerGateway],
-  exports: [CallServerService],
+  exports: [CallServerService, CallServerGateway],
 })
-export class CallServerModule {}
\ No newline at end of file
+export class CallServerModule {}
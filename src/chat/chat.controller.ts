@@ -52,7 +52,10 @@ export class ChatController {
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Create or get existing chat' })
-  @ApiResponse({ status: 200, description: 'Chat created or retrieved successfully' })
+  @ApiResponse({
+    status: 200,
+    description: 'Chat created or retrieved successfully',
+  })
   async createOrGetChat(
     @Body() createChatDto: CreateChatDto,
     @CurrentUser() user: any,
@@ -105,10 +108,7 @@ export class ChatController {
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get chat by ID' })
   @ApiResponse({ status: 200, description: 'Returns chat' })
-  async getChatById(
-    @Param('chatId') chatId: string,
-    @CurrentUser() user: any,
-  ) {
+  async getChatById(@Param('chatId') chatId: string, @CurrentUser() user: any) {
     const userId = user.userId || user._id || user.id;
     return this.chatService.getChatById(chatId, userId);
   }
@@ -124,7 +124,11 @@ export class ChatController {
     @Body() updateChatDto: UpdateChatDto,
   ) {
     const userId = user.userId || user._id || user.id;
-    return this.chatService.blockChat(chatId, userId, updateChatDto.blockReason);
+    return this.chatService.blockChat(
+      chatId,
+      userId,
+      updateChatDto.blockReason,
+    );
   }
 
   @Patch(':chatId/unblock')
@@ -132,27 +136,11 @@ export class ChatController {
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Unblock chat (entreprise only)' })
   @ApiResponse({ status: 200, description: 'Chat unblocked successfully' })
-  async unblockChat(
-    @Param('chatId') chatId: string,
-    @CurrentUser() user: any,
-  ) {
+  async unblockChat(@Param('chatId') chatId: string, @CurrentUser() user: any) {
     const userId = user.userId || user._id || user.id;
     return this.chatService.unblockChat(chatId, userId);
   }
 
-  @Patch(':chatId/accept')
-  @UseGuards(JwtAuthGuard)
-  @ApiBearerAuth()
-  @ApiOperation({ summary: 'Accept candidate (entreprise only)' })
-  @ApiResponse({ status: 200, description: 'Candidate accepted successfully' })
-  async acceptCandidate(
-    @Param('chatId') chatId: string,
-    @CurrentUser() user: any,
-  ) {
-    const userId = user.userId || user._id || user.id;
-    return this.chatService.acceptCandidate(chatId, userId);
-  }
-
   @Get('can-call/:offerId')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -171,10 +159,7 @@ export class ChatController {
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Delete chat' })
   @ApiResponse({ status: 200, description: 'Chat deleted successfully' })
-  async deleteChat(
-    @Param('chatId') chatId: string,
-    @CurrentUser() user: any,
-  ) {
+  async deleteChat(@Param('chatId') chatId: string, @CurrentUser() user: any) {
     const userId = user.userId || user._id || user.id;
     return this.chatService.deleteChat(chatId, userId);
   }
@@ -198,32 +183,39 @@ export class ChatController {
       required: ['file'],
     },
   })
-  @UseInterceptors(FileInterceptor('file', {
-    storage: diskStorage({
-      destination: './uploads/chat',
-      filename: (req, file, cb) => {
-        const uniqueName = `chat-${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(file.originalname)}`;
-        cb(null, uniqueName);
-      }
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: diskStorage({
+        destination: './uploads/chat',
+        filename: (req, file, cb) => {
+          const uniqueName = `chat-${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(file.originalname)}`;
+          cb(null, uniqueName);
+        },
+      }),
+      fileFilter: (req, file, cb) => {
+        if (
+          file.mimetype.startsWith('image/') ||
+          file.mimetype.startsWith('video/') ||
+          file.mimetype.startsWith('audio/')
+        ) {
+          cb(null, true);
+        } else {
+          cb(
+            new Error('Only image, video, and audio files are allowed'),
+            false,
+          );
+        }
+      },
+      limits: {
+        fileSize: 50 * 1024 * 1024,
+      },
     }),
-    fileFilter: (req, file, cb) => {
-      if (file.mimetype.startsWith('image/') || 
-          file.mimetype.startsWith('video/') || 
-          file.mimetype.startsWith('audio/')) {
-        cb(null, true);
-      } else {
-        cb(new Error('Only image, video, and audio files are allowed'), false);
-      }
-    },
-    limits: {
-      fileSize: 50 * 1024 * 1024,
-    }
-  }))
-  async uploadMedia(@UploadedFile() file: Express.Multer.File) {    
+  )
+  async uploadMedia(@UploadedFile() file: Express.Multer.File) {
     return {
       url: `uploads/chat/${file.filename}`,
       fileName: file.originalname,
-      fileSize: `${(file.size / 1024 / 1024).toFixed(2)} MB`
+      fileSize: `${(file.size / 1024 / 1024).toFixed(2)} MB`,
     };
   }
 
@@ -241,16 +233,22 @@ export class ChatController {
   }
 
   @Post('interview-result')
-  @ApiOperation({ summary: 'Save interview result from AI analysis (called by Python backend)' })
-  @ApiResponse({ status: 201, description: 'Interview result saved successfully' })
-  async saveInterviewResult(
-    @Body() dto: SaveInterviewResultDto
-  ) {
+  @ApiOperation({
+    summary:
+      'Save interview result from AI analysis (called by Python backend)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Interview result saved successfully',
+  })
+  async saveInterviewResult(@Body() dto: SaveInterviewResultDto) {
     console.log('='.repeat(80));
     console.log('🌐 NESTJS_ENDPOINT: /chat/interview-result called');
     console.log('='.repeat(80));
     try {
-      console.log(`📥 NESTJS_ENDPOINT: Request body keys: ${Object.keys(dto || {}).join(', ')}`);
+      console.log(
+        `📥 NESTJS_ENDPOINT: Request body keys: ${Object.keys(dto || {}).join(', ')}`,
+      );
       console.log(`📥 NESTJS_ENDPOINT: chat_id=${dto?.chat_id || 'MISSING'}`);
       console.log(`📥 NESTJS_ENDPOINT: analysis present=${!!dto?.analysis}`);
       if (!dto.chat_id) {
@@ -261,20 +259,29 @@ export class ChatController {
         console.log(`❌ NESTJS_ENDPOINT: Missing analysis data`);
         throw new Error('Missing analysis data');
       }
-      console.log(`🔄 NESTJS_ENDPOINT: Calling chatService.saveInterviewResult...`);
-      const result = await this.chatService.saveInterviewResult(dto.chat_id, dto.analysis);
+      console.log(
+        `🔄 NESTJS_ENDPOINT: Calling chatService.saveInterviewResult...`,
+      );
+      const result = await this.chatService.saveInterviewResult(
+        dto.chat_id,
+        dto.analysis,
+      );
       console.log(`✅ NESTJS_ENDPOINT: Success! Message ID: ${result._id}`);
       console.log('='.repeat(80));
       return result;
     } catch (error) {
       console.log('='.repeat(80));
       console.log(`❌ NESTJS_ENDPOINT: ERROR IN CONTROLLER`);
-      console.log(`❌ NESTJS_ENDPOINT: Error type: ${error?.constructor?.name || 'Unknown'}`);
-      console.log(`❌ NESTJS_ENDPOINT: Error message: ${error?.message || String(error)}`);
+      console.log(
+        `❌ NESTJS_ENDPOINT: Error type: ${error?.constructor?.name || 'Unknown'}`,
+      );
+      console.log(
+        `❌ NESTJS_ENDPOINT: Error message: ${error?.message || String(error)}`,
+      );
       console.log(`❌ NESTJS_ENDPOINT: Stack trace:`);
       console.error(error);
       console.log('='.repeat(80));
       throw error;
     }
   }
-}
\ No newline at end of file
+}
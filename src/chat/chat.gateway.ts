@@ -0,0 +1,302 @@
+import {
+  forwardRef,
+  Inject,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+  WsException,
+} from '@nestjs/websockets';
+import { Types } from 'mongoose';
+import { DefaultEventsMap, Server, Socket } from 'socket.io';
+import { ChatService } from './chat.service';
+import { ChatDocument } from './schemas/chat.schema';
+import { MessageDocument } from './schemas/message.schema';
+import {
+  ChatRoomDto,
+  SocketSendMessageDto,
+  TypingDto,
+} from './dto/chat-socket.dto';
+import { UserService } from '../User/user.service';
+import { PRESENCE_HEARTBEAT_MS } from '../User/schemas/user.schema';
+import { SessionService } from '../auth/session.service';
+
+type ChatSocket = Socket<
+  DefaultEventsMap,
+  DefaultEventsMap,
+  DefaultEventsMap,
+  { userId?: string }
+>;
+
+const chatRoom = (chatId: string | Types.ObjectId) =>
+  `chat:${chatId.toString()}`;
+const userRoom = (userId: string | Types.ObjectId) =>
+  `user:${userId.toString()}`;
+
+@WebSocketGateway({
+  namespace: 'chat',
+  cors: {
+    origin: '*',
+    credentials: true,
+  },
+  transports: ['websocket', 'polling'],
+})
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    exceptionFactory: (errors) => new WsException(errors),
+  }),
+)
+export class ChatGateway
+  implements
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    OnModuleInit,
+    OnModuleDestroy
+{
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(ChatGateway.name);
+  // A user can be connected from several devices, presence only changes on the first/last socket
+  private userSockets = new Map<string, Set<string>>();
+  private presenceTimer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(forwardRef(() => ChatService))
+    private readonly chatService: ChatService,
+    private readonly jwtService: JwtService,
+    private readonly userService: UserService,
+    private readonly sessionService: SessionService,
+  ) {}
+
+  // Every instance refreshes lastSeen of its own sockets, so the presence sweep can rely on lastSeen alone
+  onModuleInit() {
+    this.presenceTimer = setInterval(() => {
+      this.userService
+        .refreshLastSeen([...this.userSockets.keys()])
+        .catch((error: Error) =>
+          this.logger.warn(`Presence heartbeat failed: ${error.message}`),
+        );
+    }, PRESENCE_HEARTBEAT_MS);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.presenceTimer);
+  }
+
+  async handleConnection(client: ChatSocket) {
+    let userId: string;
+    try {
+      const payload = await this.jwtService.verifyAsync<{
+        sub: string;
+        sid?: string;
+      }>(this.extractToken(client));
+      if (
+        !payload.sid ||
+        !(await this.sessionService.isActive(payload.sid, payload.sub))
+      ) {
+        throw new WsException('Session expired or revoked');
+      }
+      const user = await this.userService.findOne(payload.sub);
+      userId = user._id.toString();
+    } catch {
+      client.emit('chat-error', { error: 'Unauthorized' });
+      client.disconnect(true);
+      return;
+    }
+
+    client.data.userId = userId;
+    try {
+      await client.join(userRoom(userId));
+      const chats = await this.chatService.getUserChats(userId);
+      await client.join(chats.map((chat) => chatRoom(chat._id)));
+
+      // The socket may have gone away during the awaits, its disconnect already ran
+      if (!client.connected) {
+        return;
+      }
+      const sockets = this.userSockets.get(userId) ?? new Set<string>();
+      sockets.add(client.id);
+      this.userSockets.set(userId, sockets);
+
+      if (sockets.size === 1) {
+        await this.broadcastPresence(userId, true, chats);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Chat connection setup failed for ${userId}: ${(error as Error).message}`,
+      );
+      client.emit('chat-error', { error: 'Connection failed' });
+      client.disconnect(true);
+    }
+  }
+
+  async handleDisconnect(client: ChatSocket) {
+    const userId = client.data.userId;
+    if (!userId) {
+      return;
+    }
+
+    const sockets = this.userSockets.get(userId);
+    sockets?.delete(client.id);
+    if (sockets && sockets.size > 0) {
+      return;
+    }
+
+    this.userSockets.delete(userId);
+    const chats = await this.chatService.getUserChats(userId);
+    await this.broadcastPresence(userId, false, chats);
+  }
+
+  @SubscribeMessage('join-chat')
+  async handleJoinChat(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() data: ChatRoomDto,
+  ) {
+    try {
+      await this.chatService.getChatById(data.chatId, client.data.userId!);
+      await client.join(chatRoom(data.chatId));
+      return { status: 'ok', chatId: data.chatId };
+    } catch (error) {
+      return { status: 'error', message: (error as Error).message };
+    }
+  }
+
+  @SubscribeMessage('leave-chat')
+  async handleLeaveChat(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() data: ChatRoomDto,
+  ) {
+    await client.leave(chatRoom(data.chatId));
+    return { status: 'ok', chatId: data.chatId };
+  }
+
+  @SubscribeMessage('send-message')
+  async handleSendMessage(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() data: SocketSendMessageDto,
+  ) {
+    const { chatId, ...sendMessageDto } = data;
+    try {
+      // The service broadcasts the saved message to the room
+      const message = await this.chatService.sendMessage(
+        chatId,
+        client.data.userId!,
+        sendMessageDto,
+      );
+      return { status: 'ok', messageId: message._id.toString() };
+    } catch (error) {
+      return { status: 'error', message: (error as Error).message };
+    }
+  }
+
+  @SubscribeMessage('typing')
+  handleTyping(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() data: TypingDto,
+  ) {
+    if (!client.rooms.has(chatRoom(data.chatId))) {
+      return {
+        status: 'error',
+        message: 'Join the chat before sending typing events',
+      };
+    }
+
+    client.to(chatRoom(data.chatId)).emit('typing', {
+      chatId: data.chatId,
+      userId: client.data.userId!,
+      isTyping: data.isTyping,
+    });
+    return { status: 'ok' };
+  }
+
+  @SubscribeMessage('mark-read')
+  async handleMarkRead(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() data: ChatRoomDto,
+  ) {
+    try {
+      await this.chatService.markMessagesAsRead(
+        data.chatId,
+        client.data.userId!,
+      );
+      return { status: 'ok' };
+    } catch (error) {
+      return { status: 'error', message: (error as Error).message };
+    }
+  }
+
+  // Clients send this every minute or so, users without a recent heartbeat are marked offline by the presence job
+  @SubscribeMessage('heartbeat')
+  async handleHeartbeat(@ConnectedSocket() client: ChatSocket) {
+    await this.userService.touchPresence(client.data.userId!);
+    return { status: 'ok' };
+  }
+
+  emitNewMessage(chat: ChatDocument, message: MessageDocument) {
+    // Participants who have not joined the room yet (e.g. a brand new chat) get it through their user room
+    this.server
+      .to([
+        chatRoom(chat._id),
+        userRoom(chat.candidate),
+        userRoom(chat.entreprise),
+      ])
+      .emit('new-message', { chatId: chat._id.toString(), message });
+  }
+
+  emitMessagesRead(chatId: string, readerId: string, readAt: Date) {
+    this.server
+      .to(chatRoom(chatId))
+      .emit('messages-read', { chatId, readerId, readAt });
+  }
+
+  private async broadcastPresence(
+    userId: string,
+    isOnline: boolean,
+    chats: ChatDocument[],
+  ) {
+    const user = await this.userService.updatePresence(userId, isOnline);
+    const rooms = chats.map((chat) => chatRoom(chat._id));
+    if (rooms.length === 0) {
+      return;
+    }
+
+    this.server.to(rooms).emit('presence', {
+      userId,
+      isOnline,
+      lastSeen: user?.lastSeen ?? new Date(),
+    });
+  }
+
+  private extractToken(client: ChatSocket): string {
+    const authToken = client.handshake.auth?.token as string | undefined;
+    if (authToken) {
+      return authToken.replace(/^Bearer\s+/i, '');
+    }
+
+    const header = client.handshake.headers.authorization;
+    if (header?.startsWith('Bearer ')) {
+      return header.slice(7);
+    }
+
+    const queryToken = client.handshake.query?.token;
+    if (typeof queryToken === 'string') {
+      return queryToken;
+    }
+
+    this.logger.debug(`Socket ${client.id} connected without a token`);
+    throw new WsException('Missing token');
+  }
+}
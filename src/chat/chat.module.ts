@@ -3,10 +3,14 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ChatController } from './chat.controller';
 import { ChatService } from './chat.service';
+import { ChatGateway } from './chat.gateway';
 import { Chat, ChatSchema } from './schemas/chat.schema';
 import { Message, MessageSchema } from './schemas/message.schema';
 import { User, UserSchema } from '../User/schemas/user.schema';
 import { Offre, OffreSchema } from '../offre/schemas/offre.schema';
+import { NotificationModule } from '../notification/notification.module';
+import { AuthModule } from '../auth/auth.module';
+import { UserModule } from '../User/user.module';
 
 @Module({
   imports: [
@@ -14,9 +18,12 @@ import { Offre, OffreSchema } from '../offre/schemas/offre.schema';
     MongooseModule.forFeature([{ name: Message.name, schema: MessageSchema }]),
     MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
     MongooseModule.forFeature([{ name: Offre.name, schema: OffreSchema }]),
+    NotificationModule,
+    AuthModule,
+    UserModule,
   ],
   controllers: [ChatController],
-  providers: [ChatService],
+  providers: [ChatService, ChatGateway],
   exports: [ChatService],
 })
-export class ChatModule {}
\ No newline at end of file
+export class ChatModule {}
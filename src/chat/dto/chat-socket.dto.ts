@@ -0,0 +1,19 @@
+import { IsBoolean, IsMongoId, IsNotEmpty } from 'class-validator';
+import { SendMessageDto } from './send-message.dto';
+
+export class ChatRoomDto {
+  @IsNotEmpty()
+  @IsMongoId()
+  chatId: string;
+}
+
+export class SocketSendMessageDto extends SendMessageDto {
+  @IsNotEmpty()
+  @IsMongoId()
+  chatId: string;
+}
+
+export class TypingDto extends ChatRoomDto {
+  @IsBoolean()
+  isTyping: boolean;
+}
@@ -10,7 +10,7 @@ export enum MessageType {
   VIDEO = 'video',
   AUDIO = 'audio',
   EMOJI = 'emoji',
-  INTERVIEW_RESULT = 'interview_result' // ⭐ NEW
+  INTERVIEW_RESULT = 'interview_result', // ⭐ NEW
 }
 
 @Schema({ timestamps: true, versionKey: false })
@@ -19,19 +19,32 @@ export class Message {
   @Prop({ type: Types.ObjectId, ref: 'Chat', required: true })
   chat: Types.ObjectId;
 
-  @ApiProperty({ example: '507f1f77bcf86cd799439011', description: 'Sender user ID' })
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Sender user ID',
+  })
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   sender: Types.ObjectId;
 
-  @ApiProperty({ enum: MessageType, example: MessageType.TEXT, description: 'Message type' })
+  @ApiProperty({
+    enum: MessageType,
+    example: MessageType.TEXT,
+    description: 'Message type',
+  })
   @Prop({ type: String, enum: MessageType, required: true })
   type: MessageType;
 
-  @ApiProperty({ example: 'Hello, I am interested in this position', description: 'Message content for text/emoji' })
+  @ApiProperty({
+    example: 'Hello, I am interested in this position',
+    description: 'Message content for text/emoji',
+  })
   @Prop({ type: String })
   content: string;
 
-  @ApiProperty({ example: 'https://example.com/image.jpg', description: 'Media file URL' })
+  @ApiProperty({
+    example: 'https://example.com/image.jpg',
+    description: 'Media file URL',
+  })
   @Prop({ type: String })
   mediaUrl: string;
 
@@ -47,7 +60,10 @@ export class Message {
   @Prop({ type: String })
   duration: string;
 
-  @ApiProperty({ example: 'https://example.com/thumbnail.jpg', description: 'Video thumbnail URL' })
+  @ApiProperty({
+    example: 'https://example.com/thumbnail.jpg',
+    description: 'Video thumbnail URL',
+  })
   @Prop({ type: String })
   thumbnail: string;
 
@@ -67,7 +83,10 @@ export class Message {
   @Prop({ type: Date })
   deletedAt: Date;
 
-  @ApiProperty({ example: '507f1f77bcf86cd799439011', description: 'User who deleted the message' })
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who deleted the message',
+  })
   @Prop({ type: Types.ObjectId, ref: 'User' })
   deletedBy: Types.ObjectId;
 
@@ -76,29 +95,31 @@ export class Message {
   @Prop([{ type: String }])
   reactions: string[];
 
-  @ApiProperty({ example: '507f1f77bcf86cd799439022', description: 'Replied message ID' })
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439022',
+    description: 'Replied message ID',
+  })
   @Prop({ type: Types.ObjectId, ref: 'Message' })
   replyTo: Types.ObjectId;
 
-
   @Prop({ type: Object })
-interviewAnalysis?: {
-  candidateName: string;
-  position: string;
-  completionPercentage: number;
-  overallScore: number; // 0-100
-  strengths: string[];
-  weaknesses: string[];
-  questionAnalysis: Array<{
-    question: string;
-    answer: string;
-    score: number;
-    feedback: string;
-  }>;
-  recommendation: 'STRONG_HIRE' | 'HIRE' | 'MAYBE' | 'NO_HIRE';
-  summary: string;
-  interviewDuration: string;
-};
+  interviewAnalysis?: {
+    candidateName: string;
+    position: string;
+    completionPercentage: number;
+    overallScore: number; // 0-100
+    strengths: string[];
+    weaknesses: string[];
+    questionAnalysis: Array<{
+      question: string;
+      answer: string;
+      score: number;
+      feedback: string;
+    }>;
+    recommendation: 'STRONG_HIRE' | 'HIRE' | 'MAYBE' | 'NO_HIRE';
+    summary: string;
+    interviewDuration: string;
+  };
 }
 
 export const MessageSchema = SchemaFactory.createForClass(Message);
@@ -107,4 +128,5 @@ export const MessageSchema = SchemaFactory.createForClass(Message);
 MessageSchema.index({ chat: 1, createdAt: -1 });
 MessageSchema.index({ sender: 1 });
 MessageSchema.index({ isRead: 1 });
-MessageSchema.index({ type: 1 });
\ No newline at end of file
+MessageSchema.index({ type: 1 });
+MessageSchema.index({ isDeleted: 1, deletedAt: 1 });
@@ -0,0 +1,336 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { diskStorage } from 'multer';
+import * as path from 'path';
+import { CompanyService } from './company.service';
+import { CreateCompanyDto } from './dto/create-company.dto';
+import { UpdateCompanyDto } from './dto/update-company.dto';
+import { InviteRecruiterDto } from './dto/company-recruiter.dto';
+import {
+  RequestCompanyVerificationDto,
+  ReviewCompanyVerificationDto,
+} from './dto/company-verification.dto';
+import { CompanyVerificationStatus } from './schemas/company.schema';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Permission } from '../User/enums/permission.enum';
+import type { UserDocument } from '../User/schemas/user.schema';
+
+const logoUpload = FileInterceptor('logo', {
+  storage: diskStorage({
+    destination: './uploads/companies',
+    filename: (req, file, cb) => {
+      const uniqueName = `company-${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(file.originalname)}`;
+      cb(null, uniqueName);
+    },
+  }),
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files are allowed'), false);
+    }
+  },
+  limits: { fileSize: 2 * 1024 * 1024 },
+});
+
+@ApiTags('companies')
+@Controller('companies')
+export class CompanyController {
+  constructor(private readonly companyService: CompanyService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.OFFER_MANAGE)
+  @ApiBearerAuth()
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Create the company profile of the current employer',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Company created, the user is its owner',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Only employers can create a company',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Name already taken or user already in a company',
+  })
+  @UseInterceptors(logoUpload)
+  async create(
+    @CurrentUser() user: UserDocument,
+    @Body() createCompanyDto: CreateCompanyDto,
+    @UploadedFile() logo?: Express.Multer.File,
+  ) {
+    const userId = user._id.toString();
+    return this.companyService.create(
+      userId.toString(),
+      createCompanyDto,
+      logo,
+    );
+  }
+
+  @Get('mine')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the company the current user recruits for' })
+  @ApiResponse({ status: 200, description: 'Returns the company, or null' })
+  async findMine(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.companyService.findForUser(userId.toString());
+  }
+
+  @Get('invitations/mine')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Companies that invited the current user' })
+  @ApiResponse({ status: 200, description: 'Pending invitations' })
+  async findMyInvitations(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.companyService.findInvitationsFor(userId.toString());
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a company profile' })
+  @ApiResponse({ status: 200, description: 'Company profile' })
+  @ApiResponse({ status: 404, description: 'Company not found' })
+  async findOne(@Param('id') id: string) {
+    return this.companyService.findOne(id);
+  }
+
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Update a company profile',
+    description: 'Renaming a verified company removes its verified badge',
+  })
+  @ApiResponse({ status: 200, description: 'Company updated' })
+  @ApiResponse({ status: 403, description: 'Not a recruiter of this company' })
+  @UseInterceptors(logoUpload)
+  async update(
+    @Param('id') id: string,
+    @CurrentUser() user: UserDocument,
+    @Body() updateCompanyDto: UpdateCompanyDto,
+    @UploadedFile() logo?: Express.Multer.File,
+  ) {
+    const userId = user._id.toString();
+    return this.companyService.update(
+      id,
+      userId.toString(),
+      updateCompanyDto,
+      logo,
+    );
+  }
+
+  @Post(':id/invitations')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Invite an account to recruit for the company (owner only)',
+    description: 'The account joins the company once it accepts',
+  })
+  @ApiResponse({ status: 201, description: 'Invitation sent' })
+  @ApiResponse({
+    status: 403,
+    description: 'Only the owner can invite recruiters',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The account already belongs to a company or is invited',
+  })
+  async inviteRecruiter(
+    @Param('id') id: string,
+    @CurrentUser() user: UserDocument,
+    @Body() inviteRecruiterDto: InviteRecruiterDto,
+  ) {
+    const userId = user._id.toString();
+    return this.companyService.inviteRecruiter(
+      id,
+      userId.toString(),
+      inviteRecruiterDto.email,
+    );
+  }
+
+  @Post(':id/invitations/accept')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Accept an invitation and join the company',
+    description:
+      'Student accounts must have their organization request approved first',
+  })
+  @ApiResponse({ status: 201, description: 'Joined the company' })
+  @ApiResponse({
+    status: 403,
+    description: 'The account is not approved as an organization',
+  })
+  @ApiResponse({ status: 404, description: 'No pending invitation' })
+  @ApiResponse({ status: 409, description: 'Already in a company' })
+  async acceptInvitation(
+    @Param('id') id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.companyService.acceptInvitation(id, userId.toString());
+  }
+
+  @Delete(':id/invitations/:userId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Decline an invitation, or withdraw it (owner)',
+  })
+  @ApiResponse({ status: 200, description: 'Invitation removed' })
+  @ApiResponse({ status: 404, description: 'No pending invitation' })
+  async removeInvitation(
+    @Param('id') id: string,
+    @Param('userId') invitedUserId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.companyService.removeInvitation(
+      id,
+      userId.toString(),
+      invitedUserId,
+    );
+  }
+
+  @Delete(':id/recruiters/:userId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove a recruiter, or leave the company' })
+  @ApiResponse({ status: 200, description: 'Recruiter removed' })
+  @ApiResponse({
+    status: 403,
+    description: 'Only the owner can remove other recruiters',
+  })
+  async removeRecruiter(
+    @Param('id') id: string,
+    @Param('userId') recruiterId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.companyService.removeRecruiter(
+      id,
+      userId.toString(),
+      recruiterId,
+    );
+  }
+
+  @Post(':id/verification')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Ask an admin to verify the company (owner only)' })
+  @ApiResponse({ status: 201, description: 'Verification requested' })
+  @ApiResponse({ status: 409, description: 'Already verified or pending' })
+  async requestVerification(
+    @Param('id') id: string,
+    @CurrentUser() user: UserDocument,
+    @Body() requestDto: RequestCompanyVerificationDto,
+  ) {
+    const userId = user._id.toString();
+    return this.companyService.requestVerification(
+      id,
+      userId.toString(),
+      requestDto.details,
+    );
+  }
+}
+
+@ApiTags('admins')
+@Controller('admin/companies')
+export class CompanyAdminController {
+  constructor(private readonly companyService: CompanyService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.COMPANY_VERIFY)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List companies by verification status' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: CompanyVerificationStatus,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Companies in the given status (pending by default)',
+  })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  async findByVerificationStatus(
+    @Query('status') status?: CompanyVerificationStatus,
+  ) {
+    return this.companyService.findByVerificationStatus(status);
+  }
+
+  @Patch(':id/verify')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.COMPANY_VERIFY)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Verify a company, its offers show the verified badge',
+  })
+  @ApiResponse({ status: 200, description: 'Company verified' })
+  @ApiResponse({ status: 400, description: 'No pending verification request' })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  async verify(
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewCompanyVerificationDto,
+    @CurrentUser() admin: UserDocument,
+  ) {
+    return this.companyService.reviewVerification(
+      id,
+      admin._id.toString(),
+      true,
+      reviewDto.note,
+    );
+  }
+
+  @Patch(':id/reject')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.COMPANY_VERIFY)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reject a company verification request' })
+  @ApiResponse({ status: 200, description: 'Verification rejected' })
+  @ApiResponse({ status: 400, description: 'No pending verification request' })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  async reject(
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewCompanyVerificationDto,
+    @CurrentUser() admin: UserDocument,
+  ) {
+    return this.companyService.reviewVerification(
+      id,
+      admin._id.toString(),
+      false,
+      reviewDto.note,
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  CompanyAdminController,
+  CompanyController,
+} from './company.controller';
+import { CompanyService } from './company.service';
+import { Company, CompanySchema } from './schemas/company.schema';
+import { User, UserSchema } from '../User/schemas/user.schema';
+import { Offre, OffreSchema } from '../offre/schemas/offre.schema';
+import { NotificationModule } from '../notification/notification.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Company.name, schema: CompanySchema },
+      { name: User.name, schema: UserSchema },
+      { name: Offre.name, schema: OffreSchema },
+    ]),
+    NotificationModule,
+  ],
+  controllers: [CompanyController, CompanyAdminController],
+  providers: [CompanyService],
+  exports: [CompanyService],
+})
+export class CompanyModule {}
@@ -0,0 +1,436 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  Company,
+  CompanyDocument,
+  CompanyVerificationStatus,
+} from './schemas/company.schema';
+import { CreateCompanyDto } from './dto/create-company.dto';
+import { UpdateCompanyDto } from './dto/update-company.dto';
+import { User, UserDocument } from '../User/schemas/user.schema';
+import { Offre, OffreDocument } from '../offre/schemas/offre.schema';
+import { buildSearchIndex } from '../offre/offre-search';
+import { Role } from '../User/enums/role.enum';
+import { getEffectiveRole } from '../auth/role-permissions';
+import { NotificationService } from '../notification/notification.service';
+import { NotificationType } from '../notification/schemas/notification.schema';
+
+/** Same key for "Tech Corp", "TECH-CORP" and "Tech Corp." */
+export function toCompanySlug(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+@Injectable()
+export class CompanyService {
+  constructor(
+    @InjectModel(Company.name) private companyModel: Model<CompanyDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(Offre.name) private offreModel: Model<OffreDocument>,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  async create(
+    userId: string,
+    createCompanyDto: CreateCompanyDto,
+    logo?: Express.Multer.File,
+  ): Promise<CompanyDocument> {
+    const user = await this.userModel.findById(userId).exec();
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    if (user.company) {
+      throw new ConflictException('You already belong to a company');
+    }
+
+    const slug = await this.ensureSlugAvailable(createCompanyDto.name);
+    const company = await new this.companyModel({
+      ...createCompanyDto,
+      slug,
+      logo: logo ? `uploads/companies/${logo.filename}` : undefined,
+      owner: user._id,
+      recruiters: [user._id],
+    }).save();
+
+    user.company = company._id;
+    await user.save();
+    await this.linkOffersOf(user._id, company);
+
+    return company;
+  }
+
+  async findOne(id: string): Promise<CompanyDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Invalid company ID');
+    }
+
+    const company = await this.companyModel
+      .findById(id)
+      .select('-invitations')
+      .populate('recruiters', 'nom image')
+      .exec();
+    if (!company) {
+      throw new NotFoundException(`Company with ID ${id} not found`);
+    }
+    return company;
+  }
+
+  /** Company the user publishes offers for, if any */
+  async findForUser(userId: string): Promise<CompanyDocument | null> {
+    return this.companyModel
+      .findOne({ recruiters: new Types.ObjectId(userId) })
+      .exec();
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    updateCompanyDto: UpdateCompanyDto,
+    logo?: Express.Multer.File,
+  ): Promise<CompanyDocument> {
+    const company = await this.getForRecruiter(id, userId);
+
+    const nameChanged =
+      !!updateCompanyDto.name && updateCompanyDto.name !== company.name;
+    if (nameChanged) {
+      company.slug = await this.ensureSlugAvailable(
+        updateCompanyDto.name!,
+        company._id,
+      );
+    }
+
+    Object.assign(company, updateCompanyDto);
+    if (logo) {
+      company.logo = `uploads/companies/${logo.filename}`;
+    }
+
+    // The badge was granted for the old name
+    if (nameChanged && company.isVerified) {
+      company.isVerified = false;
+      company.verificationStatus = CompanyVerificationStatus.UNVERIFIED;
+    }
+
+    const saved = await company.save();
+    if (nameChanged) {
+      await this.syncOffers({ companyProfile: saved._id }, saved);
+    }
+    return saved;
+  }
+
+  /**
+   * The owner invites an existing account. Nothing changes for that account
+   * until it accepts the invitation.
+   */
+  async inviteRecruiter(
+    id: string,
+    ownerId: string,
+    email: string,
+  ): Promise<CompanyDocument> {
+    const company = await this.getForOwner(id, ownerId);
+
+    const recruiter = await this.userModel
+      .findOne({ email: email.toLowerCase() })
+      .exec();
+    if (!recruiter) {
+      throw new NotFoundException(`No account found for ${email}`);
+    }
+    if (recruiter.company) {
+      throw new ConflictException('This account already belongs to a company');
+    }
+    if (company.invitations.some((i) => i.user.equals(recruiter._id))) {
+      throw new ConflictException('This account is already invited');
+    }
+
+    company.invitations.push({
+      user: recruiter._id,
+      invitedBy: new Types.ObjectId(ownerId),
+      invitedAt: new Date(),
+    });
+    const saved = await company.save();
+
+    await this.notificationService.notify({
+      recipient: recruiter._id,
+      type: NotificationType.COMPANY_INVITATION,
+      title: 'Company invitation',
+      body: `${saved.name} invites you to publish offers as a recruiter`,
+      data: { companyId: saved._id.toString() },
+    });
+
+    return saved;
+  }
+
+  /** Companies that invited the user and are waiting for an answer */
+  async findInvitationsFor(userId: string): Promise<CompanyDocument[]> {
+    return this.companyModel
+      .find({ 'invitations.user': new Types.ObjectId(userId) })
+      .select('name slug logo isVerified owner')
+      .populate('owner', 'nom image')
+      .exec();
+  }
+
+  /**
+   * The invited account joins the company. Its role is not changed here: a
+   * student account must first get its organization request approved by an
+   * admin, the invitation stays pending meanwhile.
+   */
+  async acceptInvitation(id: string, userId: string): Promise<CompanyDocument> {
+    const company = await this.findRaw(id);
+    if (!company.invitations.some((i) => i.user.toString() === userId)) {
+      throw new NotFoundException('No pending invitation for this account');
+    }
+
+    const recruiter = await this.userModel.findById(userId).exec();
+    if (!recruiter) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    if (recruiter.company) {
+      throw new ConflictException('You already belong to a company');
+    }
+    if (getEffectiveRole(recruiter) === Role.STUDENT) {
+      throw new ForbiddenException(
+        'Your account must be approved as an organization before joining a company, send an organization request first',
+      );
+    }
+
+    company.invitations = company.invitations.filter(
+      (i) => i.user.toString() !== userId,
+    );
+    company.recruiters.push(recruiter._id);
+    const saved = await company.save();
+
+    recruiter.company = company._id;
+    await recruiter.save();
+    await this.linkOffersOf(recruiter._id, saved);
+
+    return saved;
+  }
+
+  /** The invited account declines, or the owner withdraws the invitation */
+  async removeInvitation(
+    id: string,
+    userId: string,
+    invitedUserId: string,
+  ): Promise<CompanyDocument> {
+    const company = await this.findRaw(id);
+    if (company.owner.toString() !== userId && userId !== invitedUserId) {
+      throw new ForbiddenException(
+        'Only the company owner can withdraw invitations',
+      );
+    }
+    if (!company.invitations.some((i) => i.user.toString() === invitedUserId)) {
+      throw new NotFoundException('No pending invitation for this account');
+    }
+
+    company.invitations = company.invitations.filter(
+      (i) => i.user.toString() !== invitedUserId,
+    );
+    return company.save();
+  }
+
+  /** The owner removes a recruiter, or a recruiter leaves the company */
+  async removeRecruiter(
+    id: string,
+    userId: string,
+    recruiterId: string,
+  ): Promise<CompanyDocument> {
+    const company = await this.findRaw(id);
+    const isOwner = company.owner.toString() === userId;
+    if (!isOwner && userId !== recruiterId) {
+      throw new ForbiddenException(
+        'Only the company owner can remove recruiters',
+      );
+    }
+    if (company.owner.toString() === recruiterId) {
+      throw new BadRequestException('The owner cannot leave the company');
+    }
+    if (!company.recruiters.some((r) => r.toString() === recruiterId)) {
+      throw new NotFoundException(
+        'This user is not a recruiter of the company',
+      );
+    }
+
+    company.recruiters = company.recruiters.filter(
+      (r) => r.toString() !== recruiterId,
+    );
+    const saved = await company.save();
+
+    const recruiter = await this.userModel.findById(recruiterId).exec();
+    if (recruiter) {
+      recruiter.company = null;
+      await recruiter.save();
+    }
+
+    return saved;
+  }
+
+  async requestVerification(
+    id: string,
+    ownerId: string,
+    details?: string,
+  ): Promise<CompanyDocument> {
+    const company = await this.getForOwner(id, ownerId);
+    if (company.verificationStatus === CompanyVerificationStatus.VERIFIED) {
+      throw new ConflictException('This company is already verified');
+    }
+    if (company.verificationStatus === CompanyVerificationStatus.PENDING) {
+      throw new ConflictException('A verification request is already pending');
+    }
+
+    company.verificationStatus = CompanyVerificationStatus.PENDING;
+    company.verificationDetails = details;
+    company.verificationRequestedAt = new Date();
+    company.verificationNote = undefined;
+    return company.save();
+  }
+
+  async findByVerificationStatus(
+    status: CompanyVerificationStatus = CompanyVerificationStatus.PENDING,
+  ): Promise<CompanyDocument[]> {
+    return this.companyModel
+      .find({ verificationStatus: status })
+      .populate('owner', 'nom email contact TrustXP')
+      .sort({ verificationRequestedAt: 1 })
+      .exec();
+  }
+
+  async reviewVerification(
+    id: string,
+    reviewerId: string,
+    approved: boolean,
+    note?: string,
+  ): Promise<CompanyDocument> {
+    const company = await this.findRaw(id);
+    if (company.verificationStatus !== CompanyVerificationStatus.PENDING) {
+      throw new BadRequestException(
+        'This company has no pending verification request',
+      );
+    }
+
+    company.verificationStatus = approved
+      ? CompanyVerificationStatus.VERIFIED
+      : CompanyVerificationStatus.REJECTED;
+    company.isVerified = approved;
+    company.verifiedBy = new Types.ObjectId(reviewerId);
+    company.verifiedAt = new Date();
+    company.verificationNote = note;
+    const saved = await company.save();
+
+    await this.notificationService.notify({
+      recipient: saved.owner,
+      type: NotificationType.COMPANY_VERIFICATION,
+      title: approved ? 'Company verified' : 'Company verification rejected',
+      body: approved
+        ? `${saved.name} now shows a verified badge on its offers`
+        : note || `The verification of ${saved.name} was not approved`,
+      data: {
+        companyId: saved._id.toString(),
+        status: saved.verificationStatus,
+      },
+    });
+
+    return saved;
+  }
+
+  private async findRaw(id: string): Promise<CompanyDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Invalid company ID');
+    }
+    const company = await this.companyModel.findById(id).exec();
+    if (!company) {
+      throw new NotFoundException(`Company with ID ${id} not found`);
+    }
+    return company;
+  }
+
+  private async getForRecruiter(
+    id: string,
+    userId: string,
+  ): Promise<CompanyDocument> {
+    const company = await this.findRaw(id);
+    if (!company.recruiters.some((r) => r.toString() === userId)) {
+      throw new ForbiddenException('You are not a recruiter of this company');
+    }
+    return company;
+  }
+
+  private async getForOwner(
+    id: string,
+    userId: string,
+  ): Promise<CompanyDocument> {
+    const company = await this.findRaw(id);
+    if (company.owner.toString() !== userId) {
+      throw new ForbiddenException(
+        'Only the company owner can perform this action',
+      );
+    }
+    return company;
+  }
+
+  private async ensureSlugAvailable(
+    name: string,
+    currentId?: Types.ObjectId,
+  ): Promise<string> {
+    const slug = toCompanySlug(name);
+    if (!slug) {
+      throw new BadRequestException(
+        'Company name must contain letters or digits',
+      );
+    }
+
+    const existing = await this.companyModel.findOne({ slug }).exec();
+    if (existing && !(currentId && existing._id.equals(currentId))) {
+      throw new ConflictException(
+        `${existing.name} already exists, ask its owner to invite you as a recruiter`,
+      );
+    }
+    return slug;
+  }
+
+  /** Attaches the offers the user published before joining the company */
+  private async linkOffersOf(userId: Types.ObjectId, company: CompanyDocument) {
+    await this.syncOffers({ createdBy: userId, companyProfile: null }, company);
+  }
+
+  /** Copies the company name on offers, the search index includes it */
+  private async syncOffers(
+    filter: FilterQuery<OffreDocument>,
+    company: CompanyDocument,
+  ) {
+    const offers = await this.offreModel
+      .find(filter)
+      .select('title description tags exigences category')
+      .exec();
+    if (offers.length === 0) {
+      return;
+    }
+
+    await this.offreModel.bulkWrite(
+      offers.map((offer) => ({
+        updateOne: {
+          filter: { _id: offer._id },
+          update: {
+            $set: {
+              companyProfile: company._id,
+              company: company.name,
+              searchIndex: buildSearchIndex({
+                ...offer.toObject(),
+                company: company.name,
+              }),
+            },
+          },
+        },
+      })),
+    );
+  }
+}
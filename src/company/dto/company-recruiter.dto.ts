@@ -0,0 +1,11 @@
+import { IsEmail } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class InviteRecruiterDto {
+  @ApiProperty({
+    example: 'recruiter@techcorp.tn',
+    description: 'Email of an existing account',
+  })
+  @IsEmail()
+  email: string;
+}
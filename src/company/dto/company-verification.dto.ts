@@ -0,0 +1,26 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RequestCompanyVerificationDto {
+  @ApiProperty({
+    example: 'Registre de commerce B123456',
+    description: 'Information that lets an admin check the company',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  details?: string;
+}
+
+export class ReviewCompanyVerificationDto {
+  @ApiProperty({
+    example: 'Document unreadable',
+    description: 'Note sent to the company owner',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
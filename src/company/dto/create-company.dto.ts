@@ -0,0 +1,55 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+class CompanyAddressDto {
+  @ApiProperty({ example: '12 Rue de Marseille', required: false })
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @ApiProperty({ example: 'Tunis', required: false })
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @ApiProperty({ example: 'Tunisie', required: false })
+  @IsOptional()
+  @IsString()
+  country?: string;
+}
+
+export class CreateCompanyDto {
+  @ApiProperty({ example: 'Tech Corp' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    example: 'We build software for restaurants',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @ApiProperty({ example: 'https://techcorp.tn', required: false })
+  @IsOptional()
+  @IsUrl()
+  website?: string;
+
+  @ApiProperty({ type: CompanyAddressDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CompanyAddressDto)
+  address?: CompanyAddressDto;
+}
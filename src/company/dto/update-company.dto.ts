@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateCompanyDto } from './create-company.dto';
+
+export class UpdateCompanyDto extends PartialType(CreateCompanyDto) {}
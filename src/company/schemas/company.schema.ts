@@ -0,0 +1,150 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type CompanyDocument = HydratedDocument<Company>;
+
+@Schema({ _id: false, versionKey: false })
+export class RecruiterInvitation {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439012' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  invitedBy: Types.ObjectId;
+
+  @ApiProperty({ example: new Date() })
+  @Prop({ type: Date, default: Date.now })
+  invitedAt: Date;
+}
+
+export const RecruiterInvitationSchema =
+  SchemaFactory.createForClass(RecruiterInvitation);
+
+export enum CompanyVerificationStatus {
+  UNVERIFIED = 'unverified',
+  PENDING = 'pending',
+  VERIFIED = 'verified',
+  REJECTED = 'rejected',
+}
+
+@Schema({ timestamps: true, versionKey: false })
+export class Company {
+  @ApiProperty({ example: 'Tech Corp', description: 'Display name' })
+  @Prop({ type: String, required: true, trim: true })
+  name: string;
+
+  // Lowercased name without accents or punctuation, used to detect duplicates
+  @ApiProperty({ example: 'tech-corp' })
+  @Prop({ type: String, required: true, unique: true })
+  slug: string;
+
+  @ApiProperty({
+    example: 'uploads/companies/company-1700000000000.png',
+    required: false,
+  })
+  @Prop({ type: String })
+  logo?: string;
+
+  @ApiProperty({
+    example: 'We build software for restaurants',
+    required: false,
+  })
+  @Prop({ type: String, trim: true })
+  description?: string;
+
+  @ApiProperty({ example: 'https://techcorp.tn', required: false })
+  @Prop({ type: String, trim: true })
+  website?: string;
+
+  @ApiProperty({
+    example: {
+      address: '12 Rue de Marseille',
+      city: 'Tunis',
+      country: 'Tunisie',
+    },
+    required: false,
+  })
+  @Prop({
+    type: {
+      address: { type: String, trim: true },
+      city: { type: String, trim: true },
+      country: { type: String, trim: true },
+    },
+    required: false,
+  })
+  address?: {
+    address?: string;
+    city?: string;
+    country?: string;
+  };
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User who created the company and manages its recruiters',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  owner: Types.ObjectId;
+
+  @ApiProperty({
+    example: ['507f1f77bcf86cd799439011'],
+    description:
+      'Accounts allowed to publish offers for the company, owner included',
+  })
+  @Prop([{ type: Types.ObjectId, ref: 'User' }])
+  recruiters: Types.ObjectId[];
+
+  @ApiProperty({
+    type: [RecruiterInvitation],
+    description: 'Accounts invited by the owner that have not answered yet',
+  })
+  @Prop({ type: [RecruiterInvitationSchema], default: [] })
+  invitations: RecruiterInvitation[];
+
+  @ApiProperty({
+    enum: CompanyVerificationStatus,
+    example: CompanyVerificationStatus.UNVERIFIED,
+  })
+  @Prop({
+    type: String,
+    enum: CompanyVerificationStatus,
+    default: CompanyVerificationStatus.UNVERIFIED,
+  })
+  verificationStatus: CompanyVerificationStatus;
+
+  // Denormalized from verificationStatus so offers can populate the badge cheaply
+  @ApiProperty({ example: false, description: 'Verified badge' })
+  @Prop({ type: Boolean, default: false })
+  isVerified: boolean;
+
+  @ApiProperty({
+    example: 'Registre de commerce B123456',
+    description: 'Information given by the owner to support the verification',
+    required: false,
+  })
+  @Prop({ type: String, trim: true })
+  verificationDetails?: string;
+
+  @ApiProperty({ example: new Date(), required: false })
+  @Prop({ type: Date })
+  verificationRequestedAt?: Date;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439012', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  verifiedBy?: Types.ObjectId;
+
+  @ApiProperty({ example: new Date(), required: false })
+  @Prop({ type: Date })
+  verifiedAt?: Date;
+
+  @ApiProperty({ example: 'Document unreadable', required: false })
+  @Prop({ type: String, trim: true })
+  verificationNote?: string;
+}
+
+export const CompanySchema = SchemaFactory.createForClass(Company);
+
+CompanySchema.index({ recruiters: 1 });
+CompanySchema.index({ 'invitations.user': 1 });
+CompanySchema.index({ verificationStatus: 1, verificationRequestedAt: 1 });
@@ -2,14 +2,21 @@ import { Module } from '@nestjs/common';
 import { DisponibiliteService } from './disponibilite.service';
 import { DisponibiliteController } from './disponibilite.controller';
 import { MongooseModule } from '@nestjs/mongoose';
-import { Disponibilite, DisponibiliteSchema } from './schemas/disponibilite.schema';
+import {
+  Disponibilite,
+  DisponibiliteSchema,
+} from './schemas/disponibilite.schema';
+import { AiMatchingModule } from '../ai-matching/ai-matching.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Disponibilite.name, schema: DisponibiliteSchema }])
+    MongooseModule.forFeature([
+      { name: Disponibilite.name, schema: DisponibiliteSchema },
+    ]),
+    AiMatchingModule,
   ],
   controllers: [DisponibiliteController],
   providers: [DisponibiliteService],
-  exports: [DisponibiliteService]
+  exports: [DisponibiliteService],
 })
-export class DisponibiliteModule {}
\ No newline at end of file
+export class DisponibiliteModule {}
@@ -1,17 +1,32 @@
-import { Injectable, NotFoundException, ForbiddenException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Disponibilite, DisponibiliteDocument, JourSemaine } from './schemas/disponibilite.schema';
+import {
+  Disponibilite,
+  DisponibiliteDocument,
+  JourSemaine,
+} from './schemas/disponibilite.schema';
 import { CreateDisponibiliteDto } from './dto/create-disponibilite.dto';
 import { UpdateDisponibiliteDto } from './dto/update-disponibilite.dto';
+import { MatchIndexService } from '../ai-matching/match-index.service';
 
 @Injectable()
 export class DisponibiliteService {
   constructor(
-    @InjectModel(Disponibilite.name) private disponibiliteModel: Model<DisponibiliteDocument>,
+    @InjectModel(Disponibilite.name)
+    private disponibiliteModel: Model<DisponibiliteDocument>,
+    private readonly matchIndexService: MatchIndexService,
   ) {}
 
-  async create(createDisponibiliteDto: CreateDisponibiliteDto, userId: string): Promise<DisponibiliteDocument> {
+  async create(
+    createDisponibiliteDto: CreateDisponibiliteDto,
+    userId: string,
+  ): Promise<DisponibiliteDocument> {
     // Check if availability already exists for this day and user
     const existingDisponibilite = await this.disponibiliteModel.findOne({
       userId: new Types.ObjectId(userId),
@@ -26,23 +41,25 @@ export class DisponibiliteService {
       ...createDisponibiliteDto,
       userId: new Types.ObjectId(userId),
     });
-    
-    return createdDisponibilite.save();
+
+    const saved = await createdDisponibilite.save();
+    this.matchIndexService.markStale(userId);
+    return saved;
   }
 
   async findAllByUser(userId: string): Promise<Disponibilite[]> {
     return this.disponibiliteModel
       .find({ userId: new Types.ObjectId(userId) })
-      .sort({ 
+      .sort({
         jour: 1,
-        heureDebut: 1 
+        heureDebut: 1,
       })
       .exec();
   }
 
   async findOne(id: string, userId: string): Promise<DisponibiliteDocument> {
     const disponibilite = await this.disponibiliteModel.findById(id).exec();
-    
+
     if (!disponibilite) {
       throw new NotFoundException(`Disponibilité avec ID ${id} non trouvée`);
     }
@@ -55,9 +72,13 @@ export class DisponibiliteService {
     return disponibilite;
   }
 
-  async update(id: string, updateDisponibiliteDto: UpdateDisponibiliteDto, userId: string): Promise<DisponibiliteDocument> {
+  async update(
+    id: string,
+    updateDisponibiliteDto: UpdateDisponibiliteDto,
+    userId: string,
+  ): Promise<DisponibiliteDocument> {
     const disponibilite = await this.disponibiliteModel.findById(id).exec();
-    
+
     if (!disponibilite) {
       throw new NotFoundException(`Disponibilité avec ID ${id} non trouvée`);
     }
@@ -72,15 +93,18 @@ export class DisponibiliteService {
       .exec();
 
     if (!updatedDisponibilite) {
-      throw new NotFoundException(`Disponibilité avec ID ${id} non trouvée après mise à jour`);
+      throw new NotFoundException(
+        `Disponibilité avec ID ${id} non trouvée après mise à jour`,
+      );
     }
 
+    this.matchIndexService.markStale(userId);
     return updatedDisponibilite;
   }
 
   async remove(id: string, userId: string): Promise<DisponibiliteDocument> {
     const disponibilite = await this.disponibiliteModel.findById(id).exec();
-    
+
     if (!disponibilite) {
       throw new NotFoundException(`Disponibilité avec ID ${id} non trouvée`);
     }
@@ -90,16 +114,24 @@ export class DisponibiliteService {
       throw new ForbiddenException('Accès non autorisé à cette disponibilité');
     }
 
-    const deletedDisponibilite = await this.disponibiliteModel.findByIdAndDelete(id).exec();
-    
+    const deletedDisponibilite = await this.disponibiliteModel
+      .findByIdAndDelete(id)
+      .exec();
+
     if (!deletedDisponibilite) {
-      throw new NotFoundException(`Disponibilité avec ID ${id} non trouvée après suppression`);
+      throw new NotFoundException(
+        `Disponibilité avec ID ${id} non trouvée après suppression`,
+      );
     }
 
+    this.matchIndexService.markStale(userId);
     return deletedDisponibilite;
   }
 
-  async findByJour(userId: string, jour: JourSemaine): Promise<Disponibilite[]> {
+  async findByJour(
+    userId: string,
+    jour: JourSemaine,
+  ): Promise<Disponibilite[]> {
     return this.disponibiliteModel
       .find({
         userId: new Types.ObjectId(userId),
@@ -113,7 +145,8 @@ export class DisponibiliteService {
     const result = await this.disponibiliteModel
       .deleteMany({ userId: new Types.ObjectId(userId) })
       .exec();
-    
+
+    this.matchIndexService.markStale(userId);
     return { deletedCount: result.deletedCount };
   }
-}
\ No newline at end of file
+}
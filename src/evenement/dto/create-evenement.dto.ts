@@ -1,19 +1,34 @@
-import { IsString, IsNotEmpty, IsEnum, IsDateString, IsOptional, IsNumber, Min } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsDateString,
+  IsOptional,
+  IsNumber,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { EventType } from '../schemas/evenement.schema';
+import { RecurrenceRuleDto } from './recurrence-rule.dto';
 
 export class CreateEvenementDto {
-  @ApiProperty({ description: 'Nom de l\'événement', example: 'Cours Math' })
+  @ApiProperty({ description: "Nom de l'événement", example: 'Cours Math' })
   @IsNotEmpty()
   @IsString()
   titre: string;
 
-  @ApiProperty({ description: 'Type d\'événement', enum: EventType, example: EventType.COURS })
+  @ApiProperty({
+    description: "Type d'événement",
+    enum: EventType,
+    example: EventType.COURS,
+  })
   @IsNotEmpty()
   @IsEnum(EventType)
   type: EventType;
 
-  @ApiProperty({ description: 'Date de l\'événement', example: '2024-01-15' })
+  @ApiProperty({ description: "Date de l'événement", example: '2024-01-15' })
   @IsNotEmpty()
   @IsDateString()
   date: string;
@@ -33,14 +48,32 @@ export class CreateEvenementDto {
   @IsString()
   lieu?: string;
 
-  @ApiProperty({ description: 'Tarif horaire (pour les jobs)', example: 20.5, required: false })
+  @ApiProperty({
+    description: 'Tarif horaire (pour les jobs)',
+    example: 20.5,
+    required: false,
+  })
   @IsOptional()
   @IsNumber()
   @Min(0)
   tarifHoraire?: number;
 
-  @ApiProperty({ description: 'Couleur pour affichage', example: '#FF5733', required: false })
+  @ApiProperty({
+    description: 'Couleur pour affichage',
+    example: '#FF5733',
+    required: false,
+  })
   @IsOptional()
   @IsString()
   couleur?: string;
-}
\ No newline at end of file
+
+  @ApiProperty({
+    description: "Répéter l'événement à partir de sa date",
+    type: RecurrenceRuleDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDto)
+  recurrence?: RecurrenceRuleDto;
+}
@@ -0,0 +1,66 @@
+import {
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { JourSemaine } from '../../disponibilite/schemas/disponibilite.schema';
+import { MAX_OCCURRENCES, RecurrenceFrequence } from '../evenement-recurrence';
+
+export class RecurrenceRuleDto {
+  @ApiProperty({
+    description: 'Fréquence de répétition',
+    enum: RecurrenceFrequence,
+    example: RecurrenceFrequence.HEBDOMADAIRE,
+  })
+  @IsEnum(RecurrenceFrequence)
+  frequence: RecurrenceFrequence;
+
+  @ApiProperty({
+    description: 'Tous les n jours ou toutes les n semaines',
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(52)
+  intervalle?: number;
+
+  @ApiProperty({
+    description:
+      'Jours de la semaine (hebdomadaire), le jour de la première occurrence par défaut',
+    enum: JourSemaine,
+    isArray: true,
+    example: [JourSemaine.LUNDI, JourSemaine.JEUDI],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(JourSemaine, { each: true })
+  jours?: JourSemaine[];
+
+  @ApiProperty({
+    description: 'Dernier jour de la série, inclus',
+    example: '2024-06-30',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  jusqua?: string;
+
+  @ApiProperty({
+    description: "Nombre total d'occurrences",
+    example: 12,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_OCCURRENCES)
+  occurrences?: number;
+}
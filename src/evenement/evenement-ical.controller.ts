@@ -0,0 +1,136 @@
+import {
+  BadRequestException,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  Param,
+  Post,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { EvenementService } from './evenement.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
+
+const ICS_MAX_SIZE = 2 * 1024 * 1024;
+
+@ApiTags('evenements')
+@Controller('evenements/ical')
+export class EvenementIcalController {
+  constructor(private readonly evenementService: EvenementService) {}
+
+  @Get('export')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="evenements.ics"')
+  @ApiOperation({
+    summary: 'Exporter les événements au format iCalendar (.ics)',
+  })
+  @ApiProduces('text/calendar')
+  @ApiResponse({
+    status: 200,
+    description: 'Fichier .ics de tous les événements',
+  })
+  async export(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.evenementService.exportIcal(userId);
+  }
+
+  @Post('feed-token')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Générer un lien d'abonnement privé",
+    description:
+      'Lien à ajouter dans Google Agenda, Outlook ou Calendrier Apple. Un nouveau lien remplace le précédent',
+  })
+  @ApiResponse({ status: 201, description: 'URL du flux privé' })
+  async rotateFeedToken(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.evenementService.rotateFeedToken(userId);
+  }
+
+  @Delete('feed-token')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Désactiver le lien d'abonnement privé" })
+  @ApiResponse({ status: 200, description: 'Lien désactivé' })
+  async revokeFeedToken(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.evenementService.revokeFeedToken(userId);
+  }
+
+  @Get('feed/:token')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Cache-Control', 'private, max-age=900')
+  @ApiOperation({
+    summary: 'Flux iCalendar privé',
+    description: "Sans authentification, le jeton du lien fait office d'accès",
+  })
+  @ApiProduces('text/calendar')
+  @ApiResponse({
+    status: 200,
+    description: 'Fichier .ics de tous les événements',
+  })
+  @ApiResponse({ status: 404, description: 'Lien invalide ou désactivé' })
+  async feed(@Param('token') token: string) {
+    // Les applications d'agenda préfèrent une URL terminée par .ics
+    return this.evenementService.exportFeed(token.replace(/\.ics$/i, ''));
+  }
+
+  @Post('import')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: ICS_MAX_SIZE } }),
+  )
+  @ApiOperation({
+    summary: 'Importer un fichier iCalendar (.ics)',
+    description:
+      'Les événements déjà importés (même UID) sont mis à jour. Les catégories déterminent le type : cours, job ou deadline',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+      required: ['file'],
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: "Nombre d'événements créés, mis à jour et ignorés",
+  })
+  @ApiResponse({ status: 400, description: 'Fichier manquant ou invalide' })
+  async import(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Aucun fichier fourni');
+    }
+    const content = file.buffer.toString('utf-8');
+    if (!content.includes('BEGIN:VCALENDAR')) {
+      throw new BadRequestException(
+        "Le fichier n'est pas un calendrier iCalendar valide",
+      );
+    }
+
+    const userId = user._id.toString();
+    return this.evenementService.importIcal(userId, content);
+  }
+}
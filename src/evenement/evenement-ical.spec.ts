@@ -0,0 +1,261 @@
+import { Types } from 'mongoose';
+import {
+  idFromUid,
+  parseCalendar,
+  parseRecurrenceRule,
+  serializeCalendar,
+  uidOf,
+} from './evenement-ical';
+import { Evenement, EventType } from './schemas/evenement.schema';
+import {
+  RecurrenceFrequence,
+  normalizeRecurrence,
+  parseDay,
+} from './evenement-recurrence';
+import { JourSemaine } from '../disponibilite/schemas/disponibilite.schema';
+
+type ExportedEvenement = Evenement & { _id: Types.ObjectId };
+
+function evenement(values: Partial<ExportedEvenement>): ExportedEvenement {
+  return {
+    _id: new Types.ObjectId(),
+    userId: new Types.ObjectId(),
+    type: EventType.COURS,
+    heureDebut: '18:00',
+    heureFin: '20:00',
+    exceptions: [],
+    updatedAt: new Date('2025-03-01T08:00:00Z'),
+    ...values,
+  } as ExportedEvenement;
+}
+
+const calendar = (...events: string[][]) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+describe('evenement-ical', () => {
+  const serie = evenement({
+    titre: 'Cours, TD; groupe 2',
+    lieu: 'Salle A\nBât. B',
+    date: parseDay('2025-03-03'),
+    recurrence: normalizeRecurrence(
+      {
+        frequence: RecurrenceFrequence.HEBDOMADAIRE,
+        jours: [JourSemaine.LUNDI, JourSemaine.MERCREDI],
+        occurrences: 10,
+      },
+      parseDay('2025-03-03'),
+    ),
+    exceptions: ['2025-03-12', '2025-03-19'],
+  });
+  const override = evenement({
+    titre: 'Cours, TD; groupe 2',
+    lieu: 'Salle B',
+    date: parseDay('2025-03-19'),
+    heureDebut: '19:00',
+    heureFin: '21:00',
+    serieId: serie._id,
+    occurrenceDate: '2025-03-19',
+  });
+  const nightShift = evenement({
+    titre: 'Service de nuit',
+    type: EventType.JOB,
+    date: parseDay('2025-03-08'),
+    heureDebut: '22:00',
+    heureFin: '02:00',
+  });
+
+  describe('UIDs', () => {
+    it('gives back the event ID from our own UIDs', () => {
+      expect(idFromUid(uidOf(serie))).toBe(serie._id.toString());
+      expect(idFromUid(uidOf(serie).toUpperCase())).toBe(serie._id.toString());
+    });
+
+    it('keeps imported UIDs and ignores foreign ones', () => {
+      const imported = evenement({ icalUid: 'abc123@google.com' });
+
+      expect(uidOf(imported)).toBe('abc123@google.com');
+      expect(idFromUid('abc123@google.com')).toBeNull();
+      expect(idFromUid(`${serie._id.toString()}@example.com`)).toBeNull();
+    });
+  });
+
+  describe('serializeCalendar', () => {
+    const ics = serializeCalendar([serie, override, nightShift]);
+
+    it('writes CRLF lines folded at 75 bytes', () => {
+      const long = serializeCalendar([
+        evenement({
+          titre: 'مراجعة '.repeat(20),
+          date: parseDay('2025-03-03'),
+        }),
+      ]);
+
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      for (const line of long.split('\r\n')) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      }
+      expect(parseCalendar(long)[0].titre).toBe('مراجعة '.repeat(20).trim());
+    });
+
+    it('exports moved occurrences with RECURRENCE-ID instead of EXDATE', () => {
+      expect(ics).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10');
+      expect(ics).toContain('EXDATE:20250312T180000\r\n');
+      expect(ics).toContain('RECURRENCE-ID:20250319T180000');
+      expect(ics.match(new RegExp(`UID:${uidOf(serie)}`, 'g'))).toHaveLength(2);
+    });
+
+    it('ends a night slot on the next day', () => {
+      expect(ics).toContain('DTSTART:20250308T220000\r\nDTEND:20250309T020000');
+    });
+  });
+
+  describe('round-trip', () => {
+    it('reads back what it exports', () => {
+      const [parsedSerie, parsedOverride, parsedNight] = parseCalendar(
+        serializeCalendar([serie, override, nightShift]),
+      );
+
+      expect(parsedSerie).toEqual({
+        uid: uidOf(serie),
+        titre: 'Cours, TD; groupe 2',
+        type: EventType.COURS,
+        date: '2025-03-03',
+        heureDebut: '18:00',
+        heureFin: '20:00',
+        lieu: 'Salle A\nBât. B',
+        recurrence: {
+          frequence: RecurrenceFrequence.HEBDOMADAIRE,
+          intervalle: 1,
+          jours: [JourSemaine.LUNDI, JourSemaine.MERCREDI],
+          jusqua: null,
+          occurrences: 10,
+        },
+        exceptions: ['2025-03-12'],
+        cancelled: false,
+      });
+      expect(parsedOverride).toMatchObject({
+        uid: uidOf(serie),
+        recurrenceId: '2025-03-19',
+        date: '2025-03-19',
+        heureDebut: '19:00',
+        lieu: 'Salle B',
+      });
+      expect(parsedNight).toMatchObject({
+        type: EventType.JOB,
+        heureDebut: '22:00',
+        heureFin: '02:00',
+      });
+    });
+
+    it('keeps the rule limit and interval', () => {
+      const rule = normalizeRecurrence(
+        {
+          frequence: RecurrenceFrequence.QUOTIDIENNE,
+          intervalle: 2,
+          jusqua: '2025-03-31',
+        },
+        parseDay('2025-03-03'),
+      );
+      const [parsed] = parseCalendar(
+        serializeCalendar([
+          evenement({
+            titre: 'Révisions',
+            date: parseDay('2025-03-03'),
+            recurrence: rule,
+          }),
+        ]),
+      );
+
+      expect(
+        normalizeRecurrence(parsed.recurrence!, parseDay(parsed.date)),
+      ).toEqual(rule);
+    });
+  });
+
+  describe('parseCalendar', () => {
+    it('converts UTC and zoned times to the application time zone', () => {
+      const [utc, zoned] = parseCalendar(
+        calendar(
+          ['UID:a', 'DTSTART:20250303T170000Z', 'DTEND:20250303T190000Z'],
+          [
+            'UID:b',
+            'DTSTART;TZID=Europe/Paris:20250701T180000',
+            'DURATION:PT1H30M',
+          ],
+        ),
+        'Africa/Tunis',
+      );
+
+      expect(utc).toMatchObject({ heureDebut: '18:00', heureFin: '20:00' });
+      expect(zoned).toMatchObject({ heureDebut: '17:00', heureFin: '18:30' });
+    });
+
+    it('reads all-day events, alarms and cancelled occurrences', () => {
+      const [event] = parseCalendar(
+        calendar([
+          'UID:c',
+          'DTSTART;VALUE=DATE:20250310',
+          'SUMMARY:Rendu du projet',
+          'CATEGORIES:Examen',
+          'BEGIN:VALARM',
+          'SUMMARY:Rappel',
+          'END:VALARM',
+          'RECURRENCE-ID;VALUE=DATE:20250310',
+          'STATUS:CANCELLED',
+        ]),
+      );
+
+      expect(event).toMatchObject({
+        titre: 'Rendu du projet',
+        type: EventType.DEADLINE,
+        heureDebut: '00:00',
+        heureFin: '23:59',
+        recurrenceId: '2025-03-10',
+        cancelled: true,
+      });
+    });
+
+    it('skips events without UID or start', () => {
+      expect(
+        parseCalendar(
+          calendar(['SUMMARY:Sans UID', 'DTSTART:20250303T090000']),
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe('parseRecurrenceRule', () => {
+    it('turns weekdays-only daily rules into weekly ones', () => {
+      expect(
+        parseRecurrenceRule(
+          'RRULE:FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20250331T235959Z',
+        ),
+      ).toEqual({
+        rule: {
+          frequence: RecurrenceFrequence.HEBDOMADAIRE,
+          intervalle: 1,
+          jours: [
+            JourSemaine.LUNDI,
+            JourSemaine.MARDI,
+            JourSemaine.MERCREDI,
+            JourSemaine.JEUDI,
+            JourSemaine.VENDREDI,
+          ],
+          jusqua: '2025-03-31',
+          occurrences: null,
+        },
+      });
+    });
+
+    it('reports the rules it cannot represent', () => {
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1')).toEqual({
+        unsupported: 'MONTHLY',
+      });
+    });
+  });
+});
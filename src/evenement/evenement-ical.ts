@@ -0,0 +1,534 @@
+import { EventType } from './schemas/evenement.schema';
+import type { Evenement } from './schemas/evenement.schema';
+import { JourSemaine } from '../disponibilite/schemas/disponibilite.schema';
+import {
+  RecurrenceFrequence,
+  addDays,
+  parseDay,
+  toDayString,
+} from './evenement-recurrence';
+import type {
+  RecurrenceRule,
+  RecurrenceRuleInput,
+} from './evenement-recurrence';
+
+export const ICAL_PRODID = '-//Talleb 5edma//Evenements//FR';
+const UID_DOMAIN = 'talleb5edma';
+
+const JOURS_BY_CODE: Record<string, JourSemaine> = {
+  SU: JourSemaine.DIMANCHE,
+  MO: JourSemaine.LUNDI,
+  TU: JourSemaine.MARDI,
+  WE: JourSemaine.MERCREDI,
+  TH: JourSemaine.JEUDI,
+  FR: JourSemaine.VENDREDI,
+  SA: JourSemaine.SAMEDI,
+};
+const CODES_BY_JOUR = Object.fromEntries(
+  Object.entries(JOURS_BY_CODE).map(([code, jour]) => [jour, code]),
+) as Record<JourSemaine, string>;
+
+// Mots-clés de CATEGORIES reconnus pour chaque type d'événement
+const CATEGORY_KEYWORDS: [EventType, string[]][] = [
+  [
+    EventType.DEADLINE,
+    ['deadline', 'echeance', 'exam', 'examen', 'due', 'devoir', 'rendu'],
+  ],
+  [EventType.JOB, ['job', 'work', 'travail', 'shift', 'emploi', 'mission']],
+  [
+    EventType.COURS,
+    ['cours', 'course', 'class', 'lecture', 'td', 'tp', 'seminaire'],
+  ],
+];
+
+export interface ParsedIcalEvent {
+  uid: string;
+  titre: string;
+  type: EventType;
+  date: string;
+  heureDebut: string;
+  heureFin: string;
+  lieu?: string;
+  recurrence?: RecurrenceRuleInput;
+  // Règle présente mais non prise en charge (mensuelle, annuelle...)
+  unsupportedRule?: string;
+  exceptions: string[];
+  // Jour d'origine de l'occurrence quand l'événement en remplace une
+  recurrenceId?: string;
+  cancelled: boolean;
+}
+
+interface IcalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcalDateTime {
+  date: string;
+  time: string | null;
+}
+
+type SerializableEvenement = Evenement & { _id: unknown };
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const compactDay = (day: string) => day.replace(/-/g, '');
+
+const compactTime = (time: string) => `${time.replace(':', '')}00`;
+
+const utcStamp = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+/** Coupe les lignes à 75 octets, comme le demande la RFC 5545 */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Les lignes de continuation commencent par une espace
+    if (bytes + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function uidOf(evenement: SerializableEvenement): string {
+  return evenement.icalUid || `${String(evenement._id)}@${UID_DOMAIN}`;
+}
+
+/** ID de l'événement pour un UID produit par uidOf, null pour un UID externe */
+export function idFromUid(uid: string): string | null {
+  const match = new RegExp(`^([0-9a-f]{24})@${UID_DOMAIN}$`, 'i').exec(uid);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Valeur RRULE d'une règle. UNTIL est en heure flottante par défaut, en UTC
+ * quand le début de l'événement porte un fuseau horaire.
+ */
+export function formatRecurrenceRule(
+  rule: RecurrenceRule,
+  utcUntil = false,
+): string {
+  const parts = [
+    rule.frequence === RecurrenceFrequence.QUOTIDIENNE
+      ? 'FREQ=DAILY'
+      : 'FREQ=WEEKLY',
+  ];
+  if (rule.intervalle > 1) parts.push(`INTERVAL=${rule.intervalle}`);
+  if (rule.frequence === RecurrenceFrequence.HEBDOMADAIRE) {
+    parts.push(
+      `BYDAY=${rule.jours.map((jour) => CODES_BY_JOUR[jour]).join(',')}`,
+    );
+  }
+  if (rule.jusqua) {
+    parts.push(
+      `UNTIL=${compactDay(toDayString(rule.jusqua))}T235959${utcUntil ? 'Z' : ''}`,
+    );
+  }
+  if (rule.occurrences) parts.push(`COUNT=${rule.occurrences}`);
+  return parts.join(';');
+}
+
+/**
+ * Sérialise les événements en calendrier RFC 5545. Les heures sont
+ * exportées en heure locale flottante, comme elles sont saisies.
+ */
+export function serializeCalendar(
+  evenements: SerializableEvenement[],
+  name = 'Talleb 5edma',
+): string {
+  const series = new Map(
+    evenements
+      .filter((evenement) => evenement.recurrence)
+      .map((evenement) => [String(evenement._id), evenement]),
+  );
+  // Les occurrences remplacées sont exportées avec RECURRENCE-ID, pas en EXDATE
+  const overridden = new Set(
+    evenements
+      .filter((evenement) => evenement.serieId && evenement.occurrenceDate)
+      .map(
+        (evenement) =>
+          `${String(evenement.serieId)}|${evenement.occurrenceDate}`,
+      ),
+  );
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const evenement of evenements) {
+    const serie = evenement.serieId
+      ? series.get(String(evenement.serieId))
+      : undefined;
+    const day = toDayString(new Date(evenement.date));
+    // Un créneau de nuit se termine le lendemain
+    const endDay =
+      evenement.heureFin <= evenement.heureDebut
+        ? toDayString(addDays(parseDay(day), 1))
+        : day;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${serie ? uidOf(serie) : uidOf(evenement)}`,
+      `DTSTAMP:${utcStamp(evenement.updatedAt ?? new Date())}`,
+      `DTSTART:${compactDay(day)}T${compactTime(evenement.heureDebut)}`,
+      `DTEND:${compactDay(endDay)}T${compactTime(evenement.heureFin)}`,
+      `SUMMARY:${escapeText(evenement.titre)}`,
+      `CATEGORIES:${evenement.type.toUpperCase()}`,
+    );
+    if (evenement.lieu) {
+      lines.push(`LOCATION:${escapeText(evenement.lieu)}`);
+    }
+    if (serie && evenement.occurrenceDate) {
+      lines.push(
+        `RECURRENCE-ID:${compactDay(evenement.occurrenceDate)}T${compactTime(serie.heureDebut)}`,
+      );
+    }
+
+    const rule = evenement.recurrence;
+    if (rule) {
+      lines.push(`RRULE:${formatRecurrenceRule(rule)}`);
+
+      const exdates = (evenement.exceptions ?? []).filter(
+        (exception) => !overridden.has(`${String(evenement._id)}|${exception}`),
+      );
+      if (exdates.length) {
+        lines.push(
+          `EXDATE:${exdates
+            .map(
+              (exception) =>
+                `${compactDay(exception)}T${compactTime(evenement.heureDebut)}`,
+            )
+            .join(',')}`,
+        );
+      }
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function parseProperty(line: string): IcalProperty | null {
+  // Le premier deux-points hors guillemets sépare le nom de la valeur
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+/** Heure murale d'un instant dans un fuseau IANA */
+function wallClock(instant: number, timeZone: string): IcalDateTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(new Date(instant))
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+/** Instant correspondant à une heure murale dans un fuseau IANA */
+function zonedInstant(date: string, time: string, timeZone: string): number {
+  const asUtc = Date.parse(`${date}T${time}:00Z`);
+  const offsetAt = (instant: number) => {
+    const wall = wallClock(instant, timeZone);
+    return Date.parse(`${wall.date}T${wall.time}:00Z`) - instant;
+  };
+  // Deuxième passe pour les heures proches d'un changement d'heure
+  const first = asUtc - offsetAt(asUtc);
+  return asUtc - offsetAt(first);
+}
+
+/**
+ * Date seule ou date-heure. Une heure UTC (suffixe Z) ou rattachée à un
+ * autre fuseau (TZID, X-WR-TIMEZONE) est convertie dans le fuseau de
+ * l'application, une heure flottante est gardée telle quelle. Un fuseau
+ * inconnu laisse l'heure inchangée.
+ */
+function parseDateTime(
+  value: string,
+  sourceZone?: string,
+  targetZone?: string,
+): IcalDateTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(
+    value.trim(),
+  );
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (!hours) {
+    return { date, time: null };
+  }
+
+  const time = `${hours}:${minutes}`;
+  const from = utc ? 'UTC' : sourceZone;
+  const to = targetZone ?? (utc ? 'UTC' : undefined);
+  if (!from || !to || from === to) {
+    return { date, time };
+  }
+  try {
+    return wallClock(zonedInstant(date, time, from), to);
+  } catch {
+    return utc
+      ? wallClock(Date.parse(`${date}T${time}:00Z`), 'UTC')
+      : { date, time };
+  }
+}
+
+/** Durée RFC 5545 (P1DT2H30M) en minutes */
+function parseDurationMinutes(value: string): number | null {
+  const match =
+    /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim(),
+    );
+  if (!match) return null;
+  const [, weeks, days, hours, minutes] = match.map(
+    (part) => Number(part) || 0,
+  );
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+}
+
+function addMinutes(time: string, minutes: number): string {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59);
+  return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+}
+
+export function mapCategory(categories: string[]): EventType {
+  const normalized = categories.map((category) =>
+    category
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .trim(),
+  );
+  for (const [type, keywords] of CATEGORY_KEYWORDS) {
+    if (
+      normalized.some((category) =>
+        keywords.some(
+          (keyword) =>
+            category === keyword || category.split(/\W+/).includes(keyword),
+        ),
+      )
+    ) {
+      return type;
+    }
+  }
+  return EventType.COURS;
+}
+
+/** Accepte la valeur seule ou la ligne complète (RRULE:FREQ=...) */
+export function parseRecurrenceRule(value: string): {
+  rule?: RecurrenceRuleInput;
+  unsupported?: string;
+} {
+  const parts = Object.fromEntries(
+    value
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map((part) => {
+        const [key, ...rest] = part.split('=');
+        return [key.toUpperCase(), rest.join('=')];
+      }),
+  );
+  // Les préfixes numériques (1MO, -1FR) n'ont pas de sens en hebdomadaire
+  const jours = (parts.BYDAY || '')
+    .split(',')
+    .map((code) => JOURS_BY_CODE[code.replace(/^[+-]?\d+/, '').toUpperCase()])
+    .filter(Boolean);
+  const until = parts.UNTIL ? parseDateTime(parts.UNTIL) : null;
+  const base = {
+    intervalle: Number(parts.INTERVAL) || 1,
+    jusqua: until?.date ?? null,
+    occurrences: Number(parts.COUNT) || null,
+  };
+
+  if (parts.FREQ === 'WEEKLY') {
+    return {
+      rule: { ...base, frequence: RecurrenceFrequence.HEBDOMADAIRE, jours },
+    };
+  }
+  if (parts.FREQ === 'DAILY') {
+    // Tous les jours ouvrés, par exemple, devient une série hebdomadaire
+    return {
+      rule:
+        jours.length && base.intervalle === 1
+          ? { ...base, frequence: RecurrenceFrequence.HEBDOMADAIRE, jours }
+          : { ...base, frequence: RecurrenceFrequence.QUOTIDIENNE },
+    };
+  }
+  return { unsupported: parts.FREQ || value };
+}
+
+/**
+ * Lit les VEVENT d'un fichier .ics, les autres composants sont ignorés. Les
+ * heures sont ramenées dans le fuseau timeZone.
+ */
+export function parseCalendar(
+  content: string,
+  timeZone?: string,
+): ParsedIcalEvent[] {
+  const lines = content
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim());
+
+  const events: ParsedIcalEvent[] = [];
+  // Fuseau des heures flottantes du calendrier
+  let calendarZone: string | undefined;
+  let current: IcalProperty[] | null = null;
+  // Profondeur des sous-composants (VALARM) à l'intérieur d'un VEVENT
+  let nested = 0;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    const value = property.value.trim().toUpperCase();
+
+    if (property.name === 'BEGIN') {
+      if (value === 'VEVENT' && !current) {
+        current = [];
+      } else if (current) {
+        nested++;
+      }
+      continue;
+    }
+    if (property.name === 'END') {
+      if (current && nested > 0) {
+        nested--;
+      } else if (current && value === 'VEVENT') {
+        const event = toParsedEvent(current, {
+          calendar: calendarZone,
+          target: timeZone,
+        });
+        if (event) events.push(event);
+        current = null;
+      }
+      continue;
+    }
+    if (current && nested === 0) {
+      current.push(property);
+    } else if (!current && property.name === 'X-WR-TIMEZONE') {
+      calendarZone = property.value.trim() || undefined;
+    }
+  }
+
+  return events;
+}
+
+function toParsedEvent(
+  properties: IcalProperty[],
+  zones: { calendar?: string; target?: string },
+): ParsedIcalEvent | null {
+  const get = (name: string) => properties.find((p) => p.name === name);
+  const all = (name: string) => properties.filter((p) => p.name === name);
+  const readTime = (property: IcalProperty, value = property.value) =>
+    parseDateTime(value, property.params.TZID ?? zones.calendar, zones.target);
+
+  const uid = get('UID')?.value.trim();
+  const start = get('DTSTART') && readTime(get('DTSTART')!);
+  if (!uid || !start) return null;
+
+  const endProperty = get('DTEND') && readTime(get('DTEND')!);
+  const duration =
+    get('DURATION') && parseDurationMinutes(get('DURATION')!.value);
+
+  const heureDebut = start.time ?? '00:00';
+  let heureFin: string;
+  if (!start.time) {
+    // Événement sur la journée entière
+    heureFin = '23:59';
+  } else if (endProperty?.time) {
+    heureFin = endProperty.time;
+  } else if (duration) {
+    heureFin = addMinutes(heureDebut, duration);
+  } else {
+    heureFin = addMinutes(heureDebut, 60);
+  }
+  if (heureFin === heureDebut) {
+    heureFin = addMinutes(heureDebut, 60);
+  }
+
+  const rrule = get('RRULE') && parseRecurrenceRule(get('RRULE')!.value);
+  const recurrenceId = get('RECURRENCE-ID') && readTime(get('RECURRENCE-ID')!);
+  const categories = all('CATEGORIES').flatMap((p) =>
+    p.value.split(',').map(unescapeText),
+  );
+
+  return {
+    uid,
+    titre: unescapeText(get('SUMMARY')?.value.trim() || 'Sans titre'),
+    type: mapCategory(categories),
+    date: start.date,
+    heureDebut,
+    heureFin,
+    lieu: get('LOCATION')?.value.trim()
+      ? unescapeText(get('LOCATION')!.value.trim())
+      : undefined,
+    recurrence: rrule?.rule,
+    unsupportedRule: rrule?.unsupported,
+    exceptions: all('EXDATE')
+      .flatMap((p) => p.value.split(',').map((value) => readTime(p, value)))
+      .map((exdate) => exdate?.date)
+      .filter((date): date is string => !!date),
+    recurrenceId: recurrenceId?.date,
+    cancelled: get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+  };
+}
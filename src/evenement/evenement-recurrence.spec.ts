@@ -0,0 +1,161 @@
+import {
+  RecurrenceFrequence,
+  countOccurrencesBefore,
+  expandOccurrences,
+  isOccurrence,
+  normalizeRecurrence,
+  parseDay,
+} from './evenement-recurrence';
+import { JourSemaine } from '../disponibilite/schemas/disponibilite.schema';
+
+// Lundi
+const START = parseDay('2025-03-03');
+const MARCH = [parseDay('2025-03-01'), parseDay('2025-03-31')] as const;
+
+describe('evenement-recurrence', () => {
+  describe('normalizeRecurrence', () => {
+    it('defaults to every week on the day of the first occurrence', () => {
+      expect(
+        normalizeRecurrence(
+          { frequence: RecurrenceFrequence.HEBDOMADAIRE },
+          START,
+        ),
+      ).toEqual({
+        frequence: RecurrenceFrequence.HEBDOMADAIRE,
+        intervalle: 1,
+        jours: [JourSemaine.LUNDI],
+        jusqua: null,
+        occurrences: null,
+      });
+    });
+
+    it('keeps no days for a daily rule and cuts the limit to a day', () => {
+      const rule = normalizeRecurrence(
+        {
+          frequence: RecurrenceFrequence.QUOTIDIENNE,
+          intervalle: 2.7,
+          jours: [JourSemaine.MARDI],
+          jusqua: '2025-03-20T18:30:00.000Z',
+        },
+        START,
+      );
+
+      expect(rule.intervalle).toBe(2);
+      expect(rule.jours).toEqual([]);
+      expect(rule.jusqua).toEqual(parseDay('2025-03-20'));
+    });
+  });
+
+  describe('expandOccurrences', () => {
+    it('steps daily rules by their interval up to the last day', () => {
+      const rule = normalizeRecurrence(
+        {
+          frequence: RecurrenceFrequence.QUOTIDIENNE,
+          intervalle: 3,
+          jusqua: '2025-03-15',
+        },
+        START,
+      );
+
+      expect(expandOccurrences(START, rule, [], ...MARCH)).toEqual([
+        '2025-03-03',
+        '2025-03-06',
+        '2025-03-09',
+        '2025-03-12',
+        '2025-03-15',
+      ]);
+    });
+
+    it('walks the chosen days of every other week', () => {
+      const rule = normalizeRecurrence(
+        {
+          frequence: RecurrenceFrequence.HEBDOMADAIRE,
+          intervalle: 2,
+          jours: [JourSemaine.VENDREDI, JourSemaine.LUNDI],
+        },
+        START,
+      );
+
+      expect(expandOccurrences(START, rule, [], ...MARCH)).toEqual([
+        '2025-03-03',
+        '2025-03-07',
+        '2025-03-17',
+        '2025-03-21',
+        '2025-03-31',
+      ]);
+    });
+
+    it('skips the days of the first week before the start', () => {
+      // Mercredi
+      const start = parseDay('2025-03-05');
+      const rule = normalizeRecurrence(
+        {
+          frequence: RecurrenceFrequence.HEBDOMADAIRE,
+          jours: [JourSemaine.LUNDI, JourSemaine.MERCREDI],
+          occurrences: 3,
+        },
+        start,
+      );
+
+      expect(expandOccurrences(start, rule, [], ...MARCH)).toEqual([
+        '2025-03-05',
+        '2025-03-10',
+        '2025-03-12',
+      ]);
+    });
+
+    it('counts exceptions in the number of occurrences', () => {
+      const rule = normalizeRecurrence(
+        { frequence: RecurrenceFrequence.QUOTIDIENNE, occurrences: 4 },
+        START,
+      );
+
+      expect(expandOccurrences(START, rule, ['2025-03-04'], ...MARCH)).toEqual([
+        '2025-03-03',
+        '2025-03-05',
+        '2025-03-06',
+      ]);
+    });
+
+    it('only returns the days inside the window', () => {
+      const rule = normalizeRecurrence(
+        { frequence: RecurrenceFrequence.HEBDOMADAIRE },
+        START,
+      );
+
+      expect(
+        expandOccurrences(
+          START,
+          rule,
+          [],
+          new Date('2025-03-10T15:00:00.000Z'),
+          parseDay('2025-03-24'),
+        ),
+      ).toEqual(['2025-03-10', '2025-03-17', '2025-03-24']);
+    });
+  });
+
+  describe('isOccurrence and countOccurrencesBefore', () => {
+    const rule = normalizeRecurrence(
+      {
+        frequence: RecurrenceFrequence.HEBDOMADAIRE,
+        jours: [JourSemaine.LUNDI, JourSemaine.MERCREDI],
+        occurrences: 4,
+      },
+      START,
+    );
+
+    it('tells whether a day belongs to the series', () => {
+      expect(isOccurrence(START, rule, '2025-03-12')).toBe(true);
+      expect(isOccurrence(START, rule, '2025-03-11')).toBe(false);
+      // Au-delà des 4 occurrences
+      expect(isOccurrence(START, rule, '2025-03-17')).toBe(false);
+    });
+
+    it('counts the occurrences before a day', () => {
+      expect(countOccurrencesBefore(START, rule, '2025-03-03')).toBe(0);
+      expect(countOccurrencesBefore(START, rule, '2025-03-10')).toBe(2);
+      expect(countOccurrencesBefore(START, rule, '2025-04-30')).toBe(4);
+    });
+  });
+});
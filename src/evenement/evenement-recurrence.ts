@@ -0,0 +1,172 @@
+import { JourSemaine } from '../disponibilite/schemas/disponibilite.schema';
+
+export enum RecurrenceFrequence {
+  QUOTIDIENNE = 'quotidienne',
+  HEBDOMADAIRE = 'hebdomadaire',
+}
+
+/** Portée d'une modification ou suppression sur un événement récurrent */
+export enum RecurrenceScope {
+  THIS = 'this',
+  FOLLOWING = 'following',
+  ALL = 'all',
+}
+
+export interface RecurrenceRule {
+  frequence: RecurrenceFrequence;
+  // Tous les n jours ou toutes les n semaines
+  intervalle: number;
+  // Jours de la semaine, pour une récurrence hebdomadaire uniquement
+  jours: JourSemaine[];
+  // Dernier jour possible, inclus
+  jusqua?: Date | null;
+  // Nombre total d'occurrences, exceptions comprises
+  occurrences?: number | null;
+}
+
+export interface RecurrenceRuleInput {
+  frequence: RecurrenceFrequence;
+  intervalle?: number;
+  jours?: JourSemaine[];
+  jusqua?: string | Date | null;
+  occurrences?: number | null;
+}
+
+export const MAX_OCCURRENCES = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dans l'ordre de getUTCDay (0 = dimanche)
+const JOURS_BY_UTC_DAY = [
+  JourSemaine.DIMANCHE,
+  JourSemaine.LUNDI,
+  JourSemaine.MARDI,
+  JourSemaine.MERCREDI,
+  JourSemaine.JEUDI,
+  JourSemaine.VENDREDI,
+  JourSemaine.SAMEDI,
+];
+
+export const toDayString = (date: Date) => date.toISOString().slice(0, 10);
+
+export const parseDay = (day: string | Date) =>
+  new Date(
+    `${typeof day === 'string' ? day.slice(0, 10) : toDayString(day)}T00:00:00.000Z`,
+  );
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * DAY_MS);
+
+export const jourOf = (date: Date) => JOURS_BY_UTC_DAY[date.getUTCDay()];
+
+/**
+ * Complète une règle saisie : intervalle 1 par défaut et, en hebdomadaire,
+ * le jour de la première occurrence quand aucun jour n'est donné.
+ */
+export function normalizeRecurrence(
+  input: RecurrenceRuleInput,
+  start: Date,
+): RecurrenceRule {
+  const weekly = input.frequence === RecurrenceFrequence.HEBDOMADAIRE;
+  return {
+    frequence: input.frequence,
+    intervalle: Math.max(1, Math.floor(input.intervalle || 1)),
+    jours: weekly
+      ? input.jours?.length
+        ? [...new Set(input.jours)]
+        : [jourOf(start)]
+      : [],
+    jusqua: input.jusqua ? parseDay(input.jusqua) : null,
+    occurrences: input.occurrences || null,
+  };
+}
+
+/**
+ * Jours de la série dans l'ordre, jusqu'à la date limite ou au nombre
+ * d'occurrences. Les exceptions ne sont pas retirées ici.
+ */
+function* occurrenceDays(start: Date, rule: RecurrenceRule): Generator<Date> {
+  const first = parseDay(start);
+  const until = rule.jusqua ? parseDay(rule.jusqua) : null;
+  // Sans limite, c'est l'appelant qui arrête l'itération
+  const limit = rule.occurrences || Infinity;
+  const step = Math.max(1, rule.intervalle || 1);
+  let count = 0;
+
+  if (rule.frequence === RecurrenceFrequence.QUOTIDIENNE) {
+    for (let day = first; count < limit; day = addDays(day, step)) {
+      if (until && day > until) return;
+      count++;
+      yield day;
+    }
+    return;
+  }
+
+  // Décalages depuis le lundi de la semaine de départ
+  const jours = rule.jours?.length ? rule.jours : [jourOf(first)];
+  const offsets = [
+    ...new Set(jours.map((jour) => (JOURS_BY_UTC_DAY.indexOf(jour) + 6) % 7)),
+  ].sort((a, b) => a - b);
+  const monday = addDays(first, -((first.getUTCDay() + 6) % 7));
+
+  for (let week = 0; count < limit; week += step) {
+    for (const offset of offsets) {
+      const day = addDays(monday, week * 7 + offset);
+      if (day < first) continue;
+      if (until && day > until) return;
+      count++;
+      yield day;
+      if (count >= limit) return;
+    }
+  }
+}
+
+/** Occurrences (YYYY-MM-DD) comprises entre from et to inclus, hors exceptions */
+export function expandOccurrences(
+  start: Date,
+  rule: RecurrenceRule,
+  exceptions: string[],
+  from: Date,
+  to: Date,
+): string[] {
+  const fromDay = parseDay(from);
+  const toDay = parseDay(to);
+  const excluded = new Set(exceptions);
+  const days: string[] = [];
+
+  for (const day of occurrenceDays(start, rule)) {
+    if (day > toDay) break;
+    if (day < fromDay) continue;
+    const key = toDayString(day);
+    if (!excluded.has(key)) days.push(key);
+  }
+  return days;
+}
+
+export function isOccurrence(
+  start: Date,
+  rule: RecurrenceRule,
+  day: string,
+): boolean {
+  const target = parseDay(day);
+  for (const occurrence of occurrenceDays(start, rule)) {
+    if (occurrence > target) return false;
+    if (occurrence.getTime() === target.getTime()) return true;
+  }
+  return false;
+}
+
+/** Nombre d'occurrences avant un jour donné, exceptions comprises */
+export function countOccurrencesBefore(
+  start: Date,
+  rule: RecurrenceRule,
+  day: string,
+): number {
+  const target = parseDay(day);
+  let count = 0;
+  for (const occurrence of occurrenceDays(start, rule)) {
+    if (occurrence >= target) break;
+    count++;
+  }
+  return count;
+}
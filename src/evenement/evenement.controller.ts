@@ -1,10 +1,28 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Query } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  ParseEnumPipe,
+} from '@nestjs/common';
 import { EvenementService } from './evenement.service';
 import { CreateEvenementDto } from './dto/create-evenement.dto';
 import { UpdateEvenementDto } from './dto/update-evenement.dto';
-import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RecurrenceScope } from './evenement-recurrence';
 
 @ApiTags('evenements')
 @Controller('evenements')
@@ -26,7 +44,7 @@ export class EvenementController {
   }
 
   @Get()
-  @ApiOperation({ summary: 'Récupérer tous les événements de l\'utilisateur' })
+  @ApiOperation({ summary: "Récupérer tous les événements de l'utilisateur" })
   @ApiResponse({ status: 200, description: 'Liste des événements' })
   async findAll(@CurrentUser() user: any) {
     const userId = user.userId || user._id || user.id;
@@ -34,24 +52,35 @@ export class EvenementController {
   }
 
   @Get('date-range')
-  @ApiOperation({ summary: 'Récupérer les événements dans une plage de dates' })
-  @ApiResponse({ status: 200, description: 'Liste des événements dans la plage' })
+  @ApiOperation({
+    summary: 'Récupérer les événements dans une plage de dates',
+    description:
+      'Les événements récurrents sont renvoyés une fois par occurrence, avec serieId et occurrenceDate',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Liste des événements dans la plage',
+  })
   async findByDateRange(
     @CurrentUser() user: any,
     @Query('startDate') startDate: string,
     @Query('endDate') endDate: string,
   ) {
     const userId = user.userId || user._id || user.id;
-    return this.evenementService.findByUserAndDateRange(userId, startDate, endDate);
+    return this.evenementService.findByUserAndDateRange(
+      userId,
+      startDate,
+      endDate,
+    );
   }
 
   @Get('type/:type')
   @ApiOperation({ summary: 'Récupérer les événements par type' })
-  @ApiResponse({ status: 200, description: 'Liste des événements du type spécifié' })
-  async findByType(
-    @CurrentUser() user: any,
-    @Param('type') type: string,
-  ) {
+  @ApiResponse({
+    status: 200,
+    description: 'Liste des événements du type spécifié',
+  })
+  async findByType(@CurrentUser() user: any, @Param('type') type: string) {
     const userId = user.userId || user._id || user.id;
     return this.evenementService.findByType(userId, type);
   }
@@ -60,36 +89,73 @@ export class EvenementController {
   @ApiOperation({ summary: 'Récupérer un événement par ID' })
   @ApiResponse({ status: 200, description: 'Événement trouvé' })
   @ApiResponse({ status: 404, description: 'Événement non trouvé' })
-  async findOne(
-    @Param('id') id: string,
-    @CurrentUser() user: any,
-  ) {
+  async findOne(@Param('id') id: string, @CurrentUser() user: any) {
     const userId = user.userId || user._id || user.id;
     return this.evenementService.findOne(id, userId);
   }
 
   @Patch(':id')
   @ApiOperation({ summary: 'Modifier un événement' })
+  @ApiQuery({
+    name: 'scope',
+    required: false,
+    enum: RecurrenceScope,
+    description:
+      'Pour une série : cette occurrence, celle-ci et les suivantes, ou toute la série (par défaut)',
+  })
+  @ApiQuery({
+    name: 'occurrenceDate',
+    required: false,
+    description:
+      'Occurrence visée (YYYY-MM-DD), requise avec this et following',
+  })
   @ApiResponse({ status: 200, description: 'Événement modifié avec succès' })
+  @ApiResponse({ status: 400, description: 'Occurrence invalide' })
   @ApiResponse({ status: 404, description: 'Événement non trouvé' })
   async update(
     @Param('id') id: string,
     @Body() updateEvenementDto: UpdateEvenementDto,
     @CurrentUser() user: any,
+    @Query('scope', new ParseEnumPipe(RecurrenceScope, { optional: true }))
+    scope?: RecurrenceScope,
+    @Query('occurrenceDate') occurrenceDate?: string,
   ) {
     const userId = user.userId || user._id || user.id;
-    return this.evenementService.update(id, updateEvenementDto, userId);
+    return this.evenementService.update(
+      id,
+      updateEvenementDto,
+      userId,
+      scope,
+      occurrenceDate,
+    );
   }
 
   @Delete(':id')
   @ApiOperation({ summary: 'Supprimer un événement' })
+  @ApiQuery({
+    name: 'scope',
+    required: false,
+    enum: RecurrenceScope,
+    description:
+      'Pour une série : cette occurrence, celle-ci et les suivantes, ou toute la série (par défaut)',
+  })
+  @ApiQuery({
+    name: 'occurrenceDate',
+    required: false,
+    description:
+      'Occurrence visée (YYYY-MM-DD), requise avec this et following',
+  })
   @ApiResponse({ status: 200, description: 'Événement supprimé avec succès' })
+  @ApiResponse({ status: 400, description: 'Occurrence invalide' })
   @ApiResponse({ status: 404, description: 'Événement non trouvé' })
   async remove(
     @Param('id') id: string,
     @CurrentUser() user: any,
+    @Query('scope', new ParseEnumPipe(RecurrenceScope, { optional: true }))
+    scope?: RecurrenceScope,
+    @Query('occurrenceDate') occurrenceDate?: string,
   ) {
     const userId = user.userId || user._id || user.id;
-    return this.evenementService.remove(id, userId);
+    return this.evenementService.remove(id, userId, scope, occurrenceDate);
   }
-}
\ No newline at end of file
+}
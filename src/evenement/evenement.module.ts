@@ -3,13 +3,20 @@ import { EvenementService } from './evenement.service';
 import { EvenementController } from './evenement.controller';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Evenement, EvenementSchema } from './schemas/evenement.schema';
+import { User, UserSchema } from '../User/schemas/user.schema';
+import { EvenementIcalController } from './evenement-ical.controller';
+import { GoogleCalendarModule } from '../google-calendar/google-calendar.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Evenement.name, schema: EvenementSchema }])
+    MongooseModule.forFeature([
+      { name: Evenement.name, schema: EvenementSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    GoogleCalendarModule,
   ],
-  controllers: [EvenementController],
+  controllers: [EvenementIcalController, EvenementController],
   providers: [EvenementService],
-  exports: [EvenementService]
+  exports: [EvenementService],
 })
-export class EvenementModule {}
\ No newline at end of file
+export class EvenementModule {}
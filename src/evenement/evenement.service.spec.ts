@@ -0,0 +1,428 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { EvenementService } from './evenement.service';
+import { Evenement, EventType } from './schemas/evenement.schema';
+import {
+  RecurrenceFrequence,
+  RecurrenceRule,
+  RecurrenceScope,
+  expandOccurrences,
+  normalizeRecurrence,
+  parseDay,
+} from './evenement-recurrence';
+import { serializeCalendar } from './evenement-ical';
+import { User } from '../User/schemas/user.schema';
+import { GoogleCalendarService } from '../google-calendar/google-calendar.service';
+import { JourSemaine } from '../disponibilite/schemas/disponibilite.schema';
+
+type Doc = Record<string, any>;
+type Update = Record<string, unknown>;
+
+const sameId = (a: unknown, b: unknown) => String(a) === String(b);
+
+/** Modèle en mémoire, limité aux requêtes des séries et de l'import */
+function fakeModel(initial: Doc[]) {
+  const docs: Doc[] = [];
+  const byId = (id: unknown) => docs.find((doc) => sameId(doc._id, id)) ?? null;
+  const result = <T>(value: T) => ({ exec: () => Promise.resolve(value) });
+  const occurrenceOf = (filter: Doc) =>
+    docs.find(
+      (candidate) =>
+        sameId(candidate.serieId, filter.serieId) &&
+        candidate.occurrenceDate === filter.occurrenceDate,
+    ) ?? null;
+  const track = (doc: Doc) => {
+    doc.set = (fields: Update) => Object.assign(doc, fields);
+    doc.save = () => Promise.resolve(doc);
+    docs.push(doc);
+    return doc;
+  };
+  const create = (data: Doc) =>
+    track({ _id: new Types.ObjectId(), exceptions: [], ...data });
+  initial.forEach(track);
+  const apply = (doc: Doc | null, update: Update) => {
+    if (!doc) return;
+    for (const [key, value] of Object.entries(update)) {
+      if (key === '$addToSet') {
+        for (const [field, item] of Object.entries(value as Update)) {
+          const list = (doc[field] ?? []) as unknown[];
+          if (!list.includes(item)) list.push(item);
+          doc[field] = list;
+        }
+      } else if (key === '$set') {
+        Object.assign(doc, value);
+      } else if (key.includes('.')) {
+        const [parent, field] = key.split('.');
+        doc[parent] = { ...(doc[parent] as Doc), [field]: value };
+      } else {
+        doc[key] = value;
+      }
+    }
+  };
+
+  return {
+    docs,
+    findById: (id: unknown) => result(byId(id)),
+    findByIdAndUpdate: (id: unknown, update: Update) => {
+      apply(byId(id), update);
+      return result(byId(id));
+    },
+    findOne: (filter: { userId: unknown; $or: Doc[] }) =>
+      result(
+        docs.find(
+          (doc) =>
+            sameId(doc.userId, filter.userId) &&
+            filter.$or.some((option) =>
+              option.icalUid
+                ? doc.icalUid === option.icalUid
+                : sameId(doc._id, option._id),
+            ),
+        ) ?? null,
+      ),
+    findOneAndUpdate: (filter: Doc, update: Update) => {
+      const doc = occurrenceOf(filter);
+      apply(doc, update);
+      return result(doc);
+    },
+    findOneAndDelete: (filter: Doc) => {
+      const doc = occurrenceOf(filter);
+      if (doc) docs.splice(docs.indexOf(doc), 1);
+      return result(doc);
+    },
+    updateOne: (filter: Doc, update: Update, options: Doc = {}) => {
+      const doc = filter._id ? byId(filter._id) : occurrenceOf(filter);
+      if (!doc && options.upsert) {
+        apply(create(filter), update);
+        return result({ upsertedCount: 1 });
+      }
+      apply(doc, update);
+      return result({ upsertedCount: 0 });
+    },
+    updateMany: (
+      filter: { serieId: unknown; occurrenceDate: Doc },
+      update: Update,
+    ) => {
+      docs
+        .filter(
+          (doc) =>
+            sameId(doc.serieId, filter.serieId) &&
+            (doc.occurrenceDate as string) >= filter.occurrenceDate.$gte,
+        )
+        .forEach((doc) => apply(doc, update));
+      return result({});
+    },
+    create: (data: Doc) => Promise.resolve(create(data)),
+  };
+}
+
+async function createService(model: ReturnType<typeof fakeModel>) {
+  const moduleRef = await Test.createTestingModule({
+    providers: [
+      EvenementService,
+      { provide: getModelToken(Evenement.name), useValue: model },
+      { provide: getModelToken(User.name), useValue: {} },
+      {
+        provide: GoogleCalendarService,
+        useValue: {
+          schedulePush: () => undefined,
+          scheduleRemoteDelete: () => undefined,
+        },
+      },
+    ],
+  }).compile();
+  return moduleRef.get(EvenementService);
+}
+
+describe('EvenementService scoped edits', () => {
+  const userId = new Types.ObjectId();
+  // Lundi et mercredi, 10 occurrences à partir du lundi 3 mars
+  const start = parseDay('2025-03-03');
+  const window = [parseDay('2025-03-01'), parseDay('2025-04-30')] as const;
+
+  let model: ReturnType<typeof fakeModel>;
+  let service: EvenementService;
+  let serie: Doc & { _id: Types.ObjectId };
+
+  const occurrences = (doc: Doc) =>
+    expandOccurrences(
+      doc.date as Date,
+      doc.recurrence as RecurrenceRule,
+      doc.exceptions as string[],
+      ...window,
+    );
+
+  beforeEach(async () => {
+    serie = {
+      _id: new Types.ObjectId(),
+      userId,
+      titre: 'Cours de soutien',
+      type: EventType.JOB,
+      heureDebut: '18:00',
+      heureFin: '20:00',
+      lieu: 'Salle A',
+      date: start,
+      recurrence: normalizeRecurrence(
+        {
+          frequence: RecurrenceFrequence.HEBDOMADAIRE,
+          jours: [JourSemaine.LUNDI, JourSemaine.MERCREDI],
+          occurrences: 10,
+        },
+        start,
+      ),
+      exceptions: ['2025-03-12'],
+    };
+    model = fakeModel([serie]);
+    service = await createService(model);
+  });
+
+  it('expands the series without its exceptions', () => {
+    expect(occurrences(serie)).toEqual([
+      '2025-03-03',
+      '2025-03-05',
+      '2025-03-10',
+      '2025-03-17',
+      '2025-03-19',
+      '2025-03-24',
+      '2025-03-26',
+      '2025-03-31',
+      '2025-04-02',
+    ]);
+  });
+
+  it('moves a single occurrence out of the series', async () => {
+    const before = occurrences(serie);
+
+    const override = (await service.update(
+      serie._id.toString(),
+      { lieu: 'Salle B' },
+      userId.toString(),
+      RecurrenceScope.THIS,
+      '2025-03-19',
+    )) as Doc;
+
+    expect(override).toMatchObject({
+      serieId: serie._id,
+      occurrenceDate: '2025-03-19',
+      date: '2025-03-19',
+      lieu: 'Salle B',
+      titre: 'Cours de soutien',
+    });
+    expect(occurrences(serie)).toEqual(
+      before.filter((day) => day !== '2025-03-19'),
+    );
+  });
+
+  it('edits an already moved occurrence in place', async () => {
+    await service.update(
+      serie._id.toString(),
+      { lieu: 'Salle B' },
+      userId.toString(),
+      RecurrenceScope.THIS,
+      '2025-03-19',
+    );
+    await service.update(
+      serie._id.toString(),
+      { lieu: 'Salle C' },
+      userId.toString(),
+      RecurrenceScope.THIS,
+      '2025-03-19',
+    );
+
+    expect(model.docs).toHaveLength(2);
+    expect(model.docs[1].lieu).toBe('Salle C');
+  });
+
+  it('splits the series so both halves keep the original days', async () => {
+    const before = occurrences(serie);
+
+    const following = (await service.update(
+      serie._id.toString(),
+      { lieu: 'Salle B' },
+      userId.toString(),
+      RecurrenceScope.FOLLOWING,
+      '2025-03-17',
+    )) as Doc;
+
+    // 4 occurrences avant le 17, exception du 12 comprise
+    expect(following.recurrence).toMatchObject({ occurrences: 6 });
+    expect(following.exceptions).toEqual([]);
+    expect(serie.recurrence).toMatchObject({
+      jusqua: parseDay('2025-03-16'),
+      occurrences: null,
+    });
+    expect(occurrences(serie)).toEqual([
+      '2025-03-03',
+      '2025-03-05',
+      '2025-03-10',
+    ]);
+    expect([...occurrences(serie), ...occurrences(following)]).toEqual(before);
+    expect(following.lieu).toBe('Salle B');
+  });
+
+  it('moves the following occurrences to the new day of the week', async () => {
+    const following = (await service.update(
+      serie._id.toString(),
+      { date: '2025-03-18' },
+      userId.toString(),
+      RecurrenceScope.FOLLOWING,
+      '2025-03-17',
+    )) as Doc;
+
+    expect(occurrences(following)).toEqual([
+      '2025-03-18',
+      '2025-03-25',
+      '2025-04-01',
+      '2025-04-08',
+      '2025-04-15',
+      '2025-04-22',
+    ]);
+  });
+
+  it('hands moved occurrences over to the new series', async () => {
+    await service.update(
+      serie._id.toString(),
+      { lieu: 'Salle B' },
+      userId.toString(),
+      RecurrenceScope.THIS,
+      '2025-03-24',
+    );
+
+    const following = (await service.update(
+      serie._id.toString(),
+      { heureDebut: '17:00' },
+      userId.toString(),
+      RecurrenceScope.FOLLOWING,
+      '2025-03-17',
+    )) as Doc;
+
+    expect(following.exceptions).toEqual(['2025-03-24']);
+    expect(model.docs[1].serieId).toBe(following._id);
+    expect(occurrences(serie)).not.toContain('2025-03-24');
+  });
+
+  it('rejects a day that is not an occurrence', async () => {
+    await expect(
+      service.update(
+        serie._id.toString(),
+        { lieu: 'Salle B' },
+        userId.toString(),
+        RecurrenceScope.THIS,
+        '2025-03-18',
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
+
+describe('EvenementService.importIcal', () => {
+  const userId = new Types.ObjectId();
+
+  const ics = (...events: string[][]) =>
+    [
+      'BEGIN:VCALENDAR',
+      ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+      'END:VCALENDAR',
+    ].join('\r\n');
+  const weekly = [
+    'UID:cours-42@univ.tn',
+    'DTSTART:20250303T180000',
+    'DTEND:20250303T200000',
+    'SUMMARY:Cours du soir',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=6',
+  ];
+  const moved = [
+    'UID:cours-42@univ.tn',
+    'RECURRENCE-ID:20250310T180000',
+    'DTSTART:20250311T180000',
+    'DTEND:20250311T200000',
+    'SUMMARY:Cours du soir (déplacé)',
+  ];
+
+  it('updates the events of a file imported twice', async () => {
+    const model = fakeModel([]);
+    const service = await createService(model);
+
+    const first = await service.importIcal(
+      userId.toString(),
+      ics(weekly, moved),
+    );
+    const second = await service.importIcal(
+      userId.toString(),
+      ics(weekly, moved),
+    );
+
+    expect(first).toMatchObject({ created: 2, updated: 0, skipped: 0 });
+    expect(second).toMatchObject({ created: 0, updated: 2, skipped: 0 });
+    const [serie, occurrence] = model.docs as [
+      Doc & { _id: Types.ObjectId },
+      Doc,
+    ];
+    expect(model.docs).toHaveLength(2);
+    expect(serie).toMatchObject({
+      icalUid: 'cours-42@univ.tn',
+      exceptions: ['2025-03-10'],
+    });
+    expect(occurrence).toMatchObject({
+      serieId: serie._id,
+      occurrenceDate: '2025-03-10',
+      titre: 'Cours du soir (déplacé)',
+    });
+  });
+
+  it('skips a UID repeated in the same file', async () => {
+    const model = fakeModel([]);
+    const service = await createService(model);
+
+    const result = await service.importIcal(
+      userId.toString(),
+      ics(weekly, weekly),
+    );
+
+    expect(result).toMatchObject({ created: 1, skipped: 1 });
+    expect(model.docs).toHaveLength(1);
+  });
+
+  it('matches the UIDs of our own export to the existing events', async () => {
+    const nightShift = {
+      _id: new Types.ObjectId().toString(),
+      userId,
+      titre: 'Service',
+      type: EventType.JOB,
+      date: parseDay('2025-03-08'),
+      heureDebut: '22:00',
+      heureFin: '02:00',
+      couleur: '#3B82F6',
+      exceptions: [],
+    } as Evenement;
+    const model = fakeModel([nightShift]);
+    const service = await createService(model);
+
+    const result = await service.importIcal(
+      userId.toString(),
+      serializeCalendar([{ ...nightShift, titre: 'Service de nuit' }]),
+    );
+
+    expect(result).toMatchObject({ created: 0, updated: 1 });
+    expect(model.docs).toEqual([
+      expect.objectContaining({
+        _id: nightShift._id,
+        titre: 'Service de nuit',
+      }),
+    ]);
+  });
+
+  it('does not reuse the events of another user', async () => {
+    const model = fakeModel([]);
+    const service = await createService(model);
+    await service.importIcal(userId.toString(), ics(weekly));
+
+    const result = await service.importIcal(
+      new Types.ObjectId().toString(),
+      ics(weekly),
+    );
+
+    expect(result).toMatchObject({ created: 1, updated: 0 });
+    expect(model.docs).toHaveLength(2);
+  });
+});
@@ -1,23 +1,85 @@
-import { Injectable, NotFoundException, ForbiddenException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
 import { Evenement, EvenementDocument } from './schemas/evenement.schema';
+import { User, UserDocument } from '../User/schemas/user.schema';
 import { CreateEvenementDto } from './dto/create-evenement.dto';
 import { UpdateEvenementDto } from './dto/update-evenement.dto';
+import {
+  RecurrenceScope,
+  addDays,
+  countOccurrencesBefore,
+  expandOccurrences,
+  isOccurrence,
+  normalizeRecurrence,
+  parseDay,
+  toDayString,
+} from './evenement-recurrence';
+import { idFromUid, parseCalendar, serializeCalendar } from './evenement-ical';
+import type { ParsedIcalEvent } from './evenement-ical';
+import { GoogleCalendarService } from '../google-calendar/google-calendar.service';
+
+// Champs recopiés d'une série vers une occurrence modifiée ou une nouvelle série
+const SERIES_FIELDS = [
+  'titre',
+  'type',
+  'heureDebut',
+  'heureFin',
+  'lieu',
+  'tarifHoraire',
+  'couleur',
+] as const;
+
+const MAX_IMPORTED_EVENTS = 2000;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IcalImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  warnings: string[];
+}
 
 @Injectable()
 export class EvenementService {
   constructor(
-    @InjectModel(Evenement.name) private evenementModel: Model<EvenementDocument>,
+    @InjectModel(Evenement.name)
+    private evenementModel: Model<EvenementDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly googleCalendarService: GoogleCalendarService,
   ) {}
 
-  async create(createEvenementDto: CreateEvenementDto, userId: string): Promise<EvenementDocument> {
+  private readonly publicUrl =
+    process.env.APP_PUBLIC_URL ||
+    `http://localhost:${process.env.PORT || 3005}`;
+  // Fuseau des heures saisies, le même que pour Google Agenda
+  private readonly timeZone =
+    process.env.GOOGLE_CALENDAR_TIMEZONE || 'Africa/Tunis';
+
+  async create(
+    createEvenementDto: CreateEvenementDto,
+    userId: string,
+  ): Promise<EvenementDocument> {
+    const { recurrence, ...fields } = createEvenementDto;
     const createdEvenement = new this.evenementModel({
-      ...createEvenementDto,
+      ...fields,
+      recurrence: recurrence
+        ? normalizeRecurrence(recurrence, parseDay(fields.date))
+        : null,
       userId: new Types.ObjectId(userId),
     });
-    
-    return createdEvenement.save();
+
+    const saved = await createdEvenement.save();
+    this.googleCalendarService.schedulePush(userId);
+    return saved;
   }
 
   async findAllByUser(userId: string): Promise<Evenement[]> {
@@ -27,22 +89,93 @@ export class EvenementService {
       .exec();
   }
 
-  async findByUserAndDateRange(userId: string, startDate: string, endDate: string): Promise<Evenement[]> {
-    return this.evenementModel
-      .find({
-        userId: new Types.ObjectId(userId),
-        date: {
-          $gte: new Date(startDate),
-          $lte: new Date(endDate),
-        },
-      })
-      .sort({ date: 1, heureDebut: 1 })
-      .exec();
+  /**
+   * Événements de la période, avec les occurrences des séries récurrentes
+   * calculées à la volée. Chaque occurrence garde l'ID de sa série et porte
+   * sa date d'origine dans occurrenceDate. La période est limitée à
+   * MAX_RANGE_DAYS jours.
+   */
+  async findByUserAndDateRange(
+    userId: string,
+    startDate: string,
+    endDate: string,
+  ): Promise<Evenement[]> {
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    if (
+      !startDate ||
+      !endDate ||
+      isNaN(start.getTime()) ||
+      isNaN(end.getTime())
+    ) {
+      throw new BadRequestException(
+        'startDate et endDate doivent être des dates valides',
+      );
+    }
+    if (end < start) {
+      throw new BadRequestException(
+        'La date de fin doit être postérieure à la date de début',
+      );
+    }
+    if ((end.getTime() - start.getTime()) / DAY_MS > MAX_RANGE_DAYS) {
+      throw new BadRequestException(
+        `La période demandée ne peut pas dépasser ${MAX_RANGE_DAYS} jours`,
+      );
+    }
+    const owner = new Types.ObjectId(userId);
+
+    const [single, series] = await Promise.all([
+      this.evenementModel
+        .find({
+          userId: owner,
+          recurrence: null,
+          date: {
+            $gte: start,
+            $lte: end,
+          },
+        })
+        .exec(),
+      this.evenementModel
+        .find({
+          userId: owner,
+          'recurrence.frequence': { $exists: true },
+          date: { $lte: end },
+          $or: [
+            { 'recurrence.jusqua': null },
+            { 'recurrence.jusqua': { $gte: parseDay(start) } },
+          ],
+        })
+        .exec(),
+    ]);
+
+    const occurrences = series.flatMap((serie) =>
+      expandOccurrences(
+        serie.date,
+        serie.recurrence!,
+        serie.exceptions ?? [],
+        start,
+        end,
+      ).map((day) => ({
+        ...serie.toObject(),
+        date: parseDay(day),
+        serieId: new Types.ObjectId(serie._id.toString()),
+        occurrenceDate: day,
+      })),
+    );
+
+    return [
+      ...single.map((evenement) => evenement.toObject()),
+      ...occurrences,
+    ].sort(
+      (a, b) =>
+        a.date.getTime() - b.date.getTime() ||
+        a.heureDebut.localeCompare(b.heureDebut),
+    );
   }
 
   async findOne(id: string, userId: string): Promise<EvenementDocument> {
     const evenement = await this.evenementModel.findById(id).exec();
-    
+
     if (!evenement) {
       throw new NotFoundException(`Événement avec ID ${id} non trouvé`);
     }
@@ -55,48 +188,251 @@ export class EvenementService {
     return evenement;
   }
 
-  async update(id: string, updateEvenementDto: UpdateEvenementDto, userId: string): Promise<EvenementDocument> {
-    const evenement = await this.evenementModel.findById(id).exec();
-    
-    if (!evenement) {
-      throw new NotFoundException(`Événement avec ID ${id} non trouvé`);
+  /**
+   * Sur une série, scope indique si la modification porte sur l'occurrence
+   * du jour occurrenceDate, sur celle-ci et les suivantes, ou sur toute la
+   * série. Les occurrences déjà modifiées gardent leurs propres changements.
+   */
+  async update(
+    id: string,
+    updateEvenementDto: UpdateEvenementDto,
+    userId: string,
+    scope: RecurrenceScope = RecurrenceScope.ALL,
+    occurrenceDate?: string,
+  ): Promise<EvenementDocument> {
+    const updated = await this.applyUpdate(
+      id,
+      updateEvenementDto,
+      userId,
+      scope,
+      occurrenceDate,
+    );
+    this.googleCalendarService.schedulePush(userId);
+    return updated;
+  }
+
+  private async applyUpdate(
+    id: string,
+    updateEvenementDto: UpdateEvenementDto,
+    userId: string,
+    scope: RecurrenceScope,
+    occurrenceDate?: string,
+  ): Promise<EvenementDocument> {
+    const evenement = await this.findOne(id, userId);
+
+    // Une occurrence déjà modifiée renvoie à sa série pour les autres portées
+    if (evenement.serieId && scope !== RecurrenceScope.THIS) {
+      const serie = await this.evenementModel
+        .findById(evenement.serieId)
+        .exec();
+      if (serie) {
+        return this.applyUpdate(
+          serie._id.toString(),
+          updateEvenementDto,
+          userId,
+          scope,
+          evenement.occurrenceDate!,
+        );
+      }
     }
 
-    // Fix: Convert both to string for consistent comparison
-    if (evenement.userId.toString() !== userId.toString()) {
-      throw new ForbiddenException('Accès non autorisé à cet événement');
+    if (!evenement.recurrence || scope === RecurrenceScope.ALL) {
+      const { recurrence, ...fields } = updateEvenementDto;
+      const updatedEvenement = await this.evenementModel
+        .findByIdAndUpdate(
+          id,
+          {
+            ...fields,
+            ...(recurrence !== undefined && {
+              recurrence: recurrence
+                ? normalizeRecurrence(
+                    recurrence,
+                    parseDay(fields.date ?? evenement.date),
+                  )
+                : null,
+            }),
+          },
+          { new: true },
+        )
+        .exec();
+
+      if (!updatedEvenement) {
+        throw new NotFoundException(
+          `Événement avec ID ${id} non trouvé après mise à jour`,
+        );
+      }
+
+      return updatedEvenement;
     }
 
-    const updatedEvenement = await this.evenementModel
-      .findByIdAndUpdate(id, updateEvenementDto, { new: true })
-      .exec();
+    const day = this.checkOccurrence(evenement, occurrenceDate);
 
-    if (!updatedEvenement) {
-      throw new NotFoundException(`Événement avec ID ${id} non trouvé après mise à jour`);
+    if (scope === RecurrenceScope.THIS) {
+      const { recurrence, ...fields } = updateEvenementDto;
+      if (recurrence) {
+        throw new BadRequestException(
+          'La récurrence ne peut être modifiée que pour la série ou les occurrences suivantes',
+        );
+      }
+      if (evenement.exceptions?.includes(day)) {
+        const existing = await this.evenementModel
+          .findOneAndUpdate(
+            { serieId: evenement._id, occurrenceDate: day },
+            fields,
+            { new: true },
+          )
+          .exec();
+        if (!existing) {
+          throw new NotFoundException(`L'occurrence du ${day} a été supprimée`);
+        }
+        return existing;
+      }
+
+      const override = await this.evenementModel.create({
+        ...this.seriesFields(evenement),
+        ...fields,
+        date: fields.date ?? day,
+        userId: evenement.userId,
+        serieId: evenement._id,
+        occurrenceDate: day,
+      });
+      await this.evenementModel
+        .updateOne({ _id: evenement._id }, { $addToSet: { exceptions: day } })
+        .exec();
+
+      return override;
     }
 
-    return updatedEvenement;
+    // Cette occurrence et les suivantes : la série est coupée la veille
+    if (day === toDayString(evenement.date)) {
+      return this.applyUpdate(
+        id,
+        updateEvenementDto,
+        userId,
+        RecurrenceScope.ALL,
+      );
+    }
+
+    const rule = evenement.recurrence;
+    const before = countOccurrencesBefore(evenement.date, rule, day);
+    const { recurrence, ...fields } = updateEvenementDto;
+    const newStart = parseDay(fields.date ?? day);
+    const newRule = recurrence
+      ? normalizeRecurrence(recurrence, newStart)
+      : {
+          ...rule,
+          occurrences: rule.occurrences ? rule.occurrences - before : null,
+          // Mêmes jours, sauf si l'occurrence change de jour
+          ...(fields.date && {
+            jours: normalizeRecurrence({ ...rule, jours: [] }, newStart).jours,
+          }),
+        };
+
+    const following = await this.evenementModel.create({
+      ...this.seriesFields(evenement),
+      ...fields,
+      date: newStart,
+      recurrence: newRule,
+      exceptions: (evenement.exceptions ?? []).filter(
+        (exception) => exception >= day,
+      ),
+      userId: evenement.userId,
+    });
+
+    await Promise.all([
+      this.truncateSeries(evenement, day),
+      this.evenementModel
+        .updateMany(
+          { serieId: evenement._id, occurrenceDate: { $gte: day } },
+          { serieId: following._id },
+        )
+        .exec(),
+    ]);
+
+    return following;
   }
 
-  async remove(id: string, userId: string): Promise<EvenementDocument> {
-    const evenement = await this.evenementModel.findById(id).exec();
-    
-    if (!evenement) {
-      throw new NotFoundException(`Événement avec ID ${id} non trouvé`);
+  async remove(
+    id: string,
+    userId: string,
+    scope: RecurrenceScope = RecurrenceScope.ALL,
+    occurrenceDate?: string,
+  ): Promise<EvenementDocument> {
+    const removed = await this.applyRemove(id, userId, scope, occurrenceDate);
+    // Une série coupée ou avec une nouvelle exception est à renvoyer
+    this.googleCalendarService.schedulePush(userId);
+    return removed;
+  }
+
+  private async applyRemove(
+    id: string,
+    userId: string,
+    scope: RecurrenceScope,
+    occurrenceDate?: string,
+  ): Promise<EvenementDocument> {
+    const evenement = await this.findOne(id, userId);
+
+    // Une occurrence modifiée supprimée reste masquée dans sa série
+    if (evenement.serieId && scope !== RecurrenceScope.THIS) {
+      const serie = await this.evenementModel
+        .findById(evenement.serieId)
+        .exec();
+      if (serie) {
+        return this.applyRemove(
+          serie._id.toString(),
+          userId,
+          scope,
+          evenement.occurrenceDate!,
+        );
+      }
     }
 
-    // Fix: Convert both to string for consistent comparison
-    if (evenement.userId.toString() !== userId.toString()) {
-      throw new ForbiddenException('Accès non autorisé à cet événement');
+    if (!evenement.recurrence || scope === RecurrenceScope.ALL) {
+      const googleEventIds = await this.googleEventIds({
+        $or: [{ _id: evenement._id }, { serieId: evenement._id }],
+      });
+      const deletedEvenement = await this.evenementModel
+        .findByIdAndDelete(id)
+        .exec();
+
+      if (!deletedEvenement) {
+        throw new NotFoundException(
+          `Événement avec ID ${id} non trouvé après suppression`,
+        );
+      }
+
+      if (deletedEvenement.recurrence) {
+        await this.evenementModel
+          .deleteMany({ serieId: deletedEvenement._id })
+          .exec();
+      }
+      this.googleCalendarService.scheduleRemoteDelete(userId, googleEventIds);
+
+      return deletedEvenement;
     }
 
-    const deletedEvenement = await this.evenementModel.findByIdAndDelete(id).exec();
-    
-    if (!deletedEvenement) {
-      throw new NotFoundException(`Événement avec ID ${id} non trouvé après suppression`);
+    const day = this.checkOccurrence(evenement, occurrenceDate);
+
+    if (scope === RecurrenceScope.THIS) {
+      const updated = await this.evenementModel
+        .findByIdAndUpdate(
+          id,
+          { $addToSet: { exceptions: day } },
+          { new: true },
+        )
+        .exec();
+      return updated ?? evenement;
     }
 
-    return deletedEvenement;
+    if (day === toDayString(evenement.date)) {
+      return this.applyRemove(id, userId, RecurrenceScope.ALL);
+    }
+
+    const following = { serieId: evenement._id, occurrenceDate: { $gte: day } };
+    const googleEventIds = await this.googleEventIds(following);
+    await this.evenementModel.deleteMany(following).exec();
+    this.googleCalendarService.scheduleRemoteDelete(userId, googleEventIds);
+    return this.truncateSeries(evenement, day);
   }
 
   async findByType(userId: string, type: string): Promise<Evenement[]> {
@@ -108,4 +444,261 @@ export class EvenementService {
       .sort({ date: 1, heureDebut: 1 })
       .exec();
   }
-}
\ No newline at end of file
+
+  private checkOccurrence(
+    evenement: EvenementDocument,
+    occurrenceDate?: string,
+  ): string {
+    if (!occurrenceDate) {
+      throw new BadRequestException(
+        "La date de l'occurrence est requise pour cette portée",
+      );
+    }
+    const day = toDayString(parseDay(occurrenceDate));
+    if (!isOccurrence(evenement.date, evenement.recurrence!, day)) {
+      throw new BadRequestException(
+        `Aucune occurrence de cet événement le ${day}`,
+      );
+    }
+    return day;
+  }
+
+  private async googleEventIds(
+    filter: Record<string, unknown>,
+  ): Promise<string[]> {
+    const evenements = await this.evenementModel
+      .find({ ...filter, googleEventId: { $ne: null } })
+      .select('googleEventId')
+      .lean()
+      .exec();
+    return evenements.map((evenement) => evenement.googleEventId!);
+  }
+
+  private seriesFields(evenement: EvenementDocument): Partial<Evenement> {
+    return Object.fromEntries(
+      SERIES_FIELDS.map((field) => [field, evenement[field]]),
+    );
+  }
+
+  /** Arrête la série la veille du jour donné */
+  private async truncateSeries(
+    evenement: EvenementDocument,
+    day: string,
+  ): Promise<EvenementDocument> {
+    const truncated = await this.evenementModel
+      .findByIdAndUpdate(
+        evenement._id,
+        {
+          'recurrence.jusqua': addDays(parseDay(day), -1),
+          'recurrence.occurrences': null,
+          exceptions: (evenement.exceptions ?? []).filter(
+            (exception) => exception < day,
+          ),
+        },
+        { new: true },
+      )
+      .exec();
+    return truncated ?? evenement;
+  }
+
+  async exportIcal(userId: string): Promise<string> {
+    const evenements = await this.evenementModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .sort({ date: 1, heureDebut: 1 })
+      .lean()
+      .exec();
+    return serializeCalendar(evenements);
+  }
+
+  /**
+   * Crée un nouveau lien d'abonnement privé, l'ancien cesse de fonctionner.
+   * Seul le hash du jeton est conservé.
+   */
+  async rotateFeedToken(userId: string): Promise<{ url: string }> {
+    const token = randomBytes(32).toString('hex');
+    await this.userModel
+      .updateOne(
+        { _id: userId },
+        { calendarFeedTokenHash: this.hashToken(token) },
+      )
+      .exec();
+    return { url: `${this.publicUrl}/evenements/ical/feed/${token}.ics` };
+  }
+
+  async revokeFeedToken(userId: string): Promise<{ message: string }> {
+    await this.userModel
+      .updateOne({ _id: userId }, { $unset: { calendarFeedTokenHash: 1 } })
+      .exec();
+    return { message: "Lien d'abonnement désactivé" };
+  }
+
+  async exportFeed(token: string): Promise<string> {
+    const user = await this.userModel
+      .findOne({ calendarFeedTokenHash: this.hashToken(token) })
+      .select('_id')
+      .exec();
+    if (!user) {
+      throw new NotFoundException('Calendrier non trouvé');
+    }
+    return this.exportIcal(user._id.toString());
+  }
+
+  /**
+   * Importe un fichier .ics. Un événement déjà importé (même UID) est mis à
+   * jour, et les occurrences modifiées (RECURRENCE-ID) sont rattachées à
+   * leur série. Un fichier exporté par l'application met à jour les
+   * événements d'origine.
+   */
+  async importIcal(userId: string, content: string): Promise<IcalImportResult> {
+    const parsed = parseCalendar(content, this.timeZone);
+    if (parsed.length === 0) {
+      throw new BadRequestException('Aucun événement trouvé dans le fichier');
+    }
+    if (parsed.length > MAX_IMPORTED_EVENTS) {
+      throw new BadRequestException(
+        `Un import est limité à ${MAX_IMPORTED_EVENTS} événements`,
+      );
+    }
+
+    const owner = new Types.ObjectId(userId);
+    const result: IcalImportResult = {
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      warnings: [],
+    };
+    const series = new Map<string, EvenementDocument>();
+    const instances = parsed.filter((event) => event.recurrenceId);
+
+    for (const event of parsed.filter((event) => !event.recurrenceId)) {
+      if (series.has(event.uid)) {
+        result.skipped++;
+        continue;
+      }
+      if (event.unsupportedRule) {
+        result.warnings.push(
+          `${event.titre} : récurrence ${event.unsupportedRule} non prise en charge, seule la première occurrence est importée`,
+        );
+      }
+
+      const recurrence = event.recurrence
+        ? normalizeRecurrence(event.recurrence, parseDay(event.date))
+        : null;
+      // Les occurrences modifiées du fichier ne doivent pas apparaître en double
+      const exceptions = [
+        ...new Set([
+          ...event.exceptions,
+          ...instances
+            .filter((instance) => instance.uid === event.uid)
+            .map((instance) => instance.recurrenceId!),
+        ]),
+      ];
+
+      const existing = await this.findByIcalUid(owner, event.uid);
+      const fields = {
+        ...this.importedFields(event),
+        recurrence,
+        exceptions: recurrence ? exceptions : [],
+      };
+      if (existing) {
+        existing.set(fields);
+        series.set(event.uid, await existing.save());
+        result.updated++;
+      } else {
+        series.set(
+          event.uid,
+          await this.evenementModel.create({
+            ...fields,
+            userId: owner,
+            icalUid: event.uid,
+          }),
+        );
+        result.created++;
+      }
+    }
+
+    for (const instance of instances) {
+      const serie =
+        series.get(instance.uid) ??
+        (await this.findByIcalUid(owner, instance.uid));
+      if (!serie?.recurrence) {
+        result.skipped++;
+        result.warnings.push(
+          `${instance.titre} : occurrence du ${instance.recurrenceId} sans série correspondante`,
+        );
+        continue;
+      }
+
+      const day = instance.recurrenceId!;
+      await this.evenementModel
+        .updateOne({ _id: serie._id }, { $addToSet: { exceptions: day } })
+        .exec();
+      if (instance.cancelled) {
+        const cancelled = await this.evenementModel
+          .findOneAndDelete({ serieId: serie._id, occurrenceDate: day })
+          .exec();
+        if (cancelled?.googleEventId) {
+          this.googleCalendarService.scheduleRemoteDelete(userId, [
+            cancelled.googleEventId,
+          ]);
+        }
+        result.updated++;
+        continue;
+      }
+
+      const upserted = await this.evenementModel
+        .updateOne(
+          { serieId: serie._id, occurrenceDate: day },
+          {
+            $set: {
+              ...this.importedFields(instance),
+              couleur: serie.couleur,
+              userId: owner,
+            },
+          },
+          { upsert: true },
+        )
+        .exec();
+      if (upserted.upsertedCount > 0) {
+        result.created++;
+      } else {
+        result.updated++;
+      }
+    }
+
+    this.googleCalendarService.schedulePush(userId);
+    return result;
+  }
+
+  // Les UID de nos exports désignent l'événement par son ID
+  private findByIcalUid(
+    owner: Types.ObjectId,
+    uid: string,
+  ): Promise<EvenementDocument | null> {
+    const id = idFromUid(uid);
+    return this.evenementModel
+      .findOne({
+        userId: owner,
+        $or: [
+          { icalUid: uid },
+          ...(id ? [{ _id: new Types.ObjectId(id) }] : []),
+        ],
+      })
+      .exec();
+  }
+
+  private importedFields(event: ParsedIcalEvent): Partial<Evenement> {
+    return {
+      titre: event.titre,
+      type: event.type,
+      date: parseDay(event.date),
+      heureDebut: event.heureDebut,
+      heureFin: event.heureFin,
+      lieu: event.lieu,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,13 +1,16 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
+import { JourSemaine } from '../../disponibilite/schemas/disponibilite.schema';
+import { RecurrenceFrequence } from '../evenement-recurrence';
+import type { RecurrenceRule } from '../evenement-recurrence';
 
 export type EvenementDocument = HydratedDocument<Evenement>;
 
 export enum EventType {
   COURS = 'cours',
   JOB = 'job',
-  DEADLINE = 'deadline'
+  DEADLINE = 'deadline',
 }
 
 @Schema({ timestamps: true, versionKey: false })
@@ -15,19 +18,23 @@ export class Evenement {
   @ApiProperty({ description: 'Identifiant' })
   _id: string;
 
-  @ApiProperty({ description: 'L\'utilisateur concerné' })
+  @ApiProperty({ description: "L'utilisateur concerné" })
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   userId: Types.ObjectId;
 
-  @ApiProperty({ description: 'Nom de l\'événement', example: 'Cours Math' })
+  @ApiProperty({ description: "Nom de l'événement", example: 'Cours Math' })
   @Prop({ required: true })
   titre: string;
 
-  @ApiProperty({ description: 'Type d\'événement', enum: EventType, example: EventType.COURS })
+  @ApiProperty({
+    description: "Type d'événement",
+    enum: EventType,
+    example: EventType.COURS,
+  })
   @Prop({ type: String, enum: EventType, required: true })
   type: EventType;
 
-  @ApiProperty({ description: 'Date de l\'événement', example: '2024-01-15' })
+  @ApiProperty({ description: "Date de l'événement", example: '2024-01-15' })
   @Prop({ required: true })
   date: Date;
 
@@ -43,13 +50,94 @@ export class Evenement {
   @Prop({ required: false })
   lieu?: string;
 
-  @ApiProperty({ description: 'Tarif horaire (pour les jobs)', example: 20.5, required: false })
+  @ApiProperty({
+    description: 'Tarif horaire (pour les jobs)',
+    example: 20.5,
+    required: false,
+  })
   @Prop({ required: false })
   tarifHoraire?: number;
 
   @ApiProperty({ description: 'Couleur pour affichage', example: '#FF5733' })
   @Prop({ required: true, default: '#3B82F6' })
   couleur: string;
+
+  @ApiProperty({
+    description:
+      "Règle de récurrence, la date de l'événement est la première occurrence",
+    example: {
+      frequence: RecurrenceFrequence.HEBDOMADAIRE,
+      intervalle: 1,
+      jours: [JourSemaine.LUNDI],
+      jusqua: '2024-06-30',
+    },
+    required: false,
+  })
+  @Prop({
+    type: {
+      _id: false,
+      frequence: { type: String, enum: RecurrenceFrequence, required: true },
+      intervalle: { type: Number, default: 1, min: 1 },
+      jours: { type: [String], enum: JourSemaine, default: [] },
+      jusqua: { type: Date, default: null },
+      occurrences: { type: Number, default: null },
+    },
+    default: null,
+  })
+  recurrence?: RecurrenceRule | null;
+
+  @ApiProperty({
+    description: 'Occurrences supprimées ou remplacées (YYYY-MM-DD)',
+    example: ['2024-02-12'],
+    required: false,
+  })
+  @Prop({ type: [String], default: [] })
+  exceptions: string[];
+
+  @ApiProperty({
+    description: 'Série dont cet événement remplace une occurrence',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Evenement', default: null })
+  serieId?: Types.ObjectId | null;
+
+  @ApiProperty({
+    description: "Date d'origine de l'occurrence remplacée (YYYY-MM-DD)",
+    example: '2024-02-12',
+    required: false,
+  })
+  @Prop({ type: String, default: null })
+  occurrenceDate?: string | null;
+
+  @ApiProperty({
+    description: "UID iCalendar de l'événement importé",
+    required: false,
+  })
+  @Prop({ type: String, default: null })
+  icalUid?: string | null;
+
+  @ApiProperty({
+    description: "ID de l'événement dans Google Agenda",
+    required: false,
+  })
+  @Prop({ type: String, default: null })
+  googleEventId?: string | null;
+
+  // Valeur de updatedAt lors de la dernière synchronisation avec Google
+  @Prop({ type: Date, default: null })
+  googleSyncedAt?: Date | null;
+
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
-export const EvenementSchema = SchemaFactory.createForClass(Evenement);
\ No newline at end of file
+export const EvenementSchema = SchemaFactory.createForClass(Evenement);
+
+EvenementSchema.index({ userId: 1, date: 1 });
+EvenementSchema.index({ serieId: 1, occurrenceDate: 1 });
+EvenementSchema.index({ userId: 1, googleEventId: 1 });
+// Un import .ics met à jour les événements déjà importés au lieu de les dupliquer
+EvenementSchema.index(
+  { userId: 1, icalUid: 1 },
+  { unique: true, partialFilterExpression: { icalUid: { $type: 'string' } } },
+);
@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CompleteGoogleCalendarConnectionDto {
+  @ApiProperty({ description: "Code d'autorisation renvoyé par Google" })
+  @IsNotEmpty()
+  @IsString()
+  code: string;
+
+  @ApiProperty({ description: 'Paramètre state renvoyé par Google' })
+  @IsNotEmpty()
+  @IsString()
+  state: string;
+}
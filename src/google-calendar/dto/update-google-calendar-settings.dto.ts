@@ -0,0 +1,40 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateGoogleCalendarSettingsDto {
+  @ApiProperty({
+    example: true,
+    description: 'Envoyer les événements vers Google Agenda',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+
+  @ApiProperty({
+    example: true,
+    description: 'Récupérer aussi les modifications faites dans Google Agenda',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  bidirectionalSync?: boolean;
+
+  @ApiProperty({
+    example: 'primary',
+    description:
+      'Calendrier cible. Le changer renvoie tous les événements dans le nouveau calendrier',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  calendarId?: string;
+}
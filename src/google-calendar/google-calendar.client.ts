@@ -0,0 +1,257 @@
+import { Injectable } from '@nestjs/common';
+import axios, { AxiosError, AxiosInstance } from 'axios';
+
+export const GOOGLE_CALENDAR_SCOPES = [
+  'openid',
+  'email',
+  'https://www.googleapis.com/auth/calendar.events',
+];
+
+export interface GoogleTokenResponse {
+  access_token: string;
+  expires_in: number;
+  // Absent on refresh, and on a new consent when Google reuses the old one
+  refresh_token?: string;
+  scope?: string;
+  id_token?: string;
+}
+
+export interface GoogleEventTime {
+  dateTime?: string;
+  date?: string;
+  timeZone?: string;
+}
+
+export interface GoogleEvent {
+  id?: string;
+  status?: 'confirmed' | 'tentative' | 'cancelled';
+  summary?: string;
+  location?: string;
+  start?: GoogleEventTime;
+  end?: GoogleEventTime;
+  recurrence?: string[];
+  recurringEventId?: string;
+  originalStartTime?: GoogleEventTime;
+  updated?: string;
+  extendedProperties?: { private?: Record<string, string> };
+}
+
+export interface GoogleEventList {
+  items: GoogleEvent[];
+  nextPageToken?: string;
+  nextSyncToken?: string;
+}
+
+export class GoogleApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'GoogleApiError';
+  }
+}
+
+/**
+ * Appels HTTP vers Google OAuth et Calendar. Toutes les URL sont
+ * configurables pour pouvoir viser un serveur simulé en test.
+ */
+@Injectable()
+export class GoogleCalendarClient {
+  private readonly authUrl =
+    process.env.GOOGLE_OAUTH_AUTH_URL ||
+    'https://accounts.google.com/o/oauth2/v2/auth';
+  private readonly tokenUrl =
+    process.env.GOOGLE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token';
+  private readonly revokeUrl =
+    process.env.GOOGLE_OAUTH_REVOKE_URL ||
+    'https://oauth2.googleapis.com/revoke';
+  private readonly clientId =
+    process.env.GOOGLE_CALENDAR_CLIENT_ID || process.env.GOOGLE_CLIENT_ID || '';
+  private readonly clientSecret =
+    process.env.GOOGLE_CALENDAR_CLIENT_SECRET ||
+    process.env.GOOGLE_CLIENT_SECRET ||
+    '';
+  private readonly redirectUri =
+    process.env.GOOGLE_CALENDAR_REDIRECT_URI ||
+    `${process.env.APP_PUBLIC_URL || `http://localhost:${process.env.PORT || 3005}`}/google-calendar/callback`;
+  private readonly http: AxiosInstance = axios.create({
+    baseURL:
+      process.env.GOOGLE_CALENDAR_API_URL ||
+      'https://www.googleapis.com/calendar/v3',
+    timeout: Number(process.env.GOOGLE_CALENDAR_TIMEOUT_MS) || 15000,
+  });
+
+  get isConfigured(): boolean {
+    return !!this.clientId && !!this.clientSecret;
+  }
+
+  buildAuthUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: this.redirectUri,
+      response_type: 'code',
+      scope: GOOGLE_CALENDAR_SCOPES.join(' '),
+      // Le refresh token n'est renvoyé qu'avec offline et un consentement explicite
+      access_type: 'offline',
+      prompt: 'consent',
+      include_granted_scopes: 'true',
+      state,
+    });
+    return `${this.authUrl}?${params.toString()}`;
+  }
+
+  async exchangeCode(code: string): Promise<GoogleTokenResponse> {
+    return this.postForm<GoogleTokenResponse>(this.tokenUrl, {
+      code,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      redirect_uri: this.redirectUri,
+      grant_type: 'authorization_code',
+    });
+  }
+
+  async refreshAccessToken(refreshToken: string): Promise<GoogleTokenResponse> {
+    return this.postForm<GoogleTokenResponse>(this.tokenUrl, {
+      refresh_token: refreshToken,
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      grant_type: 'refresh_token',
+    });
+  }
+
+  async revoke(token: string): Promise<void> {
+    await this.postForm(this.revokeUrl, { token });
+  }
+
+  async insertEvent(
+    accessToken: string,
+    calendarId: string,
+    event: GoogleEvent,
+  ): Promise<GoogleEvent> {
+    return this.request<GoogleEvent>(accessToken, {
+      method: 'POST',
+      url: `/calendars/${encodeURIComponent(calendarId)}/events`,
+      data: event,
+    });
+  }
+
+  async updateEvent(
+    accessToken: string,
+    calendarId: string,
+    eventId: string,
+    event: GoogleEvent,
+  ): Promise<GoogleEvent> {
+    return this.request<GoogleEvent>(accessToken, {
+      method: 'PUT',
+      url: `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+      data: event,
+    });
+  }
+
+  /** Un événement déjà supprimé côté Google n'est pas une erreur */
+  async deleteEvent(
+    accessToken: string,
+    calendarId: string,
+    eventId: string,
+  ): Promise<void> {
+    try {
+      await this.request(accessToken, {
+        method: 'DELETE',
+        url: `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+      });
+    } catch (error) {
+      if (
+        error instanceof GoogleApiError &&
+        (error.status === 404 || error.status === 410)
+      ) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Liste incrémentale : avec un syncToken seuls les changements depuis la
+   * dernière liste sont renvoyés. Google répond 410 quand il a expiré.
+   */
+  async listEvents(
+    accessToken: string,
+    calendarId: string,
+    options: { syncToken?: string; timeMin?: Date; pageToken?: string },
+  ): Promise<GoogleEventList> {
+    const params: Record<string, string> = {
+      maxResults: '250',
+      showDeleted: 'true',
+      singleEvents: 'false',
+    };
+    if (options.syncToken) {
+      params.syncToken = options.syncToken;
+    } else if (options.timeMin) {
+      params.timeMin = options.timeMin.toISOString();
+    }
+    if (options.pageToken) {
+      params.pageToken = options.pageToken;
+    }
+
+    const list = await this.request<Partial<GoogleEventList>>(accessToken, {
+      method: 'GET',
+      url: `/calendars/${encodeURIComponent(calendarId)}/events`,
+      params,
+    });
+    return { ...list, items: list.items ?? [] };
+  }
+
+  private async request<T>(
+    accessToken: string,
+    config: {
+      method: string;
+      url: string;
+      data?: unknown;
+      params?: Record<string, string>;
+    },
+  ): Promise<T> {
+    try {
+      const response = await this.http.request<T>({
+        ...config,
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      return response.data;
+    } catch (error) {
+      throw this.toApiError(error);
+    }
+  }
+
+  private async postForm<T>(
+    url: string,
+    form: Record<string, string>,
+  ): Promise<T> {
+    try {
+      const response = await axios.post<T>(
+        url,
+        new URLSearchParams(form).toString(),
+        {
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          timeout: Number(process.env.GOOGLE_CALENDAR_TIMEOUT_MS) || 15000,
+        },
+      );
+      return response.data;
+    } catch (error) {
+      throw this.toApiError(error);
+    }
+  }
+
+  private toApiError(error: unknown): GoogleApiError {
+    const axiosError = error as AxiosError<{
+      error?: string | { message?: string };
+      error_description?: string;
+    }>;
+    const body = axiosError.response?.data;
+    const message =
+      body?.error_description ||
+      (typeof body?.error === 'object' ? body.error.message : body?.error) ||
+      axiosError.message ||
+      'Erreur Google Calendar';
+    return new GoogleApiError(axiosError.response?.status ?? 0, message);
+  }
+}
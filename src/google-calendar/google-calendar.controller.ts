@@ -0,0 +1,142 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { GoogleCalendarService } from './google-calendar.service';
+import { UpdateGoogleCalendarSettingsDto } from './dto/update-google-calendar-settings.dto';
+import { CompleteGoogleCalendarConnectionDto } from './dto/complete-google-calendar-connection.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
+
+@ApiTags('google-calendar')
+@Controller('google-calendar')
+export class GoogleCalendarController {
+  constructor(private readonly googleCalendarService: GoogleCalendarService) {}
+
+  @Get('connect')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Obtenir le lien de connexion à Google Agenda',
+    description:
+      "L'application ouvre ce lien, Google redirige ensuite vers /google-calendar/callback avec un code que l'application renvoie sur POST /google-calendar/callback",
+  })
+  @ApiResponse({ status: 200, description: "URL d'autorisation Google" })
+  @ApiResponse({ status: 503, description: 'Synchronisation non configurée' })
+  connect(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.googleCalendarService.getConnectUrl(userId);
+  }
+
+  @Get('callback')
+  @ApiOperation({
+    summary: 'Retour de Google après autorisation',
+    description:
+      "Sans authentification, rien n'est enregistré ici : le code et le state sont rendus à l'application, qui termine la connexion avec POST /google-calendar/callback",
+  })
+  @ApiQuery({ name: 'code', required: true })
+  @ApiQuery({ name: 'state', required: true })
+  @ApiResponse({
+    status: 200,
+    description: "Code à renvoyer par l'application",
+  })
+  callback(@Query('code') code: string, @Query('state') state: string) {
+    return {
+      message: "Retournez dans l'application pour terminer la connexion",
+      code,
+      state,
+    };
+  }
+
+  @Post('callback')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Terminer la connexion à Google Agenda',
+    description:
+      "Le state doit avoir été obtenu par l'utilisateur connecté via /google-calendar/connect",
+  })
+  @ApiResponse({ status: 201, description: 'Google Agenda connecté' })
+  @ApiResponse({ status: 400, description: 'Lien invalide ou expiré' })
+  async completeConnection(
+    @Body() connectionDto: CompleteGoogleCalendarConnectionDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.googleCalendarService.completeConnection(
+      userId.toString(),
+      connectionDto.code,
+      connectionDto.state,
+    );
+  }
+
+  @Get('status')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'État de la connexion Google Agenda' })
+  @ApiResponse({
+    status: 200,
+    description: 'Compte connecté et dernières synchronisations',
+  })
+  async status(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.googleCalendarService.getStatus(userId);
+  }
+
+  @Patch('settings')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Modifier les paramètres de synchronisation' })
+  @ApiResponse({ status: 200, description: 'Paramètres mis à jour' })
+  @ApiResponse({ status: 404, description: 'Google Agenda non connecté' })
+  async updateSettings(
+    @Body() updateSettingsDto: UpdateGoogleCalendarSettingsDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.googleCalendarService.updateSettings(userId, updateSettingsDto);
+  }
+
+  @Post('sync')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Synchroniser maintenant',
+    description:
+      'Envoie les événements modifiés puis, en bidirectionnel, récupère les changements de Google. En cas de conflit la modification la plus récente est conservée',
+  })
+  @ApiResponse({ status: 201, description: 'Résumé de la synchronisation' })
+  @ApiResponse({ status: 404, description: 'Google Agenda non connecté' })
+  async sync(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.googleCalendarService.syncUser(userId);
+  }
+
+  @Delete('disconnect')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Déconnecter Google Agenda',
+    description: 'Les événements déjà envoyés restent dans Google Agenda',
+  })
+  @ApiResponse({ status: 200, description: 'Google Agenda déconnecté' })
+  @ApiResponse({ status: 404, description: 'Google Agenda non connecté' })
+  async disconnect(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.googleCalendarService.disconnect(userId);
+  }
+}
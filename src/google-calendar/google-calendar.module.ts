@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { GoogleCalendarController } from './google-calendar.controller';
+import { GoogleCalendarService } from './google-calendar.service';
+import { GoogleCalendarClient } from './google-calendar.client';
+import {
+  GoogleCalendarToken,
+  GoogleCalendarTokenSchema,
+} from './schemas/google-calendar-token.schema';
+import {
+  Evenement,
+  EvenementSchema,
+} from '../evenement/schemas/evenement.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: GoogleCalendarToken.name, schema: GoogleCalendarTokenSchema },
+      { name: Evenement.name, schema: EvenementSchema },
+    ]),
+  ],
+  controllers: [GoogleCalendarController],
+  providers: [GoogleCalendarService, GoogleCalendarClient],
+  exports: [GoogleCalendarService],
+})
+export class GoogleCalendarModule {}
@@ -0,0 +1,461 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Types } from 'mongoose';
+import { GoogleCalendarService } from './google-calendar.service';
+import { GoogleCalendarClient, GoogleEvent } from './google-calendar.client';
+import { GoogleCalendarToken } from './schemas/google-calendar-token.schema';
+import { Evenement, EventType } from '../evenement/schemas/evenement.schema';
+
+type Doc = Record<string, any>;
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: Doc;
+}
+
+type MockReply = { status?: number; body?: unknown };
+
+/** Serveur simulant Google OAuth et Calendar, visé via les variables GOOGLE_*_URL */
+class GoogleMock {
+  requests: MockRequest[] = [];
+  handler: (request: MockRequest) => MockReply = () => ({ status: 404 });
+  private server: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      void this.read(req).then((body) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const request = {
+          method: req.method ?? 'GET',
+          path: url.pathname,
+          query: url.searchParams,
+          body,
+        };
+        this.requests.push(request);
+        const reply = this.handler(request);
+        res.writeHead(reply.status ?? 200, {
+          'Content-Type': 'application/json',
+        });
+        res.end(JSON.stringify(reply.body ?? {}));
+      });
+    });
+    await new Promise<void>((resolve) => this.server.listen(0, resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async read(req: IncomingMessage): Promise<Doc> {
+    let raw = '';
+    for await (const chunk of req) raw += String(chunk);
+    if (!raw) return {};
+    if (req.headers['content-type']?.includes('x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(raw));
+    }
+    return JSON.parse(raw) as Doc;
+  }
+}
+
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([key, value]) => {
+    if (key === '$or') {
+      return (value as Doc[]).some((option) => matches(doc, option));
+    }
+    if (key === '$expr') {
+      const [left, right] = (value as { $gt: string[] }).$gt.map(
+        (field) => doc[field.slice(1)] as Date | null,
+      );
+      return left != null && (right == null || left > right);
+    }
+    if (value === null) return doc[key] == null;
+    return String(doc[key]) === String(value);
+  });
+}
+
+/** Modèle Mongoose en mémoire, limité aux requêtes du service */
+function fakeModel() {
+  const docs: Doc[] = [];
+  const query = <T>(run: () => T) => {
+    const chain = {
+      select: () => chain,
+      limit: () => chain,
+      sort: () => chain,
+      lean: () => chain,
+      exec: () => Promise.resolve(run()),
+    };
+    return chain;
+  };
+  const apply = (doc: Doc, update: Doc, options: Doc, inserted: boolean) => {
+    const operators = Object.keys(update).some((key) => key.startsWith('$'));
+    if (!operators) Object.assign(doc, update);
+    Object.assign(doc, (update.$set ?? {}) as Doc);
+    if (inserted) Object.assign(doc, (update.$setOnInsert ?? {}) as Doc);
+    for (const key of Object.keys((update.$unset ?? {}) as Doc))
+      delete doc[key];
+    for (const [key, value] of Object.entries(
+      (update.$addToSet ?? {}) as Doc,
+    )) {
+      const list = (doc[key] ?? []) as unknown[];
+      if (!list.includes(value)) list.push(value);
+      doc[key] = list;
+    }
+    if (options.timestamps !== false) doc.updatedAt = new Date();
+  };
+
+  class FakeModel {
+    [key: string]: any;
+    static docs = docs;
+
+    constructor(data: Doc) {
+      Object.assign(this, data);
+    }
+
+    save(options: Doc = {}) {
+      this._id = (this._id as Types.ObjectId) ?? new Types.ObjectId();
+      if (options.timestamps !== false) {
+        this.createdAt = (this.createdAt as Date) ?? new Date();
+        this.updatedAt = new Date();
+      }
+      docs.push(this);
+      return Promise.resolve(this);
+    }
+
+    static findOne(filter: Doc) {
+      return query(() => docs.find((doc) => matches(doc, filter)) ?? null);
+    }
+
+    static find(filter: Doc = {}) {
+      return query(() => docs.filter((doc) => matches(doc, filter)));
+    }
+
+    static updateOne(filter: Doc, update: Doc, options: Doc = {}) {
+      return query(() => {
+        let doc = docs.find((candidate) => matches(candidate, filter));
+        const inserted = !doc && !!options.upsert;
+        if (inserted) {
+          doc = { _id: new Types.ObjectId(), ...filter };
+          docs.push(doc);
+        }
+        if (doc) apply(doc, update, options, inserted);
+        return { matchedCount: doc && !inserted ? 1 : 0 };
+      });
+    }
+
+    static updateMany(filter: Doc, update: Doc, options: Doc = {}) {
+      return query(() => {
+        const found = docs.filter((doc) => matches(doc, filter));
+        found.forEach((doc) => apply(doc, update, options, false));
+        return { matchedCount: found.length };
+      });
+    }
+
+    static deleteOne(filter: Doc) {
+      return query(() => {
+        const index = docs.findIndex((doc) => matches(doc, filter));
+        if (index >= 0) docs.splice(index, 1);
+      });
+    }
+
+    static deleteMany(filter: Doc) {
+      return query(() => {
+        for (let i = docs.length - 1; i >= 0; i--) {
+          if (matches(docs[i], filter)) docs.splice(i, 1);
+        }
+      });
+    }
+  }
+  return FakeModel;
+}
+
+const idToken = (email: string) =>
+  `header.${Buffer.from(JSON.stringify({ email })).toString('base64url')}.signature`;
+
+describe('GoogleCalendarService', () => {
+  const mock = new GoogleMock();
+  const userId = new Types.ObjectId().toString();
+  let service: GoogleCalendarService;
+  let tokenModel: ReturnType<typeof fakeModel>;
+  let evenementModel: ReturnType<typeof fakeModel>;
+
+  beforeAll(async () => {
+    const baseUrl = await mock.start();
+    process.env.GOOGLE_OAUTH_AUTH_URL = `${baseUrl}/auth`;
+    process.env.GOOGLE_OAUTH_TOKEN_URL = `${baseUrl}/token`;
+    process.env.GOOGLE_OAUTH_REVOKE_URL = `${baseUrl}/revoke`;
+    process.env.GOOGLE_CALENDAR_API_URL = `${baseUrl}/calendar/v3`;
+    process.env.GOOGLE_CALENDAR_CLIENT_ID = 'client-id';
+    process.env.GOOGLE_CALENDAR_CLIENT_SECRET = 'client-secret';
+  });
+
+  afterAll(() => mock.stop());
+
+  beforeEach(async () => {
+    tokenModel = fakeModel();
+    evenementModel = fakeModel();
+    mock.requests = [];
+    mock.handler = () => ({ status: 404 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GoogleCalendarService,
+        GoogleCalendarClient,
+        {
+          provide: getModelToken(GoogleCalendarToken.name),
+          useValue: tokenModel,
+        },
+        { provide: getModelToken(Evenement.name), useValue: evenementModel },
+      ],
+    }).compile();
+    service = module.get<GoogleCalendarService>(GoogleCalendarService);
+  });
+
+  const connect = async (bidirectionalSync = false) => {
+    await tokenModel
+      .updateOne(
+        { userId: new Types.ObjectId(userId) },
+        {
+          accessToken: 'access-1',
+          refreshToken: 'refresh-1',
+          expiryDate: new Date(Date.now() + 3600 * 1000),
+          calendarId: 'primary',
+          isEnabled: true,
+          bidirectionalSync,
+        },
+        { upsert: true },
+      )
+      .exec();
+  };
+
+  const addEvenement = async (fields: Doc = {}) =>
+    new evenementModel({
+      userId: new Types.ObjectId(userId),
+      titre: 'Cours Math',
+      type: EventType.COURS,
+      date: new Date('2030-03-04T00:00:00.000Z'),
+      heureDebut: '09:00',
+      heureFin: '10:30',
+      recurrence: null,
+      exceptions: [],
+      googleEventId: null,
+      googleSyncedAt: null,
+      ...fields,
+    }).save({ timestamps: !fields.updatedAt });
+
+  const remoteEvent = (id: string, updated: Date, summary: string) => ({
+    id,
+    status: 'confirmed',
+    summary,
+    start: { dateTime: '2030-03-05T14:00:00+01:00', timeZone: 'Africa/Tunis' },
+    end: { dateTime: '2030-03-05T16:00:00+01:00', timeZone: 'Africa/Tunis' },
+    updated: updated.toISOString(),
+  });
+
+  describe('connect', () => {
+    it('exchanges the code for the user who asked for the link', async () => {
+      mock.handler = (request) =>
+        request.path === '/token'
+          ? {
+              body: {
+                access_token: 'access-1',
+                refresh_token: 'refresh-1',
+                expires_in: 3600,
+                scope: 'openid email',
+                id_token: idToken('amira@gmail.com'),
+              },
+            }
+          : { body: { items: [] } };
+
+      const { url } = service.getConnectUrl(userId);
+      const state = new URL(url).searchParams.get('state')!;
+      expect(url.startsWith(process.env.GOOGLE_OAUTH_AUTH_URL!)).toBe(true);
+
+      const result = await service.completeConnection(userId, 'code-1', state);
+      expect(result.email).toBe('amira@gmail.com');
+      expect(mock.requests[0].body).toMatchObject({
+        code: 'code-1',
+        grant_type: 'authorization_code',
+      });
+
+      const [token] = tokenModel.docs;
+      expect(String(token.userId)).toBe(userId);
+      expect(token.refreshToken).toBe('refresh-1');
+      // Attend la fin de l'envoi lancé en arrière-plan
+      await service.syncUser(userId);
+    });
+
+    it('rejects a link obtained by another user', async () => {
+      const { url } = service.getConnectUrl(new Types.ObjectId().toString());
+      const state = new URL(url).searchParams.get('state')!;
+
+      await expect(
+        service.completeConnection(userId, 'code-1', state),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.completeConnection(userId, 'code-1', `${state}0`),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mock.requests).toHaveLength(0);
+      expect(tokenModel.docs).toHaveLength(0);
+    });
+  });
+
+  describe('push', () => {
+    it('inserts new events then updates them once modified', async () => {
+      await connect();
+      const evenement = await addEvenement();
+      mock.handler = (request) => ({
+        body: { ...(request.body as GoogleEvent), id: 'google-1' },
+      });
+
+      const first = await service.syncUser(userId);
+      expect(first.pushed).toBe(1);
+      expect(mock.requests[0]).toMatchObject({
+        method: 'POST',
+        path: '/calendar/v3/calendars/primary/events',
+      });
+      expect(mock.requests[0].body).toMatchObject({
+        summary: 'Cours Math',
+        start: { dateTime: '2030-03-04T09:00:00' },
+        end: { dateTime: '2030-03-04T10:30:00' },
+      });
+      expect(evenement.googleEventId).toBe('google-1');
+
+      expect((await service.syncUser(userId)).pushed).toBe(0);
+
+      evenement.titre = 'Cours Physique';
+      evenement.updatedAt = new Date(
+        (evenement.googleSyncedAt as Date).getTime() + 1000,
+      );
+      mock.requests = [];
+      expect((await service.syncUser(userId)).pushed).toBe(1);
+      expect(mock.requests[0]).toMatchObject({
+        method: 'PUT',
+        path: '/calendar/v3/calendars/primary/events/google-1',
+        body: { summary: 'Cours Physique' },
+      });
+    });
+  });
+
+  describe('pull', () => {
+    it('lists only the changes since the last sync token', async () => {
+      await connect(true);
+      const created = new Date('2030-03-01T10:00:00.000Z');
+      const renamed = new Date('2030-03-01T11:00:00.000Z');
+      mock.handler = (request) => {
+        if (!request.query.get('syncToken')) {
+          return {
+            body: {
+              items: [remoteEvent('remote-1', created, 'Réunion')],
+              nextSyncToken: 'sync-1',
+            },
+          };
+        }
+        return {
+          body: {
+            items: [remoteEvent('remote-1', renamed, 'Réunion projet')],
+            nextSyncToken: 'sync-2',
+          },
+        };
+      };
+
+      expect((await service.syncUser(userId)).pulled).toBe(1);
+      expect(mock.requests[0].query.get('timeMin')).toBeTruthy();
+      const [pulled] = evenementModel.docs;
+      expect(pulled).toMatchObject({
+        googleEventId: 'remote-1',
+        titre: 'Réunion',
+        heureDebut: '14:00',
+        heureFin: '16:00',
+      });
+      expect(tokenModel.docs[0].syncToken).toBe('sync-1');
+
+      mock.requests = [];
+      expect((await service.syncUser(userId)).pulled).toBe(1);
+      expect(mock.requests[0].query.get('syncToken')).toBe('sync-1');
+      expect(evenementModel.docs).toHaveLength(1);
+      expect(pulled.titre).toBe('Réunion projet');
+      expect(tokenModel.docs[0].syncToken).toBe('sync-2');
+    });
+
+    it('starts over with a full list when the sync token expired', async () => {
+      await connect(true);
+      tokenModel.docs[0].syncToken = 'expired';
+      mock.handler = (request) =>
+        request.query.get('syncToken') === 'expired'
+          ? { status: 410, body: { error: { message: 'Sync token expired' } } }
+          : {
+              body: {
+                items: [remoteEvent('remote-1', new Date(), 'Réunion')],
+                nextSyncToken: 'sync-fresh',
+              },
+            };
+
+      const result = await service.syncUser(userId);
+      expect(result.pulled).toBe(1);
+      expect(mock.requests.map((r) => r.query.get('syncToken'))).toEqual([
+        'expired',
+        null,
+      ]);
+      expect(mock.requests[1].query.get('timeMin')).toBeTruthy();
+      expect(tokenModel.docs[0].syncToken).toBe('sync-fresh');
+    });
+
+    it('keeps the most recent side when both changed', async () => {
+      await connect(true);
+      const syncedAt = new Date('2030-03-01T10:00:00.000Z');
+      const at = (hours: number) =>
+        new Date(syncedAt.getTime() + hours * 3600 * 1000);
+      const localNewer = await addEvenement({
+        titre: 'Local plus récent',
+        googleEventId: 'remote-1',
+        googleSyncedAt: syncedAt,
+        updatedAt: syncedAt,
+      });
+      const remoteNewer = await addEvenement({
+        titre: 'Local plus ancien',
+        googleEventId: 'remote-2',
+        googleSyncedAt: syncedAt,
+        updatedAt: syncedAt,
+      });
+      mock.handler = (request) => {
+        if (request.method !== 'GET') {
+          return { body: { ...(request.body as GoogleEvent), id: 'remote-1' } };
+        }
+        // Modifications faites dans l'application pendant la synchronisation
+        localNewer.updatedAt = at(2);
+        remoteNewer.updatedAt = at(2);
+        return {
+          body: {
+            items: [
+              remoteEvent('remote-1', at(1), 'Google plus ancien'),
+              remoteEvent('remote-2', at(3), 'Google plus récent'),
+            ],
+            nextSyncToken: 'sync-1',
+          },
+        };
+      };
+
+      const result = await service.syncUser(userId);
+      expect(result.conflicts).toEqual({ keptLocal: 1, keptRemote: 1 });
+      expect(localNewer.titre).toBe('Local plus récent');
+      expect(remoteNewer.titre).toBe('Google plus récent');
+      expect(remoteNewer.googleSyncedAt).toEqual(at(3));
+
+      // La version locale conservée repart vers Google au prochain envoi
+      mock.requests = [];
+      await service.syncUser(userId);
+      const updates = mock.requests.filter((r) => r.method === 'PUT');
+      expect(updates).toHaveLength(1);
+      expect(updates[0]).toMatchObject({
+        path: '/calendar/v3/calendars/primary/events/remote-1',
+        body: { summary: 'Local plus récent' },
+      });
+    });
+  });
+});
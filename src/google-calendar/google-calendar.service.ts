@@ -0,0 +1,740 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  GoogleCalendarToken,
+  GoogleCalendarTokenDocument,
+} from './schemas/google-calendar-token.schema';
+import {
+  GoogleApiError,
+  GoogleCalendarClient,
+  GoogleEvent,
+  GoogleEventList,
+  GoogleEventTime,
+} from './google-calendar.client';
+import { UpdateGoogleCalendarSettingsDto } from './dto/update-google-calendar-settings.dto';
+import {
+  Evenement,
+  EvenementDocument,
+  EventType,
+} from '../evenement/schemas/evenement.schema';
+import {
+  addDays,
+  normalizeRecurrence,
+  parseDay,
+  toDayString,
+} from '../evenement/evenement-recurrence';
+import {
+  formatRecurrenceRule,
+  mapCategory,
+  parseRecurrenceRule,
+} from '../evenement/evenement-ical';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+// Le jeton d'accès est renouvelé un peu avant son expiration
+const EXPIRY_MARGIN_MS = 60 * 1000;
+const PUSH_BATCH_SIZE = 500;
+
+export interface GoogleCalendarSyncResult {
+  pushed: number;
+  deleted: number;
+  pulled: number;
+  removed: number;
+  // Changements faits des deux côtés depuis la dernière synchronisation
+  conflicts: { keptLocal: number; keptRemote: number };
+}
+
+type RemoteFields = Pick<
+  Evenement,
+  | 'titre'
+  | 'type'
+  | 'date'
+  | 'heureDebut'
+  | 'heureFin'
+  | 'lieu'
+  | 'recurrence'
+  | 'exceptions'
+>;
+
+const emptyResult = (): GoogleCalendarSyncResult => ({
+  pushed: 0,
+  deleted: 0,
+  pulled: 0,
+  removed: 0,
+  conflicts: { keptLocal: 0, keptRemote: 0 },
+});
+
+@Injectable()
+export class GoogleCalendarService {
+  private readonly logger = new Logger(GoogleCalendarService.name);
+  private readonly timeZone =
+    process.env.GOOGLE_CALENDAR_TIMEZONE || 'Africa/Tunis';
+  private readonly stateSecret = process.env.JWT_SECRET || 'changeme';
+  // Fenêtre de la première récupération, avant d'avoir un syncToken
+  private readonly initialPullDays =
+    Number(process.env.GOOGLE_CALENDAR_PULL_DAYS) || 30;
+  // Une synchronisation à la fois par utilisateur dans ce processus
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor(
+    @InjectModel(GoogleCalendarToken.name)
+    private tokenModel: Model<GoogleCalendarTokenDocument>,
+    @InjectModel(Evenement.name)
+    private evenementModel: Model<EvenementDocument>,
+    private readonly client: GoogleCalendarClient,
+  ) {}
+
+  getConnectUrl(userId: string): { url: string } {
+    if (!this.client.isConfigured) {
+      throw new ServiceUnavailableException(
+        "La synchronisation Google Agenda n'est pas configurée",
+      );
+    }
+    const expiresAt = Date.now() + STATE_TTL_MS;
+    const payload = `${userId}.${expiresAt}`;
+    return {
+      url: this.client.buildAuthUrl(`${payload}.${this.sign(payload)}`),
+    };
+  }
+
+  /**
+   * Termine la connexion pour l'utilisateur authentifié. Le state doit avoir
+   * été émis pour ce même utilisateur : un lien de connexion transmis à
+   * quelqu'un d'autre ne peut pas rattacher son agenda au compte émetteur.
+   */
+  async completeConnection(
+    userId: string,
+    code: string,
+    state: string,
+  ): Promise<{ message: string; email?: string }> {
+    if (this.verifyState(state) !== userId.toString()) {
+      throw new BadRequestException('Lien de connexion invalide ou expiré');
+    }
+    if (!code) {
+      throw new BadRequestException("Code d'autorisation manquant");
+    }
+
+    const tokens = await this.client.exchangeCode(code);
+    const existing = await this.tokenModel
+      .findOne({ userId: new Types.ObjectId(userId) })
+      .select('+refreshToken')
+      .exec();
+    const refreshToken = tokens.refresh_token ?? existing?.refreshToken;
+    if (!refreshToken) {
+      throw new BadRequestException(
+        "Google n'a pas fourni de jeton de rafraîchissement, veuillez réessayer",
+      );
+    }
+
+    const email = this.emailFromIdToken(tokens.id_token);
+    await this.tokenModel
+      .updateOne(
+        { userId: new Types.ObjectId(userId) },
+        {
+          $set: {
+            accessToken: tokens.access_token,
+            refreshToken,
+            expiryDate: new Date(Date.now() + tokens.expires_in * 1000),
+            scope: tokens.scope?.split(' ') ?? [],
+            isEnabled: true,
+            lastSyncError: null,
+            ...(email && { email }),
+          },
+          $setOnInsert: { calendarId: 'primary', bidirectionalSync: false },
+        },
+        { upsert: true },
+      )
+      .exec();
+
+    // Envoi des événements existants en arrière-plan
+    this.schedulePush(userId);
+
+    return { message: 'Google Agenda connecté', email };
+  }
+
+  async getStatus(userId: string) {
+    const token = await this.tokenModel
+      .findOne({ userId: new Types.ObjectId(userId) })
+      .exec();
+    if (!token) {
+      return { connected: false };
+    }
+    return {
+      connected: true,
+      email: token.email,
+      calendarId: token.calendarId,
+      isEnabled: token.isEnabled,
+      bidirectionalSync: token.bidirectionalSync,
+      lastSyncAt: token.lastSyncAt,
+      lastBidirectionalSyncAt: token.lastBidirectionalSyncAt,
+      lastSyncError: token.lastSyncError,
+    };
+  }
+
+  async updateSettings(userId: string, dto: UpdateGoogleCalendarSettingsDto) {
+    const token = await this.findToken(userId);
+    const calendarChanged =
+      dto.calendarId !== undefined && dto.calendarId !== token.calendarId;
+
+    await this.tokenModel
+      .updateOne(
+        { _id: token._id },
+        {
+          $set: dto,
+          // Un autre calendrier repart d'une synchronisation complète
+          ...(calendarChanged && { $unset: { syncToken: 1 } }),
+        },
+      )
+      .exec();
+    if (calendarChanged) {
+      await this.forgetRemoteIds(userId);
+    }
+
+    if (dto.isEnabled !== false) {
+      this.schedulePush(userId);
+    }
+    return this.getStatus(userId);
+  }
+
+  async disconnect(userId: string): Promise<{ message: string }> {
+    const token = await this.tokenModel
+      .findOne({ userId: new Types.ObjectId(userId) })
+      .select('+refreshToken')
+      .exec();
+    if (!token) {
+      throw new NotFoundException('Google Agenda non connecté');
+    }
+
+    try {
+      await this.client.revoke(token.refreshToken);
+    } catch (error) {
+      // Le jeton a peut-être déjà été révoqué depuis le compte Google
+      this.logger.warn(
+        `Révocation Google impossible: ${(error as Error).message}`,
+      );
+    }
+    await this.tokenModel.deleteOne({ _id: token._id }).exec();
+    await this.forgetRemoteIds(userId);
+
+    return { message: 'Google Agenda déconnecté' };
+  }
+
+  /**
+   * Envoie les événements modifiés depuis la dernière synchronisation, sans
+   * bloquer l'appelant. Les erreurs sont journalisées.
+   */
+  schedulePush(userId: string): void {
+    void this.enqueue(userId, async () => {
+      const token = await this.loadToken(userId);
+      if (!token) return;
+      await this.pushPending(token, await this.getAccessToken(token));
+    }).catch((error: Error) =>
+      this.logger.error(
+        `Synchronisation Google échouée pour ${userId}: ${error.message}`,
+      ),
+    );
+  }
+
+  /** Supprime côté Google des événements déjà supprimés localement */
+  scheduleRemoteDelete(userId: string, googleEventIds: string[]): void {
+    const ids = googleEventIds.filter(Boolean);
+    if (ids.length === 0) return;
+    void this.enqueue(userId, async () => {
+      const token = await this.loadToken(userId);
+      if (!token) return;
+      const accessToken = await this.getAccessToken(token);
+      for (const id of ids) {
+        await this.client.deleteEvent(accessToken, token.calendarId, id);
+      }
+    }).catch((error: Error) =>
+      this.logger.error(
+        `Suppression Google échouée pour ${userId}: ${error.message}`,
+      ),
+    );
+  }
+
+  /** Envoi puis, si la synchronisation bidirectionnelle est active, récupération */
+  async syncUser(userId: string): Promise<GoogleCalendarSyncResult> {
+    return this.enqueue(userId, async () => {
+      const token = await this.loadToken(userId);
+      if (!token) {
+        throw new NotFoundException(
+          'Google Agenda non connecté ou synchronisation désactivée',
+        );
+      }
+
+      const result = emptyResult();
+      try {
+        const accessToken = await this.getAccessToken(token);
+        result.pushed = await this.pushPending(token, accessToken);
+        if (token.bidirectionalSync) {
+          await this.pull(token, accessToken, result);
+        }
+        await this.tokenModel
+          .updateOne({ _id: token._id }, { lastSyncError: null })
+          .exec();
+      } catch (error) {
+        await this.tokenModel
+          .updateOne(
+            { _id: token._id },
+            { lastSyncError: (error as Error).message },
+          )
+          .exec();
+        throw error;
+      }
+      return result;
+    });
+  }
+
+  /** Tâche planifiée : synchronise chaque compte en bidirectionnel */
+  async syncAll(): Promise<{ users: number; failed: number }> {
+    const tokens = await this.tokenModel
+      .find({ isEnabled: true, bidirectionalSync: true })
+      .select('userId')
+      .exec();
+
+    let failed = 0;
+    for (const token of tokens) {
+      try {
+        await this.syncUser(token.userId.toString());
+      } catch (error) {
+        failed++;
+        this.logger.warn(
+          `Synchronisation Google échouée pour ${token.userId.toString()}: ${(error as Error).message}`,
+        );
+      }
+    }
+    return { users: tokens.length, failed };
+  }
+
+  private async pushPending(
+    token: GoogleCalendarTokenDocument,
+    accessToken: string,
+  ): Promise<number> {
+    const pending = await this.evenementModel
+      .find({
+        userId: token.userId,
+        $or: [
+          { googleEventId: null },
+          { $expr: { $gt: ['$updatedAt', '$googleSyncedAt'] } },
+        ],
+      })
+      .limit(PUSH_BATCH_SIZE)
+      .exec();
+
+    let pushed = 0;
+    for (const evenement of pending) {
+      const body = this.toGoogleEvent(evenement);
+      let remote: GoogleEvent;
+      try {
+        remote = evenement.googleEventId
+          ? await this.client.updateEvent(
+              accessToken,
+              token.calendarId,
+              evenement.googleEventId,
+              body,
+            )
+          : await this.client.insertEvent(accessToken, token.calendarId, body);
+      } catch (error) {
+        // Supprimé côté Google entre-temps : on le recrée
+        if (
+          error instanceof GoogleApiError &&
+          (error.status === 404 || error.status === 410) &&
+          evenement.googleEventId
+        ) {
+          remote = await this.client.insertEvent(
+            accessToken,
+            token.calendarId,
+            body,
+          );
+        } else {
+          throw error;
+        }
+      }
+
+      await this.evenementModel
+        .updateOne(
+          { _id: evenement._id },
+          { googleEventId: remote.id, googleSyncedAt: evenement.updatedAt },
+          { timestamps: false },
+        )
+        .exec();
+      pushed++;
+    }
+
+    await this.tokenModel
+      .updateOne({ _id: token._id }, { lastSyncAt: new Date() })
+      .exec();
+    return pushed;
+  }
+
+  private async pull(
+    token: GoogleCalendarTokenDocument,
+    accessToken: string,
+    result: GoogleCalendarSyncResult,
+  ): Promise<void> {
+    let syncToken = token.syncToken;
+    let pageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+
+    for (;;) {
+      let page: GoogleEventList;
+      try {
+        page = await this.client.listEvents(accessToken, token.calendarId, {
+          syncToken,
+          timeMin: addDays(new Date(), -this.initialPullDays),
+          pageToken,
+        });
+      } catch (error) {
+        // Jeton expiré : Google impose une synchronisation complète
+        if (
+          error instanceof GoogleApiError &&
+          error.status === 410 &&
+          syncToken
+        ) {
+          syncToken = undefined;
+          pageToken = undefined;
+          continue;
+        }
+        throw error;
+      }
+
+      // Séries avant leurs occurrences modifiées
+      const items = [...page.items].sort(
+        (a, b) => Number(!!a.recurringEventId) - Number(!!b.recurringEventId),
+      );
+      for (const item of items) {
+        await this.applyRemoteEvent(token.userId, item, result);
+      }
+      pageToken = page.nextPageToken;
+      nextSyncToken = page.nextSyncToken ?? nextSyncToken;
+      if (!pageToken) break;
+    }
+
+    await this.tokenModel
+      .updateOne(
+        { _id: token._id },
+        {
+          ...(nextSyncToken && { syncToken: nextSyncToken }),
+          lastBidirectionalSyncAt: new Date(),
+        },
+      )
+      .exec();
+  }
+
+  /**
+   * Applique un changement Google. En cas de modification des deux côtés
+   * depuis la dernière synchronisation, la plus récente l'emporte.
+   */
+  private async applyRemoteEvent(
+    userId: Types.ObjectId,
+    item: GoogleEvent,
+    result: GoogleCalendarSyncResult,
+  ): Promise<void> {
+    if (!item.id) return;
+    const remoteUpdated = item.updated ? new Date(item.updated) : new Date();
+    const local = await this.evenementModel
+      .findOne({ userId, googleEventId: item.id })
+      .exec();
+
+    if (local) {
+      const locallyModified =
+        !local.googleSyncedAt ||
+        (local.updatedAt?.getTime() ?? 0) > local.googleSyncedAt.getTime();
+      if (locallyModified) {
+        if ((local.updatedAt?.getTime() ?? 0) > remoteUpdated.getTime()) {
+          // La version locale sera renvoyée au prochain envoi
+          result.conflicts.keptLocal++;
+          return;
+        }
+        result.conflicts.keptRemote++;
+      }
+    }
+
+    if (item.status === 'cancelled') {
+      if (item.recurringEventId && item.originalStartTime) {
+        await this.cancelRemoteOccurrence(userId, item);
+      }
+      if (local) {
+        await this.evenementModel.deleteOne({ _id: local._id }).exec();
+        if (local.recurrence) {
+          await this.evenementModel.deleteMany({ serieId: local._id }).exec();
+        }
+        result.removed++;
+      }
+      return;
+    }
+
+    const fields = this.fromGoogleEvent(item);
+    if (!fields) return;
+    const sync = { googleSyncedAt: remoteUpdated, updatedAt: remoteUpdated };
+
+    if (local) {
+      await this.evenementModel
+        .updateOne(
+          { _id: local._id },
+          { $set: { ...fields, ...sync } },
+          { timestamps: false },
+        )
+        .exec();
+      result.pulled++;
+      return;
+    }
+
+    // Occurrence d'une série modifiée dans Google
+    let override: Partial<Evenement> = {};
+    if (item.recurringEventId && item.originalStartTime) {
+      const serie = await this.evenementModel
+        .findOne({ userId, googleEventId: item.recurringEventId })
+        .exec();
+      if (!serie?.recurrence) return;
+      const occurrenceDate = this.readTime(item.originalStartTime).date;
+      await this.evenementModel
+        .updateOne(
+          { _id: serie._id },
+          { $addToSet: { exceptions: occurrenceDate } },
+          { timestamps: false },
+        )
+        .exec();
+      override = {
+        serieId: serie._id as unknown as Types.ObjectId,
+        occurrenceDate,
+        couleur: serie.couleur,
+        recurrence: null,
+        exceptions: [],
+      };
+    }
+
+    const created = new this.evenementModel({
+      ...fields,
+      ...override,
+      ...sync,
+      createdAt: remoteUpdated,
+      userId,
+      googleEventId: item.id,
+    });
+    await created.save({ timestamps: false });
+    result.pulled++;
+  }
+
+  private async cancelRemoteOccurrence(
+    userId: Types.ObjectId,
+    item: GoogleEvent,
+  ): Promise<void> {
+    const serie = await this.evenementModel
+      .findOne({ userId, googleEventId: item.recurringEventId })
+      .exec();
+    if (!serie?.recurrence) return;
+    await this.evenementModel
+      .updateOne(
+        { _id: serie._id },
+        {
+          $addToSet: {
+            exceptions: this.readTime(item.originalStartTime!).date,
+          },
+        },
+        { timestamps: false },
+      )
+      .exec();
+  }
+
+  private toGoogleEvent(evenement: EvenementDocument): GoogleEvent {
+    const day = toDayString(new Date(evenement.date));
+    // Un créneau de nuit se termine le lendemain
+    const endDay =
+      evenement.heureFin <= evenement.heureDebut
+        ? toDayString(addDays(parseDay(day), 1))
+        : day;
+    const event: GoogleEvent = {
+      summary: evenement.titre,
+      location: evenement.lieu,
+      start: {
+        dateTime: `${day}T${evenement.heureDebut}:00`,
+        timeZone: this.timeZone,
+      },
+      end: {
+        dateTime: `${endDay}T${evenement.heureFin}:00`,
+        timeZone: this.timeZone,
+      },
+      extendedProperties: {
+        private: {
+          evenementId: evenement._id.toString(),
+          type: evenement.type,
+        },
+      },
+    };
+
+    if (evenement.recurrence) {
+      // Les occurrences modifiées sont envoyées comme événements à part
+      event.recurrence = [
+        `RRULE:${formatRecurrenceRule(evenement.recurrence, true)}`,
+      ];
+      if (evenement.exceptions?.length) {
+        const time = evenement.heureDebut.replace(':', '');
+        event.recurrence.push(
+          `EXDATE;TZID=${this.timeZone}:${evenement.exceptions
+            .map((exception) => `${exception.replace(/-/g, '')}T${time}00`)
+            .join(',')}`,
+        );
+      }
+    }
+    return event;
+  }
+
+  private fromGoogleEvent(item: GoogleEvent): RemoteFields | null {
+    if (!item.start) return null;
+    const start = this.readTime(item.start);
+    const end = item.end ? this.readTime(item.end) : null;
+
+    const rruleLine = item.recurrence?.find((line) =>
+      line.toUpperCase().startsWith('RRULE:'),
+    );
+    const rule = rruleLine ? parseRecurrenceRule(rruleLine).rule : undefined;
+    const exceptions = (item.recurrence ?? [])
+      .filter((line) => line.toUpperCase().startsWith('EXDATE'))
+      .flatMap((line) => line.slice(line.indexOf(':') + 1).split(','))
+      .map((value) => /^(\d{4})(\d{2})(\d{2})/.exec(value.trim()))
+      .filter((match): match is RegExpExecArray => !!match)
+      .map(([, year, month, day]) => `${year}-${month}-${day}`);
+
+    const privateType = item.extendedProperties?.private?.type as EventType;
+    return {
+      titre: item.summary?.trim() || 'Sans titre',
+      type: Object.values(EventType).includes(privateType)
+        ? privateType
+        : mapCategory([item.summary ?? '']),
+      date: parseDay(start.date),
+      heureDebut: start.time ?? '00:00',
+      heureFin: start.time ? (end?.time ?? start.time) : '23:59',
+      lieu: item.location,
+      recurrence: rule ? normalizeRecurrence(rule, parseDay(start.date)) : null,
+      exceptions: rule ? exceptions : [],
+    };
+  }
+
+  /** Heure murale de l'événement, telle qu'affichée dans son fuseau */
+  private readTime(time: GoogleEventTime): {
+    date: string;
+    time: string | null;
+  } {
+    if (time.dateTime) {
+      return {
+        date: time.dateTime.slice(0, 10),
+        time: time.dateTime.slice(11, 16),
+      };
+    }
+    return { date: (time.date ?? '').slice(0, 10), time: null };
+  }
+
+  private async getAccessToken(
+    token: GoogleCalendarTokenDocument,
+  ): Promise<string> {
+    if (token.expiryDate.getTime() - EXPIRY_MARGIN_MS > Date.now()) {
+      return token.accessToken;
+    }
+
+    const refreshed = await this.client.refreshAccessToken(token.refreshToken);
+    token.accessToken = refreshed.access_token;
+    token.expiryDate = new Date(Date.now() + refreshed.expires_in * 1000);
+    await this.tokenModel
+      .updateOne(
+        { _id: token._id },
+        {
+          accessToken: token.accessToken,
+          expiryDate: token.expiryDate,
+          ...(refreshed.refresh_token && {
+            refreshToken: refreshed.refresh_token,
+          }),
+        },
+      )
+      .exec();
+    return token.accessToken;
+  }
+
+  private async loadToken(
+    userId: string,
+  ): Promise<GoogleCalendarTokenDocument | null> {
+    return this.tokenModel
+      .findOne({ userId: new Types.ObjectId(userId), isEnabled: true })
+      .select('+accessToken +refreshToken +syncToken')
+      .exec();
+  }
+
+  private async findToken(
+    userId: string,
+  ): Promise<GoogleCalendarTokenDocument> {
+    const token = await this.tokenModel
+      .findOne({ userId: new Types.ObjectId(userId) })
+      .exec();
+    if (!token) {
+      throw new NotFoundException('Google Agenda non connecté');
+    }
+    return token;
+  }
+
+  private async forgetRemoteIds(userId: string): Promise<void> {
+    await this.evenementModel
+      .updateMany(
+        { userId: new Types.ObjectId(userId) },
+        { googleEventId: null, googleSyncedAt: null },
+        { timestamps: false },
+      )
+      .exec();
+  }
+
+  private enqueue<T>(userId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.has(userId)
+      ? this.queues.get(userId)!
+      : Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.queues.set(userId, next);
+    void next
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.queues.get(userId) === next) this.queues.delete(userId);
+      });
+    return next;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.stateSecret)
+      .update(`google-calendar:${payload}`)
+      .digest('hex');
+  }
+
+  private verifyState(state: string): string {
+    const [userId, expiresAt, signature] = (state ?? '').split('.');
+    const expected =
+      userId && expiresAt ? this.sign(`${userId}.${expiresAt}`) : '';
+    if (
+      !signature ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected)) ||
+      Number(expiresAt) < Date.now() ||
+      !Types.ObjectId.isValid(userId)
+    ) {
+      throw new BadRequestException('Lien de connexion invalide ou expiré');
+    }
+    return userId;
+  }
+
+  private emailFromIdToken(idToken?: string): string | undefined {
+    if (!idToken) return undefined;
+    try {
+      // Reçu directement de Google en HTTPS, la signature n'est pas revérifiée
+      const payload = JSON.parse(
+        Buffer.from(idToken.split('.')[1], 'base64url').toString('utf-8'),
+      ) as { email?: string };
+      return payload.email;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -9,11 +9,11 @@ export class GoogleCalendarToken {
   @ApiProperty({ description: 'Identifiant' })
   _id: string;
 
-  @ApiProperty({ description: 'ID de l\'utilisateur' })
+  @ApiProperty({ description: "ID de l'utilisateur" })
   @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
   userId: Types.ObjectId;
 
-  @ApiProperty({ description: 'Token d\'accès OAuth2' })
+  @ApiProperty({ description: "Token d'accès OAuth2" })
   @Prop({ required: true, select: false })
   accessToken: string;
 
@@ -21,7 +21,7 @@ export class GoogleCalendarToken {
   @Prop({ required: true, select: false })
   refreshToken: string;
 
-  @ApiProperty({ description: 'Date d\'expiration du token' })
+  @ApiProperty({ description: "Date d'expiration du token" })
   @Prop({ required: true })
   expiryDate: Date;
 
@@ -53,13 +53,24 @@ export class GoogleCalendarToken {
   @Prop([String])
   scope: string[];
 
+  // Jeton de synchronisation incrémentale renvoyé par Google
+  @Prop({ select: false })
+  syncToken?: string;
+
+  @ApiProperty({
+    description: 'Dernière erreur de synchronisation',
+    required: false,
+  })
+  @Prop({ type: String, default: null })
+  lastSyncError?: string | null;
+
   createdAt: Date;
   updatedAt: Date;
 }
 
-export const GoogleCalendarTokenSchema = SchemaFactory.createForClass(GoogleCalendarToken);
+export const GoogleCalendarTokenSchema =
+  SchemaFactory.createForClass(GoogleCalendarToken);
 
 // Index pour les requêtes fréquentes
 GoogleCalendarTokenSchema.index({ userId: 1 });
 GoogleCalendarTokenSchema.index({ email: 1 });
-
@@ -0,0 +1,67 @@
+import {
+  Controller,
+  DefaultValuePipe,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JobsService } from './jobs.service';
+import { JobTrigger } from './schemas/job-run.schema';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
+
+@ApiTags('admins')
+@Controller('admin/jobs')
+@Roles('admin')
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List scheduled jobs with their next and last run' })
+  @ApiResponse({ status: 200, description: 'Jobs list' })
+  @ApiResponse({ status: 403, description: 'Admin Only' })
+  async findAll() {
+    return this.jobsService.findAll();
+  }
+
+  @Get(':name/runs')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Recent runs of a job' })
+  @ApiQuery({ name: 'limit', required: false, example: 20 })
+  @ApiResponse({ status: 200, description: 'Runs, most recent first' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async findRuns(
+    @Param('name') name: string,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    return this.jobsService.findRuns(name, limit);
+  }
+
+  @Post(':name/run')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Run a job now and wait for its result' })
+  @ApiResponse({ status: 201, description: 'Run log entry' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 409, description: 'Job already running' })
+  async run(@Param('name') name: string, @CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.jobsService.run(name, JobTrigger.MANUAL, userId.toString());
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ScheduleModule } from '@nestjs/schedule';
+import { JobsController } from './jobs.controller';
+import { JobsService } from './jobs.service';
+import { JobRun, JobRunSchema } from './schemas/job-run.schema';
+import { JobLock, JobLockSchema } from './schemas/job-lock.schema';
+import { OffreModule } from '../offre/offre.module';
+import { UserModule } from '../User/user.module';
+import { ChatModule } from '../chat/chat.module';
+import { SavedSearchModule } from '../saved-search/saved-search.module';
+import { GoogleCalendarModule } from '../google-calendar/google-calendar.module';
+import { AiMatchingModule } from '../ai-matching/ai-matching.module';
+
+// Named "jobs" because src/schedule already holds the OCR timetable feature
+@Module({
+  imports: [
+    ScheduleModule.forRoot(),
+    MongooseModule.forFeature([
+      { name: JobRun.name, schema: JobRunSchema },
+      { name: JobLock.name, schema: JobLockSchema },
+    ]),
+    OffreModule,
+    UserModule,
+    ChatModule,
+    SavedSearchModule,
+    GoogleCalendarModule,
+    AiMatchingModule,
+  ],
+  controllers: [JobsController],
+  providers: [JobsService],
+  exports: [JobsService],
+})
+export class JobsModule {}
@@ -0,0 +1,289 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import { CronJob } from 'cron';
+import { hostname } from 'os';
+import {
+  JobRun,
+  JobRunDocument,
+  JobRunStatus,
+  JobTrigger,
+} from './schemas/job-run.schema';
+import { JobLock, JobLockDocument } from './schemas/job-lock.schema';
+import { OffreService } from '../offre/offre.service';
+import { UserService } from '../User/user.service';
+import { ChatService } from '../chat/chat.service';
+import { SavedSearchService } from '../saved-search/saved-search.service';
+import { GoogleCalendarService } from '../google-calendar/google-calendar.service';
+import { MatchIndexService } from '../ai-matching/match-index.service';
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // Default schedule, overridable with JOB_CRON_<NAME> (e.g. JOB_CRON_EXPIRE_OFFERS)
+  cron: string;
+  // How long a run may hold the lock before another instance can take over
+  lockTtlMs?: number;
+  handler: () => Promise<Record<string, any>>;
+}
+
+const DEFAULT_LOCK_TTL_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class JobsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(JobsService.name);
+  private readonly instanceId = `${hostname()}-${process.pid}`;
+  private readonly definitions: JobDefinition[];
+
+  constructor(
+    @InjectModel(JobRun.name) private jobRunModel: Model<JobRunDocument>,
+    @InjectModel(JobLock.name) private jobLockModel: Model<JobLockDocument>,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly offreService: OffreService,
+    private readonly userService: UserService,
+    private readonly chatService: ChatService,
+    private readonly savedSearchService: SavedSearchService,
+    private readonly googleCalendarService: GoogleCalendarService,
+    private readonly matchIndexService: MatchIndexService,
+  ) {
+    this.definitions = this.buildDefinitions();
+  }
+
+  onApplicationBootstrap() {
+    // Instances that only serve HTTP can opt out, manual runs still work
+    if (process.env.JOBS_ENABLED === 'false') {
+      this.logger.log('Scheduled jobs are disabled on this instance');
+      return;
+    }
+
+    for (const definition of this.definitions) {
+      const job = CronJob.from({
+        cronTime: this.cronFor(definition),
+        onTick: () => {
+          void this.run(definition.name, JobTrigger.SCHEDULE).catch(
+            (error: Error) =>
+              this.logger.error(
+                `Job ${definition.name} failed: ${error.message}`,
+              ),
+          );
+        },
+      });
+      this.schedulerRegistry.addCronJob(definition.name, job);
+      job.start();
+    }
+  }
+
+  async findAll() {
+    return Promise.all(
+      this.definitions.map(async (definition) => ({
+        name: definition.name,
+        description: definition.description,
+        cron: this.cronFor(definition),
+        scheduled: this.schedulerRegistry.doesExist('cron', definition.name),
+        nextRunAt: this.nextRunAt(definition.name),
+        lastRun: await this.jobRunModel
+          .findOne({ job: definition.name })
+          .sort({ startedAt: -1 })
+          .exec(),
+      })),
+    );
+  }
+
+  async findRuns(name: string, limit = 20): Promise<JobRunDocument[]> {
+    this.getDefinition(name);
+    return this.jobRunModel
+      .find({ job: name })
+      .sort({ startedAt: -1 })
+      .limit(Math.min(limit, 100))
+      .exec();
+  }
+
+  /** Runs a job now; scheduled ticks are skipped silently when another instance holds the lock */
+  async run(
+    name: string,
+    trigger: JobTrigger,
+    triggeredBy?: string,
+  ): Promise<JobRunDocument | null> {
+    const definition = this.getDefinition(name);
+
+    if (!(await this.acquireLock(definition))) {
+      if (trigger === JobTrigger.MANUAL) {
+        throw new ConflictException(`Job ${name} is already running`);
+      }
+      this.logger.debug(`Job ${name} is locked by another instance, skipping`);
+      return null;
+    }
+
+    const startedAt = new Date();
+    const run = await new this.jobRunModel({
+      job: name,
+      trigger,
+      triggeredBy: triggeredBy ? new Types.ObjectId(triggeredBy) : undefined,
+      instance: this.instanceId,
+      status: JobRunStatus.RUNNING,
+      startedAt,
+    }).save();
+
+    try {
+      run.result = await definition.handler();
+      run.status = JobRunStatus.SUCCESS;
+    } catch (error) {
+      run.status = JobRunStatus.FAILED;
+      run.error = (error as Error).message;
+      this.logger.error(`Job ${name} failed: ${run.error}`);
+    } finally {
+      run.finishedAt = new Date();
+      run.durationMs = run.finishedAt.getTime() - startedAt.getTime();
+      await this.releaseLock(name);
+    }
+
+    return run.save();
+  }
+
+  private buildDefinitions(): JobDefinition[] {
+    const chatRetentionDays = Number(process.env.CHAT_RETENTION_DAYS) || 30;
+    const presenceStaleMinutes =
+      Number(process.env.PRESENCE_STALE_MINUTES) || 10;
+
+    return [
+      {
+        name: 'expire-offers',
+        description: 'Deactivates offers whose expiresAt has passed',
+        cron: '*/15 * * * *',
+        handler: () => this.offreService.deactivateExpiredOffers(),
+      },
+      {
+        name: 'refresh-offer-days',
+        description: 'Recomputes the days counter of active offers',
+        cron: '5 0 * * *',
+        handler: () => this.offreService.refreshDayCounters(),
+      },
+      {
+        name: 'backfill-offer-salaries',
+        description:
+          'Parses salary bounds, currency and period of offers saved as free text',
+        cron: '20 0 * * *',
+        handler: () => this.offreService.backfillSalaryRanges(),
+      },
+      {
+        name: 'backfill-offer-geo',
+        description:
+          'Builds the GeoJSON point of offers saved with plain coordinates',
+        cron: '25 0 * * *',
+        handler: () => this.offreService.backfillGeoPoints(),
+      },
+      {
+        name: 'reindex-offer-search',
+        description:
+          'Builds the search index of offers that do not have one yet',
+        cron: '*/10 * * * *',
+        handler: () => this.offreService.reindexSearch(),
+      },
+      {
+        name: 'saved-search-digest',
+        description:
+          'Notifies users of new offers matching their saved searches',
+        cron: '0 * * * *',
+        lockTtlMs: 30 * 60 * 1000,
+        handler: () => this.savedSearchService.runDigest(),
+      },
+      {
+        name: 'google-calendar-sync',
+        description:
+          'Pushes event changes to Google Calendar and pulls remote ones for two-way sync users',
+        cron: '*/15 * * * *',
+        lockTtlMs: 30 * 60 * 1000,
+        handler: () => this.googleCalendarService.syncAll(),
+      },
+      {
+        name: 'refresh-match-index',
+        description:
+          'Rebuilds stale AI match indexes and rescores offers whose matching fields changed',
+        cron: '*/10 * * * *',
+        lockTtlMs: 30 * 60 * 1000,
+        handler: () => this.matchIndexService.refreshAll(),
+      },
+      {
+        name: 'sweep-stale-presence',
+        description: `Marks offline users without a heartbeat for ${presenceStaleMinutes} minutes`,
+        cron: '*/5 * * * *',
+        handler: () =>
+          this.userService.markStaleUsersOffline(
+            new Date(Date.now() - presenceStaleMinutes * 60 * 1000),
+          ),
+      },
+      {
+        name: 'purge-deleted-chats',
+        description: `Removes chats and messages deleted more than ${chatRetentionDays} days ago`,
+        cron: '0 3 * * *',
+        lockTtlMs: 30 * 60 * 1000,
+        handler: () =>
+          this.chatService.purgeDeleted(
+            new Date(Date.now() - chatRetentionDays * 24 * 60 * 60 * 1000),
+          ),
+      },
+    ];
+  }
+
+  private getDefinition(name: string): JobDefinition {
+    const definition = this.definitions.find((d) => d.name === name);
+    if (!definition) {
+      throw new NotFoundException(`Job ${name} not found`);
+    }
+    return definition;
+  }
+
+  private cronFor(definition: JobDefinition): string {
+    const envKey = `JOB_CRON_${definition.name.toUpperCase().replace(/-/g, '_')}`;
+    return process.env[envKey] || definition.cron;
+  }
+
+  private nextRunAt(name: string): Date | null {
+    if (!this.schedulerRegistry.doesExist('cron', name)) {
+      return null;
+    }
+    return this.schedulerRegistry.getCronJob(name).nextDate().toJSDate();
+  }
+
+  private async acquireLock(definition: JobDefinition): Promise<boolean> {
+    const now = new Date();
+    try {
+      // Matches a free or expired lock; if the job is held, the upsert hits the unique _id
+      await this.jobLockModel
+        .findOneAndUpdate(
+          { _id: definition.name, lockedUntil: { $lte: now } },
+          {
+            lockedBy: this.instanceId,
+            lockedAt: now,
+            lockedUntil: new Date(
+              now.getTime() + (definition.lockTtlMs ?? DEFAULT_LOCK_TTL_MS),
+            ),
+          },
+          { upsert: true },
+        )
+        .exec();
+      return true;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async releaseLock(name: string): Promise<void> {
+    await this.jobLockModel
+      .updateOne(
+        { _id: name, lockedBy: this.instanceId },
+        { lockedUntil: new Date() },
+      )
+      .exec();
+  }
+}
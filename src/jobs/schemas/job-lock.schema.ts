@@ -0,0 +1,24 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type JobLockDocument = HydratedDocument<JobLock>;
+
+/** One document per job, held by the instance currently running it */
+@Schema({ timestamps: true, versionKey: false })
+export class JobLock {
+  // Job name
+  @Prop({ type: String })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  lockedBy: string;
+
+  @Prop({ type: Date, required: true })
+  lockedAt: Date;
+
+  // A crashed instance cannot hold the lock past this date
+  @Prop({ type: Date, required: true })
+  lockedUntil: Date;
+}
+
+export const JobLockSchema = SchemaFactory.createForClass(JobLock);
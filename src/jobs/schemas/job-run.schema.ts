@@ -0,0 +1,76 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type JobRunDocument = HydratedDocument<JobRun>;
+
+export enum JobRunStatus {
+  RUNNING = 'running',
+  SUCCESS = 'success',
+  FAILED = 'failed',
+}
+
+export enum JobTrigger {
+  SCHEDULE = 'schedule',
+  MANUAL = 'manual',
+}
+
+@Schema({ timestamps: true, versionKey: false })
+export class JobRun {
+  @ApiProperty({ example: 'expire-offers' })
+  @Prop({ type: String, required: true })
+  job: string;
+
+  @ApiProperty({ enum: JobTrigger, example: JobTrigger.SCHEDULE })
+  @Prop({ type: String, enum: JobTrigger, required: true })
+  trigger: JobTrigger;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Admin who started a manual run',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  triggeredBy?: Types.ObjectId;
+
+  @ApiProperty({
+    example: 'api-1-4312',
+    description: 'Instance that ran the job',
+  })
+  @Prop({ type: String })
+  instance: string;
+
+  @ApiProperty({ enum: JobRunStatus, example: JobRunStatus.SUCCESS })
+  @Prop({ type: String, enum: JobRunStatus, default: JobRunStatus.RUNNING })
+  status: JobRunStatus;
+
+  @ApiProperty({ example: new Date() })
+  @Prop({ type: Date, required: true })
+  startedAt: Date;
+
+  @ApiProperty({ example: new Date(), required: false })
+  @Prop({ type: Date })
+  finishedAt?: Date;
+
+  @ApiProperty({ example: 124, required: false })
+  @Prop({ type: Number })
+  durationMs?: number;
+
+  @ApiProperty({
+    example: { deactivated: 3 },
+    description: 'Counters returned by the job',
+    required: false,
+  })
+  @Prop({ type: Object })
+  result?: Record<string, any>;
+
+  @ApiProperty({ example: 'connection timed out', required: false })
+  @Prop({ type: String })
+  error?: string;
+}
+
+export const JobRunSchema = SchemaFactory.createForClass(JobRun);
+
+JobRunSchema.index({ job: 1, startedAt: -1 });
+// The run log only needs to cover recent history
+JobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
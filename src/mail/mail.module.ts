@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+import { ConsoleMailTransport } from './transports/console.transport';
+import { FileMailTransport } from './transports/file.transport';
+
+@Module({
+  providers: [
+    {
+      // MAIL_TRANSPORT=console|file, a real SMTP/API transport only needs to implement MailTransport
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport => {
+        switch (configService.get<string>('MAIL_TRANSPORT')) {
+          case 'file':
+            return new FileMailTransport(
+              configService.get<string>('MAIL_OUTBOX_DIR') || 'mail-outbox',
+            );
+          default:
+            return new ConsoleMailTransport();
+        }
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
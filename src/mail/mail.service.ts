@@ -0,0 +1,58 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './mail-transport.interface';
+import type { MailMessage, MailTransport } from './mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly from: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {
+    this.from =
+      this.configService.get<string>('MAIL_FROM') ||
+      'Talleb 5edma <no-reply@talleb5edma.tn>';
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: this.from });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send "${message.subject}" to ${message.to}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async sendEmailVerification(to: string, name: string, link: string) {
+    await this.send({
+      to,
+      subject: 'Verify your email address',
+      text:
+        `Hello ${name},\n\n` +
+        `Please confirm your email address by opening the link below:\n${link}\n\n` +
+        `If you did not create an account, you can ignore this email.`,
+    });
+  }
+
+  async sendPasswordReset(
+    to: string,
+    name: string,
+    link: string,
+    expiresInMinutes: number,
+  ) {
+    await this.send({
+      to,
+      subject: 'Reset your password',
+      text:
+        `Hello ${name},\n\n` +
+        `We received a request to reset your password. Open the link below to choose a new one:\n${link}\n\n` +
+        `This link can be used once and expires in ${expiresInMinutes} minutes. ` +
+        `If you did not ask for it, you can ignore this email.`,
+    });
+  }
+}
@@ -0,0 +1,14 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+/** Logs emails instead of sending them, default transport for development */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(
+      `📧 ${message.from} -> ${message.to} | ${message.subject}\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,25 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+/** Writes every email as a JSON file, handy to grab links in tests */
+export class FileMailTransport implements MailTransport {
+  private readonly logger = new Logger(FileMailTransport.name);
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+    const filePath = path.join(this.outboxDir, fileName);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2),
+    );
+    this.logger.log(`Email to ${message.to} written to ${filePath}`);
+  }
+}
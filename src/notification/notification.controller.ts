@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { NotificationService } from './notification.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
+
+@ApiTags('notifications')
+@Controller('notifications')
+export class NotificationController {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get notifications of the current user' })
+  @ApiQuery({ name: 'page', required: false, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, example: 20 })
+  @ApiQuery({ name: 'unreadOnly', required: false, example: false })
+  @ApiResponse({ status: 200, description: 'Returns paginated notifications' })
+  async findAll(
+    @CurrentUser() user: UserDocument,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Query('unreadOnly') unreadOnly?: string,
+  ) {
+    const userId = user._id.toString();
+    return this.notificationService.findByUser(
+      userId,
+      Number(page) || 1,
+      Number(limit) || 20,
+      unreadOnly === 'true',
+    );
+  }
+
+  @Get('unread-count')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the number of unread notifications' })
+  @ApiResponse({ status: 200, description: 'Returns the unread count' })
+  async getUnreadCount(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.notificationService.getUnreadCount(userId);
+  }
+
+  @Patch('read-all')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Mark all notifications as read' })
+  @ApiResponse({ status: 200, description: 'Notifications marked as read' })
+  async markAllAsRead(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.notificationService.markAllAsRead(userId);
+  }
+
+  @Patch(':id/read')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiResponse({ status: 200, description: 'Notification marked as read' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async markAsRead(@Param('id') id: string, @CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.notificationService.markAsRead(id, userId);
+  }
+}
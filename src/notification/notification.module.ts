@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { NotificationController } from './notification.controller';
+import { NotificationService } from './notification.service';
+import {
+  Notification,
+  NotificationSchema,
+} from './schemas/notification.schema';
+import { CallServerModule } from '../call-server/call-server.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Notification.name, schema: NotificationSchema },
+    ]),
+    CallServerModule,
+  ],
+  controllers: [NotificationController],
+  providers: [NotificationService],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
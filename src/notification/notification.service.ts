@@ -0,0 +1,130 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Notification,
+  NotificationDocument,
+  NotificationType,
+} from './schemas/notification.schema';
+import { CallServerGateway } from '../call-server/call-server.gateway';
+
+const MAX_PAGE_SIZE = 50;
+
+export interface CreateNotificationInput {
+  recipient: string | Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  data?: Record<string, any>;
+}
+
+@Injectable()
+export class NotificationService {
+  private readonly logger = new Logger(NotificationService.name);
+
+  constructor(
+    @InjectModel(Notification.name)
+    private notificationModel: Model<NotificationDocument>,
+    private readonly callServerGateway: CallServerGateway,
+  ) {}
+
+  async create(input: CreateNotificationInput): Promise<NotificationDocument> {
+    const notification = await new this.notificationModel({
+      recipient: new Types.ObjectId(input.recipient.toString()),
+      type: input.type,
+      title: input.title,
+      body: input.body,
+      data: input.data ?? {},
+    }).save();
+
+    // Offline users simply pick it up from GET /notifications
+    this.callServerGateway.emitToUser(
+      input.recipient.toString(),
+      'notification',
+      notification.toJSON(),
+    );
+
+    return notification;
+  }
+
+  /** Same as create, but never fails the operation that triggered it */
+  async notify(
+    input: CreateNotificationInput,
+  ): Promise<NotificationDocument | null> {
+    try {
+      return await this.create(input);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${input.type} notification to ${input.recipient.toString()}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  async findByUser(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+    unreadOnly: boolean = false,
+  ): Promise<{
+    notifications: NotificationDocument[];
+    total: number;
+    unread: number;
+  }> {
+    page = Math.max(Math.floor(page), 1);
+    limit = Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_SIZE);
+    const recipient = new Types.ObjectId(userId);
+    const filter = unreadOnly ? { recipient, isRead: false } : { recipient };
+    const skip = (page - 1) * limit;
+
+    const [notifications, total, unread] = await Promise.all([
+      this.notificationModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.notificationModel.countDocuments(filter).exec(),
+      this.notificationModel
+        .countDocuments({ recipient, isRead: false })
+        .exec(),
+    ]);
+
+    return { notifications, total, unread };
+  }
+
+  async getUnreadCount(userId: string): Promise<{ unread: number }> {
+    const unread = await this.notificationModel
+      .countDocuments({ recipient: new Types.ObjectId(userId), isRead: false })
+      .exec();
+
+    return { unread };
+  }
+
+  async markAsRead(id: string, userId: string): Promise<NotificationDocument> {
+    const notification = await this.notificationModel
+      .findOneAndUpdate(
+        { _id: id, recipient: new Types.ObjectId(userId) },
+        { isRead: true, readAt: new Date() },
+        { new: true },
+      )
+      .exec();
+
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    return notification;
+  }
+
+  async markAllAsRead(userId: string): Promise<{ updated: number }> {
+    const result = await this.notificationModel
+      .updateMany(
+        { recipient: new Types.ObjectId(userId), isRead: false },
+        { isRead: true, readAt: new Date() },
+      )
+      .exec();
+
+    return { updated: result.modifiedCount };
+  }
+}
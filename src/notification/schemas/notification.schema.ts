@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type NotificationDocument = HydratedDocument<Notification>;
+
+export enum NotificationType {
+  NEW_MESSAGE = 'new_message',
+  CANDIDATE_ACCEPTED = 'candidate_accepted',
+  INTERVIEW_RESULT = 'interview_result',
+  RECLAMATION_STATUS = 'reclamation_status',
+  ORGANIZATION_REQUEST = 'organization_request',
+  COMPANY_VERIFICATION = 'company_verification',
+  COMPANY_INVITATION = 'company_invitation',
+  OFFER_MODERATION = 'offer_moderation',
+  SAVED_SEARCH_ALERT = 'saved_search_alert',
+}
+
+@Schema({ timestamps: true, versionKey: false })
+export class Notification {
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Recipient user ID',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  recipient: Types.ObjectId;
+
+  @ApiProperty({
+    enum: NotificationType,
+    example: NotificationType.NEW_MESSAGE,
+  })
+  @Prop({ type: String, enum: NotificationType, required: true })
+  type: NotificationType;
+
+  @ApiProperty({ example: 'New message' })
+  @Prop({ type: String, required: true, trim: true })
+  title: string;
+
+  @ApiProperty({ example: 'Hello, I am interested in this offer' })
+  @Prop({ type: String, trim: true })
+  body?: string;
+
+  @ApiProperty({
+    example: { chatId: '507f1f77bcf86cd799439021' },
+    description: 'Identifiers the client needs to open the related screen',
+  })
+  @Prop({ type: Object, default: {} })
+  data: Record<string, any>;
+
+  @ApiProperty({ example: false })
+  @Prop({ type: Boolean, default: false })
+  isRead: boolean;
+
+  @ApiProperty({ example: new Date(), required: false })
+  @Prop({ type: Date })
+  readAt?: Date;
+}
+
+export const NotificationSchema = SchemaFactory.createForClass(Notification);
+
+NotificationSchema.index({ recipient: 1, createdAt: -1 });
+NotificationSchema.index({ recipient: 1, isRead: 1 });
@@ -1,7 +1,31 @@
-import { IsString, IsArray, IsOptional, IsObject, IsNotEmpty, IsNumber, IsDateString, IsEnum, IsBoolean } from 'class-validator';
+import {
+  IsString,
+  IsArray,
+  IsOptional,
+  IsObject,
+  IsNotEmpty,
+  IsNumber,
+  IsDateString,
+  IsEnum,
+  IsBoolean,
+  Matches,
+  Max,
+  Min,
+  Length,
+  ValidateNested,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Type, Transform } from 'class-transformer';
 import { JobType, Shift } from '../schemas/offre.schema';
+import { SalaryPeriod } from '../offre-compensation';
+import { JourSemaine } from '../../disponibilite/schemas/disponibilite.schema';
+
+const HOUR_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toNumber = ({ value }) => {
+  if (value === '' || value === null || value === undefined) return undefined;
+  return Number(value);
+};
 
 class CoordinatesDto {
   @ApiProperty({ example: 48.8566, description: 'Latitude' })
@@ -15,6 +39,27 @@ class CoordinatesDto {
   lng: number;
 }
 
+class ScheduleSlotDto {
+  @ApiProperty({
+    enum: JourSemaine,
+    example: JourSemaine.SAMEDI,
+    description: 'Day of the week',
+  })
+  @IsEnum(JourSemaine)
+  jour: JourSemaine;
+
+  @ApiProperty({ example: '09:00', description: 'Start time (HH:mm)' })
+  @Matches(HOUR_PATTERN, { message: 'heureDebut must be formatted as HH:mm' })
+  heureDebut: string;
+
+  @ApiProperty({
+    example: '17:00',
+    description: 'End time (HH:mm), earlier than the start for a night window',
+  })
+  @Matches(HOUR_PATTERN, { message: 'heureFin must be formatted as HH:mm' })
+  heureFin: string;
+}
+
 class LocationDto {
   @ApiProperty({ example: '123 Main Street', description: 'Street address' })
   @IsString()
@@ -31,10 +76,10 @@ class LocationDto {
   @IsNotEmpty()
   country: string;
 
-  @ApiProperty({ 
-    example: { lat: 48.8566, lng: 2.3522 }, 
+  @ApiProperty({
+    example: { lat: 48.8566, lng: 2.3522 },
     description: 'Geographic coordinates',
-    required: false 
+    required: false,
   })
   @IsOptional()
   @Type(() => CoordinatesDto)
@@ -42,67 +87,73 @@ class LocationDto {
 }
 
 export class CreateOffreDto {
-  @ApiProperty({ example: 'Senior Full Stack Developer', description: 'Offer title' })
+  @ApiProperty({
+    example: 'Senior Full Stack Developer',
+    description: 'Offer title',
+  })
   @IsString()
   @IsNotEmpty()
   title: string;
 
-  @ApiProperty({ 
-    type: 'array', 
+  @ApiProperty({
+    type: 'array',
     items: { type: 'string', format: 'binary' },
     description: 'Array of offer image files',
-    required: false
+    required: false,
   })
   @IsOptional()
   imageFiles?: any[];
 
-  @ApiProperty({ example: 'We are looking for an experienced developer...', description: 'Detailed description' })
+  @ApiProperty({
+    example: 'We are looking for an experienced developer...',
+    description: 'Detailed description',
+  })
   @IsString()
   @IsNotEmpty()
   description: string;
 
-  @ApiProperty({ 
-    example: ['javascript', 'react', 'nodejs'], 
+  @ApiProperty({
+    example: ['javascript', 'react', 'nodejs'],
     description: 'Tags for categorization',
     required: false,
-    type: [String]
+    type: [String],
   })
   @IsArray()
   @IsString({ each: true })
   @IsOptional()
   @Transform(({ value }) => {
     if (typeof value === 'string') {
-      return value.split(',').map(tag => tag.trim());
+      return value.split(',').map((tag) => tag.trim());
     }
     return value;
   })
   tags?: string[];
 
-  @ApiProperty({ 
-    example: ['3+ years experience', 'Bachelor degree', 'Team leadership'], 
+  @ApiProperty({
+    example: ['3+ years experience', 'Bachelor degree', 'Team leadership'],
     description: 'Job requirements and qualifications',
     required: false,
-    type: [String]
+    type: [String],
   })
   @IsArray()
   @IsString({ each: true })
   @IsOptional()
   @Transform(({ value }) => {
     if (typeof value === 'string') {
-      return value.split(',').map(exigence => exigence.trim());
+      return value.split(',').map((exigence) => exigence.trim());
     }
     return value;
   })
   exigences?: string[];
 
-  @ApiProperty({ 
+  @ApiProperty({
     description: 'Location information',
     example: {
       address: '123 Main Street',
-      city: 'Paris', 
+      city: 'Paris',
       country: 'France',
-      coordinates: { lat: 48.8566, lng: 2.3522 }
-    }
+      coordinates: { lat: 48.8566, lng: 2.3522 },
+    },
   })
   @IsObject()
   @IsNotEmpty()
@@ -119,55 +170,160 @@ export class CreateOffreDto {
   @Type(() => LocationDto)
   location: LocationDto;
 
-  @ApiProperty({ example: 'Information Technology', description: 'Offer category', required: false })
+  @ApiProperty({
+    example: 'Information Technology',
+    description: 'Offer category',
+    required: false,
+  })
   @IsString()
   @IsOptional()
   category?: string;
 
-  @ApiProperty({ example: '50000-70000 EUR', description: 'Salary range', required: false })
+  @ApiProperty({
+    example: '50000-70000 EUR',
+    description:
+      'Salary as free text, generated from the structured fields when omitted',
+    required: false,
+  })
   @IsString()
   @IsOptional()
   salary?: string;
 
-  @ApiProperty({ example: 'Tech Solutions Inc.', description: 'Company name' })
+  @ApiProperty({
+    example: 1200,
+    description: 'Lower salary amount',
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Transform(toNumber)
+  salaryMin?: number;
+
+  @ApiProperty({
+    example: 1500,
+    description: 'Upper salary amount',
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Transform(toNumber)
+  salaryMax?: number;
+
+  @ApiProperty({
+    example: 'TND',
+    description: 'ISO 4217 currency code',
+    required: false,
+  })
   @IsString()
-  @IsNotEmpty()
-  company: string;
+  @Length(3, 3)
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  salaryCurrency?: string;
 
-  @ApiProperty({ example: '2024-12-31', description: 'Expiration date', required: false })
+  @ApiProperty({
+    enum: SalaryPeriod,
+    example: SalaryPeriod.MONTHLY,
+    description: 'What the salary amount pays for',
+    required: false,
+  })
+  @IsEnum(SalaryPeriod)
+  @IsOptional()
+  salaryPeriod?: SalaryPeriod;
+
+  @ApiProperty({
+    example: 20,
+    description: 'Working hours per week, summed from schedule when omitted',
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(80)
+  @IsOptional()
+  @Transform(toNumber)
+  weeklyHours?: number;
+
+  @ApiProperty({
+    type: [ScheduleSlotDto],
+    example: [
+      { jour: JourSemaine.SAMEDI, heureDebut: '09:00', heureFin: '17:00' },
+    ],
+    description: 'Weekly working windows',
+    required: false,
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  })
+  @Type(() => ScheduleSlotDto)
+  schedule?: ScheduleSlotDto[];
+
+  @ApiProperty({
+    example: 'Tech Solutions Inc.',
+    description:
+      'Company name, ignored when the publisher belongs to a company profile',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  company?: string;
+
+  @ApiProperty({
+    example: '2024-12-31',
+    description: 'Expiration date',
+    required: false,
+  })
   @IsDateString()
   @IsOptional()
   expiresAt?: string;
 
-  @ApiProperty({ 
-    enum: JobType, 
-    example: JobType.JOB, 
+  @ApiProperty({
+    enum: JobType,
+    example: JobType.JOB,
     description: 'Type of job',
-    required: false 
+    required: false,
   })
   @IsEnum(JobType)
   @IsOptional()
   @Transform(({ value }) => {
-    if (value === '' || value === null || value === undefined) return JobType.JOB;
+    if (value === '' || value === null || value === undefined)
+      return JobType.JOB;
     return value.toLowerCase();
   })
   jobType?: JobType;
 
-  @ApiProperty({ 
-    enum: Shift, 
-    example: Shift.JOUR, 
+  @ApiProperty({
+    enum: Shift,
+    example: Shift.JOUR,
     description: 'Work shift',
-    required: false 
+    required: false,
   })
   @IsEnum(Shift)
   @IsOptional()
   @Transform(({ value }) => {
-    if (value === '' || value === null || value === undefined) return Shift.JOUR;
+    if (value === '' || value === null || value === undefined)
+      return Shift.JOUR;
     return value.toLowerCase();
   })
   shift?: Shift;
 
-  @ApiProperty({ example: true, description: 'Whether the offer is active', required: false })
+  @ApiProperty({
+    example: true,
+    description: 'Whether the offer is active',
+    required: false,
+  })
   @IsBoolean()
   @IsOptional()
   @Transform(({ value }) => {
@@ -176,4 +332,4 @@ export class CreateOffreDto {
     return value;
   })
   isActive?: boolean;
-}
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+import {
+  IsEnum,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { JobType, Shift } from '../schemas/offre.schema';
+
+export class NearOffresDto {
+  @ApiProperty({ example: 36.8065 })
+  @Type(() => Number)
+  @IsLatitude()
+  lat: number;
+
+  @ApiProperty({ example: 10.1815 })
+  @Type(() => Number)
+  @IsLongitude()
+  lng: number;
+
+  @ApiProperty({ example: 10, required: false, minimum: 0.1, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(200)
+  radiusKm?: number = 10;
+
+  @ApiProperty({ enum: JobType, required: false })
+  @IsOptional()
+  @IsEnum(JobType)
+  jobType?: JobType;
+
+  @ApiProperty({ enum: Shift, required: false })
+  @IsOptional()
+  @IsEnum(Shift)
+  shift?: Shift;
+
+  @ApiProperty({ example: 1, required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({ example: 20, required: false, minimum: 1, maximum: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number = 20;
+}
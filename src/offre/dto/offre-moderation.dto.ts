@@ -0,0 +1,30 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ReportReason } from '../schemas/offre-report.schema';
+
+export class ReportOffreDto {
+  @ApiProperty({ enum: ReportReason, example: ReportReason.PAYMENT_REQUESTED })
+  @IsEnum(ReportReason)
+  reason: ReportReason;
+
+  @ApiProperty({
+    example: 'They ask for 50 DT to confirm the interview',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  details?: string;
+}
+
+export class ModerateOffreDto {
+  @ApiProperty({
+    example: 'Asks candidates for a registration fee',
+    description: 'Note sent to the publisher',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
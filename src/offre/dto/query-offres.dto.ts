@@ -0,0 +1,154 @@
+import {
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { JobType, Shift } from '../schemas/offre.schema';
+import { SalaryPeriod } from '../offre-compensation';
+
+export enum OffreSort {
+  RECENT = 'recent',
+  POPULAR = 'popular',
+  EXPIRING = 'expiring',
+}
+
+export class QueryOffresDto {
+  @ApiProperty({
+    description: 'Opaque cursor returned as nextCursor by the previous page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiProperty({ example: 20, required: false, minimum: 1, maximum: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number = 20;
+
+  @ApiProperty({ enum: OffreSort, example: OffreSort.RECENT, required: false })
+  @IsOptional()
+  @IsEnum(OffreSort)
+  sort?: OffreSort = OffreSort.RECENT;
+
+  @ApiProperty({ enum: JobType, required: false })
+  @IsOptional()
+  @IsEnum(JobType)
+  jobType?: JobType;
+
+  @ApiProperty({ enum: Shift, required: false })
+  @IsOptional()
+  @IsEnum(Shift)
+  shift?: Shift;
+
+  @ApiProperty({ example: 'Restauration', required: false })
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @ApiProperty({ example: 'Tunis', required: false })
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @ApiProperty({ example: 'Tunisie', required: false })
+  @IsOptional()
+  @IsString()
+  country?: string;
+
+  @ApiProperty({
+    example: 800,
+    description: 'Keeps offers whose salary range reaches this amount',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  salaryMin?: number;
+
+  @ApiProperty({
+    example: 2000,
+    description: 'Keeps offers whose salary range starts below this amount',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  salaryMax?: number;
+
+  @ApiProperty({
+    enum: SalaryPeriod,
+    description: 'Compares salary amounts of this period only',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(SalaryPeriod)
+  salaryPeriod?: SalaryPeriod;
+
+  @ApiProperty({ example: 'TND', required: false })
+  @IsOptional()
+  @IsString()
+  salaryCurrency?: string;
+
+  @ApiProperty({
+    example: 20,
+    description: 'Keeps offers needing at most this many hours per week',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxWeeklyHours?: number;
+
+  @ApiProperty({
+    example: 'serveur,weekend',
+    description: 'Comma separated, offers having any of the tags',
+    required: false,
+    type: String,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiProperty({
+    example: 'Tech Corp',
+    description: 'Company profile ID or company name',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  company?: string;
+
+  @ApiProperty({ example: '2024-01-01', required: false })
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @ApiProperty({ example: '2024-12-31', required: false })
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+}
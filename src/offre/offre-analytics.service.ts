@@ -0,0 +1,223 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
+import { Offre, OffreDocument } from './schemas/offre.schema';
+import { OffreView, OffreViewDocument } from './schemas/offre-view.schema';
+import { Chat, ChatDocument } from '../chat/schemas/chat.schema';
+import { UserDocument } from '../User/schemas/user.schema';
+import { Permission } from '../User/enums/permission.enum';
+import { hasPermission } from '../auth/role-permissions';
+
+export interface OffreViewer {
+  userId?: string;
+  // Client generated ID of an anonymous visitor
+  sessionId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface OffreAnalytics {
+  offreId: string;
+  period: { from: string; to: string; days: number };
+  totals: {
+    // Includes views recorded before deduplication
+    viewCount: number;
+    uniqueViewers: number;
+    likes: number;
+    chatsOpened: number;
+    acceptedCandidates: number;
+  };
+  viewsOverTime: { date: string; views: number }[];
+  chatsOverTime: { date: string; chats: number }[];
+  // Ratios between 0 and 1, null when the base is zero
+  conversion: {
+    viewToLike: number | null;
+    viewToChat: number | null;
+    chatToAccepted: number | null;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const ratio = (part: number, base: number) =>
+  base > 0 ? Math.round((part / base) * 10000) / 10000 : null;
+
+@Injectable()
+export class OffreAnalyticsService {
+  constructor(
+    @InjectModel(Offre.name) private offreModel: Model<OffreDocument>,
+    @InjectModel(OffreView.name) private viewModel: Model<OffreViewDocument>,
+    @InjectModel(Chat.name) private chatModel: Model<ChatDocument>,
+  ) {}
+
+  /** Same key for a visitor all day long, null when the request carries nothing to tell visitors apart */
+  viewerKey(viewer: OffreViewer): string | null {
+    if (viewer.userId) {
+      return `user:${viewer.userId}`;
+    }
+    const fingerprint =
+      viewer.sessionId ||
+      [viewer.ip, viewer.userAgent].filter(Boolean).join('|');
+    return fingerprint
+      ? `anon:${createHash('sha256').update(fingerprint).digest('hex')}`
+      : null;
+  }
+
+  /**
+   * Counts the view once per viewer and day and bumps viewCount on the first
+   * one. The owner's own views are ignored. Returns true when counted.
+   */
+  async recordView(
+    offre: OffreDocument,
+    viewer: OffreViewer,
+  ): Promise<boolean> {
+    const ownerId = offre.createdBy?._id ?? offre.createdBy;
+    if (viewer.userId && ownerId?.toString() === viewer.userId) {
+      return false;
+    }
+    const viewerKey = this.viewerKey(viewer);
+    if (!viewerKey) {
+      return false;
+    }
+
+    try {
+      const result = await this.viewModel
+        .updateOne(
+          { offre: offre._id, viewerKey, day: toDay(new Date()) },
+          {
+            $setOnInsert: {
+              user: viewer.userId ? new Types.ObjectId(viewer.userId) : null,
+            },
+          },
+          { upsert: true },
+        )
+        .exec();
+      if (result.upsertedCount === 0) {
+        return false;
+      }
+    } catch (error) {
+      // Two simultaneous first views, the other request counted it
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+
+    await this.offreModel
+      .updateOne({ _id: offre._id }, { $inc: { viewCount: 1 } })
+      .exec();
+    return true;
+  }
+
+  async getAnalytics(
+    offreId: string,
+    user: UserDocument,
+    days = 30,
+  ): Promise<OffreAnalytics> {
+    const offre = Types.ObjectId.isValid(offreId)
+      ? await this.offreModel.findById(offreId).exec()
+      : null;
+    if (!offre) {
+      throw new NotFoundException(`Offer with ID ${offreId} not found`);
+    }
+
+    // Owner, recruiters of the linked company, or moderators
+    const userId = user._id.toString();
+    const isRecruiter =
+      !!offre.companyProfile &&
+      user.company?.toString() === offre.companyProfile.toString();
+    if (
+      offre.createdBy.toString() !== userId &&
+      !isRecruiter &&
+      !hasPermission(user, Permission.OFFER_MODERATE)
+    ) {
+      throw new ForbiddenException(
+        'You can only view analytics of your own offers',
+      );
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - (days - 1) * DAY_MS);
+    const dates = Array.from({ length: days }, (_, i) =>
+      toDay(new Date(from.getTime() + i * DAY_MS)),
+    );
+
+    const [viewsPerDay, viewers, chatsPerDay, chatsOpened] = await Promise.all([
+      this.viewModel
+        .aggregate<{
+          _id: string;
+          views: number;
+        }>([
+          { $match: { offre: offre._id, day: { $gte: toDay(from) } } },
+          { $group: { _id: '$day', views: { $sum: 1 } } },
+        ])
+        .exec(),
+      this.viewModel
+        .aggregate<{
+          total: number;
+        }>([
+          { $match: { offre: offre._id } },
+          { $group: { _id: '$viewerKey' } },
+          { $count: 'total' },
+        ])
+        .exec(),
+      this.chatModel
+        .aggregate<{ _id: string; chats: number }>([
+          {
+            $match: {
+              offer: offre._id,
+              createdAt: { $gte: new Date(`${toDay(from)}T00:00:00.000Z`) },
+            },
+          },
+          {
+            $group: {
+              _id: {
+                $dateToString: { format: '%Y-%m-%d', date: '$createdAt' },
+              },
+              chats: { $sum: 1 },
+            },
+          },
+        ])
+        .exec(),
+      this.chatModel.countDocuments({ offer: offre._id }).exec(),
+    ]);
+
+    const views = new Map(viewsPerDay.map((d) => [d._id, d.views]));
+    const chats = new Map(chatsPerDay.map((d) => [d._id, d.chats]));
+    const uniqueViewers = viewers[0]?.total ?? 0;
+    const likes = offre.likedBy?.length ?? offre.likeCount;
+    const acceptedCandidates = offre.acceptedUsers?.length ?? 0;
+
+    return {
+      offreId: offre._id.toString(),
+      period: { from: dates[0], to: dates[dates.length - 1], days },
+      totals: {
+        viewCount: offre.viewCount,
+        uniqueViewers,
+        likes,
+        chatsOpened,
+        acceptedCandidates,
+      },
+      viewsOverTime: dates.map((date) => ({
+        date,
+        views: views.get(date) ?? 0,
+      })),
+      chatsOverTime: dates.map((date) => ({
+        date,
+        chats: chats.get(date) ?? 0,
+      })),
+      conversion: {
+        viewToLike: ratio(likes, uniqueViewers),
+        viewToChat: ratio(chatsOpened, uniqueViewers),
+        chatToAccepted: ratio(acceptedCandidates, chatsOpened),
+      },
+    };
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  SalaryPeriod,
+  formatSalary,
+  isEmptySlot,
+  monthlySalary,
+  parseSalaryRange,
+  scheduleCoveredHours,
+  scheduleWeeklyHours,
+} from './offre-compensation';
+import { JourSemaine } from '../disponibilite/schemas/disponibilite.schema';
+
+describe('offre-compensation', () => {
+  describe('parseSalaryRange', () => {
+    it.each([
+      ['50000-70000 EUR', 50000, 70000, 'EUR', null],
+      ['1 200 DT/mois', 1200, 1200, 'TND', SalaryPeriod.MONTHLY],
+      ['12€/h', 12, 12, 'EUR', SalaryPeriod.HOURLY],
+      ['2k-3k', 2000, 3000, null, null],
+      ['1000 à 1500 DT par mois', 1000, 1500, 'TND', SalaryPeriod.MONTHLY],
+      ['$15 to $20 per hour', 15, 20, 'USD', SalaryPeriod.HOURLY],
+      ['1.200 TND forfait', 1200, 1200, 'TND', SalaryPeriod.FIXED],
+      ['12,5 €/heure', 12.5, 12.5, 'EUR', SalaryPeriod.HOURLY],
+      ['1500DT', 1500, 1500, 'TND', null],
+    ])('reads "%s"', (salary, min, max, currency, period) => {
+      expect(parseSalaryRange(salary)).toEqual({
+        salaryMin: min,
+        salaryMax: max,
+        salaryCurrency: currency,
+        salaryPeriod: period,
+      });
+    });
+
+    it('ignores numbers that are not amounts', () => {
+      expect(parseSalaryRange('20h par semaine, 1500DT')).toMatchObject({
+        salaryMin: 1500,
+        salaryMax: 1500,
+      });
+      expect(
+        parseSalaryRange('Bac+3, 2 ans d’expérience, 900 DT'),
+      ).toMatchObject({ salaryMin: 900, salaryMax: 900 });
+    });
+
+    it('returns nulls for text without any amount', () => {
+      expect(parseSalaryRange('À négocier')).toEqual({
+        salaryMin: null,
+        salaryMax: null,
+        salaryCurrency: null,
+        salaryPeriod: null,
+      });
+      expect(parseSalaryRange(undefined).salaryMin).toBeNull();
+    });
+  });
+
+  describe('formatSalary', () => {
+    it('writes the range back as display text', () => {
+      expect(
+        formatSalary({
+          salaryMin: 1000,
+          salaryMax: 1500,
+          salaryCurrency: 'TND',
+          salaryPeriod: SalaryPeriod.MONTHLY,
+        }),
+      ).toBe('1000-1500 TND/mois');
+      expect(formatSalary({ salaryMin: 12, salaryMax: 12 })).toBe('12');
+      expect(formatSalary({})).toBeNull();
+    });
+  });
+
+  describe('schedule hours', () => {
+    it('sums slots, including those running past midnight', () => {
+      expect(
+        scheduleWeeklyHours([
+          { jour: JourSemaine.LUNDI, heureDebut: '09:00', heureFin: '12:30' },
+          { jour: JourSemaine.SAMEDI, heureDebut: '22:00', heureFin: '02:00' },
+        ]),
+      ).toBe(7.5);
+      expect(scheduleWeeklyHours(null)).toBe(0);
+    });
+
+    it('counts a slot with the same start and end as empty', () => {
+      const slot = {
+        jour: JourSemaine.MARDI,
+        heureDebut: '10:00',
+        heureFin: '10:00',
+      };
+
+      expect(isEmptySlot(slot)).toBe(true);
+      expect(scheduleWeeklyHours([slot])).toBe(0);
+    });
+
+    it('covers overnight slots with windows of the next day', () => {
+      const schedule = [
+        { jour: JourSemaine.DIMANCHE, heureDebut: '22:00', heureFin: '02:00' },
+      ];
+
+      expect(
+        scheduleCoveredHours(schedule, [
+          { jour: 'dimanche', heureDebut: '20:00' },
+          { jour: 'Lundi', heureDebut: '00:00', heureFin: '01:00' },
+        ]),
+      ).toBe(3);
+    });
+  });
+
+  describe('monthlySalary', () => {
+    it('brings hourly pay to a month using the weekly hours', () => {
+      expect(
+        monthlySalary({
+          salaryMax: 10,
+          salaryPeriod: SalaryPeriod.HOURLY,
+          weeklyHours: 12,
+        }),
+      ).toBe(520);
+      expect(
+        monthlySalary({ salaryMax: 10, salaryPeriod: SalaryPeriod.HOURLY }),
+      ).toBeNull();
+    });
+
+    it('has no monthly equivalent for a fixed price', () => {
+      expect(
+        monthlySalary({ salaryMax: 500, salaryPeriod: SalaryPeriod.FIXED }),
+      ).toBeNull();
+      expect(monthlySalary({ salaryMin: 900 })).toBe(900);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { JourSemaine } from '../disponibilite/schemas/disponibilite.schema';
+
+export enum SalaryPeriod {
+  HOURLY = 'hourly',
+  MONTHLY = 'monthly',
+  FIXED = 'fixed',
+}
+
+export interface WorkScheduleSlot {
+  jour: JourSemaine;
+  heureDebut: string;
+  // Earlier than heureDebut for a window running past midnight
+  heureFin: string;
+}
+
+export interface ParsedSalary {
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryCurrency: string | null;
+  salaryPeriod: SalaryPeriod | null;
+}
+
+const WEEKS_PER_MONTH = 52 / 12;
+
+// Lookarounds instead of \b so amounts glued to the unit ("1500DT") match
+const CURRENCY_ALIASES: [RegExp, string][] = [
+  [/€|(?<![a-z])eur(?:os?)?(?![a-z])/i, 'EUR'],
+  [/\$|(?<![a-z])usd(?![a-z])/i, 'USD'],
+  [/£|(?<![a-z])gbp(?![a-z])/i, 'GBP'],
+  [/(?<![a-z])(?:tnd|dt)(?![a-z])/i, 'TND'],
+  [/(?<![a-z])(?:mad|dh)(?![a-z])/i, 'MAD'],
+  [/(?<![a-z])(?:dzd|da)(?![a-z])/i, 'DZD'],
+];
+
+const CURRENCY = '€|\\$|£|eur(?:os?)?|usd|gbp|tnd|dt|mad|dh|dzd|da';
+
+// What marks a number as an amount: a unit or a thousands suffix after it...
+const AMOUNT_SUFFIX = new RegExp(
+  `^\\s*(?:k|${CURRENCY}|/\\s*(?:h|heure|hour|mois|month))(?![a-z])`,
+  'i',
+);
+// ...a currency sign before it...
+const AMOUNT_PREFIX = /[€$£]\s*$/;
+// ...or a range joining it to another amount
+const RANGE_JOIN = /^\s*(?:-|–|à|a|to|et)\s*$/i;
+const BARE_AMOUNTS = /^\s*[\d\s.,k–-]+\s*$/i;
+
+const PERIOD_PATTERNS: [RegExp, SalaryPeriod][] = [
+  [
+    /(?:\/|\bpar\s+|\bper\s+)(?:h\b|heure|hour)|\bhoraire\b|\bhourly\b/i,
+    SalaryPeriod.HOURLY,
+  ],
+  [
+    /(?:\/|\bpar\s+|\bper\s+)(?:mois|month)|\bmensuel|\bmonthly\b/i,
+    SalaryPeriod.MONTHLY,
+  ],
+  [/\bforfait|\bfixed\b|\bflat\b|\bfixe\b/i, SalaryPeriod.FIXED],
+];
+
+/**
+ * Reads a free-text salary such as "50000-70000 EUR", "1 200 DT/mois",
+ * "12€/h" or "2k-3k". Only numbers next to a currency, a period or a "k"
+ * count as amounts, so "20h par semaine, 1500DT" gives 1500. A single amount
+ * gives min = max; currency and period are null when the text does not
+ * mention them.
+ */
+export function parseSalaryRange(salary?: string | null): ParsedSalary {
+  const text = salary ?? '';
+  const normalized = text.replace(/(\d)[\s\u00a0](?=\d{3}\b)/g, '$1');
+  const numbers = [...normalized.matchAll(/\d+(?:[.,]\d+)?/g)].map((match) => ({
+    raw: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+  const isAmount = numbers.map(
+    ({ start, end }) =>
+      BARE_AMOUNTS.test(normalized) ||
+      AMOUNT_SUFFIX.test(normalized.slice(end)) ||
+      AMOUNT_PREFIX.test(normalized.slice(0, start)),
+  );
+  // "1000 à 1500 DT": the unit of the upper bound also applies to the lower one
+  for (let i = numbers.length - 1; i > 0; i--) {
+    const joined = RANGE_JOIN.test(
+      normalized.slice(numbers[i - 1].end, numbers[i].start).replace(/k/i, ''),
+    );
+    if (joined && (isAmount[i] || isAmount[i - 1])) {
+      isAmount[i] = isAmount[i - 1] = true;
+    }
+  }
+
+  const amounts = numbers
+    .filter((_, i) => isAmount[i])
+    .map(({ raw, end }) => {
+      const thousands = /^\s*k(?![a-z])/i.test(normalized.slice(end));
+      // "1.200" and "1,200" are thousands, "12.5" is a decimal
+      const value = /^\d{1,3}[.,]\d{3}$/.test(raw)
+        ? raw.replace(/[.,]/, '')
+        : raw.replace(',', '.');
+      return parseFloat(value) * (thousands ? 1000 : 1);
+    })
+    .filter((value) => !isNaN(value));
+
+  return {
+    salaryMin: amounts.length ? Math.min(...amounts) : null,
+    salaryMax: amounts.length ? Math.max(...amounts) : null,
+    salaryCurrency:
+      CURRENCY_ALIASES.find(([pattern]) => pattern.test(text))?.[1] ?? null,
+    salaryPeriod:
+      PERIOD_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? null,
+  };
+}
+
+/** Display text kept in `salary` for clients that only read the string */
+export function formatSalary(salary: Partial<ParsedSalary>): string | null {
+  const { salaryMin, salaryMax, salaryCurrency, salaryPeriod } = salary;
+  if (salaryMin == null && salaryMax == null) {
+    return null;
+  }
+
+  const amount =
+    salaryMin != null && salaryMax != null && salaryMin !== salaryMax
+      ? `${salaryMin}-${salaryMax}`
+      : `${salaryMin ?? salaryMax}`;
+  const suffix = {
+    [SalaryPeriod.HOURLY]: '/h',
+    [SalaryPeriod.MONTHLY]: '/mois',
+    [SalaryPeriod.FIXED]: ' forfait',
+  };
+
+  return `${amount}${salaryCurrency ? ` ${salaryCurrency}` : ''}${
+    salaryPeriod ? suffix[salaryPeriod] : ''
+  }`;
+}
+
+/** "HH:mm" to decimal hours */
+export function timeToHours(time: string): number {
+  const [hours, minutes = 0] = time.split(':').map(Number);
+  return hours + minutes / 60;
+}
+
+/** A slot starting and ending at the same time has no duration */
+export function isEmptySlot(slot: {
+  heureDebut: string;
+  heureFin: string;
+}): boolean {
+  return timeToHours(slot.heureDebut) === timeToHours(slot.heureFin);
+}
+
+function slotHours(slot: { heureDebut: string; heureFin: string }): number {
+  if (isEmptySlot(slot)) {
+    return 0;
+  }
+  const duration = timeToHours(slot.heureFin) - timeToHours(slot.heureDebut);
+  return duration > 0 ? duration : duration + 24;
+}
+
+export function scheduleWeeklyHours(
+  schedule?: WorkScheduleSlot[] | null,
+): number {
+  const total = (schedule ?? []).reduce(
+    (sum, slot) => sum + slotHours(slot),
+    0,
+  );
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Hours per week an offer needs: the declared weeklyHours, otherwise the sum
+ * of its schedule, otherwise null.
+ */
+export function requiredWeeklyHours(offre: {
+  weeklyHours?: number | null;
+  schedule?: WorkScheduleSlot[] | null;
+}): number | null {
+  if (offre.weeklyHours != null) {
+    return offre.weeklyHours;
+  }
+  const fromSchedule = scheduleWeeklyHours(offre.schedule);
+  return fromSchedule > 0 ? fromSchedule : null;
+}
+
+/**
+ * Upper salary bound brought to a month so hourly and monthly offers can be
+ * compared. Hourly pay needs the weekly hours; fixed-price offers have no
+ * monthly equivalent.
+ */
+export function monthlySalary(offre: {
+  salaryMax?: number | null;
+  salaryMin?: number | null;
+  salaryPeriod?: SalaryPeriod | null;
+  weeklyHours?: number | null;
+  schedule?: WorkScheduleSlot[] | null;
+}): number | null {
+  const amount = offre.salaryMax ?? offre.salaryMin;
+  if (amount == null || offre.salaryPeriod === SalaryPeriod.FIXED) {
+    return null;
+  }
+  if (offre.salaryPeriod === SalaryPeriod.HOURLY) {
+    const hours = requiredWeeklyHours(offre);
+    return hours ? Math.round(amount * hours * WEEKS_PER_MONTH) : null;
+  }
+  return amount;
+}
+
+/**
+ * Hours of the schedule that fall inside the given availability windows of
+ * the same day. A window without heureFin runs until midnight.
+ */
+export function scheduleCoveredHours(
+  schedule: WorkScheduleSlot[],
+  windows: { jour: string; heureDebut: string; heureFin?: string }[],
+): number {
+  const days = Object.values(JourSemaine);
+  const sameDay = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+  // Split the windows running past midnight into two same-day ranges
+  const ranges = schedule
+    .filter((slot) => !isEmptySlot(slot))
+    .flatMap((slot) => {
+      const start = timeToHours(slot.heureDebut);
+      const end = timeToHours(slot.heureFin);
+      if (end > start) {
+        return [{ jour: slot.jour as string, start, end }];
+      }
+      const next = days[(days.indexOf(slot.jour) + 1) % days.length];
+      return [
+        { jour: slot.jour as string, start, end: 24 },
+        { jour: next as string, start: 0, end },
+      ];
+    });
+
+  const covered = ranges.reduce((sum, range) => {
+    const overlap = windows
+      .filter((window) => sameDay(window.jour, range.jour))
+      .reduce((hours, window) => {
+        const from = Math.max(range.start, timeToHours(window.heureDebut));
+        const to = Math.min(
+          range.end,
+          window.heureFin ? timeToHours(window.heureFin) : 24,
+        );
+        return hours + Math.max(0, to - from);
+      }, 0);
+    return sum + Math.min(overlap, range.end - range.start);
+  }, 0);
+
+  return Math.round(covered * 100) / 100;
+}
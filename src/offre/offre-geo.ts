@@ -0,0 +1,38 @@
+export const EARTH_RADIUS_KM = 6378.1;
+
+export interface GeoPoint {
+  type: 'Point';
+  // GeoJSON order: longitude first
+  coordinates: [number, number];
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export function isValidLatLng(point?: Partial<LatLng> | null): point is LatLng {
+  return (
+    typeof point?.lat === 'number' &&
+    typeof point?.lng === 'number' &&
+    Math.abs(point.lat) <= 90 &&
+    Math.abs(point.lng) <= 180
+  );
+}
+
+export function toGeoPoint(point?: Partial<LatLng> | null): GeoPoint | null {
+  return isValidLatLng(point)
+    ? { type: 'Point', coordinates: [point.lng, point.lat] }
+    : null;
+}
+
+/** Great-circle distance in kilometers */
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ModerationHoldReason,
+  ModerationStatus,
+  Offre,
+  OffreDocument,
+} from './schemas/offre.schema';
+import {
+  OffreReport,
+  OffreReportDocument,
+  ReportStatus,
+} from './schemas/offre-report.schema';
+import { ReportOffreDto } from './dto/offre-moderation.dto';
+import { User, UserDocument } from '../User/schemas/user.schema';
+import { Permission } from '../User/enums/permission.enum';
+import { hasPermission } from '../auth/role-permissions';
+import { NotificationService } from '../notification/notification.service';
+import { NotificationType } from '../notification/schemas/notification.schema';
+
+type ModerationDecision = Exclude<ModerationStatus, ModerationStatus.PENDING>;
+
+// Statuses a moderator can move an offer out of, per decision
+const ALLOWED_FROM: Record<ModerationDecision, ModerationStatus[]> = {
+  [ModerationStatus.APPROVED]: [
+    ModerationStatus.PENDING,
+    ModerationStatus.REJECTED,
+    ModerationStatus.TAKEN_DOWN,
+  ],
+  [ModerationStatus.REJECTED]: [ModerationStatus.PENDING],
+  [ModerationStatus.TAKEN_DOWN]: [
+    ModerationStatus.PENDING,
+    ModerationStatus.APPROVED,
+  ],
+};
+
+const DECISION_MESSAGES: Record<
+  ModerationDecision,
+  { title: string; body: (title: string) => string }
+> = {
+  [ModerationStatus.APPROVED]: {
+    title: 'Offer approved',
+    body: (title) => `${title} is now visible to candidates`,
+  },
+  [ModerationStatus.REJECTED]: {
+    title: 'Offer rejected',
+    body: (title) => `${title} was not approved by the moderation team`,
+  },
+  [ModerationStatus.TAKEN_DOWN]: {
+    title: 'Offer taken down',
+    body: (title) => `${title} was removed after a moderation review`,
+  },
+};
+
+export interface ModerationQueueResult {
+  items: OffreDocument[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+@Injectable()
+export class OffreModerationService {
+  constructor(
+    @InjectModel(Offre.name) private offreModel: Model<OffreDocument>,
+    @InjectModel(OffreReport.name)
+    private reportModel: Model<OffreReportDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  private get minTrustXp(): number {
+    return Number(process.env.OFFER_MIN_TRUST_XP) || 10;
+  }
+
+  private get reportHoldThreshold(): number {
+    return Number(process.env.OFFER_REPORT_HOLD_THRESHOLD) || 3;
+  }
+
+  /**
+   * Moderation fields of a new offer. Publishers below the trust threshold
+   * wait for a review, unless their company is verified.
+   */
+  async initialStatus(
+    userId: string,
+    companyVerified: boolean,
+  ): Promise<Pick<
+    Offre,
+    'moderationStatus' | 'moderationHoldReason' | 'isActive'
+  > | null> {
+    if (companyVerified) {
+      return null;
+    }
+
+    const user = await this.userModel
+      .findById(userId)
+      .select('TrustXP role is_Organization')
+      .exec();
+    if (
+      !user ||
+      hasPermission(user, Permission.OFFER_MODERATE) ||
+      user.TrustXP >= this.minTrustXp
+    ) {
+      return null;
+    }
+
+    return {
+      moderationStatus: ModerationStatus.PENDING,
+      moderationHoldReason: ModerationHoldReason.LOW_TRUST,
+      isActive: false,
+    };
+  }
+
+  async report(
+    offreId: string,
+    reporterId: string,
+    reportDto: ReportOffreDto,
+  ): Promise<OffreReportDocument> {
+    const offre = Types.ObjectId.isValid(offreId)
+      ? await this.offreModel
+          .findOne({
+            _id: offreId,
+            moderationStatus: { $ne: ModerationStatus.TAKEN_DOWN },
+          })
+          .exec()
+      : null;
+    if (!offre) {
+      throw new NotFoundException(`Offer with ID ${offreId} not found`);
+    }
+    if (offre.createdBy.toString() === reporterId) {
+      throw new BadRequestException('You cannot report your own offer');
+    }
+
+    let report: OffreReportDocument;
+    try {
+      report = await this.reportModel.create({
+        ...reportDto,
+        offre: offre._id,
+        reporter: new Types.ObjectId(reporterId),
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException('You already reported this offer');
+      }
+      throw error;
+    }
+
+    // Enough reports take a live offer offline until a moderator looks at it
+    const held = await this.offreModel
+      .findOneAndUpdate(
+        {
+          _id: offre._id,
+          moderationStatus: { $in: [ModerationStatus.APPROVED, null] },
+          reportCount: { $gte: this.reportHoldThreshold - 1 },
+        },
+        {
+          $inc: { reportCount: 1 },
+          $set: {
+            moderationStatus: ModerationStatus.PENDING,
+            moderationHoldReason: ModerationHoldReason.REPORTS,
+            isActive: false,
+          },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (held) {
+      await this.notificationService.notify({
+        recipient: held.createdBy,
+        type: NotificationType.OFFER_MODERATION,
+        title: 'Offer under review',
+        body: `${held.title} was reported by several users and is hidden until a moderator reviews it`,
+        data: {
+          offreId: held._id.toString(),
+          status: held.moderationStatus,
+        },
+      });
+    } else {
+      await this.offreModel
+        .updateOne({ _id: offre._id }, { $inc: { reportCount: 1 } })
+        .exec();
+    }
+
+    return report;
+  }
+
+  async findQueue(
+    status: ModerationStatus = ModerationStatus.PENDING,
+    page = 1,
+    limit = 20,
+  ): Promise<ModerationQueueResult> {
+    const filter = { moderationStatus: status };
+    const [items, total] = await Promise.all([
+      this.offreModel
+        .find(filter)
+        .populate('createdBy', 'nom email image TrustXP is_Organization')
+        .populate('companyProfile', 'name slug logo isVerified')
+        // Most reported first, then oldest waiting
+        .sort({ reportCount: -1, createdAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.offreModel.countDocuments(filter).exec(),
+    ]);
+
+    return { items, total, page, limit };
+  }
+
+  async findReports(offreId: string): Promise<OffreReportDocument[]> {
+    if (!Types.ObjectId.isValid(offreId)) {
+      throw new NotFoundException('Invalid offer ID');
+    }
+
+    return this.reportModel
+      .find({ offre: new Types.ObjectId(offreId) })
+      .populate('reporter', 'nom email image TrustXP')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async review(
+    offreId: string,
+    moderatorId: string,
+    decision: ModerationDecision,
+    note?: string,
+  ): Promise<OffreDocument> {
+    const offre = Types.ObjectId.isValid(offreId)
+      ? await this.offreModel.findById(offreId).exec()
+      : null;
+    if (!offre) {
+      throw new NotFoundException(`Offer with ID ${offreId} not found`);
+    }
+    if (!ALLOWED_FROM[decision].includes(offre.moderationStatus)) {
+      throw new BadRequestException(
+        `An offer that is ${offre.moderationStatus} cannot be ${decision}`,
+      );
+    }
+
+    offre.moderationStatus = decision;
+    offre.moderationHoldReason = null;
+    offre.moderationNote = note;
+    offre.moderatedBy = new Types.ObjectId(moderatorId);
+    offre.moderatedAt = new Date();
+    offre.reportCount = 0;
+    // An approved offer past its expiry date stays offline
+    offre.isActive =
+      decision === ModerationStatus.APPROVED && offre.expiresAt > new Date();
+    const saved = await offre.save();
+
+    await this.reportModel
+      .updateMany(
+        { offre: saved._id, status: ReportStatus.OPEN },
+        {
+          status:
+            decision === ModerationStatus.APPROVED
+              ? ReportStatus.DISMISSED
+              : ReportStatus.UPHELD,
+          resolvedAt: new Date(),
+        },
+      )
+      .exec();
+
+    const message = DECISION_MESSAGES[decision];
+    await this.notificationService.notify({
+      recipient: saved.createdBy,
+      type: NotificationType.OFFER_MODERATION,
+      title: message.title,
+      body: note || message.body(saved.title),
+      data: {
+        offreId: saved._id.toString(),
+        status: saved.moderationStatus,
+      },
+    });
+
+    return saved;
+  }
+}
@@ -0,0 +1,120 @@
+import {
+  buildSearchIndex,
+  highlight,
+  levenshtein,
+  maxTypos,
+  normalizeSearchText,
+  tokenize,
+} from './offre-search';
+
+describe('offre-search', () => {
+  describe('normalizeSearchText', () => {
+    it('folds case, accents and ligatures', () => {
+      expect(normalizeSearchText('EMPLOYÉ')).toBe('employe');
+      expect(normalizeSearchText('Employé')).toBe(
+        normalizeSearchText('employe'),
+      );
+      expect(normalizeSearchText('Cœur de métier')).toBe('coeur de metier');
+    });
+
+    it('folds Arabic harakat, tatweel and letter variants', () => {
+      expect(normalizeSearchText('مُساعَدة')).toBe(
+        normalizeSearchText('مساعدة'),
+      );
+      expect(normalizeSearchText('مســاعدة')).toBe('مساعده');
+      expect(normalizeSearchText('إدارة')).toBe('اداره');
+    });
+
+    it('turns punctuation runs into single spaces', () => {
+      expect(normalizeSearchText("  Node.js — l'équipe!  ")).toBe(
+        'node js l equipe',
+      );
+      expect(normalizeSearchText(undefined)).toBe('');
+    });
+  });
+
+  describe('tokenize', () => {
+    it('splits the normalized text into words', () => {
+      expect(tokenize('Développeur Node.js, Tunis')).toEqual([
+        'developpeur',
+        'node',
+        'js',
+        'tunis',
+      ]);
+    });
+
+    it('returns no token for blank input', () => {
+      expect(tokenize('  -- ')).toEqual([]);
+      expect(tokenize(null)).toEqual([]);
+    });
+  });
+
+  describe('buildSearchIndex', () => {
+    it('keeps distinct words of title, tags and company as terms', () => {
+      const index = buildSearchIndex({
+        title: 'Serveur à Tunis',
+        tags: ['Restauration', 'serveur'],
+        company: 'Café X',
+        description: 'Service en salle',
+      });
+
+      expect(index.title).toBe('serveur a tunis');
+      expect(index.body).toBe('service en salle');
+      expect(index.terms).toEqual(['serveur', 'tunis', 'restauration', 'cafe']);
+    });
+  });
+
+  describe('typo tolerance', () => {
+    it('counts edits between two words', () => {
+      expect(levenshtein('serveur', 'serveur')).toBe(0);
+      expect(levenshtein('serveur', 'sevreur')).toBe(2);
+      expect(levenshtein('vente', 'ventes')).toBe(1);
+    });
+
+    it('allows more typos for longer words', () => {
+      expect(maxTypos('js')).toBe(0);
+      expect(maxTypos('vente')).toBe(1);
+      expect(maxTypos('developpeur')).toBe(2);
+    });
+  });
+
+  describe('highlight', () => {
+    it('wraps the words starting with a query term', () => {
+      expect(highlight('Développeurs recherchés', ['develop'])).toBe(
+        '<em>Développeurs</em> recherchés',
+      );
+      expect(highlight('Serveur au Café', ['cafe'])).toBe(
+        'Serveur au <em>Café</em>',
+      );
+    });
+
+    it('keeps the original Arabic spelling inside the tags', () => {
+      expect(highlight('وظيفة مُساعَدة إدارية', ['مساعده'])).toBe(
+        'وظيفة <em>مُساعَدة</em> إدارية',
+      );
+    });
+
+    it('escapes the offer text so <em> is the only markup', () => {
+      expect(highlight('<b>Vente</b> & "conseil"', ['vente'])).toBe(
+        '&lt;b&gt;<em>Vente</em>&lt;/b&gt; &amp; &quot;conseil&quot;',
+      );
+      expect(highlight('<img src=x onerror=alert(1)> vente', ['vente'])).toBe(
+        '&lt;img src=x onerror=alert(1)&gt; <em>vente</em>',
+      );
+    });
+
+    it('cuts a snippet around the first match', () => {
+      const text = `${'x '.repeat(50)}barista${' y'.repeat(100)}`;
+
+      expect(highlight(text, ['barista'], 10)).toBe(
+        '…x x x x x <em>barista</em> y y y y y y y y y y…',
+      );
+    });
+
+    it('returns null when nothing matches', () => {
+      expect(highlight('Serveur', ['cuisine'])).toBeNull();
+      expect(highlight('Serveur', [])).toBeNull();
+      expect(highlight(undefined, ['serveur'])).toBeNull();
+    });
+  });
+});
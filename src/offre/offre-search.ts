@@ -0,0 +1,174 @@
+/**
+ * Text helpers shared by the offer search: the stored search fields, the
+ * user query and the highlighted snippets all go through the same
+ * normalization, so "Employé", "employe" and "EMPLOYÉ" or "مساعدة" and
+ * "مُساعَدة" match each other.
+ */
+
+export interface OffreSearchIndex {
+  title: string;
+  tags: string;
+  company: string;
+  body: string;
+  // Distinct words of title, tags and company, the vocabulary for suggestions
+  terms: string[];
+}
+
+const ARABIC_FOLDING: Record<string, string> = {
+  أ: 'ا',
+  إ: 'ا',
+  آ: 'ا',
+  ٱ: 'ا',
+  ى: 'ي',
+  ة: 'ه',
+  ؤ: 'و',
+  ئ: 'ي',
+};
+
+/** Normalizes a single character, may return an empty string (diacritics, tatweel) */
+function normalizeChar(char: string): string {
+  return (
+    char
+      .normalize('NFD')
+      // Latin accents, Arabic harakat and superscript alef, tatweel
+      .replace(/[\u0300-\u036f\u064b-\u065f\u0670\u0640]/g, '')
+      .toLowerCase()
+      .replace(/[أإآٱىةؤئ]/g, (c) => ARABIC_FOLDING[c])
+      .replace(/œ/g, 'oe')
+      .replace(/æ/g, 'ae')
+  );
+}
+
+export function normalizeSearchText(text?: string | null): string {
+  return Array.from(text ?? '')
+    .map(normalizeChar)
+    .join('')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export function tokenize(text?: string | null): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+export function buildSearchIndex(offre: {
+  title?: string;
+  description?: string;
+  company?: string;
+  tags?: string[];
+  exigences?: string[];
+  category?: string;
+}): OffreSearchIndex {
+  const title = normalizeSearchText(offre.title);
+  const tags = normalizeSearchText((offre.tags ?? []).join(' '));
+  const company = normalizeSearchText(offre.company);
+  const body = normalizeSearchText(
+    [offre.description, offre.category, ...(offre.exigences ?? [])].join(' '),
+  );
+
+  const terms = new Set(
+    `${title} ${tags} ${company}`.split(' ').filter((term) => term.length > 1),
+  );
+
+  return { title, tags, company, body, terms: [...terms] };
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/** Typos tolerated for a word of this length */
+export function maxTypos(term: string): number {
+  if (term.length <= 3) return 0;
+  return term.length <= 6 ? 1 : 2;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Cuts a snippet of `text` around the first query term and wraps every
+ * matched word prefix in <em> tags. The offer text is HTML-escaped, the
+ * <em> tags are the only markup in the result. Returns null when nothing
+ * matches.
+ */
+export function highlight(
+  text: string | undefined,
+  terms: string[],
+  radius = 60,
+): string | null {
+  if (!text || terms.length === 0) {
+    return null;
+  }
+
+  // Normalized text with, for every normalized char, the index of its source char
+  let normalized = '';
+  const sourceIndex: number[] = [];
+  const chars = Array.from(text);
+  let offset = 0;
+  for (const char of chars) {
+    for (const n of normalizeChar(char)) {
+      normalized += n;
+      sourceIndex.push(offset);
+    }
+    offset += char.length;
+  }
+
+  const ranges: [number, number][] = [];
+  const wordPattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(normalized)) !== null) {
+    const word = match[0];
+    const term = terms.find((t) => word.startsWith(t));
+    if (!term) continue;
+
+    const start = sourceIndex[match.index];
+    const endIndex = match.index + word.length;
+    const end =
+      endIndex < sourceIndex.length ? sourceIndex[endIndex] : text.length;
+    ranges.push([start, end]);
+  }
+
+  if (ranges.length === 0) {
+    return null;
+  }
+
+  const from = Math.max(0, ranges[0][0] - radius);
+  const to = Math.min(text.length, ranges[0][1] + radius * 2);
+
+  let snippet = '';
+  let cursor = from;
+  for (const [start, end] of ranges) {
+    if (start < from || end > to) continue;
+    snippet += `${escapeHtml(text.slice(cursor, start))}<em>${escapeHtml(text.slice(start, end))}</em>`;
+    cursor = end;
+  }
+  snippet += escapeHtml(text.slice(cursor, to));
+
+  return `${from > 0 ? '…' : ''}${snippet.trim()}${to < text.length ? '…' : ''}`;
+}
@@ -14,65 +14,91 @@ import {
   Delete,
   Param,
   Query,
+  DefaultValuePipe,
+  ParseIntPipe,
+  Headers,
+  Ip,
 } from '@nestjs/common';
 import { OffreService } from './offre.service';
 import { CreateOffreDto } from './dto/create-offre.dto';
 import { UpdateOffreDto } from './dto/update-offre.dto';
+import { QueryOffresDto } from './dto/query-offres.dto';
+import { NearOffresDto } from './dto/near-offres.dto';
+import { ReportOffreDto } from './dto/offre-moderation.dto';
+import { OffreModerationService } from './offre-moderation.service';
+import { OffreAnalyticsService } from './offre-analytics.service';
 import {
   ApiBearerAuth,
   ApiBody,
   ApiConsumes,
   ApiOperation,
+  ApiQuery,
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Permission } from '../User/enums/permission.enum';
 import { FilesInterceptor } from '@nestjs/platform-express';
 import { diskStorage } from 'multer';
 import * as path from 'path';
+import type { UserDocument } from '../User/schemas/user.schema';
 
 @ApiTags('offres')
 @Controller('offre')
 @UsePipes(new ValidationPipe({ transform: true }))
 export class OffreController {
-  constructor(private readonly offreService: OffreService) {}
+  constructor(
+    private readonly offreService: OffreService,
+    private readonly moderationService: OffreModerationService,
+    private readonly analyticsService: OffreAnalyticsService,
+  ) {}
 
   @Post()
   @ApiBearerAuth()
-  @ApiOperation({ 
-    summary: 'Create new offer', 
-    description: 'Create a new job offer with optional images' 
+  @ApiOperation({
+    summary: 'Create new offer',
+    description: 'Create a new job offer with optional images',
   })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
     description: 'Offer creation form with optional images',
-    type: CreateOffreDto
+    type: CreateOffreDto,
   })
   @ApiResponse({ status: 201, description: 'Offer successfully created' })
   @ApiResponse({ status: 400, description: 'Invalid input' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Only employers can publish offers',
+  })
   @ApiResponse({ status: 500, description: 'Server problem' })
-  @UseGuards(JwtAuthGuard)
-  @UseInterceptors(FilesInterceptor('imageFiles', 10, {
-    storage: diskStorage({
-      destination: './uploads/offres',
-      filename: (req, file, cb) => {
-        const uniqueName = `offre-${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(file.originalname)}`;
-        cb(null, uniqueName);
-      }
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.OFFER_MANAGE)
+  @UseInterceptors(
+    FilesInterceptor('imageFiles', 10, {
+      storage: diskStorage({
+        destination: './uploads/offres',
+        filename: (req, file, cb) => {
+          const uniqueName = `offre-${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(file.originalname)}`;
+          cb(null, uniqueName);
+        },
+      }),
+      fileFilter: (req, file, cb) => {
+        if (file.mimetype.startsWith('image/')) {
+          cb(null, true);
+        } else {
+          cb(new Error('Only image files are allowed'), false);
+        }
+      },
+      limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB
+      },
     }),
-    fileFilter: (req, file, cb) => {
-      if (file.mimetype.startsWith('image/')) {
-        cb(null, true);
-      } else {
-        cb(new Error('Only image files are allowed'), false);
-      }
-    },
-    limits: {
-      fileSize: 5 * 1024 * 1024, // 5MB
-    }
-  }))
+  )
   async create(
     @Body() createOffreDto: CreateOffreDto,
     @UploadedFiles() imageFiles?: Express.Multer.File[],
@@ -81,7 +107,10 @@ export class OffreController {
     try {
       // The CurrentUser decorator should provide the full user object from the token
       if (!user) {
-        throw new HttpException('User not found in token', HttpStatus.UNAUTHORIZED);
+        throw new HttpException(
+          'User not found in token',
+          HttpStatus.UNAUTHORIZED,
+        );
       }
 
       // Use the user object directly from the token
@@ -90,7 +119,10 @@ export class OffreController {
       if (error.status === 400 || error.status === 401) {
         throw new HttpException(error.message, error.status);
       }
-      throw new HttpException('Problem au niveau serveur', HttpStatus.INTERNAL_SERVER_ERROR);
+      throw new HttpException(
+        'Problem au niveau serveur',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
     }
   }
 
@@ -101,24 +133,86 @@ export class OffreController {
     return this.offreService.findAllActive();
   }
 
+  @Get('query')
+  @ApiOperation({
+    summary: 'List active offers with filters, sort and cursor pagination',
+    description:
+      'Pass nextCursor back as cursor to get the next page; total and facets ignore the cursor',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns a page of offers with total and facet counts',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  async query(@Query() queryDto: QueryOffresDto) {
+    return this.offreService.query(queryDto);
+  }
+
+  @Get('near')
+  @ApiOperation({
+    summary: 'Find active offers around a point',
+    description:
+      'Sorted by distance; offers without coordinates are not included',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns offers with distanceKm, nearest first',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid coordinates or radius' })
+  async findNear(@Query() nearDto: NearOffresDto) {
+    return this.offreService.findNear(nearDto);
+  }
+
   @Get('search')
-  @ApiOperation({ summary: 'Search offers by query' })
+  @ApiOperation({ summary: 'Search offers by query, best matches first' })
   @ApiResponse({ status: 200, description: 'Returns matching offers' })
   async search(@Query('q') query: string) {
     return this.offreService.searchOffers(query);
   }
 
+  @Get('search/ranked')
+  @ApiOperation({
+    summary:
+      'Full-text search with relevance scores, highlights and suggestions',
+    description:
+      'Accent-insensitive; suggestions holds a corrected query when some words match no offer',
+  })
+  @ApiQuery({ name: 'q', required: true, example: 'serveur cafe' })
+  @ApiQuery({ name: 'page', required: false, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, example: 20 })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns scored offers with highlighted snippets',
+  })
+  async searchRanked(
+    @Query('q') query: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    return this.offreService.searchRanked(
+      query,
+      Math.max(page, 1),
+      Math.min(Math.max(limit, 1), 50),
+    );
+  }
+
   @Get('tags')
   @ApiOperation({ summary: 'Find offers by tags' })
-  @ApiResponse({ status: 200, description: 'Returns offers with matching tags' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns offers with matching tags',
+  })
   async findByTags(@Query('tags') tags: string) {
-    const tagArray = tags.split(',').map(tag => tag.trim());
+    const tagArray = tags.split(',').map((tag) => tag.trim());
     return this.offreService.findByTags(tagArray);
   }
 
   @Get('location/:city')
   @ApiOperation({ summary: 'Find offers by city' })
-  @ApiResponse({ status: 200, description: 'Returns offers in the specified city' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns offers in the specified city',
+  })
   async findByCity(@Param('city') city: string) {
     return this.offreService.findByCity(city);
   }
@@ -157,12 +251,58 @@ export class OffreController {
     return this.offreService.findPopular();
   }
 
+  @Get(':id/analytics')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Offer analytics for its publisher',
+    description:
+      'Unique views per day, likes, chats opened, accepted candidates and conversion rates',
+  })
+  @ApiQuery({
+    name: 'days',
+    required: false,
+    type: Number,
+    description: 'Length of the daily series, 30 by default',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the analytics' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not your offer' })
+  @ApiResponse({ status: 404, description: 'Offer not found' })
+  @UseGuards(JwtAuthGuard)
+  async getAnalytics(
+    @Param('id') id: string,
+    @Query('days', new DefaultValuePipe(30), ParseIntPipe) days: number,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.analyticsService.getAnalytics(
+      id,
+      user,
+      Math.min(Math.max(days, 1), 365),
+    );
+  }
+
   @Get(':id')
-  @ApiOperation({ summary: 'Get offer by ID' })
+  @ApiOperation({
+    summary: 'Get offer by ID',
+    description:
+      'Counts one view per user (or X-Session-Id / browser for visitors) and day',
+  })
   @ApiResponse({ status: 200, description: 'Returns the offer' })
   @ApiResponse({ status: 404, description: 'Offer not found' })
-  async findOne(@Param('id') id: string) {
-    return this.offreService.findOne(id);
+  @UseGuards(OptionalJwtAuthGuard)
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: UserDocument | undefined,
+    @Headers('x-session-id') sessionId?: string,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ip?: string,
+  ) {
+    return this.offreService.findOne(id, {
+      userId: user?._id.toString(),
+      sessionId,
+      ip,
+      userAgent,
+    });
   }
 
   @Patch(':id')
@@ -170,8 +310,10 @@ export class OffreController {
   @ApiOperation({ summary: 'Update offer' })
   @ApiResponse({ status: 200, description: 'Offer updated successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Only employers can manage offers' })
   @ApiResponse({ status: 404, description: 'Offer not found' })
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.OFFER_MANAGE)
   async update(
     @Param('id') id: string,
     @Body() updateOffreDto: UpdateOffreDto,
@@ -185,12 +327,11 @@ export class OffreController {
   @ApiOperation({ summary: 'Delete offer' })
   @ApiResponse({ status: 200, description: 'Offer deleted successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Only employers can manage offers' })
   @ApiResponse({ status: 404, description: 'Offer not found' })
-  @UseGuards(JwtAuthGuard)
-  async remove(
-    @Param('id') id: string,
-    @CurrentUser() user: any,
-  ) {
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @RequirePermissions(Permission.OFFER_MANAGE)
+  async remove(@Param('id') id: string, @CurrentUser() user: any) {
     return this.offreService.remove(id, user);
   }
 
@@ -200,10 +341,28 @@ export class OffreController {
   @ApiResponse({ status: 200, description: 'Like status updated' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @UseGuards(JwtAuthGuard)
-  async likeOffer(
+  async likeOffer(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.offreService.toggleLike(id, user);
+  }
+
+  @Post(':id/report')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Report an abusive offer',
+    description: 'Several reports hide the offer until a moderator reviews it',
+  })
+  @ApiResponse({ status: 201, description: 'Report recorded' })
+  @ApiResponse({ status: 400, description: 'You cannot report your own offer' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Offer not found' })
+  @ApiResponse({ status: 409, description: 'You already reported this offer' })
+  @UseGuards(JwtAuthGuard)
+  async report(
     @Param('id') id: string,
-    @CurrentUser() user: any,
+    @Body() reportDto: ReportOffreDto,
+    @CurrentUser() user: UserDocument,
   ) {
-    return this.offreService.toggleLike(id, user);
+    const userId = user._id.toString();
+    return this.moderationService.report(id, userId, reportDto);
   }
-}
\ No newline at end of file
+}
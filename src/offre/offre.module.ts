@@ -3,15 +3,31 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { OffreController } from './offre.controller';
 import { OffreService } from './offre.service';
 import { Offre, OffreSchema } from './schemas/offre.schema';
+import { OffreReport, OffreReportSchema } from './schemas/offre-report.schema';
+import { OffreModerationService } from './offre-moderation.service';
+import { OffreView, OffreViewSchema } from './schemas/offre-view.schema';
+import { OffreAnalyticsService } from './offre-analytics.service';
+import { Chat, ChatSchema } from '../chat/schemas/chat.schema';
 import { User, UserSchema } from '../User/schemas/user.schema';
+import { CompanyModule } from '../company/company.module';
+import { NotificationModule } from '../notification/notification.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: Offre.name, schema: OffreSchema }]),
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]) // Add User schema
+    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]), // Add User schema
+    MongooseModule.forFeature([
+      { name: OffreReport.name, schema: OffreReportSchema },
+    ]),
+    MongooseModule.forFeature([
+      { name: OffreView.name, schema: OffreViewSchema },
+      { name: Chat.name, schema: ChatSchema },
+    ]),
+    CompanyModule,
+    NotificationModule,
   ],
   controllers: [OffreController],
-  providers: [OffreService],
-  exports: [OffreService]
+  providers: [OffreService, OffreModerationService, OffreAnalyticsService],
+  exports: [OffreService, OffreModerationService],
 })
-export class OffreModule {}
\ No newline at end of file
+export class OffreModule {}
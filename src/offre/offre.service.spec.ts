@@ -0,0 +1,178 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { OffreService } from './offre.service';
+import { OffreSort, QueryOffresDto } from './dto/query-offres.dto';
+import { Offre } from './schemas/offre.schema';
+import { User } from '../User/schemas/user.schema';
+import { CompanyService } from '../company/company.service';
+import { OffreModerationService } from './offre-moderation.service';
+import { OffreAnalyticsService } from './offre-analytics.service';
+
+type Doc = Record<string, any>;
+
+/** Offer document exposing only what the listing reads */
+function offer(values: Doc) {
+  return { ...values, get: (field: string) => values[field] as unknown };
+}
+
+/** Model whose find() serves a fixed page and remembers the filter */
+function listingModel(page: Doc[]) {
+  const filters: Doc[] = [];
+  const chain = {
+    sort: () => chain,
+    limit: () => chain,
+    populate: () => chain,
+    exec: () => Promise.resolve(page),
+  };
+  return {
+    filters,
+    find: (filter: Doc) => {
+      filters.push(filter);
+      return chain;
+    },
+    aggregate: () => ({
+      exec: () =>
+        Promise.resolve([
+          {
+            total: [{ count: page.length }],
+            jobType: [],
+            shift: [],
+            category: [],
+            city: [],
+            tags: [],
+          },
+        ]),
+    }),
+  };
+}
+
+async function createService(model: ReturnType<typeof listingModel>) {
+  const moduleRef = await Test.createTestingModule({
+    providers: [
+      OffreService,
+      { provide: getModelToken(Offre.name), useValue: model },
+      { provide: getModelToken(User.name), useValue: {} },
+      { provide: CompanyService, useValue: {} },
+      { provide: OffreModerationService, useValue: {} },
+      { provide: OffreAnalyticsService, useValue: {} },
+    ],
+  }).compile();
+  return moduleRef.get(OffreService);
+}
+
+const decode = (cursor: string) =>
+  JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as unknown[];
+
+describe('OffreService keyset pagination', () => {
+  const ids = [new Types.ObjectId(), new Types.ObjectId()];
+  const createdAt = [
+    new Date('2025-03-02T10:00:00Z'),
+    new Date('2025-03-01T10:00:00Z'),
+  ];
+
+  it('encodes the sort keys of the last item of the page', async () => {
+    const model = listingModel([
+      offer({ _id: ids[0], createdAt: createdAt[0] }),
+      offer({ _id: ids[1], createdAt: createdAt[1] }),
+      offer({ _id: new Types.ObjectId(), createdAt: createdAt[1] }),
+    ]);
+    const service = await createService(model);
+
+    const result = await service.query({ limit: 2 } as QueryOffresDto);
+
+    expect(result.items).toHaveLength(2);
+    expect(result.hasMore).toBe(true);
+    expect(decode(result.nextCursor!)).toEqual([
+      createdAt[1].toISOString(),
+      ids[1].toString(),
+    ]);
+  });
+
+  it('has no cursor on the last page', async () => {
+    const model = listingModel([
+      offer({ _id: ids[0], createdAt: createdAt[0] }),
+    ]);
+    const service = await createService(model);
+
+    const result = await service.query({ limit: 2 } as QueryOffresDto);
+
+    expect(result.hasMore).toBe(false);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('resumes strictly after the cursor, ties broken by _id', async () => {
+    const first = listingModel([
+      offer({ _id: ids[0], createdAt: createdAt[0] }),
+      offer({ _id: ids[1], createdAt: createdAt[1] }),
+    ]);
+    const { nextCursor } = await (
+      await createService(first)
+    ).query({ limit: 1 } as QueryOffresDto);
+
+    const next = listingModel([]);
+    await (
+      await createService(next)
+    ).query({ limit: 1, cursor: nextCursor } as QueryOffresDto);
+
+    expect(next.filters[0]).toEqual({
+      $and: [
+        { isActive: true },
+        {
+          $or: [
+            { createdAt: { $lt: createdAt[0] } },
+            { createdAt: createdAt[0], _id: { $lt: ids[0] } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('walks ascending keys with $gt for the expiring sort', async () => {
+    const expiresAt = new Date('2025-04-01T00:00:00Z');
+    const first = listingModel([
+      offer({ _id: ids[0], expiresAt }),
+      offer({ _id: ids[1], expiresAt }),
+    ]);
+    const { nextCursor } = await (
+      await createService(first)
+    ).query({ limit: 1, sort: OffreSort.EXPIRING } as QueryOffresDto);
+
+    const next = listingModel([]);
+    await (
+      await createService(next)
+    ).query({
+      limit: 1,
+      sort: OffreSort.EXPIRING,
+      cursor: nextCursor,
+    } as QueryOffresDto);
+
+    expect(next.filters[0]).toEqual({
+      $and: [
+        { isActive: true },
+        {
+          $or: [
+            { expiresAt: { $gt: expiresAt } },
+            { expiresAt, _id: { $gt: ids[0] } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it.each([
+    ['not base64 JSON', 'not-a-cursor'],
+    ['a wrong number of keys', Buffer.from('[1]').toString('base64url')],
+    [
+      'an invalid _id',
+      Buffer.from('["2025-03-01T10:00:00.000Z","nope"]').toString('base64url'),
+    ],
+  ])('rejects a cursor with %s', async (_, cursor) => {
+    const service = await createService(listingModel([]));
+
+    await expect(
+      service.query({ limit: 1, cursor } as QueryOffresDto),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
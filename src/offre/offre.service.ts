@@ -1,42 +1,147 @@
-import { 
-  Injectable, 
-  NotFoundException, 
+import {
+  Injectable,
+  NotFoundException,
   BadRequestException,
   ForbiddenException,
-  InternalServerErrorException
+  InternalServerErrorException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
-import { Offre, OffreDocument } from './schemas/offre.schema';
+import { FilterQuery, Model, SortOrder, Types, UpdateQuery } from 'mongoose';
+import { ModerationStatus, Offre, OffreDocument } from './schemas/offre.schema';
+import { isEmptySlot, parseSalaryRange } from './offre-compensation';
+import {
+  buildSearchIndex,
+  highlight,
+  levenshtein,
+  maxTypos,
+  tokenize,
+} from './offre-search';
 import { User, UserDocument } from '../User/schemas/user.schema';
 import { CreateOffreDto } from './dto/create-offre.dto';
 import { UpdateOffreDto } from './dto/update-offre.dto';
+import { CompanyService } from '../company/company.service';
+import { OffreSort, QueryOffresDto } from './dto/query-offres.dto';
+import { NearOffresDto } from './dto/near-offres.dto';
+import { toGeoPoint } from './offre-geo';
+import { OffreModerationService } from './offre-moderation.service';
+import { OffreAnalyticsService, OffreViewer } from './offre-analytics.service';
+
+// Company fields shown on offer cards, isVerified drives the verified badge
+const COMPANY_BADGE_FIELDS = 'name slug logo isVerified';
+
+// Keyset order of each listing sort, _id breaks ties so cursors stay stable
+const SORT_KEYS: Record<OffreSort, [string, 1 | -1][]> = {
+  [OffreSort.RECENT]: [
+    ['createdAt', -1],
+    ['_id', -1],
+  ],
+  [OffreSort.POPULAR]: [
+    ['viewCount', -1],
+    ['likeCount', -1],
+    ['_id', -1],
+  ],
+  [OffreSort.EXPIRING]: [
+    ['expiresAt', 1],
+    ['_id', 1],
+  ],
+};
+const DATE_SORT_FIELDS = ['createdAt', 'expiresAt'];
+
+export interface OffreFacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface OffreQueryResult {
+  items: OffreDocument[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  total: number;
+  facets: Record<
+    'jobType' | 'shift' | 'category' | 'city' | 'tags',
+    OffreFacetBucket[]
+  >;
+}
+
+export interface NearOffresResult {
+  items: (Omit<Offre, 'searchIndex'> & {
+    _id: Types.ObjectId;
+    distanceKm: number;
+  })[];
+  total: number;
+  page: number;
+  limit: number;
+  radiusKm: number;
+}
+
+export interface RankedSearchResult {
+  items: {
+    offre: Omit<Offre, 'searchIndex'> & { _id: Types.ObjectId };
+    score: number;
+    highlights: {
+      title: string | null;
+      description: string | null;
+      tags: string[];
+    };
+  }[];
+  total: number;
+  page: number;
+  limit: number;
+  suggestions: string[];
+}
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 @Injectable()
 export class OffreService {
   constructor(
     @InjectModel(Offre.name) private offreModel: Model<OffreDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>, // Add UserModel
+    private readonly companyService: CompanyService,
+    private readonly moderationService: OffreModerationService,
+    private readonly analyticsService: OffreAnalyticsService,
   ) {}
 
   async create(
-    createOffreDto: CreateOffreDto, 
-    user: any, 
-    imageFiles?: Express.Multer.File[]
+    createOffreDto: CreateOffreDto,
+    user: any,
+    imageFiles?: Express.Multer.File[],
   ): Promise<OffreDocument> {
     try {
       const userId = user._id || user.userId || user.id;
-      
+
       if (!userId) {
         throw new BadRequestException('Invalid user information');
       }
 
       // Process image files
-      const imagePaths = imageFiles?.map(file => `uploads/offres/${file.filename}`) || [];
+      const imagePaths =
+        imageFiles?.map((file) => `uploads/offres/${file.filename}`) || [];
+
+      this.checkCompensation(createOffreDto);
+
+      // Recruiters publish under their company profile, the free-text name is only a fallback
+      const companyProfile = await this.companyService.findForUser(
+        String(userId),
+      );
+      if (!companyProfile && !createOffreDto.company) {
+        throw new BadRequestException(
+          'Company name is required when you have no company profile',
+        );
+      }
+
+      // Offers of low-trust publishers wait for a moderator
+      const moderation = await this.moderationService.initialStatus(
+        String(userId),
+        companyProfile?.isVerified ?? false,
+      );
 
       // Create the offer
       const offerData = {
         ...createOffreDto,
+        company: companyProfile ? companyProfile.name : createOffreDto.company,
+        companyProfile: companyProfile?._id ?? null,
         images: imagePaths,
         createdBy: new Types.ObjectId(userId),
         isActive: createOffreDto.isActive ?? true,
@@ -44,6 +149,7 @@ export class OffreService {
         likeCount: 0,
         likedBy: [],
         days: 0,
+        ...moderation,
       };
 
       const createdOffer = new this.offreModel(offerData);
@@ -59,31 +165,309 @@ export class OffreService {
   async findAllActive(): Promise<OffreDocument[]> {
     return this.offreModel
       .find({ isActive: true })
-      .populate('createdBy', 'nom email image contact modeExamens is_archive TrustXP is_Organization')
+      .populate(
+        'createdBy',
+        'nom email image contact modeExamens is_archive TrustXP is_Organization',
+      )
+      .populate('companyProfile', COMPANY_BADGE_FIELDS)
       .sort({ createdAt: -1 })
       .exec();
   }
 
+  async query(queryDto: QueryOffresDto): Promise<OffreQueryResult> {
+    const sort = queryDto.sort ?? OffreSort.RECENT;
+    const limit = queryDto.limit ?? 20;
+    const keys = SORT_KEYS[sort];
+    const filter = this.buildQueryFilter(queryDto);
+
+    const pageFilter: FilterQuery<OffreDocument> = queryDto.cursor
+      ? { $and: [filter, this.cursorFilter(keys, queryDto.cursor)] }
+      : filter;
+
+    const [items, [stats]] = await Promise.all([
+      this.offreModel
+        .find(pageFilter)
+        .sort(Object.fromEntries(keys) as Record<string, SortOrder>)
+        .limit(limit + 1)
+        .populate(
+          'createdBy',
+          'nom email image contact modeExamens is_archive TrustXP is_Organization',
+        )
+        .populate('companyProfile', COMPANY_BADGE_FIELDS)
+        .exec(),
+      this.offreModel
+        .aggregate<{ total: { count: number }[] } & OffreQueryResult['facets']>(
+          [
+            { $match: filter },
+            {
+              $facet: {
+                total: [{ $count: 'count' }],
+                jobType: this.facetPipeline('$jobType'),
+                shift: this.facetPipeline('$shift'),
+                category: this.facetPipeline('$category', 20),
+                city: this.facetPipeline('$location.city', 20),
+                tags: [
+                  { $unwind: '$tags' },
+                  ...this.facetPipeline('$tags', 20),
+                ],
+              },
+            },
+          ],
+        )
+        .exec(),
+    ]);
+
+    const hasMore = items.length > limit;
+    const page = hasMore ? items.slice(0, limit) : items;
+    const last = page[page.length - 1];
+
+    return {
+      items: page,
+      nextCursor: hasMore && last ? this.encodeCursor(keys, last) : null,
+      hasMore,
+      total: stats.total[0]?.count ?? 0,
+      facets: {
+        jobType: stats.jobType,
+        shift: stats.shift,
+        category: stats.category,
+        city: stats.city,
+        tags: stats.tags,
+      },
+    };
+  }
+
+  /** Active offers within radiusKm of a point, nearest first, with their distance */
+  async findNear(nearDto: NearOffresDto): Promise<NearOffresResult> {
+    const radiusKm = nearDto.radiusKm ?? 10;
+    const page = nearDto.page ?? 1;
+    const limit = nearDto.limit ?? 20;
+
+    const query: FilterQuery<OffreDocument> = { isActive: true };
+    if (nearDto.jobType) query.jobType = nearDto.jobType;
+    if (nearDto.shift) query.shift = nearDto.shift;
+
+    const [result] = await this.offreModel
+      .aggregate<{
+        items: (Offre & { _id: Types.ObjectId; distance: number })[];
+        total: { count: number }[];
+      }>([
+        {
+          $geoNear: {
+            near: { type: 'Point', coordinates: [nearDto.lng, nearDto.lat] },
+            key: 'geoPoint',
+            distanceField: 'distance',
+            maxDistance: radiusKm * 1000,
+            spherical: true,
+            query,
+          },
+        },
+        { $project: { searchIndex: 0 } },
+        {
+          $facet: {
+            items: [{ $skip: (page - 1) * limit }, { $limit: limit }],
+            total: [{ $count: 'count' }],
+          },
+        },
+      ])
+      .exec();
+
+    const items = (await this.offreModel.populate(result.items, [
+      {
+        path: 'createdBy',
+        select:
+          'nom email image contact modeExamens is_archive TrustXP is_Organization',
+      },
+      { path: 'companyProfile', select: COMPANY_BADGE_FIELDS },
+    ])) as unknown as typeof result.items;
+
+    return {
+      items: items.map(({ distance, ...offre }) => ({
+        ...offre,
+        distanceKm: Math.round(distance / 100) / 10,
+      })),
+      total: result.total[0]?.count ?? 0,
+      page,
+      limit,
+      radiusKm,
+    };
+  }
+
   async searchOffers(query: string): Promise<OffreDocument[]> {
-    if (!query || query.trim() === '') {
+    const terms = tokenize(query);
+    if (terms.length === 0) {
       return this.findAllActive();
     }
 
     return this.offreModel
-      .find({
-        isActive: true,
-        $or: [
-          { title: { $regex: query, $options: 'i' } },
-          { description: { $regex: query, $options: 'i' } },
-          { company: { $regex: query, $options: 'i' } },
-          { tags: { $in: [new RegExp(query, 'i')] } }
-        ]
-      })
-      .populate('createdBy', 'nom email image contact modeExamens is_archive TrustXP is_Organization')
-      .sort({ createdAt: -1 })
+      .find(
+        {
+          isActive: true,
+          $text: { $search: terms.join(' '), $language: 'none' },
+        },
+        { score: { $meta: 'textScore' } },
+      )
+      .populate(
+        'createdBy',
+        'nom email image contact modeExamens is_archive TrustXP is_Organization',
+      )
+      .populate('companyProfile', COMPANY_BADGE_FIELDS)
+      .sort({ score: { $meta: 'textScore' }, createdAt: -1 })
       .exec();
   }
 
+  /** Relevance-ranked search with highlighted snippets and "did you mean" suggestions */
+  async searchRanked(
+    query: string,
+    page = 1,
+    limit = 20,
+  ): Promise<RankedSearchResult> {
+    const terms = tokenize(query);
+    if (terms.length === 0) {
+      return { items: [], total: 0, page, limit, suggestions: [] };
+    }
+
+    const filter: FilterQuery<OffreDocument> = {
+      isActive: true,
+      $text: { $search: terms.join(' '), $language: 'none' },
+    };
+
+    const [offers, total, suggestions] = await Promise.all([
+      this.offreModel
+        .find(filter, { score: { $meta: 'textScore' } })
+        .sort({ score: { $meta: 'textScore' }, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate(
+          'createdBy',
+          'nom email image contact modeExamens is_archive TrustXP is_Organization',
+        )
+        .populate('companyProfile', COMPANY_BADGE_FIELDS)
+        .lean<(Offre & { _id: Types.ObjectId; score: number })[]>()
+        .exec(),
+      this.offreModel.countDocuments(filter).exec(),
+      this.suggest(terms),
+    ]);
+
+    return {
+      items: offers.map(({ score, ...offre }) => ({
+        offre,
+        score,
+        highlights: {
+          title: highlight(offre.title, terms),
+          description: highlight(offre.description, terms),
+          tags:
+            offre.tags?.filter((tag) =>
+              tokenize(tag).some((word) => terms.includes(word)),
+            ) ?? [],
+        },
+      })),
+      total,
+      page,
+      limit,
+      suggestions,
+    };
+  }
+
+  /** Fills searchIndex for offers written before it existed or by bulk updates */
+  async reindexSearch(batchSize = 500): Promise<{ reindexed: number }> {
+    const offers = await this.offreModel
+      .find({ searchIndex: { $exists: false } })
+      .select('title description company tags exigences category')
+      .limit(batchSize)
+      .exec();
+
+    if (offers.length > 0) {
+      await this.offreModel.bulkWrite(
+        offers.map((offer) => ({
+          updateOne: {
+            filter: { _id: offer._id },
+            update: { $set: { searchIndex: buildSearchIndex(offer) } },
+          },
+        })),
+      );
+    }
+
+    return { reindexed: offers.length };
+  }
+
+  /**
+   * Replaces query words that no active offer contains with the closest
+   * known word. Candidates share the first letter to keep the scan small.
+   */
+  private async suggest(terms: string[]): Promise<string[]> {
+    const known = new Set(
+      await this.offreModel
+        .distinct('searchIndex.terms', {
+          isActive: true,
+          'searchIndex.terms': { $in: terms },
+        })
+        .exec(),
+    );
+
+    let corrected = false;
+    const replaced = await Promise.all(
+      terms.map(async (term) => {
+        if (known.has(term) || maxTypos(term) === 0) {
+          return term;
+        }
+
+        const candidates = await this.offreModel
+          .aggregate<{ _id: string; count: number }>([
+            {
+              $match: {
+                isActive: true,
+                'searchIndex.terms': new RegExp(`^${escapeRegex(term[0])}`),
+              },
+            },
+            { $unwind: '$searchIndex.terms' },
+            {
+              $match: {
+                'searchIndex.terms': new RegExp(`^${escapeRegex(term[0])}`),
+                $expr: {
+                  $lte: [
+                    {
+                      $abs: {
+                        $subtract: [
+                          { $strLenCP: '$searchIndex.terms' },
+                          term.length,
+                        ],
+                      },
+                    },
+                    maxTypos(term),
+                  ],
+                },
+              },
+            },
+            { $group: { _id: '$searchIndex.terms', count: { $sum: 1 } } },
+            { $limit: 2000 },
+          ])
+          .exec();
+
+        let best: { word: string; distance: number; count: number } | null =
+          null;
+        for (const candidate of candidates) {
+          const distance = levenshtein(term, candidate._id);
+          if (distance > maxTypos(term)) continue;
+          if (
+            !best ||
+            distance < best.distance ||
+            (distance === best.distance && candidate.count > best.count)
+          ) {
+            best = { word: candidate._id, distance, count: candidate.count };
+          }
+        }
+
+        if (!best) {
+          return term;
+        }
+        corrected = true;
+        return best.word;
+      }),
+    );
+
+    return corrected ? [replaced.join(' ')] : [];
+  }
+
   async findByTags(tags: string[]): Promise<OffreDocument[]> {
     if (!tags || tags.length === 0) {
       return this.findAllActive();
@@ -92,9 +476,13 @@ export class OffreService {
     return this.offreModel
       .find({
         isActive: true,
-        tags: { $in: tags }
+        tags: { $in: tags },
       })
-      .populate('createdBy', 'nom email image contact modeExamens is_archive TrustXP is_Organization')
+      .populate(
+        'createdBy',
+        'nom email image contact modeExamens is_archive TrustXP is_Organization',
+      )
+      .populate('companyProfile', COMPANY_BADGE_FIELDS)
       .sort({ createdAt: -1 })
       .exec();
   }
@@ -103,40 +491,55 @@ export class OffreService {
     return this.offreModel
       .find({
         isActive: true,
-        'location.city': { $regex: city, $options: 'i' }
+        'location.city': { $regex: city, $options: 'i' },
       })
-      .populate('createdBy', 'nom email image contact modeExamens is_archive TrustXP is_Organization')
+      .populate(
+        'createdBy',
+        'nom email image contact modeExamens is_archive TrustXP is_Organization',
+      )
+      .populate('companyProfile', COMPANY_BADGE_FIELDS)
       .sort({ createdAt: -1 })
       .exec();
   }
 
   async findByUser(user: any): Promise<OffreDocument[]> {
     const userId = user._id || user.userId || user.id;
-    
+
     return this.offreModel
       .find({ createdBy: new Types.ObjectId(userId) })
-      .populate('createdBy', 'nom email image contact modeExamens is_archive TrustXP is_Organization')
+      .populate(
+        'createdBy',
+        'nom email image contact modeExamens is_archive TrustXP is_Organization',
+      )
+      .populate('companyProfile', COMPANY_BADGE_FIELDS)
       .sort({ createdAt: -1 })
       .exec();
   }
 
   async findByUserId(userId: string): Promise<OffreDocument[]> {
     return this.offreModel
-      .find({ 
+      .find({
         createdBy: new Types.ObjectId(userId),
-        isActive: true 
+        isActive: true,
       })
-      .populate('createdBy', 'nom email image contact modeExamens is_archive TrustXP is_Organization')
+      .populate(
+        'createdBy',
+        'nom email image contact modeExamens is_archive TrustXP is_Organization',
+      )
+      .populate('companyProfile', COMPANY_BADGE_FIELDS)
       .sort({ createdAt: -1 })
       .exec();
   }
 
   async findLikedOffers(user: any): Promise<OffreDocument[]> {
     const userId = user._id || user.userId || user.id;
-    
+
     // Get user's liked offers from user document
-    const userDoc = await this.userModel.findById(userId).select('likedOffres').exec();
-    
+    const userDoc = await this.userModel
+      .findById(userId)
+      .select('likedOffres')
+      .exec();
+
     if (!userDoc || !userDoc.likedOffres || userDoc.likedOffres.length === 0) {
       return [];
     }
@@ -144,9 +547,13 @@ export class OffreService {
     return this.offreModel
       .find({
         _id: { $in: userDoc.likedOffres },
-        isActive: true
+        isActive: true,
       })
-      .populate('createdBy', 'nom email image contact modeExamens is_archive TrustXP is_Organization')
+      .populate(
+        'createdBy',
+        'nom email image contact modeExamens is_archive TrustXP is_Organization',
+      )
+      .populate('companyProfile', COMPANY_BADGE_FIELDS)
       .sort({ createdAt: -1 })
       .exec();
   }
@@ -154,40 +561,53 @@ export class OffreService {
   async findPopular(): Promise<OffreDocument[]> {
     return this.offreModel
       .find({ isActive: true })
-      .populate('createdBy', 'nom email image contact modeExamens is_archive TrustXP is_Organization')
+      .populate(
+        'createdBy',
+        'nom email image contact modeExamens is_archive TrustXP is_Organization',
+      )
+      .populate('companyProfile', COMPANY_BADGE_FIELDS)
       .sort({ viewCount: -1, likeCount: -1 })
       .limit(10)
       .exec();
   }
 
-  async findOne(id: string): Promise<OffreDocument> {
+  async findOne(id: string, viewer?: OffreViewer): Promise<OffreDocument> {
     if (!Types.ObjectId.isValid(id)) {
       throw new NotFoundException('Invalid offer ID');
     }
 
+    // Taken down offers disappear, even from direct links
     const offer = await this.offreModel
-      .findByIdAndUpdate(
-        id,
-        { $inc: { viewCount: 1 } },
-        { new: true }
+      .findOne({
+        _id: id,
+        moderationStatus: { $ne: ModerationStatus.TAKEN_DOWN },
+      })
+      .populate(
+        'createdBy',
+        'nom email image contact modeExamens is_archive TrustXP is_Organization',
       )
-      .populate('createdBy', 'nom email image contact modeExamens is_archive TrustXP is_Organization')
+      .populate('companyProfile', COMPANY_BADGE_FIELDS)
       .exec();
 
     if (!offer) {
       throw new NotFoundException(`Offer with ID ${id} not found`);
     }
 
+    // viewCount only grows on the first view of the day of each visitor
+    if (viewer && (await this.analyticsService.recordView(offer, viewer))) {
+      offer.viewCount += 1;
+    }
+
     return offer;
   }
 
   async update(
-    id: string, 
-    updateOffreDto: UpdateOffreDto, 
-    user: any
+    id: string,
+    updateOffreDto: UpdateOffreDto,
+    user: any,
   ): Promise<OffreDocument> {
     const userId = user._id || user.userId || user.id;
-    
+
     // Check if offer exists and user owns it
     const existingOffer = await this.offreModel.findById(id).exec();
     if (!existingOffer) {
@@ -199,9 +619,29 @@ export class OffreService {
       throw new ForbiddenException('You can only update your own offers');
     }
 
+    this.checkCompensation(updateOffreDto, existingOffer);
+
+    // The name of a linked company is kept in sync by CompanyService
+    if (existingOffer.companyProfile) {
+      delete updateOffreDto.company;
+    }
+
+    // Only moderators put a held offer back online; an edited rejected offer goes back to the queue
+    const update: UpdateQuery<OffreDocument> = { ...updateOffreDto };
+    if (existingOffer.moderationStatus !== ModerationStatus.APPROVED) {
+      delete update.isActive;
+    }
+    if (existingOffer.moderationStatus === ModerationStatus.REJECTED) {
+      update.moderationStatus = ModerationStatus.PENDING;
+    }
+
     const updatedOffer = await this.offreModel
-      .findByIdAndUpdate(id, updateOffreDto, { new: true })
-      .populate('createdBy', 'nom email image contact modeExamens is_archive TrustXP is_Organization')
+      .findByIdAndUpdate(id, update, { new: true })
+      .populate(
+        'createdBy',
+        'nom email image contact modeExamens is_archive TrustXP is_Organization',
+      )
+      .populate('companyProfile', COMPANY_BADGE_FIELDS)
       .exec();
 
     if (!updatedOffer) {
@@ -213,7 +653,7 @@ export class OffreService {
 
   async remove(id: string, user: any): Promise<{ message: string }> {
     const userId = user._id || user.userId || user.id;
-    
+
     // Check if offer exists and user owns it
     const existingOffer = await this.offreModel.findById(id).exec();
     if (!existingOffer) {
@@ -226,7 +666,7 @@ export class OffreService {
     }
 
     const result = await this.offreModel.findByIdAndDelete(id).exec();
-    
+
     if (!result) {
       throw new NotFoundException(`Offer with ID ${id} not found`);
     }
@@ -234,29 +674,32 @@ export class OffreService {
     return { message: 'Offer deleted successfully' };
   }
 
-  async toggleLike(id: string, user: any): Promise<{ liked: boolean; likeCount: number }> {
+  async toggleLike(
+    id: string,
+    user: any,
+  ): Promise<{ liked: boolean; likeCount: number }> {
     const userId = user._id || user.userId || user.id;
-    
+
     const offer = await this.offreModel.findById(id).exec();
     if (!offer) {
       throw new NotFoundException(`Offer with ID ${id} not found`);
     }
 
     const userObjectId = new Types.ObjectId(userId);
-    const isLiked = offer.likedBy.some(like => like.equals(userObjectId));
+    const isLiked = offer.likedBy.some((like) => like.equals(userObjectId));
 
     let updateQuery;
     if (isLiked) {
       // Unlike
       updateQuery = {
         $pull: { likedBy: userObjectId },
-        $inc: { likeCount: -1 }
+        $inc: { likeCount: -1 },
       };
     } else {
       // Like
       updateQuery = {
         $addToSet: { likedBy: userObjectId },
-        $inc: { likeCount: 1 }
+        $inc: { likeCount: 1 },
       };
     }
 
@@ -273,28 +716,56 @@ export class OffreService {
 
     return {
       liked: !isLiked,
-      likeCount: updatedOffer.likeCount
+      likeCount: updatedOffer.likeCount,
     };
   }
 
-  private async updateUserLikedOffres(userId: string, offreId: string, add: boolean): Promise<void> {
+  /**
+   * Rejects a salary range that ends below its start and schedule slots without duration.
+   * Fields missing from the dto come from its free-text salary, then from the stored offer.
+   */
+  private checkCompensation(
+    dto: UpdateOffreDto,
+    existing?: OffreDocument,
+  ): void {
+    const parsed =
+      dto.salary !== undefined ? parseSalaryRange(dto.salary) : existing;
+    const salaryMin = dto.salaryMin ?? parsed?.salaryMin;
+    const salaryMax = dto.salaryMax ?? parsed?.salaryMax;
+    if (salaryMin != null && salaryMax != null && salaryMin > salaryMax) {
+      throw new BadRequestException(
+        'salaryMin cannot be greater than salaryMax',
+      );
+    }
+    if (dto.schedule?.some(isEmptySlot)) {
+      throw new BadRequestException(
+        'A schedule slot cannot start and end at the same time',
+      );
+    }
+  }
+
+  private async updateUserLikedOffres(
+    userId: string,
+    offreId: string,
+    add: boolean,
+  ): Promise<void> {
     try {
       const userObjectId = new Types.ObjectId(userId);
       const offreObjectId = new Types.ObjectId(offreId);
-      
+
       let updateQuery;
       if (add) {
         // Add to user's likedOffres
         updateQuery = {
-          $addToSet: { likedOffres: offreObjectId }
+          $addToSet: { likedOffres: offreObjectId },
         };
       } else {
         // Remove from user's likedOffres
         updateQuery = {
-          $pull: { likedOffres: offreObjectId }
+          $pull: { likedOffres: offreObjectId },
         };
       }
-      
+
       await this.userModel.findByIdAndUpdate(userObjectId, updateQuery).exec();
     } catch (error) {
       console.error('Error updating user likedOffres:', error);
@@ -309,10 +780,18 @@ export class OffreService {
       .exec();
   }
 
-  async getOffersStats(): Promise<{ total: number; active: number; popular: number }> {
+  async getOffersStats(): Promise<{
+    total: number;
+    active: number;
+    popular: number;
+  }> {
     const total = await this.offreModel.countDocuments().exec();
-    const active = await this.offreModel.countDocuments({ isActive: true }).exec();
-    const popular = await this.offreModel.countDocuments({ likeCount: { $gt: 10 } }).exec();
+    const active = await this.offreModel
+      .countDocuments({ isActive: true })
+      .exec();
+    const popular = await this.offreModel
+      .countDocuments({ likeCount: { $gt: 10 } })
+      .exec();
 
     return { total, active, popular };
   }
@@ -320,34 +799,211 @@ export class OffreService {
   async deactivateExpiredOffers(): Promise<{ deactivated: number }> {
     const result = await this.offreModel
       .updateMany(
-        { 
+        {
           expiresAt: { $lt: new Date() },
-          isActive: true 
+          isActive: true,
         },
-        { isActive: false }
+        { isActive: false },
       )
       .exec();
 
     return { deactivated: result.modifiedCount };
   }
 
+  async refreshDayCounters(): Promise<{ updated: number }> {
+    const result = await this.offreModel
+      .updateMany({ isActive: true }, [
+        {
+          $set: {
+            days: {
+              $dateDiff: {
+                startDate: '$createdAt',
+                endDate: '$$NOW',
+                unit: 'day',
+              },
+            },
+          },
+        },
+      ])
+      .exec();
+
+    return { updated: result.modifiedCount };
+  }
+
+  /** Fills the structured salary fields of offers saved before they existed */
+  async backfillSalaryRanges(): Promise<{ updated: number }> {
+    const offers = await this.offreModel
+      .find({
+        salary: { $nin: [null, ''] },
+        $or: [
+          { salaryMin: { $exists: false } },
+          { salaryPeriod: { $exists: false } },
+        ],
+      })
+      .select('salary')
+      .limit(1000)
+      .exec();
+
+    if (offers.length > 0) {
+      await this.offreModel.bulkWrite(
+        offers.map((offer) => ({
+          updateOne: {
+            filter: { _id: offer._id },
+            update: { $set: parseSalaryRange(offer.salary) },
+          },
+        })),
+      );
+    }
+
+    return { updated: offers.length };
+  }
+
+  /** Fills geoPoint for offers whose coordinates were saved before it existed */
+  async backfillGeoPoints(): Promise<{ updated: number }> {
+    const offers = await this.offreModel
+      .find({
+        'location.coordinates.lat': { $type: 'number' },
+        geoPoint: { $exists: false },
+      })
+      .select('location')
+      .limit(1000)
+      .exec();
+
+    if (offers.length > 0) {
+      await this.offreModel.bulkWrite(
+        offers.map((offer) => ({
+          updateOne: {
+            filter: { _id: offer._id },
+            update: {
+              $set: { geoPoint: toGeoPoint(offer.location?.coordinates) },
+            },
+          },
+        })),
+      );
+    }
+
+    return { updated: offers.length };
+  }
+
+  private buildQueryFilter(
+    queryDto: QueryOffresDto,
+  ): FilterQuery<OffreDocument> {
+    const filter: FilterQuery<OffreDocument> = { isActive: true };
+    const exact = (value: string) =>
+      new RegExp(`^${escapeRegex(value.trim())}$`, 'i');
+
+    if (queryDto.jobType) filter.jobType = queryDto.jobType;
+    if (queryDto.shift) filter.shift = queryDto.shift;
+    if (queryDto.category) filter.category = exact(queryDto.category);
+    if (queryDto.city) filter['location.city'] = exact(queryDto.city);
+    if (queryDto.country) filter['location.country'] = exact(queryDto.country);
+    if (queryDto.tags?.length) filter.tags = { $in: queryDto.tags };
+
+    if (queryDto.company) {
+      filter.$or = Types.ObjectId.isValid(queryDto.company)
+        ? [{ companyProfile: new Types.ObjectId(queryDto.company) }]
+        : [{ company: new RegExp(escapeRegex(queryDto.company.trim()), 'i') }];
+    }
+
+    // Ranges overlap: the offer pays at least salaryMin somewhere and starts below salaryMax
+    if (queryDto.salaryMin !== undefined) {
+      filter.salaryMax = { $gte: queryDto.salaryMin };
+    }
+    if (queryDto.salaryMax !== undefined) {
+      filter.salaryMin = { $lte: queryDto.salaryMax };
+    }
+    if (queryDto.salaryPeriod) filter.salaryPeriod = queryDto.salaryPeriod;
+    if (queryDto.salaryCurrency)
+      filter.salaryCurrency = queryDto.salaryCurrency.trim().toUpperCase();
+    if (queryDto.maxWeeklyHours !== undefined) {
+      filter.weeklyHours = { $lte: queryDto.maxWeeklyHours };
+    }
+
+    if (queryDto.createdFrom || queryDto.createdTo) {
+      const createdAt: { $gte?: Date; $lte?: Date } = {};
+      if (queryDto.createdFrom) createdAt.$gte = new Date(queryDto.createdFrom);
+      if (queryDto.createdTo) createdAt.$lte = new Date(queryDto.createdTo);
+      filter.createdAt = createdAt;
+    }
+
+    return filter;
+  }
+
+  private facetPipeline(field: string, limit?: number) {
+    return [
+      { $match: { [field.slice(1)]: { $nin: [null, ''] } } },
+      { $group: { _id: field, count: { $sum: 1 } } },
+      { $sort: { count: -1 as const, _id: 1 as const } },
+      ...(limit ? [{ $limit: limit }] : []),
+      { $project: { _id: 0, value: '$_id', count: 1 } },
+    ];
+  }
+
+  private encodeCursor(keys: [string, 1 | -1][], offer: OffreDocument): string {
+    const values = keys.map(([field]) => offer.get(field) as unknown);
+    return Buffer.from(JSON.stringify(values)).toString('base64url');
+  }
+
+  /** Documents strictly after the cursor in the keyset order */
+  private cursorFilter(
+    keys: [string, 1 | -1][],
+    cursor: string,
+  ): FilterQuery<OffreDocument> {
+    let raw: unknown[];
+    try {
+      raw = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8'),
+      ) as unknown[];
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+    if (!Array.isArray(raw) || raw.length !== keys.length) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const values = keys.map(([field], i) => {
+      if (field === '_id') {
+        if (!Types.ObjectId.isValid(raw[i] as string)) {
+          throw new BadRequestException('Invalid cursor');
+        }
+        return new Types.ObjectId(raw[i] as string);
+      }
+      return DATE_SORT_FIELDS.includes(field) && raw[i] !== null
+        ? new Date(raw[i] as string)
+        : raw[i];
+    });
+
+    return {
+      $or: keys.map(([field, order], i) => ({
+        ...Object.fromEntries(
+          keys.slice(0, i).map(([prev], j) => [prev, values[j]]),
+        ),
+        [field]: { [order === 1 ? '$gt' : '$lt']: values[i] },
+      })),
+    };
+  }
+
   // Helper method to update offer likes (for alternative approach)
-  async updateOfferLikes(offreId: string, userId: string, add: boolean): Promise<void> {
+  async updateOfferLikes(
+    offreId: string,
+    userId: string,
+    add: boolean,
+  ): Promise<void> {
     const userObjectId = new Types.ObjectId(userId);
-    
+
     let updateQuery;
     if (add) {
       updateQuery = {
         $addToSet: { likedBy: userObjectId },
-        $inc: { likeCount: 1 }
+        $inc: { likeCount: 1 },
       };
     } else {
       updateQuery = {
         $pull: { likedBy: userObjectId },
-        $inc: { likeCount: -1 }
+        $inc: { likeCount: -1 },
       };
     }
-    
+
     await this.offreModel.findByIdAndUpdate(offreId, updateQuery).exec();
   }
-}
\ No newline at end of file
+}
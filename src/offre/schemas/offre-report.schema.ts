@@ -0,0 +1,60 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type OffreReportDocument = HydratedDocument<OffreReport>;
+
+export enum ReportReason {
+  SCAM = 'scam',
+  PAYMENT_REQUESTED = 'payment_requested',
+  FAKE_COMPANY = 'fake_company',
+  MISLEADING = 'misleading',
+  INAPPROPRIATE = 'inappropriate',
+  DISCRIMINATION = 'discrimination',
+  DUPLICATE = 'duplicate',
+  OTHER = 'other',
+}
+
+export enum ReportStatus {
+  OPEN = 'open',
+  // The offer was rejected or taken down
+  UPHELD = 'upheld',
+  // The offer was approved despite the report
+  DISMISSED = 'dismissed',
+}
+
+@Schema({ timestamps: true, versionKey: false })
+export class OffreReport {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  @Prop({ type: Types.ObjectId, ref: 'Offre', required: true })
+  offre: Types.ObjectId;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439012' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  reporter: Types.ObjectId;
+
+  @ApiProperty({ enum: ReportReason, example: ReportReason.PAYMENT_REQUESTED })
+  @Prop({ type: String, enum: ReportReason, required: true })
+  reason: ReportReason;
+
+  @ApiProperty({
+    example: 'They ask for 50 DT to confirm the interview',
+    required: false,
+  })
+  @Prop({ type: String, trim: true })
+  details?: string;
+
+  @ApiProperty({ enum: ReportStatus, example: ReportStatus.OPEN })
+  @Prop({ type: String, enum: ReportStatus, default: ReportStatus.OPEN })
+  status: ReportStatus;
+
+  @ApiProperty({ example: new Date(), required: false })
+  @Prop({ type: Date })
+  resolvedAt?: Date;
+}
+
+export const OffreReportSchema = SchemaFactory.createForClass(OffreReport);
+
+// One report per user and offer
+OffreReportSchema.index({ offre: 1, reporter: 1 }, { unique: true });
+OffreReportSchema.index({ offre: 1, status: 1 });
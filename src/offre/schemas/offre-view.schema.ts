@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+
+export type OffreViewDocument = HydratedDocument<OffreView>;
+
+/** One document per offer, viewer and day: reloading the page counts once */
+@Schema({ timestamps: true, versionKey: false })
+export class OffreView {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  @Prop({ type: Types.ObjectId, ref: 'Offre', required: true })
+  offre: Types.ObjectId;
+
+  @ApiProperty({
+    example: 'user:507f1f77bcf86cd799439012',
+    description: 'User ID, or a hash of the anonymous session',
+  })
+  @Prop({ type: String, required: true })
+  viewerKey: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439012', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  user?: Types.ObjectId | null;
+
+  @ApiProperty({ example: '2024-06-01', description: 'UTC day of the view' })
+  @Prop({ type: String, required: true })
+  day: string;
+}
+
+export const OffreViewSchema = SchemaFactory.createForClass(OffreView);
+
+OffreViewSchema.index({ offre: 1, viewerKey: 1, day: 1 }, { unique: true });
+OffreViewSchema.index({ offre: 1, day: 1 });
+// Analytics cover at most a year
+OffreViewSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 400 * 24 * 60 * 60 },
+);
@@ -1,55 +1,102 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
+import { buildSearchIndex } from '../offre-search';
+import type { OffreSearchIndex } from '../offre-search';
+import { toGeoPoint } from '../offre-geo';
+import type { GeoPoint } from '../offre-geo';
+import {
+  formatSalary,
+  parseSalaryRange,
+  SalaryPeriod,
+  scheduleWeeklyHours,
+} from '../offre-compensation';
+import type { WorkScheduleSlot } from '../offre-compensation';
+import { JourSemaine } from '../../disponibilite/schemas/disponibilite.schema';
 
 export type OffreDocument = HydratedDocument<Offre>;
 
 export enum JobType {
   JOB = 'job',
   STAGE = 'stage',
-  FREELANCE = 'freelance'
+  FREELANCE = 'freelance',
 }
 
 export enum Shift {
   JOUR = 'jour',
   NUIT = 'nuit',
-  FLEXIBLE = 'flexible'
+  FLEXIBLE = 'flexible',
 }
 
+export enum ModerationStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  TAKEN_DOWN = 'taken_down',
+}
+
+export enum ModerationHoldReason {
+  LOW_TRUST = 'low_trust',
+  REPORTS = 'reports',
+}
+
+// A subschema, otherwise Mongoose reads the GeoJSON "type" key as the type of the path
+@Schema({ _id: false, versionKey: false })
+export class OffreGeoPoint {
+  @Prop({ type: String, enum: ['Point'], required: true })
+  type: 'Point';
+
+  @Prop({ type: [Number], required: true })
+  coordinates: [number, number];
+}
+
+const OffreGeoPointSchema = SchemaFactory.createForClass(OffreGeoPoint);
+
 @Schema({ timestamps: true, versionKey: false })
 export class Offre {
-  @ApiProperty({ example: 'Senior Developer', description: 'Title of the offer' })
+  @ApiProperty({
+    example: 'Senior Developer',
+    description: 'Title of the offer',
+  })
   @Prop({ required: true })
   title: string;
 
-  @ApiProperty({ 
-    example: ['/uploads/offres/image1.jpg', '/uploads/offres/image2.jpg'], 
-    description: 'Array of offer image URLs' 
+  @ApiProperty({
+    example: ['/uploads/offres/image1.jpg', '/uploads/offres/image2.jpg'],
+    description: 'Array of offer image URLs',
   })
   @Prop({ required: true })
   images: string[];
 
-  @ApiProperty({ example: 'We are looking for a skilled developer...', description: 'Detailed description' })
+  @ApiProperty({
+    example: 'We are looking for a skilled developer...',
+    description: 'Detailed description',
+  })
   @Prop({ required: true })
   description: string;
 
-  @ApiProperty({ example: ['javascript', 'nodejs', 'react'], description: 'Tags for categorization' })
+  @ApiProperty({
+    example: ['javascript', 'nodejs', 'react'],
+    description: 'Tags for categorization',
+  })
   @Prop([String])
   tags: string[];
 
-  @ApiProperty({ example: ['javascript', 'nodejs', 'react'], description: 'Tags for categorization' })
+  @ApiProperty({
+    example: ['javascript', 'nodejs', 'react'],
+    description: 'Tags for categorization',
+  })
   @Prop([String])
   exigences: string[];
 
-
   @ApiProperty({
     example: {
       address: '123 Main St',
       city: 'Paris',
       country: 'France',
-      coordinates: { lat: 48.8566, lng: 2.3522 }
+      coordinates: { lat: 48.8566, lng: 2.3522 },
     },
-    description: 'Location details'
+    description: 'Location details',
   })
   @Prop({
     type: {
@@ -58,10 +105,10 @@ export class Offre {
       country: { type: String, required: true },
       coordinates: {
         lat: { type: Number, required: false },
-        lng: { type: Number, required: false }
-      }
+        lng: { type: Number, required: false },
+      },
     },
-    required: true
+    required: true,
   })
   location: {
     address: string;
@@ -73,7 +120,19 @@ export class Offre {
     };
   };
 
-  @ApiProperty({ example: '507f1f77bcf86cd799439011', description: 'User ID who created the offer' })
+  @ApiProperty({
+    example: { type: 'Point', coordinates: [2.3522, 48.8566] },
+    description:
+      'GeoJSON copy of location.coordinates, used for distance queries',
+    required: false,
+  })
+  @Prop({ type: OffreGeoPointSchema, default: undefined })
+  geoPoint?: GeoPoint | null;
+
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'User ID who created the offer',
+  })
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   createdBy: Types.ObjectId;
 
@@ -81,6 +140,45 @@ export class Offre {
   @Prop({ default: true })
   isActive: boolean;
 
+  @ApiProperty({
+    enum: ModerationStatus,
+    example: ModerationStatus.APPROVED,
+    description: 'Held offers stay inactive until a moderator approves them',
+  })
+  @Prop({
+    type: String,
+    enum: ModerationStatus,
+    default: ModerationStatus.APPROVED,
+  })
+  moderationStatus: ModerationStatus;
+
+  @ApiProperty({
+    enum: ModerationHoldReason,
+    description: 'Why the offer was held for review',
+    required: false,
+  })
+  @Prop({ type: String, enum: ModerationHoldReason, default: null })
+  moderationHoldReason?: ModerationHoldReason | null;
+
+  @ApiProperty({
+    example: 'Asks candidates for a registration fee',
+    required: false,
+  })
+  @Prop({ type: String })
+  moderationNote?: string;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  moderatedBy?: Types.ObjectId;
+
+  @ApiProperty({ example: new Date(), required: false })
+  @Prop({ type: Date })
+  moderatedAt?: Date;
+
+  @ApiProperty({ example: 0, description: 'Open reports against the offer' })
+  @Prop({ default: 0 })
+  reportCount: number;
+
   @ApiProperty({ example: 150, description: 'Number of views' })
   @Prop({ default: 0 })
   viewCount: number;
@@ -93,15 +191,88 @@ export class Offre {
   @Prop()
   salary?: string;
 
+  @ApiProperty({
+    example: 50000,
+    description: 'Lower salary bound, parsed from salary when not given',
+    required: false,
+  })
+  @Prop({ type: Number, default: null })
+  salaryMin?: number | null;
+
+  @ApiProperty({
+    example: 70000,
+    description: 'Upper salary bound, parsed from salary when not given',
+    required: false,
+  })
+  @Prop({ type: Number, default: null })
+  salaryMax?: number | null;
+
+  @ApiProperty({
+    example: 'EUR',
+    description: 'ISO 4217 currency of the salary',
+    required: false,
+  })
+  @Prop({ type: String, default: null })
+  salaryCurrency?: string | null;
+
+  @ApiProperty({
+    enum: SalaryPeriod,
+    example: SalaryPeriod.MONTHLY,
+    description: 'What the salary amount pays for',
+    required: false,
+  })
+  @Prop({ type: String, enum: SalaryPeriod, default: null })
+  salaryPeriod?: SalaryPeriod | null;
+
+  @ApiProperty({
+    example: 20,
+    description: 'Hours per week, summed from schedule when not given',
+    required: false,
+  })
+  @Prop({ type: Number, default: null })
+  weeklyHours?: number | null;
+
+  @ApiProperty({
+    example: [
+      { jour: JourSemaine.SAMEDI, heureDebut: '09:00', heureFin: '17:00' },
+    ],
+    description: 'Weekly working windows',
+    required: false,
+  })
+  @Prop({
+    type: [
+      {
+        _id: false,
+        jour: { type: String, enum: JourSemaine, required: true },
+        heureDebut: { type: String, required: true },
+        heureFin: { type: String, required: true },
+      },
+    ],
+    default: [],
+  })
+  schedule: WorkScheduleSlot[];
+
   @ApiProperty({ example: 'Tech Corp', description: 'Company name' })
   @Prop({ required: true })
   company: string;
 
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439031',
+    description: 'Company profile, populated with its verified badge',
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Company', default: null })
+  companyProfile?: Types.ObjectId | null;
+
   @ApiProperty({ example: '2024-12-31', description: 'Expiration date' })
   @Prop({ default: () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) })
   expiresAt: Date;
 
-  @ApiProperty({ enum: JobType, example: JobType.JOB, description: 'Type of job' })
+  @ApiProperty({
+    enum: JobType,
+    example: JobType.JOB,
+    description: 'Type of job',
+  })
   @Prop({ type: String, enum: JobType, default: JobType.JOB })
   jobType: JobType;
 
@@ -121,7 +292,6 @@ export class Offre {
   @Prop([{ type: Types.ObjectId, ref: 'User' }])
   likedBy: Types.ObjectId[];
 
-
   @ApiProperty({ description: 'Accepted users IDs', example: [] })
   @Prop([{ type: Types.ObjectId, ref: 'User' }])
   acceptedUsers: Types.ObjectId[];
@@ -129,6 +299,159 @@ export class Offre {
   @ApiProperty({ description: 'Blocked users IDs', example: [] })
   @Prop([{ type: Types.ObjectId, ref: 'User' }])
   blockedUsers: Types.ObjectId[];
+
+  // Normalized copies of the searchable fields, maintained by the hooks below
+  @Prop({
+    type: {
+      title: String,
+      tags: String,
+      company: String,
+      body: String,
+      terms: [String],
+    },
+    select: false,
+  })
+  searchIndex?: OffreSearchIndex;
+
+  // Last change of a field used by AI matching, maintained by the hooks below
+  @Prop({ type: Date })
+  matchingUpdatedAt?: Date;
 }
 
-export const OffreSchema = SchemaFactory.createForClass(Offre);
\ No newline at end of file
+export const OffreSchema = SchemaFactory.createForClass(Offre);
+
+OffreSchema.index({ companyProfile: 1, isActive: 1 });
+OffreSchema.index({ moderationStatus: 1, reportCount: -1, createdAt: 1 });
+// Listing sorts and filters
+OffreSchema.index({ isActive: 1, createdAt: -1, _id: -1 });
+OffreSchema.index({ isActive: 1, viewCount: -1, likeCount: -1, _id: -1 });
+OffreSchema.index({ isActive: 1, expiresAt: 1, _id: 1 });
+OffreSchema.index({ 'location.city': 1 });
+OffreSchema.index({ tags: 1 });
+OffreSchema.index({ salaryMin: 1, salaryMax: 1 });
+OffreSchema.index({ salaryPeriod: 1, salaryMax: 1 });
+OffreSchema.index(
+  {
+    'searchIndex.title': 'text',
+    'searchIndex.tags': 'text',
+    'searchIndex.company': 'text',
+    'searchIndex.body': 'text',
+  },
+  {
+    name: 'offre_text_search',
+    weights: {
+      'searchIndex.title': 10,
+      'searchIndex.tags': 6,
+      'searchIndex.company': 4,
+      'searchIndex.body': 1,
+    },
+    // Text is normalized by buildSearchIndex, no stemming so French and Arabic behave the same
+    default_language: 'none',
+    language_override: 'searchLanguage',
+  },
+);
+OffreSchema.index({ isActive: 1, 'searchIndex.terms': 1 });
+OffreSchema.index({ geoPoint: '2dsphere' });
+OffreSchema.index({ matchingUpdatedAt: 1 });
+
+const SEARCHABLE_FIELDS = [
+  'title',
+  'description',
+  'company',
+  'tags',
+  'exigences',
+  'category',
+];
+const SALARY_FIELDS = [
+  'salaryMin',
+  'salaryMax',
+  'salaryCurrency',
+  'salaryPeriod',
+] as const;
+// Views and likes also touch updatedAt, these are the fields the match index depends on
+const MATCHING_FIELDS = [
+  'title',
+  'company',
+  'tags',
+  'exigences',
+  'jobType',
+  'shift',
+  'schedule',
+  'weeklyHours',
+  'salary',
+  ...SALARY_FIELDS,
+  'location',
+  'isActive',
+];
+
+OffreSchema.pre('save', function (next) {
+  // Structured fields win over the free text, which then only fills the gaps
+  if (this.isModified('salary')) {
+    const parsed = parseSalaryRange(this.salary);
+    for (const field of SALARY_FIELDS) {
+      if (!this.isModified(field)) {
+        this.set(field, parsed[field]);
+      }
+    }
+  } else if (SALARY_FIELDS.some((field) => this.isModified(field))) {
+    this.salary = formatSalary(this) ?? undefined;
+  }
+  if (this.isModified('schedule') && !this.isModified('weeklyHours')) {
+    this.weeklyHours = scheduleWeeklyHours(this.schedule) || null;
+  }
+  if (SEARCHABLE_FIELDS.some((field) => this.isModified(field))) {
+    this.searchIndex = buildSearchIndex(this);
+  }
+  if (this.isModified('location')) {
+    this.geoPoint = toGeoPoint(this.location?.coordinates);
+  }
+  if (this.isNew || MATCHING_FIELDS.some((field) => this.isModified(field))) {
+    this.matchingUpdatedAt = new Date();
+  }
+  next();
+});
+
+type OffreUpdate = Partial<Offre> & { $set?: Partial<Offre> };
+
+OffreSchema.pre('findOneAndUpdate', function (next) {
+  const update = this.getUpdate() as OffreUpdate | null;
+  const changed = { ...update, ...update?.$set };
+  if (changed.salary !== undefined) {
+    const parsed = parseSalaryRange(changed.salary);
+    for (const field of SALARY_FIELDS) {
+      if (!(field in changed)) {
+        this.set(field, parsed[field]);
+      }
+    }
+  }
+  if (changed.schedule !== undefined && !('weeklyHours' in changed)) {
+    this.set({ weeklyHours: scheduleWeeklyHours(changed.schedule) || null });
+  }
+  const location = update?.location ?? update?.$set?.location;
+  if (location !== undefined) {
+    this.set({ geoPoint: toGeoPoint(location?.coordinates) });
+  }
+  if (MATCHING_FIELDS.some((field) => field in changed)) {
+    this.set({ matchingUpdatedAt: new Date() });
+  }
+  next();
+});
+
+OffreSchema.post(
+  'findOneAndUpdate',
+  async function (doc: OffreDocument | null) {
+    const update = this.getUpdate() as OffreUpdate | null;
+    const changed = { ...update, ...update?.$set };
+    if (doc && SEARCHABLE_FIELDS.some((field) => field in changed)) {
+      await doc.updateOne({ $set: { searchIndex: buildSearchIndex(doc) } });
+    }
+    // Keep the display text in line when only the structured salary was edited
+    if (
+      doc &&
+      changed.salary === undefined &&
+      SALARY_FIELDS.some((field) => field in changed)
+    ) {
+      await doc.updateOne({ $set: { salary: formatSalary(doc) } });
+    }
+  },
+);
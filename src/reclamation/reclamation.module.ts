@@ -3,13 +3,17 @@ import { ReclamationService } from './reclamation.service';
 import { ReclamationController } from './reclamation.controller';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Reclamation, ReclamationSchema } from './schemas/reclamation.schema';
+import { NotificationModule } from '../notification/notification.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Reclamation.name, schema: ReclamationSchema }])
+    MongooseModule.forFeature([
+      { name: Reclamation.name, schema: ReclamationSchema },
+    ]),
+    NotificationModule,
   ],
   controllers: [ReclamationController],
   providers: [ReclamationService],
-  exports: [ReclamationService]
+  exports: [ReclamationService],
 })
-export class ReclamationModule {}
\ No newline at end of file
+export class ReclamationModule {}
@@ -1,23 +1,40 @@
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Reclamation, ReclamationDocument, ReclamationType } from './schemas/reclamation.schema';
+import {
+  Reclamation,
+  ReclamationDocument,
+  ReclamationType,
+} from './schemas/reclamation.schema';
 import { CreateReclamationDto } from './dto/create-reclamation.dto';
 import { UpdateReclamationDto } from './dto/update-reclamation.dto';
+import { NotificationService } from '../notification/notification.service';
+import { NotificationType } from '../notification/schemas/notification.schema';
 
 @Injectable()
 export class ReclamationService {
   constructor(
-    @InjectModel(Reclamation.name) private reclamationModel: Model<ReclamationDocument>,
+    @InjectModel(Reclamation.name)
+    private reclamationModel: Model<ReclamationDocument>,
+    private readonly notificationService: NotificationService,
   ) {}
 
-  async create(createReclamationDto: CreateReclamationDto, userId?: string): Promise<ReclamationDocument> {
+  async create(
+    createReclamationDto: CreateReclamationDto,
+    userId?: string,
+  ): Promise<ReclamationDocument> {
     const createdReclamation = new this.reclamationModel({
       ...createReclamationDto,
-      date: createReclamationDto.date ? new Date(createReclamationDto.date) : new Date(),
+      date: createReclamationDto.date
+        ? new Date(createReclamationDto.date)
+        : new Date(),
       userId: userId ? new Types.ObjectId(userId) : undefined,
     });
-    
+
     return createdReclamation.save();
   }
 
@@ -37,8 +54,11 @@ export class ReclamationService {
   }
 
   async findOne(id: string, userId?: string): Promise<ReclamationDocument> {
-    const reclamation = await this.reclamationModel.findById(id).populate('userId', 'nom email').exec();
-    
+    const reclamation = await this.reclamationModel
+      .findById(id)
+      .populate('userId', 'nom email')
+      .exec();
+
     if (!reclamation) {
       throw new NotFoundException(`Réclamation avec ID ${id} non trouvée`);
     }
@@ -46,10 +66,10 @@ export class ReclamationService {
     // FIXED: Proper user ID comparison for populated userId
     if (userId && reclamation.userId) {
       // When populated, userId becomes an object with _id property
-      const reclamationUserId = (reclamation.userId as any)._id 
-        ? (reclamation.userId as any)._id.toString() 
+      const reclamationUserId = (reclamation.userId as any)._id
+        ? (reclamation.userId as any)._id.toString()
         : reclamation.userId.toString();
-      
+
       if (reclamationUserId !== userId.toString()) {
         throw new ForbiddenException('Accès non autorisé à cette réclamation');
       }
@@ -58,20 +78,28 @@ export class ReclamationService {
     return reclamation;
   }
 
-  async update(id: string, updateReclamationDto: UpdateReclamationDto, userId?: string): Promise<ReclamationDocument> {
+  async update(
+    id: string,
+    updateReclamationDto: UpdateReclamationDto,
+    userId?: string,
+  ): Promise<ReclamationDocument> {
     const reclamation = await this.reclamationModel.findById(id).exec();
-    
+
     if (!reclamation) {
       throw new NotFoundException(`Réclamation avec ID ${id} non trouvée`);
     }
 
     // FIXED: User ownership check
-    if (userId && reclamation.userId && reclamation.userId.toString() !== userId.toString()) {
+    if (
+      userId &&
+      reclamation.userId &&
+      reclamation.userId.toString() !== userId.toString()
+    ) {
       throw new ForbiddenException('Accès non autorisé à cette réclamation');
     }
 
     const updateData: any = { ...updateReclamationDto };
-    
+
     // Handle date conversion if provided
     if (updateReclamationDto.date) {
       updateData.date = new Date(updateReclamationDto.date);
@@ -83,7 +111,9 @@ export class ReclamationService {
       .exec();
 
     if (!updatedReclamation) {
-      throw new NotFoundException(`Réclamation avec ID ${id} non trouvée après mise à jour`);
+      throw new NotFoundException(
+        `Réclamation avec ID ${id} non trouvée après mise à jour`,
+      );
     }
 
     return updatedReclamation;
@@ -91,20 +121,28 @@ export class ReclamationService {
 
   async remove(id: string, userId?: string): Promise<ReclamationDocument> {
     const reclamation = await this.reclamationModel.findById(id).exec();
-    
+
     if (!reclamation) {
       throw new NotFoundException(`Réclamation avec ID ${id} non trouvée`);
     }
 
     // If userId is provided, check if the user owns this reclamation
-    if (userId && reclamation.userId && reclamation.userId.toString() !== userId.toString()) {
+    if (
+      userId &&
+      reclamation.userId &&
+      reclamation.userId.toString() !== userId.toString()
+    ) {
       throw new ForbiddenException('Accès non autorisé à cette réclamation');
     }
 
-    const deletedReclamation = await this.reclamationModel.findByIdAndDelete(id).exec();
-    
+    const deletedReclamation = await this.reclamationModel
+      .findByIdAndDelete(id)
+      .exec();
+
     if (!deletedReclamation) {
-      throw new NotFoundException(`Réclamation avec ID ${id} non trouvée après suppression`);
+      throw new NotFoundException(
+        `Réclamation avec ID ${id} non trouvée après suppression`,
+      );
     }
 
     return deletedReclamation;
@@ -118,15 +156,23 @@ export class ReclamationService {
       .exec();
   }
 
-  async updateStatus(id: string, status: string, userId?: string): Promise<ReclamationDocument> {
+  async updateStatus(
+    id: string,
+    status: string,
+    userId?: string,
+  ): Promise<ReclamationDocument> {
     const reclamation = await this.reclamationModel.findById(id).exec();
-    
+
     if (!reclamation) {
       throw new NotFoundException(`Réclamation avec ID ${id} non trouvée`);
     }
 
     // If userId is provided, check if the user owns this reclamation
-    if (userId && reclamation.userId && reclamation.userId.toString() !== userId.toString()) {
+    if (
+      userId &&
+      reclamation.userId &&
+      reclamation.userId.toString() !== userId.toString()
+    ) {
       throw new ForbiddenException('Accès non autorisé à cette réclamation');
     }
 
@@ -136,55 +182,71 @@ export class ReclamationService {
       .exec();
 
     if (!updatedReclamation) {
-      throw new NotFoundException(`Réclamation avec ID ${id} non trouvée après mise à jour du statut`);
+      throw new NotFoundException(
+        `Réclamation avec ID ${id} non trouvée après mise à jour du statut`,
+      );
+    }
+
+    if (reclamation.userId && reclamation.status !== status) {
+      await this.notificationService.notify({
+        recipient: reclamation.userId,
+        type: NotificationType.RECLAMATION_STATUS,
+        title: 'Your complaint was updated',
+        body: `Your complaint status is now: ${status}`,
+        data: { reclamationId: id, status },
+      });
     }
 
     return updatedReclamation;
   }
 
   async getStats(): Promise<{ type: string; count: number }[]> {
-    const result = await this.reclamationModel.aggregate([
-      {
-        $group: {
-          _id: '$type',
-          count: { $sum: 1 }
-        }
-      },
-      {
-        $sort: { count: -1 }
-      },
-      {
-        $project: {
-          type: '$_id',
-          count: 1,
-          _id: 0
-        }
-      }
-    ]).exec();
+    const result = await this.reclamationModel
+      .aggregate([
+        {
+          $group: {
+            _id: '$type',
+            count: { $sum: 1 },
+          },
+        },
+        {
+          $sort: { count: -1 },
+        },
+        {
+          $project: {
+            type: '$_id',
+            count: 1,
+            _id: 0,
+          },
+        },
+      ])
+      .exec();
 
     return result;
   }
 
   async getStatusStats(): Promise<{ status: string; count: number }[]> {
-    const result = await this.reclamationModel.aggregate([
-      {
-        $group: {
-          _id: '$status',
-          count: { $sum: 1 }
-        }
-      },
-      {
-        $sort: { count: -1 }
-      },
-      {
-        $project: {
-          status: '$_id',
-          count: 1,
-          _id: 0
-        }
-      }
-    ]).exec();
+    const result = await this.reclamationModel
+      .aggregate([
+        {
+          $group: {
+            _id: '$status',
+            count: { $sum: 1 },
+          },
+        },
+        {
+          $sort: { count: -1 },
+        },
+        {
+          $project: {
+            status: '$_id',
+            count: 1,
+            _id: 0,
+          },
+        },
+      ])
+      .exec();
 
     return result;
   }
-}
\ No newline at end of file
+}
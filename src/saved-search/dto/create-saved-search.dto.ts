@@ -0,0 +1,72 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { JobType, Shift } from '../../offre/schemas/offre.schema';
+
+export class CreateSavedSearchDto {
+  @ApiProperty({
+    example: 'Serveur le week-end',
+    description: 'Defaults to the keywords, tags and city',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ example: 'serveur restaurant', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  keywords?: string;
+
+  @ApiProperty({
+    example: ['weekend'],
+    description: 'Array or comma separated, offers having any of the tags',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiProperty({ example: 'Tunis', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  city?: string;
+
+  @ApiProperty({ enum: JobType, required: false })
+  @IsOptional()
+  @IsEnum(JobType)
+  jobType?: JobType;
+
+  @ApiProperty({ enum: Shift, required: false })
+  @IsOptional()
+  @IsEnum(Shift)
+  shift?: Shift;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  alertsEnabled?: boolean;
+}
@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SavedSearchService } from './saved-search.service';
+import { CreateSavedSearchDto } from './dto/create-saved-search.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { UserDocument } from '../User/schemas/user.schema';
+
+@ApiTags('saved-searches')
+@Controller('user/me/saved-searches')
+export class SavedSearchController {
+  constructor(private readonly savedSearchService: SavedSearchService) {}
+
+  @Post()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Save a search',
+    description: 'New offers matching it are sent in the saved search digest',
+  })
+  @ApiResponse({ status: 201, description: 'Search saved' })
+  @ApiResponse({
+    status: 400,
+    description: 'No criteria or too many saved searches',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @UseGuards(JwtAuthGuard)
+  async create(
+    @Body() createDto: CreateSavedSearchDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const userId = user._id.toString();
+    return this.savedSearchService.create(userId.toString(), createDto);
+  }
+
+  @Get()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List my saved searches' })
+  @ApiResponse({ status: 200, description: 'Saved searches, newest first' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @UseGuards(JwtAuthGuard)
+  async findAll(@CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.savedSearchService.findAll(userId.toString());
+  }
+
+  @Delete(':id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a saved search' })
+  @ApiResponse({ status: 200, description: 'Saved search deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Saved search not found' })
+  @UseGuards(JwtAuthGuard)
+  async remove(@Param('id') id: string, @CurrentUser() user: UserDocument) {
+    const userId = user._id.toString();
+    return this.savedSearchService.remove(userId.toString(), id);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SavedSearchController } from './saved-search.controller';
+import { SavedSearchService } from './saved-search.service';
+import { SavedSearch, SavedSearchSchema } from './schemas/saved-search.schema';
+import { Offre, OffreSchema } from '../offre/schemas/offre.schema';
+import { NotificationModule } from '../notification/notification.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SavedSearch.name, schema: SavedSearchSchema },
+      { name: Offre.name, schema: OffreSchema },
+    ]),
+    NotificationModule,
+  ],
+  controllers: [SavedSearchController],
+  providers: [SavedSearchService],
+  exports: [SavedSearchService],
+})
+export class SavedSearchModule {}
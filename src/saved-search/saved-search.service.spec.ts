@@ -0,0 +1,224 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SavedSearchService, matchesSavedSearch } from './saved-search.service';
+import { SavedSearch } from './schemas/saved-search.schema';
+import {
+  JobType,
+  Offre,
+  OffreDocument,
+  Shift,
+} from '../offre/schemas/offre.schema';
+import { NotificationService } from '../notification/notification.service';
+
+type Doc = Record<string, any>;
+type DigestStage = { $match?: { $or: { createdAt: { $gt: Date } }[] } };
+type DigestWrite = { updateOne: { filter: Doc; update: Doc } };
+type DigestNotification = { recipient: Types.ObjectId; body: string };
+
+const NOW = new Date('2025-06-10T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+const ago = (ms: number) => new Date(NOW.getTime() - ms);
+
+function offer(values: Doc) {
+  return {
+    _id: new Types.ObjectId(),
+    title: 'Offre',
+    tags: [],
+    ...values,
+  } as unknown as OffreDocument;
+}
+
+function search(values: Doc) {
+  return {
+    _id: new Types.ObjectId(),
+    user: new Types.ObjectId(),
+    name: 'Recherche',
+    tags: [],
+    alertsEnabled: true,
+    ...values,
+  };
+}
+
+/** Models serving the digest queries from fixed lists */
+function digestModels(searches: Doc[], offers: Doc[]) {
+  const pipelines: DigestStage[][] = [];
+  const writes: DigestWrite[] = [];
+  const notifications: DigestNotification[] = [];
+  const oldest = [...searches].sort(
+    (a, b) =>
+      (a.lastCheckedAt as Date).getTime() - (b.lastCheckedAt as Date).getTime(),
+  )[0];
+
+  const savedSearchModel = {
+    findOne: () => {
+      const chain = {
+        sort: () => chain,
+        select: () => chain,
+        exec: () => Promise.resolve(oldest ?? null),
+      };
+      return chain;
+    },
+    find: () => ({ cursor: () => searches }),
+    bulkWrite: (ops: DigestWrite[]) => {
+      writes.push(...ops);
+      return Promise.resolve();
+    },
+  };
+  const offreModel = {
+    aggregate: (pipeline: DigestStage[]) => {
+      pipelines.push(pipeline);
+      return { exec: () => Promise.resolve(offers) };
+    },
+    hydrate: (doc: Doc) => doc,
+  };
+  const notificationService = {
+    notify: (notification: DigestNotification) => {
+      notifications.push(notification);
+      return Promise.resolve();
+    },
+  };
+
+  return {
+    pipelines,
+    writes,
+    notifications,
+    providers: [
+      SavedSearchService,
+      { provide: getModelToken(SavedSearch.name), useValue: savedSearchModel },
+      { provide: getModelToken(Offre.name), useValue: offreModel },
+      { provide: NotificationService, useValue: notificationService },
+    ],
+  };
+}
+
+describe('matchesSavedSearch', () => {
+  const serveur = offer({
+    title: 'Serveur à Tunis',
+    description: 'Service en salle le week-end',
+    company: 'Café Central',
+    tags: ['Weekend', 'Restauration'],
+    location: { city: 'Tunis' },
+    jobType: JobType.JOB,
+    shift: Shift.JOUR,
+  });
+
+  it('matches keywords by word prefix, ignoring accents and case', () => {
+    expect(matchesSavedSearch({ keywords: 'SERV cafe' }, serveur)).toBe(true);
+    expect(matchesSavedSearch({ keywords: 'salle week' }, serveur)).toBe(true);
+    expect(matchesSavedSearch({ keywords: 'serveur cuisine' }, serveur)).toBe(
+      false,
+    );
+  });
+
+  it('needs one of the tags and the same city', () => {
+    expect(
+      matchesSavedSearch({ tags: ['weekend', 'nuit'], city: 'tunis' }, serveur),
+    ).toBe(true);
+    expect(matchesSavedSearch({ tags: ['nuit'] }, serveur)).toBe(false);
+    expect(matchesSavedSearch({ city: 'Sousse' }, serveur)).toBe(false);
+  });
+
+  it('filters on job type and shift', () => {
+    expect(
+      matchesSavedSearch(
+        { jobType: JobType.JOB, shift: Shift.JOUR, keywords: 'serveur' },
+        serveur,
+      ),
+    ).toBe(true);
+    expect(matchesSavedSearch({ jobType: JobType.STAGE }, serveur)).toBe(false);
+    expect(matchesSavedSearch({ shift: Shift.NUIT }, serveur)).toBe(false);
+  });
+});
+
+describe('SavedSearchService.runDigest', () => {
+  async function runDigest(searches: Doc[], offers: Doc[]) {
+    const models = digestModels(searches, offers);
+    const moduleRef = await Test.createTestingModule({
+      providers: models.providers,
+    }).compile();
+    jest.useFakeTimers({ now: NOW });
+    try {
+      const result = await moduleRef.get(SavedSearchService).runDigest();
+      return { ...models, result };
+    } finally {
+      jest.useRealTimers();
+    }
+  }
+
+  const since = (pipeline: DigestStage[]) =>
+    pipeline[0].$match!.$or[0].createdAt.$gt.toISOString();
+
+  it('reads offers since the oldest search last checked', async () => {
+    const { pipelines } = await runDigest(
+      [
+        search({ lastCheckedAt: ago(DAY) }),
+        search({ lastCheckedAt: ago(2 * DAY) }),
+      ],
+      [],
+    );
+
+    expect(since(pipelines[0])).toBe(ago(2 * DAY).toISOString());
+  });
+
+  it('looks back one week at most', async () => {
+    const { pipelines } = await runDigest(
+      [search({ lastCheckedAt: ago(30 * DAY) })],
+      [],
+    );
+
+    expect(since(pipelines[0])).toBe(ago(7 * DAY).toISOString());
+  });
+
+  it('does nothing when no search is due', async () => {
+    const { pipelines, result } = await runDigest([], []);
+
+    expect(result).toEqual({ searches: 0, notified: 0, offers: 0 });
+    expect(pipelines).toHaveLength(0);
+  });
+
+  it('only reports offers published after each search was checked', async () => {
+    const recent = search({ keywords: 'serveur', lastCheckedAt: ago(DAY) });
+    const older = search({ keywords: 'serveur', lastCheckedAt: ago(3 * DAY) });
+    const offers = [
+      { ...offer({ title: 'Serveur A' }), publishedAt: ago(2 * DAY) },
+      { ...offer({ title: 'Serveur B' }), publishedAt: ago(DAY / 2) },
+      { ...offer({ title: 'Cuisinier' }), publishedAt: ago(DAY / 4) },
+    ];
+
+    const { notifications, writes, result } = await runDigest(
+      [recent, older],
+      offers,
+    );
+
+    expect(result).toEqual({ searches: 2, notified: 2, offers: 3 });
+    expect(notifications.map((n) => [n.recipient, n.body])).toEqual([
+      [recent.user, 'Serveur B'],
+      [older.user, '2 new offers match your saved search, including Serveur B'],
+    ]);
+    expect(writes[0]).toEqual({
+      updateOne: {
+        filter: { _id: recent._id },
+        update: { $max: { lastCheckedAt: NOW }, $set: { lastAlertAt: NOW } },
+      },
+    });
+  });
+
+  it('leaves the last instant of a full page to the next run', async () => {
+    const last = ago(DAY);
+    const offers = Array.from({ length: 1000 }, (_, i) => ({
+      ...offer({ title: `Serveur ${i}` }),
+      publishedAt: i < 998 ? new Date(last.getTime() - (998 - i)) : last,
+    }));
+
+    const { writes, result } = await runDigest(
+      [search({ keywords: 'cuisinier', lastCheckedAt: ago(2 * DAY) })],
+      offers,
+    );
+
+    expect(result.offers).toBe(998);
+    expect(writes[0].updateOne.update).toEqual({
+      $max: { lastCheckedAt: new Date(last.getTime() - 1) },
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, Model, Types } from 'mongoose';
+import {
+  SavedSearch,
+  SavedSearchDocument,
+} from './schemas/saved-search.schema';
+import { CreateSavedSearchDto } from './dto/create-saved-search.dto';
+import { Offre, OffreDocument } from '../offre/schemas/offre.schema';
+import {
+  buildSearchIndex,
+  normalizeSearchText,
+  tokenize,
+} from '../offre/offre-search';
+import { NotificationService } from '../notification/notification.service';
+import { NotificationType } from '../notification/schemas/notification.schema';
+
+const MAX_SAVED_SEARCHES = 20;
+// A digest that did not run for a while only reports the last week
+const MAX_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 500;
+// Offers loaded per digest run, a longer backlog is picked up by the next runs
+const MAX_DIGEST_OFFERS = 1000;
+
+type SearchCriteria = Partial<
+  Pick<SavedSearch, 'keywords' | 'tags' | 'city' | 'jobType' | 'shift'>
+>;
+
+/** Same rules as the offer search: accent-insensitive, prefix match per word */
+export function matchesSavedSearch(
+  search: SearchCriteria,
+  offre: OffreDocument,
+): boolean {
+  if (search.jobType && offre.jobType !== search.jobType) return false;
+  if (search.shift && offre.shift !== search.shift) return false;
+  if (
+    search.city &&
+    normalizeSearchText(search.city) !==
+      normalizeSearchText(offre.location?.city)
+  ) {
+    return false;
+  }
+  if (search.tags?.length) {
+    const offreTags = new Set((offre.tags ?? []).map(normalizeSearchText));
+    if (!search.tags.some((tag) => offreTags.has(normalizeSearchText(tag)))) {
+      return false;
+    }
+  }
+
+  const terms = tokenize(search.keywords);
+  if (terms.length > 0) {
+    const index = offre.searchIndex ?? buildSearchIndex(offre);
+    const words = `${index.title} ${index.tags} ${index.company} ${index.body}`
+      .split(' ')
+      .filter(Boolean);
+    return terms.every((term) => words.some((word) => word.startsWith(term)));
+  }
+
+  return true;
+}
+
+@Injectable()
+export class SavedSearchService {
+  constructor(
+    @InjectModel(SavedSearch.name)
+    private savedSearchModel: Model<SavedSearchDocument>,
+    @InjectModel(Offre.name) private offreModel: Model<OffreDocument>,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  async create(
+    userId: string,
+    createDto: CreateSavedSearchDto,
+  ): Promise<SavedSearchDocument> {
+    const { name, ...criteria } = createDto;
+    if (
+      !criteria.keywords?.trim() &&
+      !criteria.tags?.length &&
+      !criteria.city?.trim() &&
+      !criteria.jobType &&
+      !criteria.shift
+    ) {
+      throw new BadRequestException(
+        'A saved search needs keywords, tags, a city, a job type or a shift',
+      );
+    }
+
+    const count = await this.savedSearchModel
+      .countDocuments({ user: new Types.ObjectId(userId) })
+      .exec();
+    if (count >= MAX_SAVED_SEARCHES) {
+      throw new BadRequestException(
+        `You can save up to ${MAX_SAVED_SEARCHES} searches`,
+      );
+    }
+
+    return this.savedSearchModel.create({
+      ...criteria,
+      name: name?.trim() || this.defaultName(criteria),
+      user: new Types.ObjectId(userId),
+    });
+  }
+
+  async findAll(userId: string): Promise<SavedSearchDocument[]> {
+    return this.savedSearchModel
+      .find({ user: new Types.ObjectId(userId) })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async remove(userId: string, id: string): Promise<{ message: string }> {
+    const deleted = Types.ObjectId.isValid(id)
+      ? await this.savedSearchModel
+          .findOneAndDelete({ _id: id, user: new Types.ObjectId(userId) })
+          .exec()
+      : null;
+    if (!deleted) {
+      throw new NotFoundException(`Saved search with ID ${id} not found`);
+    }
+    return { message: 'Saved search deleted successfully' };
+  }
+
+  /**
+   * Notifies every user whose saved search matches offers published (or
+   * approved by a moderator) since the previous digest. Offers are read
+   * oldest first; when there are more than MAX_DIGEST_OFFERS, searches only
+   * move forward to the last offer read.
+   */
+  async runDigest(): Promise<{
+    searches: number;
+    notified: number;
+    offers: number;
+  }> {
+    const now = new Date();
+    const due = { alertsEnabled: true, lastCheckedAt: { $lt: now } };
+
+    const oldest = await this.savedSearchModel
+      .findOne(due)
+      .sort({ lastCheckedAt: 1 })
+      .select('lastCheckedAt')
+      .exec();
+    if (!oldest) {
+      return { searches: 0, notified: 0, offers: 0 };
+    }
+
+    const since = new Date(
+      Math.max(oldest.lastCheckedAt.getTime(), now.getTime() - MAX_LOOKBACK_MS),
+    );
+    const page = await this.offreModel
+      .aggregate<Offre & { publishedAt: Date }>([
+        {
+          $match: {
+            isActive: true,
+            $or: [
+              { createdAt: { $gt: since, $lte: now } },
+              { moderatedAt: { $gt: since, $lte: now } },
+            ],
+          },
+        },
+        {
+          $addFields: {
+            publishedAt: { $max: ['$createdAt', '$moderatedAt'] },
+          },
+        },
+        { $sort: { publishedAt: 1, _id: 1 } },
+        { $limit: MAX_DIGEST_OFFERS },
+      ])
+      .exec();
+
+    // A full page ends just before its last instant, whose offers may not all
+    // fit in the page: the next run reads them together
+    let until = now;
+    let offers = page;
+    if (page.length === MAX_DIGEST_OFFERS) {
+      const last = page[page.length - 1].publishedAt.getTime();
+      const before = page.filter((offre) => offre.publishedAt.getTime() < last);
+      if (before.length > 0) {
+        offers = before;
+        until = new Date(last - 1);
+      } else {
+        until = new Date(last);
+      }
+    }
+    const published = offers
+      // Approved after this run started: left to the next run
+      .filter((offre) => offre.publishedAt <= until)
+      .map((offre) => ({
+        publishedAt: offre.publishedAt.getTime(),
+        offre: this.offreModel.hydrate(offre),
+      }));
+
+    let searches = 0;
+    let notified = 0;
+    let batch: AnyBulkWriteOperation<SavedSearch>[] = [];
+
+    for await (const search of this.savedSearchModel.find(due).cursor()) {
+      searches++;
+      const matches = published
+        .filter(
+          ({ publishedAt, offre }) =>
+            publishedAt > search.lastCheckedAt.getTime() &&
+            matchesSavedSearch(search, offre),
+        )
+        .map(({ offre }) => offre)
+        // Newest first in the notification
+        .reverse();
+
+      if (matches.length > 0) {
+        notified++;
+        await this.notificationService.notify({
+          recipient: search.user,
+          type: NotificationType.SAVED_SEARCH_ALERT,
+          title: `New offers for "${search.name}"`,
+          body:
+            matches.length === 1
+              ? matches[0].title
+              : `${matches.length} new offers match your saved search, including ${matches[0].title}`,
+          data: {
+            savedSearchId: search._id.toString(),
+            offreIds: matches.slice(0, 10).map((offre) => offre._id.toString()),
+          },
+        });
+      }
+
+      batch.push({
+        updateOne: {
+          filter: { _id: search._id },
+          update: {
+            // Searches already checked past `until` keep their date
+            $max: { lastCheckedAt: until },
+            ...(matches.length > 0 && { $set: { lastAlertAt: now } }),
+          },
+        },
+      });
+      if (batch.length >= BATCH_SIZE) {
+        await this.savedSearchModel.bulkWrite(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await this.savedSearchModel.bulkWrite(batch);
+    }
+
+    return { searches, notified, offers: published.length };
+  }
+
+  private defaultName(criteria: SearchCriteria): string {
+    return (
+      [
+        criteria.keywords?.trim(),
+        criteria.tags?.join(', '),
+        criteria.city?.trim(),
+        criteria.jobType,
+        criteria.shift,
+      ]
+        .filter(Boolean)
+        .join(' · ')
+        .slice(0, 100) || 'Saved search'
+    );
+  }
+}
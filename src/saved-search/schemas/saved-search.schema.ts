@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { JobType, Shift } from '../../offre/schemas/offre.schema';
+
+export type SavedSearchDocument = HydratedDocument<SavedSearch>;
+
+@Schema({ timestamps: true, versionKey: false })
+export class SavedSearch {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @ApiProperty({ example: 'Serveur le week-end' })
+  @Prop({ type: String, required: true, trim: true })
+  name: string;
+
+  @ApiProperty({ example: 'serveur restaurant', required: false })
+  @Prop({ type: String, trim: true })
+  keywords?: string;
+
+  @ApiProperty({ example: ['weekend'], required: false })
+  @Prop({ type: [String], default: [] })
+  tags: string[];
+
+  @ApiProperty({ example: 'Tunis', required: false })
+  @Prop({ type: String, trim: true })
+  city?: string;
+
+  @ApiProperty({ enum: JobType, required: false })
+  @Prop({ type: String, enum: JobType })
+  jobType?: JobType;
+
+  @ApiProperty({ enum: Shift, required: false })
+  @Prop({ type: String, enum: Shift })
+  shift?: Shift;
+
+  @ApiProperty({ example: true, description: 'Notify when new offers match' })
+  @Prop({ type: Boolean, default: true })
+  alertsEnabled: boolean;
+
+  @ApiProperty({
+    example: new Date(),
+    description: 'Offers published after this date are new for the digest',
+  })
+  @Prop({ type: Date, default: Date.now })
+  lastCheckedAt: Date;
+
+  @ApiProperty({ example: new Date(), required: false })
+  @Prop({ type: Date })
+  lastAlertAt?: Date;
+}
+
+export const SavedSearchSchema = SchemaFactory.createForClass(SavedSearch);
+
+SavedSearchSchema.index({ user: 1, createdAt: -1 });
+SavedSearchSchema.index({ alertsEnabled: 1, lastCheckedAt: 1 });
@@ -10,7 +10,14 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiConsumes, ApiBody, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiConsumes,
+  ApiBody,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { ScheduleService, ProcessedSchedule, Course } from './schedule.service';
 import { memoryStorage } from 'multer';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
@@ -22,9 +29,10 @@ export class ScheduleController {
   constructor(private readonly scheduleService: ScheduleService) {}
 
   @Post('process')
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Process schedule image',
-    description: 'Upload an image of a schedule (JPG, PNG), extract text via OCR, and return structured JSON'
+    description:
+      'Upload an image of a schedule (JPG, PNG), extract text via OCR, and return structured JSON',
   })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
@@ -41,8 +49,8 @@ export class ScheduleController {
       required: ['file'],
     },
   })
-  @ApiResponse({ 
-    status: 200, 
+  @ApiResponse({
+    status: 200,
     description: 'Schedule processed successfully',
     schema: {
       type: 'object',
@@ -72,12 +80,20 @@ export class ScheduleController {
         // Validate image file (JPG, PNG, JPEG)
         const allowedMimeTypes = ['image/jpeg', 'image/jpg', 'image/png'];
         const allowedExtensions = ['.jpg', '.jpeg', '.png'];
-        const fileExtension = file.originalname.toLowerCase().substring(file.originalname.lastIndexOf('.'));
-        
-        if (allowedMimeTypes.includes(file.mimetype) || allowedExtensions.includes(fileExtension)) {
+        const fileExtension = file.originalname
+          .toLowerCase()
+          .substring(file.originalname.lastIndexOf('.'));
+
+        if (
+          allowedMimeTypes.includes(file.mimetype) ||
+          allowedExtensions.includes(fileExtension)
+        ) {
           cb(null, true);
         } else {
-          cb(new BadRequestException('Only image files (JPG, PNG) are allowed'), false);
+          cb(
+            new BadRequestException('Only image files (JPG, PNG) are allowed'),
+            false,
+          );
         }
       },
       limits: {
@@ -85,7 +101,9 @@ export class ScheduleController {
       },
     }),
   )
-  async processSchedule(@UploadedFile() file: Express.Multer.File): Promise<ProcessedSchedule> {
+  async processSchedule(
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<ProcessedSchedule> {
     try {
       if (!file) {
         throw new BadRequestException('No image file provided');
@@ -94,14 +112,21 @@ export class ScheduleController {
       // Validate image file type
       const allowedMimeTypes = ['image/jpeg', 'image/jpg', 'image/png'];
       const allowedExtensions = ['.jpg', '.jpeg', '.png'];
-      const fileExtension = file.originalname.toLowerCase().substring(file.originalname.lastIndexOf('.'));
-      
-      if (!allowedMimeTypes.includes(file.mimetype) && !allowedExtensions.includes(fileExtension)) {
+      const fileExtension = file.originalname
+        .toLowerCase()
+        .substring(file.originalname.lastIndexOf('.'));
+
+      if (
+        !allowedMimeTypes.includes(file.mimetype) &&
+        !allowedExtensions.includes(fileExtension)
+      ) {
         throw new BadRequestException('File must be an image (JPG or PNG)');
       }
 
-      const result = await this.scheduleService.processScheduleImage(file.buffer);
-      
+      const result = await this.scheduleService.processScheduleImage(
+        file.buffer,
+      );
+
       return {
         courses: result.courses,
       };
@@ -119,9 +144,9 @@ export class ScheduleController {
   @Post('create-events')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Create events from courses',
-    description: 'Convert extracted courses to calendar events automatically'
+    description: 'Convert extracted courses to calendar events automatically',
   })
   @ApiBody({
     description: 'Courses data and optional week start date',
@@ -144,15 +169,23 @@ export class ScheduleController {
         weekStartDate: {
           type: 'string',
           format: 'date',
-          description: 'Start date of the week (YYYY-MM-DD). If not provided, uses current week Monday',
+          description:
+            'Start date of the week (YYYY-MM-DD). If not provided, uses current week Monday',
           example: '2024-12-01',
         },
+        until: {
+          type: 'string',
+          format: 'date',
+          description:
+            'Last day of the term (YYYY-MM-DD). When provided, each course repeats every week until this date',
+          example: '2025-01-31',
+        },
       },
       required: ['courses'],
     },
   })
-  @ApiResponse({ 
-    status: 201, 
+  @ApiResponse({
+    status: 201,
     description: 'Events created successfully',
     schema: {
       type: 'object',
@@ -180,22 +213,38 @@ export class ScheduleController {
   @ApiResponse({ status: 400, description: 'Invalid courses data' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async createEventsFromCourses(
-    @Body() body: { courses: Course[]; weekStartDate?: string },
+    @Body() body: { courses: Course[]; weekStartDate?: string; until?: string },
     @CurrentUser() user: any,
   ) {
     try {
-      if (!body.courses || !Array.isArray(body.courses) || body.courses.length === 0) {
-        throw new BadRequestException('Courses array is required and must not be empty');
+      if (
+        !body.courses ||
+        !Array.isArray(body.courses) ||
+        body.courses.length === 0
+      ) {
+        throw new BadRequestException(
+          'Courses array is required and must not be empty',
+        );
       }
 
       const userId = user.userId || user._id || user.id;
-      
+
       // Convertir weekStartDate en Date si fournie
       let weekStartDate: Date | undefined;
       if (body.weekStartDate) {
         weekStartDate = new Date(body.weekStartDate);
         if (isNaN(weekStartDate.getTime())) {
-          throw new BadRequestException('Invalid weekStartDate format. Use YYYY-MM-DD');
+          throw new BadRequestException(
+            'Invalid weekStartDate format. Use YYYY-MM-DD',
+          );
+        }
+      }
+
+      let until: Date | undefined;
+      if (body.until) {
+        until = new Date(body.until);
+        if (isNaN(until.getTime())) {
+          throw new BadRequestException('Invalid until format. Use YYYY-MM-DD');
         }
       }
 
@@ -203,6 +252,7 @@ export class ScheduleController {
         body.courses,
         userId,
         weekStartDate,
+        until,
       );
 
       return {
@@ -221,4 +271,3 @@ export class ScheduleController {
     }
   }
 }
-
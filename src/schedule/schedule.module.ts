@@ -2,12 +2,12 @@ import { Module } from '@nestjs/common';
 import { ScheduleController } from './schedule.controller';
 import { ScheduleService } from './schedule.service';
 import { EvenementModule } from '../evenement/evenement.module';
+import { AiProviderModule } from '../ai-provider/ai-provider.module';
 
 @Module({
-  imports: [EvenementModule],
+  imports: [EvenementModule, AiProviderModule],
   controllers: [ScheduleController],
   providers: [ScheduleService],
   exports: [ScheduleService],
 })
 export class ScheduleModule {}
-
@@ -2,19 +2,24 @@ import { Module } from '@nestjs/common';
 import { StudentPreferenceService } from './student_preference.service';
 import { StudentPreferenceController } from './student_preference.controller';
 import { MongooseModule } from '@nestjs/mongoose';
-import { StudentPreference, StudentPreferenceSchema } from './schemas/student_preference.schema';
+import {
+  StudentPreference,
+  StudentPreferenceSchema,
+} from './schemas/student_preference.schema';
+import { AiMatchingModule } from '../ai-matching/ai-matching.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
-      { 
-        name: StudentPreference.name, 
-        schema: StudentPreferenceSchema 
-      }
-    ])
+      {
+        name: StudentPreference.name,
+        schema: StudentPreferenceSchema,
+      },
+    ]),
+    AiMatchingModule,
   ],
   controllers: [StudentPreferenceController],
   providers: [StudentPreferenceService],
-  exports: [StudentPreferenceService]
+  exports: [StudentPreferenceService],
 })
-export class StudentPreferenceModule {}
\ No newline at end of file
+export class StudentPreferenceModule {}